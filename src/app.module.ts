@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common'
 import { AppController } from './app.controller'
 import { AppService } from './app.service'
 import { ConfigModule } from '@nestjs/config'
+import { ScheduleModule } from '@nestjs/schedule'
 import { AuthModule } from './modules/auth/auth.module'
 import { MongooseModule } from '@nestjs/mongoose'
 import { ProjectModule } from './modules/project/project.module'
@@ -11,6 +12,12 @@ import { EmailModule } from './modules/email/email.module'
 import { ExpenseModule } from './modules/expense/expense.module'
 import { CategoryModule } from './modules/category/category.module'
 import { CompanyModule } from './modules/company/company.module';
+import { AuditModule } from './modules/audit/audit.module'
+import { PaymentBatchModule } from './modules/payment-batch/payment-batch.module'
+import { BankReconciliationModule } from './modules/bank-reconciliation/bank-reconciliation.module'
+import { ExchangeRateModule } from './modules/exchange-rate/exchange-rate.module'
+import { BudgetModule } from './modules/budget/budget.module'
+import { TenantModule } from './modules/tenant/tenant.module'
 
 @Module({
   imports: [
@@ -18,6 +25,7 @@ import { CompanyModule } from './modules/company/company.module';
       isGlobal: true,
     }),
     MongooseModule.forRoot(process.env.MONGO_URI),
+    ScheduleModule.forRoot(),
     AuthModule,
     ProjectModule,
     InvoiceModule,
@@ -26,6 +34,12 @@ import { CompanyModule } from './modules/company/company.module';
     ExpenseModule,
     CategoryModule,
     CompanyModule,
+    AuditModule,
+    PaymentBatchModule,
+    BankReconciliationModule,
+    ExchangeRateModule,
+    BudgetModule,
+    TenantModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -7,6 +7,8 @@ import {
 } from '@nestjs/common'
 import { UserRole } from '../modules/auth/enums/user-role.enum'
 import { ProvidersService } from '../modules/providers/providers.service'
+import { AuthenticatedRequest } from '../modules/auth/interfaces/auth-context.interface'
+import { hasRole } from '../modules/auth/utils/auth-context.util'
 
 @Injectable()
 export class CompanyOwnershipGuard implements CanActivate {
@@ -15,14 +17,14 @@ export class CompanyOwnershipGuard implements CanActivate {
   constructor(private providersService: ProvidersService) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest()
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>()
     const user = request.user
 
-    if (user.role === UserRole.ADMIN) {
+    if (hasRole(user, UserRole.ADMIN)) {
       return true
     }
 
-    if (user.role === UserRole.COMPANY) {
+    if (hasRole(user, UserRole.COMPANY)) {
       const providerId = request.params.id || request.body.providerId
 
       if (!providerId) {
@@ -63,7 +65,7 @@ export class CompanyOwnershipGuard implements CanActivate {
       }
     }
 
-    if (user.role === UserRole.PROVIDER && user.providerId) {
+    if (hasRole(user, UserRole.PROVIDER) && user.providerId) {
       const providerId = request.params.id
       return providerId === user.providerId
     }
@@ -1,6 +1,8 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
 import { UserRole } from '../shared/enums/role.enum'
+import { AuthenticatedRequest } from '../modules/auth/interfaces/auth-context.interface'
+import { hasRole } from '../modules/auth/utils/auth-context.util'
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -16,7 +18,7 @@ export class RolesGuard implements CanActivate {
       return true
     }
 
-    const { user } = context.switchToHttp().getRequest()
-    return requiredRoles.some(role => user.role === role)
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>()
+    return !!user && hasRole(user, ...requiredRoles)
   }
 }
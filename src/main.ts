@@ -1,9 +1,20 @@
 import { NestFactory } from '@nestjs/core'
 import { AppModule } from './app.module'
 import { ValidationPipe } from '@nestjs/common'
+import { NestExpressApplication } from '@nestjs/platform-express'
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule)
+  const app = await NestFactory.create<NestExpressApplication>(AppModule)
+
+  // TRUST_PROXY: saltos o subredes de los proxies propios (p. ej. 1 o loopback).
+  // Sin él, req.ip es la conexión directa y X-Forwarded-For se ignora
+  const trustProxy = process.env.TRUST_PROXY
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy
+    )
+  }
 
   // Configuración de validación global
   app.useGlobalPipes(
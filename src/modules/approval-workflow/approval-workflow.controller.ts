@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common'
+import { ApprovalWorkflowService } from './approval-workflow.service'
+import { CreateApprovalWorkflowDto } from './dto/create-approval-workflow.dto'
+import { UpdateApprovalWorkflowDto } from './dto/update-approval-workflow.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('approval-workflows')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ApprovalWorkflowController {
+  constructor(
+    private readonly approvalWorkflowService: ApprovalWorkflowService
+  ) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createDto: CreateApprovalWorkflowDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.approvalWorkflowService.create(createDto, auth.companyId)
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
+  findAll(@CurrentAuth() auth: AuthContext) {
+    return this.approvalWorkflowService.findAll(auth.companyId)
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
+  findOne(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.approvalWorkflowService.findOne(id, auth.companyId)
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateApprovalWorkflowDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.approvalWorkflowService.update(id, updateDto, auth.companyId)
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.approvalWorkflowService.remove(id, auth.companyId)
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { ApprovalWorkflowService } from './approval-workflow.service'
+import { ApprovalWorkflowController } from './approval-workflow.controller'
+import {
+  ApprovalWorkflow,
+  ApprovalWorkflowSchema,
+} from './entities/approval-workflow.entity'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ApprovalWorkflow.name, schema: ApprovalWorkflowSchema },
+    ]),
+  ],
+  controllers: [ApprovalWorkflowController],
+  providers: [ApprovalWorkflowService],
+  exports: [ApprovalWorkflowService],
+})
+export class ApprovalWorkflowModule {}
@@ -0,0 +1,123 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+import {
+  ApprovalStepDefinition,
+  ApprovalWorkflow,
+  ApprovalWorkflowDocument,
+} from './entities/approval-workflow.entity'
+import { CreateApprovalWorkflowDto } from './dto/create-approval-workflow.dto'
+import { UpdateApprovalWorkflowDto } from './dto/update-approval-workflow.dto'
+import { ApproverType } from './enums/approver-type.enum'
+import {
+  ApprovalContext,
+  buildApprovalSteps,
+  selectWorkflow,
+} from './utils/approval-chain.util'
+
+@Injectable()
+export class ApprovalWorkflowService {
+  constructor(
+    @InjectModel(ApprovalWorkflow.name)
+    private workflowModel: Model<ApprovalWorkflowDocument>
+  ) {}
+
+  async create(
+    createDto: CreateApprovalWorkflowDto,
+    companyId: string
+  ): Promise<ApprovalWorkflowDocument> {
+    this.validateSteps(createDto)
+    return this.workflowModel.create({
+      ...createDto,
+      companyId: new Types.ObjectId(companyId),
+    })
+  }
+
+  async findAll(companyId: string): Promise<ApprovalWorkflowDocument[]> {
+    return this.workflowModel
+      .find({ companyId: new Types.ObjectId(companyId) })
+      .sort({ priority: -1 })
+      .exec()
+  }
+
+  async findOne(
+    id: string,
+    companyId: string
+  ): Promise<ApprovalWorkflowDocument> {
+    const workflow = await this.workflowModel
+      .findOne({ _id: id, companyId: new Types.ObjectId(companyId) })
+      .exec()
+    if (!workflow) {
+      throw new NotFoundException(
+        `Flujo de aprobación con ID ${id} no encontrado`
+      )
+    }
+    return workflow
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateApprovalWorkflowDto,
+    companyId: string
+  ): Promise<ApprovalWorkflowDocument> {
+    this.validateSteps(updateDto)
+    const workflow = await this.workflowModel
+      .findOneAndUpdate(
+        { _id: id, companyId: new Types.ObjectId(companyId) },
+        updateDto,
+        { new: true }
+      )
+      .exec()
+    if (!workflow) {
+      throw new NotFoundException(
+        `Flujo de aprobación con ID ${id} no encontrado`
+      )
+    }
+    return workflow
+  }
+
+  async remove(id: string, companyId: string): Promise<void> {
+    const result = await this.workflowModel
+      .findOneAndDelete({ _id: id, companyId: new Types.ObjectId(companyId) })
+      .exec()
+    if (!result) {
+      throw new NotFoundException(
+        `Flujo de aprobación con ID ${id} no encontrado`
+      )
+    }
+  }
+
+  // Pasos que debe recorrer un gasto según su categoría y monto
+  async resolveSteps(
+    companyId: string,
+    context: ApprovalContext
+  ): Promise<ApprovalStepDefinition[]> {
+    const workflows = await this.workflowModel
+      .find({ companyId: new Types.ObjectId(companyId), isActive: true })
+      .lean()
+      .exec()
+    return buildApprovalSteps(
+      selectWorkflow(workflows, context),
+      context.amount
+    )
+  }
+
+  private validateSteps(dto: UpdateApprovalWorkflowDto) {
+    for (const step of dto.steps ?? []) {
+      if (step.approverType === ApproverType.ROLE && !step.roles?.length) {
+        throw new BadRequestException(
+          `El paso "${step.name}" debe indicar al menos un rol`
+        )
+      }
+      if (step.approverType === ApproverType.USER && !step.userId) {
+        throw new BadRequestException(
+          `El paso "${step.name}" debe indicar el usuario aprobador`
+        )
+      }
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiProperty } from '@nestjs/swagger'
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { ApproverType } from '../enums/approver-type.enum'
+
+export class ApprovalStepDto {
+  @ApiProperty({ description: 'Nombre del paso', example: 'Jefe de proyecto' })
+  @IsString()
+  @IsNotEmpty()
+  name: string
+
+  @ApiProperty({ enum: ApproverType, example: ApproverType.ROLE })
+  @IsEnum(ApproverType)
+  approverType: ApproverType
+
+  @ApiProperty({
+    description: 'Roles que pueden aprobar (approverType = role)',
+    enum: UserRole,
+    isArray: true,
+    required: false,
+  })
+  @IsArray()
+  @IsEnum(UserRole, { each: true })
+  @IsOptional()
+  roles?: UserRole[]
+
+  @ApiProperty({
+    description: 'Usuario que debe aprobar (approverType = user)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  userId?: string
+
+  @ApiProperty({
+    description: 'Monto a partir del cual se exige el paso',
+    example: 5000,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minAmount?: number
+}
+
+export class CreateApprovalWorkflowDto {
+  @ApiProperty({ example: 'Gastos de obra' })
+  @IsString()
+  @IsNotEmpty()
+  name: string
+
+  @ApiProperty({
+    description: 'Categoría a la que aplica; vacío para todas',
+    required: false,
+  })
+  @IsMongoId()
+  @IsOptional()
+  categoryId?: string
+
+  @ApiProperty({ required: false })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minAmount?: number
+
+  @ApiProperty({ required: false })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxAmount?: number
+
+  @ApiProperty({ required: false, default: 0 })
+  @IsNumber()
+  @IsOptional()
+  priority?: number
+
+  @ApiProperty({ required: false, default: true })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean
+
+  @ApiProperty({ type: [ApprovalStepDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalStepDto)
+  steps: ApprovalStepDto[]
+}
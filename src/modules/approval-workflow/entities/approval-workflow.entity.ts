@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { ApproverType } from '../enums/approver-type.enum'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+@Schema({ _id: false })
+export class ApprovalStepDefinition {
+  @Prop({ required: true })
+  name: string
+
+  @Prop({ required: true, enum: ApproverType })
+  approverType: ApproverType
+
+  @Prop({ type: [String], enum: UserRole, default: [] })
+  roles: UserRole[]
+
+  @Prop({ type: String, ref: 'User' })
+  userId?: string
+
+  // El paso solo se exige si el monto del gasto es mayor o igual a este valor
+  @Prop()
+  minAmount?: number
+}
+
+export const ApprovalStepDefinitionSchema = SchemaFactory.createForClass(
+  ApprovalStepDefinition
+)
+
+export interface ApprovalWorkflowDocument extends Document {
+  name: string
+  companyId: Types.ObjectId
+  categoryId?: Types.ObjectId
+  minAmount?: number
+  maxAmount?: number
+  priority: number
+  isActive: boolean
+  steps: ApprovalStepDefinition[]
+}
+
+// Cadena de aprobación de gastos; se elige por categoría y rango de monto
+@Schema({ timestamps: true })
+export class ApprovalWorkflow {
+  @Prop({ required: true })
+  name: string
+
+  @Prop({ required: true, type: Types.ObjectId, ref: 'Company' })
+  companyId: Types.ObjectId
+
+  // Sin categoría la cadena aplica a todas las categorías de la empresa
+  @Prop({ type: Types.ObjectId, ref: 'Category' })
+  categoryId?: Types.ObjectId
+
+  @Prop()
+  minAmount?: number
+
+  @Prop()
+  maxAmount?: number
+
+  // Entre cadenas igual de específicas gana la de mayor prioridad
+  @Prop({ default: 0 })
+  priority: number
+
+  @Prop({ default: true })
+  isActive: boolean
+
+  @Prop({ type: [ApprovalStepDefinitionSchema], default: [] })
+  steps: ApprovalStepDefinition[]
+}
+
+export const ApprovalWorkflowSchema =
+  SchemaFactory.createForClass(ApprovalWorkflow)
+
+ApprovalWorkflowSchema.plugin(tenantPlugin)
+
+ApprovalWorkflowSchema.index({ companyId: 1, isActive: 1 })
@@ -0,0 +1,8 @@
+export enum ApproverType {
+  // Cualquier usuario activo con alguno de los roles del paso
+  ROLE = 'role',
+  // El responsable (leadId) del proyecto del gasto
+  PROJECT_LEAD = 'project_lead',
+  // Un usuario específico
+  USER = 'user',
+}
@@ -0,0 +1,73 @@
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { ApproverType } from '../enums/approver-type.enum'
+import { ApprovalWorkflow } from '../entities/approval-workflow.entity'
+import {
+  buildApprovalSteps,
+  canActOnStep,
+  DEFAULT_APPROVAL_STEPS,
+  selectWorkflow,
+} from './approval-chain.util'
+
+const workflow = (overrides: Partial<ApprovalWorkflow>): ApprovalWorkflow =>
+  ({
+    name: 'General',
+    priority: 0,
+    isActive: true,
+    steps: [
+      { name: 'Jefe de proyecto', approverType: ApproverType.PROJECT_LEAD },
+      {
+        name: 'Administración',
+        approverType: ApproverType.ROLE,
+        roles: [UserRole.ADMIN2],
+      },
+      {
+        name: 'Contabilidad',
+        approverType: ApproverType.ROLE,
+        roles: [UserRole.ACCOUNTING],
+        minAmount: 5000,
+      },
+    ],
+    ...overrides,
+  }) as ApprovalWorkflow
+
+describe('approval chain', () => {
+  it('prefers the category workflow over the general one', () => {
+    const general = workflow({ priority: 10 })
+    const obra = workflow({ name: 'Obra', categoryId: 'cat-1' as any })
+
+    expect(selectWorkflow([general, obra], { categoryId: 'cat-1' })).toBe(obra)
+    expect(selectWorkflow([general, obra], { categoryId: 'cat-2' })).toBe(
+      general
+    )
+  })
+
+  it('skips workflows outside their amount range', () => {
+    const small = workflow({ maxAmount: 1000 })
+
+    expect(selectWorkflow([small], { amount: 2500 })).toBeUndefined()
+  })
+
+  it('adds threshold steps only above their amount', () => {
+    const chain = workflow({})
+
+    expect(buildApprovalSteps(chain, 1200).map(step => step.name)).toEqual([
+      'Jefe de proyecto',
+      'Administración',
+    ])
+    expect(buildApprovalSteps(chain, 5000)).toHaveLength(3)
+    expect(buildApprovalSteps(undefined, 5000)).toBe(DEFAULT_APPROVAL_STEPS)
+  })
+
+  it('checks who can act on each step', () => {
+    const [lead, admin] = workflow({}).steps
+
+    expect(canActOnStep(lead, { userId: 'u1' }, 'u1')).toBe(true)
+    expect(canActOnStep(lead, { userId: 'u2', roles: ['ADMIN'] }, 'u1')).toBe(
+      false
+    )
+    expect(canActOnStep(admin, { userId: 'u2', roles: ['ADMIN2'] })).toBe(true)
+    expect(canActOnStep(admin, { userId: 'u2', roles: ['ACCOUNTING'] })).toBe(
+      false
+    )
+  })
+})
@@ -0,0 +1,72 @@
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { ApproverType } from '../enums/approver-type.enum'
+import {
+  ApprovalStepDefinition,
+  ApprovalWorkflow,
+} from '../entities/approval-workflow.entity'
+
+export interface ApprovalContext {
+  categoryId?: string
+  amount?: number
+}
+
+export interface Approver {
+  userId?: string
+  roles?: string[]
+}
+
+// Sin cadena configurada se mantiene la aprobación de un solo paso por ADMIN/ADMIN2
+export const DEFAULT_APPROVAL_STEPS: ApprovalStepDefinition[] = [
+  {
+    name: 'Aprobación',
+    approverType: ApproverType.ROLE,
+    roles: [UserRole.ADMIN, UserRole.ADMIN2],
+  },
+]
+
+// Prefiere la cadena de la categoría del gasto sobre la general y luego la de mayor prioridad
+export function selectWorkflow<T extends ApprovalWorkflow>(
+  workflows: T[],
+  context: ApprovalContext
+): T | undefined {
+  const amount = context.amount ?? 0
+  return workflows
+    .filter(
+      workflow =>
+        workflow.isActive !== false &&
+        (!workflow.categoryId ||
+          String(workflow.categoryId) === String(context.categoryId)) &&
+        (workflow.minAmount == null || amount >= workflow.minAmount) &&
+        (workflow.maxAmount == null || amount <= workflow.maxAmount)
+    )
+    .sort(
+      (a, b) =>
+        Number(!!b.categoryId) - Number(!!a.categoryId) ||
+        (b.priority ?? 0) - (a.priority ?? 0)
+    )[0]
+}
+
+export function buildApprovalSteps(
+  workflow: ApprovalWorkflow | undefined,
+  amount = 0
+): ApprovalStepDefinition[] {
+  const steps = (workflow?.steps ?? []).filter(
+    step => step.minAmount == null || amount >= step.minAmount
+  )
+  return steps.length > 0 ? steps : DEFAULT_APPROVAL_STEPS
+}
+
+export function canActOnStep(
+  step: Pick<ApprovalStepDefinition, 'approverType' | 'roles' | 'userId'>,
+  approver: Approver,
+  projectLeadId?: unknown
+): boolean {
+  switch (step.approverType) {
+    case ApproverType.USER:
+      return !!approver.userId && String(step.userId) === approver.userId
+    case ApproverType.PROJECT_LEAD:
+      return !!approver.userId && String(projectLeadId) === approver.userId
+    default:
+      return (step.roles ?? []).some(role => approver.roles?.includes(role))
+  }
+}
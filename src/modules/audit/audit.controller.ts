@@ -0,0 +1,39 @@
+import { Controller, Get, Query, Res, UseGuards } from '@nestjs/common'
+import { Response } from 'express'
+import { AuditService } from './audit.service'
+import { ExportAuditDto, QueryAuditDto } from './dto/query-audit.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('audit')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.ACCOUNTING)
+  findAll(@Query() query: QueryAuditDto, @CurrentAuth() auth: AuthContext) {
+    return this.auditService.findAll(auth.companyId, query)
+  }
+
+  // Descarga CSV (por defecto) o JSON para auditores externos
+  @Get('export')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.ACCOUNTING)
+  async export(
+    @Query() query: ExportAuditDto,
+    @CurrentAuth() auth: AuthContext,
+    @Res() res: Response
+  ) {
+    const { content, contentType, filename } = await this.auditService.export(
+      auth.companyId,
+      query
+    )
+    res.setHeader('Content-Type', contentType)
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`)
+    res.send(content)
+  }
+}
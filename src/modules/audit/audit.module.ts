@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common'
+import { APP_INTERCEPTOR } from '@nestjs/core'
+import { MongooseModule } from '@nestjs/mongoose'
+import { AuditController } from './audit.controller'
+import { AuditService } from './audit.service'
+import { AuditContextInterceptor } from './interceptors/audit-context.interceptor'
+import { AuditLog, AuditLogSchema } from './entities/audit-log.entity'
+
+// Los cambios los registra auditPlugin en cada esquema; aquí se consultan
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditLog.name, schema: AuditLogSchema },
+    ]),
+  ],
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    { provide: APP_INTERCEPTOR, useClass: AuditContextInterceptor },
+  ],
+})
+export class AuditModule {}
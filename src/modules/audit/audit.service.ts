@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { FilterQuery, Model } from 'mongoose'
+import { AuditLog } from './entities/audit-log.entity'
+import { ExportAuditDto, QueryAuditDto } from './dto/query-audit.dto'
+import { toCsv } from './utils/csv.util'
+
+const DEFAULT_LIMIT = 100
+
+const CSV_HEADER = [
+  'fecha',
+  'entidad',
+  'id',
+  'accion',
+  'usuario_id',
+  'usuario_email',
+  'roles',
+  'ip',
+  'campo',
+  'antes',
+  'despues',
+]
+
+export interface AuditExport {
+  content: string
+  contentType: string
+  filename: string
+}
+
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectModel(AuditLog.name)
+    private auditLogModel: Model<AuditLog>
+  ) {}
+
+  async findAll(companyId: string, query: QueryAuditDto) {
+    return this.auditLogModel
+      .find(this.buildFilter(companyId, query))
+      .sort({ createdAt: -1 })
+      .limit(query.limit ?? DEFAULT_LIMIT)
+      .lean()
+      .exec()
+  }
+
+  // Exportación completa para auditores externos, en orden cronológico
+  async export(companyId: string, query: ExportAuditDto): Promise<AuditExport> {
+    const logs = await this.auditLogModel
+      .find(this.buildFilter(companyId, query))
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec()
+    const filename = `auditoria-${new Date().toISOString().slice(0, 10)}`
+
+    if (query.format === 'json') {
+      return {
+        content: JSON.stringify(logs, null, 2),
+        contentType: 'application/json',
+        filename: `${filename}.json`,
+      }
+    }
+
+    // Una fila por campo modificado
+    const rows = logs.flatMap(log => {
+      const base = [
+        log.createdAt?.toISOString(),
+        log.entity,
+        log.entityId,
+        log.action,
+        log.actorId,
+        log.actorEmail,
+        log.actorRoles?.join(' '),
+        log.ip,
+      ]
+      return log.changes?.length
+        ? log.changes.map(change => [
+            ...base,
+            change.path,
+            change.before,
+            change.after,
+          ])
+        : [base]
+    })
+    return {
+      content: toCsv(CSV_HEADER, rows),
+      contentType: 'text/csv; charset=utf-8',
+      filename: `${filename}.csv`,
+    }
+  }
+
+  private buildFilter(
+    companyId: string,
+    query: QueryAuditDto
+  ): FilterQuery<AuditLog> {
+    const filter: FilterQuery<AuditLog> = { companyId }
+    if (query.entity) filter.entity = query.entity
+    if (query.id) filter.entityId = query.id
+    if (query.actorId) filter.actorId = query.actorId
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: new Date(query.from) }),
+        ...(query.to && { $lte: new Date(query.to) }),
+      }
+    }
+    return filter
+  }
+}
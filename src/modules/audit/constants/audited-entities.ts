@@ -0,0 +1,17 @@
+// Entidades cuyas modificaciones quedan registradas en la auditoría
+export const AUDITED_ENTITIES = [
+  'Invoice',
+  'Expense',
+  'Project',
+  'Provider',
+  'User',
+  'Category',
+  'Company',
+  'PaymentBatch',
+  'BankPaymentFile',
+  'BankMovement',
+  'ProjectBudget',
+  'ExchangeRate',
+] as const
+
+export type AuditedEntity = (typeof AUDITED_ENTITIES)[number]
@@ -0,0 +1,77 @@
+import { Type } from 'class-transformer'
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { AUDITED_ENTITIES } from '../constants/audited-entities'
+
+export class QueryAuditDto {
+  @ApiProperty({
+    description: 'Entidad auditada',
+    enum: AUDITED_ENTITIES,
+    required: false,
+  })
+  @IsIn(AUDITED_ENTITIES)
+  @IsOptional()
+  entity?: string
+
+  @ApiProperty({
+    description: 'ID del registro auditado',
+    example: '665f1c2e8b3e4a0012345678',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  id?: string
+
+  @ApiProperty({
+    description: 'ID del usuario que hizo el cambio',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  actorId?: string
+
+  @ApiProperty({
+    description: 'Fecha inicial (ISO 8601)',
+    example: '2025-01-01',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string
+
+  @ApiProperty({
+    description: 'Fecha final (ISO 8601)',
+    example: '2025-12-31',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string
+
+  @ApiProperty({ description: 'Máximo de registros', required: false })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  limit?: number
+}
+
+export class ExportAuditDto extends QueryAuditDto {
+  @ApiProperty({
+    description: 'Formato del archivo',
+    enum: ['csv', 'json'],
+    required: false,
+  })
+  @IsIn(['csv', 'json'])
+  @IsOptional()
+  format?: 'csv' | 'json'
+}
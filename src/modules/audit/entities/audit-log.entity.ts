@@ -0,0 +1,84 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Schema as MongooseSchema, Types } from 'mongoose'
+import { AuditAction } from '../enums/audit-action.enum'
+import { AUDITED_ENTITIES } from '../constants/audited-entities'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+@Schema({ _id: false })
+export class AuditChange {
+  @Prop({ required: true })
+  path: string
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  before?: unknown
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  after?: unknown
+}
+
+export const AuditChangeSchema = SchemaFactory.createForClass(AuditChange)
+
+// Registro de solo escritura: no se actualiza ni se elimina
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditLog {
+  @Prop({ type: Types.ObjectId, ref: 'Company' })
+  companyId?: Types.ObjectId
+
+  @Prop({ required: true, enum: AUDITED_ENTITIES })
+  entity: string
+
+  @Prop({ required: true })
+  entityId: string
+
+  @Prop({ required: true, enum: AuditAction })
+  action: AuditAction
+
+  // Sin actor cuando el cambio lo hace un proceso del sistema
+  @Prop()
+  actorId?: string
+
+  @Prop()
+  actorEmail?: string
+
+  @Prop({ type: [String], default: [] })
+  actorRoles: string[]
+
+  @Prop({ type: [AuditChangeSchema], default: [] })
+  changes: AuditChange[]
+
+  @Prop()
+  ip?: string
+
+  @Prop()
+  userAgent?: string
+
+  createdAt?: Date
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog)
+
+AuditLogSchema.plugin(tenantPlugin)
+
+AuditLogSchema.index({ companyId: 1, entity: 1, entityId: 1, createdAt: -1 })
+AuditLogSchema.index({ companyId: 1, createdAt: -1 })
+
+const rejectMutation = () => {
+  throw new Error('Los registros de auditoría no se pueden modificar')
+}
+
+AuditLogSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  rejectMutation
+)
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) rejectMutation()
+})
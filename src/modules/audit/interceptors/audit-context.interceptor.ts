@@ -0,0 +1,34 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common'
+import { Observable } from 'rxjs'
+import { AuditContext, runWithAuditContext } from '../utils/audit-context.util'
+import { AuthenticatedRequest } from '../../auth/interfaces/auth-context.interface'
+
+// Se ejecuta después de los guards, cuando req.user ya está disponible
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle()
+    }
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>()
+    const auditContext: AuditContext = {
+      userId: req.user?.userId,
+      email: req.user?.email,
+      roles: req.user?.roles,
+      // Detrás de un proxy, Express resuelve la IP del cliente según TRUST_PROXY
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    }
+    // El handler se invoca al suscribirse, dentro del contexto de la petición
+    return new Observable(subscriber =>
+      runWithAuditContext(auditContext, () =>
+        next.handle().subscribe(subscriber)
+      )
+    )
+  }
+}
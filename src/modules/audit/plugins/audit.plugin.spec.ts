@@ -0,0 +1,101 @@
+import { auditedBulkWrite } from './audit.plugin'
+import { AuditAction } from '../enums/audit-action.enum'
+import { runWithAuditContext } from '../utils/audit-context.util'
+
+const rate = (id: string, venta: number) => ({
+  _id: id,
+  currency: 'USD',
+  date: `2025-06-0${id.slice(-1)}`,
+  compra: 3.7,
+  venta,
+})
+
+describe('auditedBulkWrite', () => {
+  const build = (before: object[], after: object[]) => {
+    const logs: Record<string, any>[] = []
+    const query = (docs: object[]) => ({
+      lean: () => ({ exec: async () => docs }),
+    })
+    const model = {
+      db: {
+        model: () => ({
+          create: jest.fn(async (log: object) => logs.push(log)),
+        }),
+      },
+      find: jest
+        .fn()
+        .mockReturnValueOnce(query(before))
+        .mockReturnValueOnce(query(after)),
+      bulkWrite: jest.fn(async () => ({
+        insertedIds: {},
+        upsertedIds: { 1: 'rate-2' },
+      })),
+    }
+    return { model, logs }
+  }
+
+  it('logs the updated and upserted documents with the actor of the request', async () => {
+    const { model, logs } = build(
+      [rate('rate-1', 3.75)],
+      [rate('rate-1', 3.76), rate('rate-2', 3.8)]
+    )
+    const ops = [
+      {
+        updateOne: {
+          filter: { currency: 'USD', date: '2025-06-01' },
+          update: { $set: { venta: 3.76 } },
+          upsert: true,
+        },
+      },
+      {
+        updateOne: {
+          filter: { currency: 'USD', date: '2025-06-02' },
+          update: { $set: { venta: 3.8 } },
+          upsert: true,
+        },
+      },
+    ]
+
+    await runWithAuditContext({ userId: 'admin-1', ip: '10.0.0.1' }, () =>
+      auditedBulkWrite(model as any, ops, { entity: 'ExchangeRate' })
+    )
+
+    expect(model.find.mock.calls[0][0]).toEqual({
+      $or: ops.map(op => op.updateOne.filter),
+    })
+    expect(model.find.mock.calls[1][0]).toEqual({
+      _id: { $in: ['rate-1', 'rate-2'] },
+    })
+    expect(logs).toEqual([
+      expect.objectContaining({
+        entity: 'ExchangeRate',
+        entityId: 'rate-1',
+        action: AuditAction.UPDATE,
+        actorId: 'admin-1',
+        ip: '10.0.0.1',
+        changes: [{ path: 'venta', before: 3.75, after: 3.76 }],
+      }),
+      expect.objectContaining({
+        entityId: 'rate-2',
+        action: AuditAction.CREATE,
+      }),
+    ])
+  })
+
+  it('logs documents removed by the operations as deletions', async () => {
+    const { model, logs } = build([rate('rate-1', 3.75)], [])
+
+    await auditedBulkWrite(
+      model as any,
+      [{ deleteOne: { filter: { _id: 'rate-1' } } }],
+      { entity: 'ExchangeRate' }
+    )
+
+    expect(logs).toEqual([
+      expect.objectContaining({
+        entityId: 'rate-1',
+        action: AuditAction.DELETE,
+      }),
+    ])
+  })
+})
@@ -0,0 +1,242 @@
+import { Logger } from '@nestjs/common'
+import {
+  AnyBulkWriteOperation,
+  Connection,
+  Document,
+  FilterQuery,
+  Model,
+  MongooseQueryMiddleware,
+  Query,
+  Schema,
+} from 'mongoose'
+import { AuditLog } from '../entities/audit-log.entity'
+import { AuditAction } from '../enums/audit-action.enum'
+import { AuditedEntity } from '../constants/audited-entities'
+import { getAuditContext } from '../utils/audit-context.util'
+import { diffDocuments } from '../utils/audit-diff.util'
+
+export interface AuditPluginOptions {
+  entity: AuditedEntity
+  // Campo que identifica a la empresa; en Company es el propio _id
+  companyField?: string
+}
+
+type PlainDocument = Record<string, any>
+
+const logger = new Logger('AuditPlugin')
+
+const SINGLE_QUERIES: MongooseQueryMiddleware[] = [
+  'findOneAndUpdate',
+  'updateOne',
+  'findOneAndDelete',
+  'deleteOne',
+]
+const MANY_QUERIES: MongooseQueryMiddleware[] = ['updateMany', 'deleteMany']
+const UPDATE_QUERIES: MongooseQueryMiddleware[] = [
+  'findOneAndUpdate',
+  'updateOne',
+  'updateMany',
+]
+const DELETE_QUERIES: MongooseQueryMiddleware[] = [
+  'findOneAndDelete',
+  'deleteOne',
+  'deleteMany',
+]
+
+type AnyQuery = Query<unknown, unknown>
+
+// Documentos afectados por cada consulta, leídos en el pre hook
+const queryTargets = new WeakMap<object, PlainDocument[]>()
+
+const toPlain = (doc: Document | PlainDocument): PlainDocument =>
+  doc instanceof Document ? doc.toObject({ depopulate: true }) : doc
+
+async function writeAuditLog(
+  connection: Connection,
+  options: AuditPluginOptions,
+  action: AuditAction,
+  before?: PlainDocument,
+  after?: PlainDocument
+) {
+  const changes = diffDocuments(before, after)
+  if (action === AuditAction.UPDATE && changes.length === 0) return
+
+  const source = after ?? before
+  const actor = getAuditContext()
+  try {
+    await connection.model(AuditLog.name).create({
+      companyId: source[options.companyField ?? 'companyId'],
+      entity: options.entity,
+      entityId: String(source._id),
+      action,
+      actorId: actor.userId,
+      actorEmail: actor.email,
+      actorRoles: actor.roles ?? [],
+      changes,
+      ip: actor.ip,
+      userAgent: actor.userAgent,
+    })
+  } catch (error) {
+    // La operación ya se confirmó; un fallo de auditoría se registra pero no la revierte
+    logger.error(
+      `No se pudo auditar ${action} de ${options.entity} ${source._id}: ${error.message}`
+    )
+  }
+}
+
+// Registra creación, cambios y eliminación hechos con documentos o consultas de Mongoose
+export function auditPlugin(schema: Schema, options: AuditPluginOptions) {
+  // Copia del documento tal como se leyó, para calcular el diff al guardar
+  schema.post('init', function (doc: Document) {
+    doc.$locals.auditSnapshot = toPlain(doc)
+  })
+
+  schema.pre('save', function () {
+    this.$locals.auditIsNew = this.isNew
+  })
+
+  schema.post('save', async function (doc: Document) {
+    const after = toPlain(doc)
+    const before = doc.$locals.auditIsNew
+      ? undefined
+      : (doc.$locals.auditSnapshot as PlainDocument)
+    await writeAuditLog(
+      doc.db,
+      options,
+      before ? AuditAction.UPDATE : AuditAction.CREATE,
+      before,
+      after
+    )
+    doc.$locals.auditSnapshot = after
+  })
+
+  // insertMany no pasa por save: cada documento insertado se registra como creación
+  schema.post<Model<unknown>>('insertMany', async function (docs: unknown) {
+    for (const doc of docs as Document[]) {
+      await writeAuditLog(
+        this.db,
+        options,
+        AuditAction.CREATE,
+        undefined,
+        toPlain(doc)
+      )
+    }
+  })
+
+  // En las consultas se leen los documentos afectados antes y después del cambio
+  const captureTargets = (many: boolean) =>
+    async function (this: AnyQuery) {
+      const query = this.model.find(this.getFilter()).lean<PlainDocument[]>()
+      if (!many) query.limit(1)
+      queryTargets.set(this, await query.exec())
+    }
+  schema.pre(
+    SINGLE_QUERIES,
+    { document: false, query: true },
+    captureTargets(false)
+  )
+  schema.pre(
+    MANY_QUERIES,
+    { document: false, query: true },
+    captureTargets(true)
+  )
+
+  schema.post(
+    UPDATE_QUERIES,
+    { document: false, query: true },
+    async function (this: AnyQuery) {
+      const before = queryTargets.get(this) ?? []
+      if (before.length === 0) return
+      const after = await this.model
+        .find({ _id: { $in: before.map(doc => doc._id) } })
+        .lean<PlainDocument[]>()
+        .exec()
+      const afterById = new Map(after.map(doc => [String(doc._id), doc]))
+      for (const doc of before) {
+        const updated = afterById.get(String(doc._id))
+        if (updated) {
+          await writeAuditLog(
+            this.model.db,
+            options,
+            AuditAction.UPDATE,
+            doc,
+            updated
+          )
+        }
+      }
+    }
+  )
+
+  schema.post(
+    DELETE_QUERIES,
+    { document: false, query: true },
+    async function (this: AnyQuery) {
+      const before = queryTargets.get(this) ?? []
+      if (before.length === 0) return
+      const remaining = new Set(
+        (
+          await this.model
+            .find({ _id: { $in: before.map(doc => doc._id) } }, { _id: 1 })
+            .lean<PlainDocument[]>()
+            .exec()
+        ).map(doc => String(doc._id))
+      )
+      for (const doc of before) {
+        if (remaining.has(String(doc._id))) continue
+        await writeAuditLog(this.model.db, options, AuditAction.DELETE, doc)
+      }
+    }
+  )
+}
+
+// Filtro de una operación de bulkWrite; insertOne no tiene
+const bulkFilter = (
+  op: AnyBulkWriteOperation<unknown>
+): FilterQuery<unknown> | undefined =>
+  (Object.values(op)[0] as { filter?: FilterQuery<unknown> }).filter
+
+// El post hook de bulkWrite no recibe las operaciones, así que el plugin no puede auditarlo:
+// sobre una entidad auditada se escribe con esta función, que lee los documentos antes y después
+export async function auditedBulkWrite(
+  model: Model<any>,
+  ops: AnyBulkWriteOperation[],
+  options: AuditPluginOptions
+) {
+  const filters = ops.map(bulkFilter).filter(Boolean)
+  const before =
+    filters.length > 0
+      ? await model.find({ $or: filters }).lean<PlainDocument[]>().exec()
+      : []
+
+  const result = await model.bulkWrite(ops)
+
+  const ids = [
+    ...before.map(doc => doc._id),
+    ...Object.values(result.insertedIds ?? {}),
+    ...Object.values(result.upsertedIds ?? {}),
+  ]
+  const after =
+    ids.length > 0
+      ? await model
+          .find({ _id: { $in: ids } })
+          .lean<PlainDocument[]>()
+          .exec()
+      : []
+  const beforeById = new Map(before.map(doc => [String(doc._id), doc]))
+  const afterIds = new Set(after.map(doc => String(doc._id)))
+  for (const doc of after) {
+    const previous = beforeById.get(String(doc._id))
+    await writeAuditLog(
+      model.db,
+      options,
+      previous ? AuditAction.UPDATE : AuditAction.CREATE,
+      previous,
+      doc
+    )
+  }
+  for (const doc of before) {
+    if (afterIds.has(String(doc._id))) continue
+    await writeAuditLog(model.db, options, AuditAction.DELETE, doc)
+  }
+  return result
+}
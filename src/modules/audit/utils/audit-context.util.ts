@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+// Quién hace el cambio y desde dónde; lo fija el interceptor en cada petición
+export interface AuditContext {
+  userId?: string
+  email?: string
+  roles?: string[]
+  ip?: string
+  userAgent?: string
+}
+
+const storage = new AsyncLocalStorage<AuditContext>()
+
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return storage.run(context, fn)
+}
+
+// Fuera de una petición (jobs, migraciones) no hay actor
+export function getAuditContext(): AuditContext {
+  return storage.getStore() ?? {}
+}
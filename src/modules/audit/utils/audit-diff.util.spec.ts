@@ -0,0 +1,50 @@
+import { Types } from 'mongoose'
+import { diffDocuments, REDACTED } from './audit-diff.util'
+
+describe('diffDocuments', () => {
+  it('lists changed nested paths and skips control fields', () => {
+    const id = new Types.ObjectId()
+    const changes = diffDocuments(
+      {
+        _id: id,
+        status: 'ACTA_RECEIVED',
+        sunatValidation: { estadoCp: '1', observaciones: [] },
+        updatedAt: new Date('2025-01-01'),
+      },
+      {
+        _id: id,
+        status: 'APPROVED',
+        sunatValidation: { estadoCp: '1', observaciones: ['NO HABIDO'] },
+        updatedAt: new Date('2025-01-02'),
+      }
+    )
+
+    expect(changes).toEqual([
+      { path: 'status', before: 'ACTA_RECEIVED', after: 'APPROVED' },
+      {
+        path: 'sunatValidation.observaciones',
+        before: [],
+        after: ['NO HABIDO'],
+      },
+    ])
+  })
+
+  it('records every field on create and serializes ids and dates', () => {
+    const companyId = new Types.ObjectId()
+    expect(
+      diffDocuments(undefined, {
+        companyId,
+        paymentDate: new Date('2025-05-14T00:00:00.000Z'),
+      })
+    ).toEqual([
+      { path: 'companyId', after: companyId.toString() },
+      { path: 'paymentDate', after: '2025-05-14T00:00:00.000Z' },
+    ])
+  })
+
+  it('never stores credential values', () => {
+    expect(
+      diffDocuments({ password: 'hash-1' }, { password: 'hash-2' })
+    ).toEqual([{ path: 'password', before: REDACTED, after: REDACTED }])
+  })
+})
@@ -0,0 +1,76 @@
+import { Types } from 'mongoose'
+
+export interface AuditDiffEntry {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+// Campos de control que no aportan al historial
+const IGNORED_PATHS = new Set(['_id', '__v', 'createdAt', 'updatedAt'])
+
+// Nunca se guarda el valor de credenciales, solo que cambiaron
+const SENSITIVE_FIELD = /password|token|secret/i
+export const REDACTED = '[REDACTED]'
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value &&
+  typeof value === 'object' &&
+  Object.getPrototypeOf(value) === Object.prototype
+
+// Convierte ObjectId, fechas y buffers a valores serializables
+function normalize(value: unknown): unknown {
+  if (value instanceof Types.ObjectId) return value.toString()
+  if (value instanceof Date) return value.toISOString()
+  if (Buffer.isBuffer(value)) return `[binary ${value.length} bytes]`
+  if (Array.isArray(value)) return value.map(normalize)
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, normalize(item)])
+    )
+  }
+  return value
+}
+
+// Aplana objetos anidados en rutas con punto; los arreglos se comparan completos
+function flatten(
+  value: Record<string, unknown> | undefined,
+  prefix = '',
+  result: Record<string, unknown> = {}
+): Record<string, unknown> {
+  for (const [key, item] of Object.entries(value ?? {})) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (!prefix && IGNORED_PATHS.has(key)) continue
+    if (isPlainObject(item) && Object.keys(item).length > 0) {
+      flatten(item, path, result)
+    } else {
+      result[path] = item
+    }
+  }
+  return result
+}
+
+export function diffDocuments(
+  before?: Record<string, unknown>,
+  after?: Record<string, unknown>
+): AuditDiffEntry[] {
+  const previous = flatten(normalize(before) as Record<string, unknown>)
+  const current = flatten(normalize(after) as Record<string, unknown>)
+  const paths = new Set([...Object.keys(previous), ...Object.keys(current)])
+
+  const changes: AuditDiffEntry[] = []
+  for (const path of [...paths].sort()) {
+    const oldValue = previous[path]
+    const newValue = current[path]
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue
+    const redact = SENSITIVE_FIELD.test(path)
+    changes.push({
+      path,
+      ...(oldValue !== undefined && {
+        before: redact ? REDACTED : oldValue,
+      }),
+      ...(newValue !== undefined && { after: redact ? REDACTED : newValue }),
+    })
+  }
+  return changes
+}
@@ -0,0 +1,15 @@
+import { toCsv } from './csv.util'
+
+describe('toCsv', () => {
+  it('quotes cells with separators and serializes objects', () => {
+    expect(
+      toCsv(
+        ['campo', 'valor'],
+        [
+          ['monto, total', { a: 1 }],
+          ['nota', null],
+        ]
+      )
+    ).toBe('campo,valor\r\n"monto, total","{""a"":1}"\r\nnota,')
+  })
+})
@@ -0,0 +1,11 @@
+const escapeCell = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map(row => row.map(escapeCell).join(','))
+    .join('\r\n')
+}
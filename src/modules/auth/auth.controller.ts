@@ -7,19 +7,37 @@ import {
   Get,
   Req,
   Body,
+  Delete,
+  Param,
 } from '@nestjs/common'
 import { AuthService } from './auth.service'
 import { JwtAuthGuard } from './guards/jwt-auth.guard'
 import { AuthGuard } from '@nestjs/passport'
 import { RegisterDto } from './dto/register.dto'
 import { LoginDto } from './dto/login.dto'
-import { UserDocument, UserResponse } from '../users/entities/user.entity'
-import { GetUser } from './decorators/get-user.decorator'
+import { VerifyEmailDto } from './dto/verify-email.dto'
+import { SendVerificationCodeDto } from './dto/send-verification-code.dto'
+import { EmailVerificationService } from './email-verification.service'
+import { ForgotPasswordDto } from './dto/forgot-password.dto'
+import { ResetPasswordDto } from './dto/reset-password.dto'
+import { ChangePasswordDto } from './dto/change-password.dto'
+import { PasswordService } from '../users/services/password.service'
+import { RefreshTokenDto } from './dto/refresh-token.dto'
+import { SessionService } from '../session/session.service'
+import { SessionRevocationReason } from '../session/enums/session-revocation-reason.enum'
+import { UserResponse } from '../users/entities/user.entity'
+import { CurrentAuth } from './decorators/auth-context.decorator'
+import { AuthContext } from './interfaces/auth-context.interface'
 import { Request as ExpressRequest } from 'express'
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) { }
+  constructor(
+    private readonly authService: AuthService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly passwordService: PasswordService,
+    private readonly sessionService: SessionService
+  ) { }
 
   @Post('register')
   async register(@Body() registerDto: RegisterDto) {
@@ -28,36 +46,156 @@ export class AuthController {
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto)
+  async login(@Body() loginDto: LoginDto, @Req() req: ExpressRequest) {
+    return this.authService.login(loginDto, this.device(req))
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Req() req: ExpressRequest
+  ) {
+    return this.authService.refresh(
+      refreshTokenDto.refreshToken,
+      this.device(req)
+    )
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  async logout(@CurrentAuth() auth: AuthContext) {
+    await this.sessionService.revoke(
+      auth.sessionId,
+      auth.userId,
+      SessionRevocationReason.LOGOUT
+    )
+    return { message: 'Sesión cerrada' }
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  async getSessions(@CurrentAuth() auth: AuthContext) {
+    const sessions = await this.sessionService.findAllActive(auth.userId)
+    return sessions.map(session => ({
+      ...session.toObject(),
+      current: String(session._id) === auth.sessionId,
+    }))
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  async revokeSession(
+    @Param('id') id: string,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    await this.sessionService.revoke(
+      id,
+      auth.userId,
+      SessionRevocationReason.USER_REVOKED
+    )
+    return { message: 'Sesión revocada' }
+  }
+
+  // Cierra todas las sesiones del usuario, incluida la actual
+  @Delete('sessions')
+  @UseGuards(JwtAuthGuard)
+  async revokeAllSessions(@CurrentAuth() auth: AuthContext) {
+    const revoked = await this.sessionService.revokeAll(
+      auth.userId,
+      SessionRevocationReason.USER_REVOKED
+    )
+    return { revoked }
+  }
+
+  @Post('send-verification-code')
+  @HttpCode(HttpStatus.OK)
+  async sendVerificationCode(@Body() sendCodeDto: SendVerificationCodeDto) {
+    return this.emailVerificationService.sendCode(sendCodeDto.email)
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.emailVerificationService.verify(
+      verifyEmailDto.email,
+      verifyEmailDto.code
+    )
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.passwordService.requestReset(forgotPasswordDto.email)
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.passwordService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword
+    )
+  }
+
+  @Post('accept-invitation')
+  @HttpCode(HttpStatus.OK)
+  async acceptInvitation(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.passwordService.acceptInvitation(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword
+    )
+  }
+
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  async changePassword(
+    @CurrentAuth() auth: AuthContext,
+    @Body() changePasswordDto: ChangePasswordDto
+  ) {
+    return this.passwordService.changePassword(
+      auth.userId,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+      auth.sessionId
+    )
   }
 
   @Get('validate-token')
   @UseGuards(JwtAuthGuard)
-  async validateToken(@Req() req: ExpressRequest) {
-    return this.authService.validateToken(req)
+  async validateToken(@CurrentAuth() auth: AuthContext) {
+    return this.authService.validateToken(auth)
   }
 
   @Get('profile')
   @UseGuards(JwtAuthGuard)
-  getProfile(@GetUser() user: UserDocument): UserResponse {
-    const { password, ...userResponse } = user.toObject()
-    return userResponse
+  async getProfile(@CurrentAuth() auth: AuthContext): Promise<UserResponse> {
+    return this.authService.validateToken(auth)
   }
 
   @Get('google')
   @UseGuards(AuthGuard('google'))
   @Get('google/callback')
-  async googleAuthCallback(@Req() req) {
-    return this.authService.googleLogin(req)
+  async googleAuthCallback(
+    @CurrentAuth() auth: AuthContext,
+    @Req() req: ExpressRequest
+  ) {
+    return this.authService.googleLogin(auth, this.device(req))
   }
 
   @Get('me')
   @UseGuards(JwtAuthGuard)
-  async getCurrentUser(@GetUser() user: UserResponse) {
+  async getCurrentUser(@CurrentAuth() auth: AuthContext) {
+    const user = await this.authService.validateToken(auth)
     return {
       success: true,
       data: { user },
     }
   }
+
+  private device(req: ExpressRequest) {
+    return { userAgent: req.headers['user-agent'], ip: req.ip }
+  }
 }
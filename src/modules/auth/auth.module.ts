@@ -11,23 +11,40 @@ import { UsersModule } from '../users/users.module'
 import { Provider, ProviderSchema } from '../providers/entities/provider.entity'
 import { ProvidersModule } from '../providers/providers.module'
 import { User, UserSchema } from '../users/entities/user.entity'
-import { jwtConstants } from './constants/jwt.constants'
+import { JwtKeyService } from './jwt-key.service'
+import { SessionModule } from '../session/session.module'
+import { ConfigModule } from '@nestjs/config'
+import { EmailVerificationService } from './email-verification.service'
+import {
+  EmailVerification,
+  EmailVerificationSchema,
+} from './entities/email-verification.entity'
+import { EmailModule } from '../email/email.module'
 
 @Module({
   imports: [
     PassportModule,
-    JwtModule.register({
-      secret: jwtConstants.secret,
-      signOptions: { expiresIn: '24h' },
-    }),
+    // La clave y la vigencia se indican al firmar (JwtKeyService)
+    JwtModule.register({}),
     MongooseModule.forFeature([
       { name: Provider.name, schema: ProviderSchema },
       { name: User.name, schema: UserSchema },
+      { name: EmailVerification.name, schema: EmailVerificationSchema },
     ]),
     UsersModule,
     ProvidersModule,
+    EmailModule,
+    SessionModule,
+    ConfigModule,
+  ],
+  providers: [
+    AuthService,
+    EmailVerificationService,
+    JwtKeyService,
+    LocalStrategy,
+    JwtStrategy,
+    GoogleStrategy,
   ],
-  providers: [AuthService, LocalStrategy, JwtStrategy, GoogleStrategy],
   controllers: [AuthController],
   exports: [AuthService],
 })
@@ -2,6 +2,7 @@ import {
   BadRequestException,
   Injectable,
   ForbiddenException,
+  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common'
 import { UsersService } from '../users/services/users.service'
@@ -18,19 +19,36 @@ import {
 import { LoginDto } from './dto/login.dto'
 import { UserRole } from '../../shared/enums/role.enum'
 import { v4 as uuidv4 } from 'uuid'
-import { Request } from 'express'
 import { Logger } from '@nestjs/common'
+import { SessionRevocationReason } from '../session/enums/session-revocation-reason.enum'
+import { EmailVerificationService } from './email-verification.service'
+import { PasswordService } from '../users/services/password.service'
+import { JwtKeyService } from './jwt-key.service'
+import { SessionDevice, SessionService } from '../session/session.service'
+import { ConfigService } from '@nestjs/config'
+import { AuthContext } from './interfaces/auth-context.interface'
+import { AuthSubject, toAuthContext } from './utils/auth-context.util'
 
 interface JwtPayload {
-  sub: string
+  userId: string
   email: string
-  role: UserRole
-  firstName: string
-  lastName: string
+  roles: string[]
   companyId?: string
+  providerId?: string
+  // Sesión (dispositivo) a la que pertenece el token
+  sid: string
+}
+
+export interface AuthTokens {
+  access_token: string
+  refresh_token: string
+  // Segundos de vigencia del access token
+  expires_in: number
 }
 
-interface GoogleUser {
+const DEFAULT_ACCESS_TTL_MINUTES = 15
+
+export interface GoogleUser {
   email: string
   firstName: string
   lastName: string
@@ -47,12 +65,18 @@ export class AuthService {
     @InjectModel(User.name)
     private userModel: Model<UserDocument>,
     @InjectModel(Provider.name)
-    private providerModel: Model<ProviderDocument>
+    private providerModel: Model<ProviderDocument>,
+    private emailVerificationService: EmailVerificationService,
+    private passwordService: PasswordService,
+    private jwtKeyService: JwtKeyService,
+    private sessionService: SessionService,
+    private configService: ConfigService
   ) { }
 
+  // El token se obtiene al iniciar sesión, una vez verificado el correo
   async register(
     registerDto: RegisterDto
-  ): Promise<{ access_token: string; user: UserResponse }> {
+  ): Promise<{ user: UserResponse; emailVerificationRequired: true }> {
     const existingUser = await this.userModel.findOne({
       email: registerDto.email,
     })
@@ -60,9 +84,8 @@ export class AuthService {
       throw new BadRequestException('El correo electrónico ya está registrado')
     }
 
-    if (registerDto.role === UserRole.COMPANY) {
-      registerDto.companyId = new Types.ObjectId().toString()
-    }
+    // Cada registro crea una empresa (tenant) nueva; nunca se une a una existente
+    const companyId = new Types.ObjectId().toString()
 
     const user = await this.usersService.create(
       {
@@ -70,40 +93,84 @@ export class AuthService {
         lastName: registerDto.lastName,
         email: registerDto.email,
         password: registerDto.password,
-        role: registerDto.role,
-        companyId: registerDto.companyId,
+        role: UserRole.COMPANY,
+        companyId,
         isActive: true,
         userId: new Types.ObjectId().toString(),
       },
-      registerDto.companyId
+      companyId
     )
 
-    const token = this.generateToken(user)
+    await this.resendVerificationCode(user.email)
 
     const { password, ...userResponse } = user.toObject()
     return {
-      access_token: token,
       user: userResponse,
+      emailVerificationRequired: true,
     }
   }
 
-  async login(userData: LoginDto) {
+  async login(userData: LoginDto, device: SessionDevice = {}) {
 
     const user = await this.validateUser(userData.email, userData.password);
     if (!user) {
       throw new BadRequestException('Credenciales inválidas');
     }
-    const payload = {
-      email: user.email,
-      userId: user._id.toString(),
-      roles: [user.role]
+    if (!user.isActive) {
+      throw new ForbiddenException('La cuenta está desactivada')
+    }
+    if (user.emailVerified === false) {
+      await this.resendVerificationCode(user.email)
+      throw new ForbiddenException(
+        'Debe verificar su correo electrónico; se envió un código de verificación'
+      )
+    }
+    // Sin access_token: el token de un solo uso solo sirve para POST /auth/reset-password
+    if (user.mustChangePassword) {
+      const passwordChangeToken =
+        await this.passwordService.issuePasswordChangeToken(user._id.toString())
+      return { mustChangePassword: true, passwordChangeToken }
     }
     return {
-      access_token: this.jwtService.sign(payload),
+      ...(await this.issueTokens(user, device)),
       ...user,
     };
   }
 
+  // Rota el refresh token de la sesión y emite un access token nuevo
+  async refresh(
+    refreshToken: string,
+    device: SessionDevice = {}
+  ): Promise<AuthTokens> {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionService.rotate(refreshToken, device)
+    const user = await this.userModel.findById(session.userId).exec()
+    if (!user || !user.isActive) {
+      await this.sessionService.revokeAll(
+        session.userId,
+        SessionRevocationReason.DEACTIVATED
+      )
+      throw new UnauthorizedException('La cuenta está desactivada')
+    }
+    const auth = await this.resolveAuthContext(user)
+    return {
+      access_token: this.signAccessToken(auth, String(session._id)),
+      refresh_token: nextRefreshToken,
+      expires_in: this.accessTtlMinutes() * 60,
+    }
+  }
+
+  // El envío respeta el límite de reenvíos; un fallo no cambia la respuesta del registro o login
+  private async resendVerificationCode(email: string) {
+    try {
+      await this.emailVerificationService.sendCode(email)
+    } catch (error) {
+      this.logger.warn(
+        `No se reenvió el código de verificación a ${email}: ${error.message}`
+      )
+    }
+  }
+
   async validateUser(email: string, password: string): Promise<any> {
     const user = await this.usersService.findByEmail(email);
     if (user && await bcrypt.compare(password, user.password)) {
@@ -179,57 +246,77 @@ export class AuthService {
   //   }
   // }
 
-  private generateToken(user: UserDocument | ProviderDocument): string {
-    try {
-      this.logger.debug(`Generando token para usuario/proveedor: ${user.email}`)
-      this.logger.debug(
-        `Datos del usuario/proveedor: ${JSON.stringify({
-          _id: user._id,
-          email: user.email,
-          role: user.role,
-          companyId: user.companyId,
-        })}`
-      )
-
-      const payload: JwtPayload = {
-        sub: user._id.toString(),
+  // Los usuarios PROVIDER se vinculan a su proveedor por email dentro de la empresa
+  async resolveAuthContext(user: AuthSubject): Promise<AuthContext> {
+    if (user.role !== UserRole.PROVIDER || !user.companyId) {
+      return toAuthContext(user)
+    }
+    const provider = await this.providerModel
+      .findOne({
         email: user.email,
-        role: user.role as UserRole,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        companyId: user.companyId ? user.companyId.toString() : null,
-      }
-
-      this.logger.debug(`Payload del token: ${JSON.stringify(payload)}`)
+        companyId: new Types.ObjectId(String(user.companyId)),
+      })
+      .select('_id')
+      .exec()
+    return toAuthContext(user, {
+      providerId: provider ? String(provider._id) : undefined,
+    })
+  }
 
-      const token = this.jwtService.sign(payload)
-      this.logger.debug(`Token generado exitosamente`)
+  // Cada login abre una sesión (dispositivo) con su propio refresh token
+  private async issueTokens(
+    user: AuthSubject,
+    device: SessionDevice
+  ): Promise<AuthTokens> {
+    const { session, refreshToken } = await this.sessionService.create(
+      user,
+      device
+    )
+    const auth = await this.resolveAuthContext(user)
+    return {
+      access_token: this.signAccessToken(auth, String(session._id)),
+      refresh_token: refreshToken,
+      expires_in: this.accessTtlMinutes() * 60,
+    }
+  }
 
-      return token
-    } catch (error) {
-      this.logger.error(`Error al generar token: ${error.message}`, error.stack)
-      throw error
+  private signAccessToken(auth: AuthContext, sessionId: string): string {
+    const payload: JwtPayload = {
+      userId: auth.userId,
+      email: auth.email,
+      roles: auth.roles,
+      companyId: auth.companyId,
+      providerId: auth.providerId,
+      sid: sessionId,
     }
+    const key = this.jwtKeyService.signingKey()
+    return this.jwtService.sign(payload, {
+      secret: key.secret,
+      keyid: key.kid,
+      expiresIn: this.accessTtlMinutes() * 60,
+    })
+  }
+
+  private accessTtlMinutes(): number {
+    const value = parseInt(
+      this.configService.get<string>('JWT_ACCESS_TTL_MINUTES'),
+      10
+    )
+    return isNaN(value) || value <= 0 ? DEFAULT_ACCESS_TTL_MINUTES : value
   }
 
-  async validateToken(req: any): Promise<UserResponse> {
-    const user = req.user
+  // Perfil completo del usuario del token, leído de la base de datos
+  async validateToken(auth: AuthContext): Promise<UserResponse> {
+    const user = await this.userModel.findById(auth.userId).exec()
     if (!user) {
-      throw new UnauthorizedException('Token inválido')
+      throw new NotFoundException('Usuario no encontrado')
     }
     const { password, ...userResponse } = user.toObject()
     return userResponse
   }
 
-  async googleLogin(
-    req: Request
-  ): Promise<{ access_token: string; user: UserResponse }> {
-    if (!req.user) {
-      throw new UnauthorizedException('No se pudo autenticar con Google')
-    }
-
-    const googleUser = req.user as GoogleUser
-
+  // La estrategia de Google crea la cuenta la primera vez que se usa
+  async validateGoogleUser(googleUser: GoogleUser): Promise<AuthContext> {
     let user = await this.userModel.findOne({ email: googleUser.email })
 
     if (!user) {
@@ -244,18 +331,39 @@ export class AuthService {
           role: UserRole.USER,
           isActive: true,
         },
-        null
+        null,
+        { skipPasswordPolicy: true }
       )
+      // Google ya verificó el correo de la cuenta
+      newUser.emailVerified = true
+      newUser.emailVerifiedAt = new Date()
+      await newUser.save()
       user = newUser
     } else if (!user.isActive) {
       throw new ForbiddenException('La cuenta está desactivada')
     }
 
-    const token = this.generateToken(user)
+    return this.resolveAuthContext(user)
+  }
+
+  async googleLogin(
+    auth: AuthContext,
+    device: SessionDevice = {}
+  ): Promise<AuthTokens & { user: UserResponse }> {
+    if (!auth) {
+      throw new UnauthorizedException('No se pudo autenticar con Google')
+    }
+
+    const user = await this.userModel.findById(auth.userId).exec()
+    if (!user || !user.isActive) {
+      throw new ForbiddenException('La cuenta está desactivada')
+    }
+
+    const tokens = await this.issueTokens(user, device)
     const { password, ...userResponse } = user.toObject()
 
     return {
-      access_token: token,
+      ...tokens,
       user: userResponse,
     }
   }
@@ -0,0 +1,9 @@
+// Vigencia del código enviado por correo
+export const VERIFICATION_CODE_TTL_MINUTES = 15
+
+// Intentos fallidos permitidos antes de invalidar el código
+export const VERIFICATION_MAX_ATTEMPTS = 5
+
+// Espera mínima entre reenvíos y máximo de envíos por hora
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60
+export const VERIFICATION_MAX_SENDS_PER_HOUR = 5
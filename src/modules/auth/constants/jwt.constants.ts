@@ -1,3 +0,0 @@
-export const jwtConstants = {
-  secret: '@Libido2010',
-}
@@ -0,0 +1,8 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import { AuthContext } from '../interfaces/auth-context.interface'
+
+// Contexto que la estrategia de Passport dejó en la petición
+export const CurrentAuth = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthContext =>
+    ctx.switchToHttp().getRequest().user
+)
@@ -1,6 +0,0 @@
-import { createParamDecorator, ExecutionContext } from '@nestjs/common'
-
-export const GetUser = createParamDecorator((ctx: ExecutionContext) => {
-  const request = ctx.switchToHttp().getRequest()
-  return request.user
-})
@@ -0,0 +1,14 @@
+import { IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class ChangePasswordDto {
+  @ApiProperty({ description: 'Contraseña actual' })
+  @IsString()
+  currentPassword: string
+
+  @ApiProperty({
+    description: 'Nueva contraseña, según la política de la empresa',
+  })
+  @IsString()
+  newPassword: string
+}
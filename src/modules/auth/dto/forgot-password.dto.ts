@@ -0,0 +1,11 @@
+import { IsEmail } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description: 'Correo electrónico de la cuenta',
+    example: 'usuario@ejemplo.com',
+  })
+  @IsEmail()
+  email: string
+}
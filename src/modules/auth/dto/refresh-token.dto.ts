@@ -0,0 +1,11 @@
+import { IsString, Matches } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: 'Refresh token recibido en el login' })
+  @IsString()
+  @Matches(/^[a-f0-9]{24}\.[a-f0-9]{64}$/, {
+    message: 'Refresh token inválido',
+  })
+  refreshToken: string
+}
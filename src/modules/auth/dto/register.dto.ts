@@ -4,7 +4,7 @@ import {
   IsPhoneNumber,
   IsMongoId,
   MinLength,
-  IsEnum,
+  IsIn,
   IsBoolean,
 } from 'class-validator'
 import { ApiProperty } from '@nestjs/swagger'
@@ -50,32 +50,19 @@ export class RegisterDto {
   @IsOptional()
   phone?: string
 
+  // El registro abierto solo da de alta empresas nuevas; el resto de usuarios se invita desde la empresa
   @ApiProperty({
     description: 'Rol del usuario',
-    enum: UserRole,
-    example: UserRole.USER,
-    default: UserRole.USER,
+    enum: [UserRole.COMPANY],
+    example: UserRole.COMPANY,
+    default: UserRole.COMPANY,
   })
-  @IsEnum(UserRole)
-  role: UserRole = UserRole.USER
-
-  @ApiProperty({
-    description: 'ID de la compañía (si aplica)',
-    example: '507f1f77bcf86cd799439011',
-    required: false,
-  })
-  @IsString()
-  @IsOptional()
-  companyId?: string
-
-  @ApiProperty({
-    description: 'ID del proveedor (si aplica)',
-    example: '507f1f77bcf86cd799439012',
-    required: false,
+  @IsIn([UserRole.COMPANY], {
+    message:
+      'Solo las empresas pueden registrarse; los demás usuarios se invitan',
   })
-  @IsString()
   @IsOptional()
-  providerId?: string
+  role: UserRole = UserRole.COMPANY
 
   @ApiProperty({
     description: 'Permisos del usuario',
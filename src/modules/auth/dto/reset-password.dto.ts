@@ -0,0 +1,16 @@
+import { IsHexadecimal, IsString, Length } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+// También se usa para aceptar una invitación
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token recibido en el enlace del correo' })
+  @IsHexadecimal()
+  @Length(64, 64)
+  token: string
+
+  @ApiProperty({
+    description: 'Nueva contraseña, según la política de la empresa',
+  })
+  @IsString()
+  newPassword: string
+}
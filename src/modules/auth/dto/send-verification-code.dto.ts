@@ -0,0 +1,11 @@
+import { IsEmail } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class SendVerificationCodeDto {
+  @ApiProperty({
+    description: 'Correo electrónico al que se enviará el código',
+    example: 'usuario@ejemplo.com',
+  })
+  @IsEmail()
+  email: string
+}
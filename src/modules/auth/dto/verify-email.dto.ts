@@ -0,0 +1,18 @@
+import { IsEmail, Matches } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Correo electrónico a verificar',
+    example: 'usuario@ejemplo.com',
+  })
+  @IsEmail()
+  email: string
+
+  @ApiProperty({
+    description: 'Código de 6 dígitos enviado por correo',
+    example: '482913',
+  })
+  @Matches(/^\d{6}$/, { message: 'El código debe tener 6 dígitos' })
+  code: string
+}
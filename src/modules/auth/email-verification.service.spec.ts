@@ -0,0 +1,186 @@
+import { BadRequestException, HttpException } from '@nestjs/common'
+import { EmailVerificationService } from './email-verification.service'
+
+// bcrypt y el servicio de correo dependen de binarios y SMTP; se reemplazan por dobles
+jest.mock('bcrypt', () => ({
+  hash: jest.fn(async (value: string) => `hash:${value}`),
+  compare: jest.fn(
+    async (value: string, hash: string) => hash === `hash:${value}`
+  ),
+}))
+jest.mock('../email/email.service', () => ({ EmailService: class {} }))
+
+const EMAIL = 'ana@empresa.pe'
+
+describe('EmailVerificationService', () => {
+  const build = (verification?: Record<string, any>, user?: any) => {
+    const record: Record<string, any> | undefined = verification && {
+      _id: 'verification-1',
+      email: EMAIL,
+      userId: 'user-1',
+      attempts: 0,
+      ...verification,
+    }
+    // Reproduce el filtro atómico de Mongo sobre el registro en memoria
+    const claim = (filter: Record<string, any>) => {
+      if (
+        !record ||
+        record.attempts >= filter.attempts.$lt ||
+        record.expiresAt <= filter.expiresAt.$gt
+      ) {
+        return null
+      }
+      record.attempts += 1
+      return { ...record }
+    }
+    const verificationModel = {
+      findOne: jest.fn(() => ({ exec: async () => record })),
+      findOneAndUpdate: jest.fn(
+        (filter: Record<string, any>, _update: object) => ({
+          exec: async () => claim(filter),
+        })
+      ),
+      updateOne: jest.fn(),
+      deleteOne: jest.fn(),
+    }
+    const userModel = {
+      findOne: jest.fn(() => ({
+        collation: () => ({
+          exec: async () =>
+            user === undefined
+              ? { _id: 'user-1', email: EMAIL, emailVerified: false }
+              : user,
+        }),
+      })),
+      updateOne: jest.fn(),
+    }
+    const emailService = { sendCodeConfirmation: jest.fn() }
+    const service = new EmailVerificationService(
+      verificationModel as any,
+      userModel as any,
+      emailService as any
+    )
+    return { service, record, verificationModel, userModel, emailService }
+  }
+
+  it('stores only the hash of the code it emails', async () => {
+    const { service, verificationModel, emailService } = build()
+
+    await service.sendCode('Ana@Empresa.pe ')
+
+    const [email, code, minutes] =
+      emailService.sendCodeConfirmation.mock.calls[0]
+    expect(email).toBe(EMAIL)
+    expect(code).toMatch(/^\d{6}$/)
+    expect(minutes).toBe(15)
+    const [filter, update, options] = verificationModel.updateOne.mock.calls[0]
+    expect(filter).toEqual({ email: EMAIL })
+    expect(update.$set).toMatchObject({
+      codeHash: `hash:${code}`,
+      attempts: 0,
+      sentCount: 1,
+    })
+    expect(JSON.stringify(update)).not.toContain(`"${code}"`)
+    expect(options).toEqual({ upsert: true })
+  })
+
+  it('does not reveal unknown or already verified emails', async () => {
+    const unknown = build(undefined, null)
+    const verified = build(undefined, { _id: 'user-1', emailVerified: true })
+
+    const responses = [
+      await unknown.service.sendCode(EMAIL),
+      await verified.service.sendCode(EMAIL),
+    ]
+
+    expect(responses[0]).toEqual(responses[1])
+    expect(unknown.emailService.sendCodeConfirmation).not.toHaveBeenCalled()
+    expect(verified.emailService.sendCodeConfirmation).not.toHaveBeenCalled()
+  })
+
+  it('throttles resends within the cooldown and per hour', async () => {
+    const now = Date.now()
+    const recent = build({
+      lastSentAt: new Date(now - 10 * 1000),
+      windowStart: new Date(now - 10 * 1000),
+      sentCount: 1,
+    })
+    const exhausted = build({
+      lastSentAt: new Date(now - 5 * 60 * 1000),
+      windowStart: new Date(now - 30 * 60 * 1000),
+      sentCount: 5,
+    })
+
+    await expect(recent.service.sendCode(EMAIL)).rejects.toBeInstanceOf(
+      HttpException
+    )
+    await expect(exhausted.service.sendCode(EMAIL)).rejects.toThrow(
+      'máximo de códigos por hora'
+    )
+    expect(recent.emailService.sendCodeConfirmation).not.toHaveBeenCalled()
+  })
+
+  it('marks the user as verified with a valid code', async () => {
+    const { service, userModel, verificationModel } = build({
+      codeHash: 'hash:123456',
+      expiresAt: new Date(Date.now() + 60000),
+    })
+
+    await expect(service.verify(EMAIL, '123456')).resolves.toEqual({
+      emailVerified: true,
+    })
+    expect(userModel.updateOne.mock.calls[0][1].$set).toMatchObject({
+      emailVerified: true,
+    })
+    expect(verificationModel.deleteOne).toHaveBeenCalled()
+  })
+
+  it('rejects expired codes', async () => {
+    const { service, userModel } = build({
+      codeHash: 'hash:123456',
+      expiresAt: new Date(Date.now() - 1000),
+    })
+
+    await expect(service.verify(EMAIL, '123456')).rejects.toBeInstanceOf(
+      BadRequestException
+    )
+    expect(userModel.updateOne).not.toHaveBeenCalled()
+  })
+
+  it('counts failed attempts and invalidates the code at the limit', async () => {
+    const { service, record, userModel } = build({
+      codeHash: 'hash:123456',
+      expiresAt: new Date(Date.now() + 60000),
+      attempts: 3,
+    })
+
+    await expect(service.verify(EMAIL, '000000')).rejects.toThrow(
+      'Intentos restantes: 1'
+    )
+    await expect(service.verify(EMAIL, '000000')).rejects.toThrow(
+      'Se agotaron los intentos'
+    )
+    await expect(service.verify(EMAIL, '123456')).rejects.toBeInstanceOf(
+      BadRequestException
+    )
+    expect(record.attempts).toBe(5)
+    expect(userModel.updateOne).not.toHaveBeenCalled()
+  })
+
+  it('claims each attempt atomically so concurrent guesses cannot exceed the limit', async () => {
+    const { service, record, verificationModel } = build({
+      codeHash: 'hash:123456',
+      expiresAt: new Date(Date.now() + 60000),
+    })
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => service.verify(EMAIL, '000000'))
+    )
+
+    expect(results.every(result => result.status === 'rejected')).toBe(true)
+    expect(record.attempts).toBe(5)
+    const [filter, update] = verificationModel.findOneAndUpdate.mock.calls[0]
+    expect(filter).toMatchObject({ email: EMAIL, attempts: { $lt: 5 } })
+    expect(update).toEqual({ $inc: { attempts: 1 } })
+  })
+})
@@ -0,0 +1,146 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { randomInt } from 'crypto'
+import * as bcrypt from 'bcrypt'
+import {
+  EmailVerification,
+  EmailVerificationDocument,
+} from './entities/email-verification.entity'
+import {
+  VERIFICATION_CODE_TTL_MINUTES,
+  VERIFICATION_MAX_ATTEMPTS,
+  VERIFICATION_MAX_SENDS_PER_HOUR,
+  VERIFICATION_RESEND_COOLDOWN_SECONDS,
+} from './constants/email-verification.constants'
+import { User, UserDocument } from '../users/entities/user.entity'
+import { EmailService } from '../email/email.service'
+
+const HOUR_MS = 60 * 60 * 1000
+const INVALID_CODE = 'El código de verificación es inválido o expiró'
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name)
+
+  constructor(
+    @InjectModel(EmailVerification.name)
+    private verificationModel: Model<EmailVerificationDocument>,
+    @InjectModel(User.name)
+    private userModel: Model<UserDocument>,
+    private readonly emailService: EmailService
+  ) {}
+
+  // La respuesta no revela si el correo existe o si ya estaba verificado
+  async sendCode(email: string): Promise<{ message: string }> {
+    const response = {
+      message:
+        'Si el correo está registrado y pendiente de verificación, se envió un código',
+    }
+    const normalized = email.trim().toLowerCase()
+    const user = await this.findUser(normalized)
+    if (!user || user.emailVerified) return response
+
+    const now = new Date()
+    const existing = await this.verificationModel
+      .findOne({ email: normalized })
+      .exec()
+    const sameWindow =
+      existing && now.getTime() - existing.windowStart.getTime() < HOUR_MS
+    if (
+      existing &&
+      now.getTime() - existing.lastSentAt.getTime() <
+        VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000
+    ) {
+      throw new HttpException(
+        `Espere ${VERIFICATION_RESEND_COOLDOWN_SECONDS} segundos antes de solicitar otro código`,
+        HttpStatus.TOO_MANY_REQUESTS
+      )
+    }
+    if (sameWindow && existing.sentCount >= VERIFICATION_MAX_SENDS_PER_HOUR) {
+      throw new HttpException(
+        'Se alcanzó el máximo de códigos por hora; intente más tarde',
+        HttpStatus.TOO_MANY_REQUESTS
+      )
+    }
+
+    const code = randomInt(0, 1000000).toString().padStart(6, '0')
+    await this.verificationModel.updateOne(
+      { email: normalized },
+      {
+        $set: {
+          userId: String(user._id),
+          codeHash: await bcrypt.hash(code, 10),
+          expiresAt: new Date(
+            now.getTime() + VERIFICATION_CODE_TTL_MINUTES * 60000
+          ),
+          attempts: 0,
+          sentCount: sameWindow ? existing.sentCount + 1 : 1,
+          windowStart: sameWindow ? existing.windowStart : now,
+          lastSentAt: now,
+        },
+      },
+      { upsert: true }
+    )
+    await this.emailService.sendCodeConfirmation(
+      user.email,
+      code,
+      VERIFICATION_CODE_TTL_MINUTES
+    )
+    return response
+  }
+
+  // Un código correcto marca el correo como verificado y se descarta
+  async verify(email: string, code: string): Promise<{ emailVerified: true }> {
+    const normalized = email.trim().toLowerCase()
+    // El intento se reserva antes de comparar: peticiones concurrentes no superan el máximo
+    const verification = await this.verificationModel
+      .findOneAndUpdate(
+        {
+          email: normalized,
+          attempts: { $lt: VERIFICATION_MAX_ATTEMPTS },
+          expiresAt: { $gt: new Date() },
+        },
+        { $inc: { attempts: 1 } },
+        { new: true }
+      )
+      .exec()
+    if (!verification || !verification.codeHash) {
+      throw new BadRequestException(INVALID_CODE)
+    }
+
+    if (!(await bcrypt.compare(code, verification.codeHash))) {
+      // Agotados los intentos el código deja de servir, pero se conserva el control de reenvíos
+      if (verification.attempts >= VERIFICATION_MAX_ATTEMPTS) {
+        throw new BadRequestException(
+          'Se agotaron los intentos; solicite un nuevo código'
+        )
+      }
+      throw new BadRequestException(
+        `${INVALID_CODE}. Intentos restantes: ${VERIFICATION_MAX_ATTEMPTS - verification.attempts}`
+      )
+    }
+
+    await this.userModel.updateOne(
+      { _id: verification.userId },
+      { $set: { emailVerified: true, emailVerifiedAt: new Date() } }
+    )
+    await this.verificationModel.deleteOne({ _id: verification._id })
+    this.logger.log(`Correo verificado para el usuario ${verification.userId}`)
+    return { emailVerified: true }
+  }
+
+  // El índice único de User compara correos sin distinguir mayúsculas
+  private findUser(email: string) {
+    return this.userModel
+      .findOne({ email })
+      .collation({ locale: 'en', strength: 1 })
+      .exec()
+  }
+}
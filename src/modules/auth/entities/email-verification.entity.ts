@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document } from 'mongoose'
+
+export interface EmailVerificationDocument extends Document {
+  email: string
+  userId: string
+  codeHash: string
+  expiresAt: Date
+  attempts: number
+  sentCount: number
+  windowStart: Date
+  lastSentAt: Date
+}
+
+// Un único código vigente por correo; el documento guarda además el control de reenvíos
+@Schema({ timestamps: true })
+export class EmailVerification {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  email: string
+
+  @Prop({ type: String, ref: 'User', required: true })
+  userId: string
+
+  // Hash bcrypt del código de 6 dígitos; el código nunca se guarda en claro
+  @Prop({ required: true })
+  codeHash: string
+
+  @Prop({ required: true })
+  expiresAt: Date
+
+  @Prop({ default: 0 })
+  attempts: number
+
+  @Prop({ default: 1 })
+  sentCount: number
+
+  @Prop({ required: true })
+  windowStart: Date
+
+  @Prop({ required: true })
+  lastSentAt: Date
+}
+
+export const EmailVerificationSchema =
+  SchemaFactory.createForClass(EmailVerification)
+
+// Mongo elimina el registro una hora después del último envío
+EmailVerificationSchema.index({ lastSentAt: 1 }, { expireAfterSeconds: 3600 })
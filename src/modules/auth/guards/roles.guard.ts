@@ -1,6 +1,7 @@
 import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
-import { IUser } from '../interfaces/user.interface'
+import { AuthenticatedRequest } from '../interfaces/auth-context.interface'
+import { hasRole } from '../utils/auth-context.util'
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -11,8 +12,7 @@ export class RolesGuard implements CanActivate {
     if (!requiredRoles) {
       return true;
     }
-    const request = context.switchToHttp().getRequest();
-    const user = request.user as IUser;
-    return requiredRoles.some(role => user.roles.includes(role));
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    return !!request.user && hasRole(request.user, ...requiredRoles);
   }
 }
@@ -0,0 +1,17 @@
+import { Request } from 'express'
+
+// Identidad del usuario autenticado, igual para las estrategias local, JWT y Google
+export interface AuthContext {
+  userId: string
+  email: string
+  companyId?: string
+  roles: string[]
+  // Proveedor vinculado, solo para usuarios con rol PROVIDER
+  providerId?: string
+  // Sesión del access token; no existe en el login local ni en el de Google
+  sessionId?: string
+}
+
+export interface AuthenticatedRequest extends Request {
+  user: AuthContext
+}
@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { randomBytes } from 'crypto'
+import { JwtKey, JwtKeyRing, parseJwtKeys } from './utils/jwt-keys.util'
+
+@Injectable()
+export class JwtKeyService {
+  private readonly logger = new Logger(JwtKeyService.name)
+  private readonly ring: JwtKeyRing
+
+  constructor(configService: ConfigService) {
+    const ring = parseJwtKeys({
+      keys: configService.get<string>('JWT_KEYS'),
+      secret: configService.get<string>('JWT_SECRET'),
+      kid: configService.get<string>('JWT_KID'),
+      activeKid: configService.get<string>('JWT_ACTIVE_KID'),
+    })
+    if (ring) {
+      this.ring = ring
+      return
+    }
+    if (configService.get<string>('NODE_ENV') === 'production') {
+      throw new Error('Configure JWT_KEYS o JWT_SECRET para firmar los tokens')
+    }
+    // Fuera de producción se usa una clave efímera: los tokens no sobreviven a un reinicio
+    this.logger.warn(
+      'JWT_KEYS/JWT_SECRET no configurados; se usará una clave temporal'
+    )
+    const key = { kid: 'ephemeral', secret: randomBytes(32).toString('hex') }
+    this.ring = { active: key, keys: new Map([[key.kid, key]]) }
+  }
+
+  signingKey(): JwtKey {
+    return this.ring.active
+  }
+
+  // Los tokens sin kid se verifican con la clave activa
+  verificationKey(kid?: string): JwtKey | undefined {
+    return kid ? this.ring.keys.get(kid) : this.ring.active
+  }
+}
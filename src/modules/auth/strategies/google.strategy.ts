@@ -15,17 +15,22 @@ export class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
   }
 
   async validate(
-    accessToken: string,
-    refreshToken: string,
+    _accessToken: string,
+    _refreshToken: string,
     profile: any,
     done: VerifyCallback
-  ): Promise<any> {
-    const { emails, displayName } = profile
-    const user = {
-      email: emails[0].value,
-      displayName,
-      accessToken,
+  ): Promise<void> {
+    const { emails, name, displayName, photos } = profile
+    try {
+      const auth = await this.authService.validateGoogleUser({
+        email: emails[0].value,
+        firstName: name?.givenName ?? displayName,
+        lastName: name?.familyName ?? '',
+        picture: photos?.[0]?.value,
+      })
+      done(null, auth)
+    } catch (error) {
+      done(error)
     }
-    done(null, user)
   }
 }
@@ -1,22 +1,45 @@
-import { Injectable } from '@nestjs/common'
+import { Injectable, UnauthorizedException } from '@nestjs/common'
 import { PassportStrategy } from '@nestjs/passport'
 import { ExtractJwt, Strategy } from 'passport-jwt'
-import { jwtConstants } from '../constants/jwt.constants'
+import { JwtKeyService } from '../jwt-key.service'
+import { readTokenKid } from '../utils/jwt-keys.util'
+import { SessionService } from '../../session/session.service'
+import { AuthContext } from '../interfaces/auth-context.interface'
+
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(
+    jwtKeyService: JwtKeyService,
+    private readonly sessionService: SessionService
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: jwtConstants.secret,
+      algorithms: ['HS256'],
+      // La clave se elige por el kid de la cabecera para permitir la rotación
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const key = jwtKeyService.verificationKey(readTokenKid(rawJwtToken))
+        if (!key) return done(new UnauthorizedException('Token inválido'))
+        done(null, key.secret)
+      },
     })
   }
 
-  async validate(payload: any) {
+  // Un token de una sesión revocada o vencida deja de ser válido de inmediato
+  async validate(payload: any): Promise<AuthContext> {
+    const session =
+      payload.sid &&
+      (await this.sessionService.findActive(payload.sid, payload.userId))
+    if (!session) {
+      throw new UnauthorizedException('La sesión expiró o fue revocada')
+    }
     return {
-      _id: payload.userId,
+      userId: payload.userId,
       email: payload.email,
-      roles: payload.roles
+      companyId: payload.companyId,
+      roles: payload.roles ?? [],
+      providerId: payload.providerId,
+      sessionId: payload.sid,
     }
   }
 }
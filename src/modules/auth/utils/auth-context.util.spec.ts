@@ -0,0 +1,47 @@
+import { Types } from 'mongoose'
+import { hasRole, toAuthContext } from './auth-context.util'
+
+const USER_ID = new Types.ObjectId('64b7f0c2a1b2c3d4e5f60701')
+const COMPANY_ID = new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718')
+
+describe('toAuthContext', () => {
+  it('maps a user document to string ids and a roles list', () => {
+    expect(
+      toAuthContext({
+        _id: USER_ID,
+        email: 'tesoreria@empresa.pe',
+        role: 'TREASURY',
+        companyId: COMPANY_ID,
+      })
+    ).toEqual({
+      userId: '64b7f0c2a1b2c3d4e5f60701',
+      email: 'tesoreria@empresa.pe',
+      companyId: '64b7f0c2a1b2c3d4e5f60718',
+      roles: ['TREASURY'],
+    })
+  })
+
+  it('keeps the linked provider and session only when present', () => {
+    const auth = toAuthContext(
+      { _id: USER_ID, email: 'proveedor@empresa.pe', role: 'PROVIDER' },
+      { providerId: 'provider-1', sessionId: undefined }
+    )
+
+    expect(auth.providerId).toBe('provider-1')
+    expect(auth.companyId).toBeUndefined()
+    expect('sessionId' in auth).toBe(false)
+  })
+})
+
+describe('hasRole', () => {
+  it('matches any of the given roles', () => {
+    const auth = toAuthContext({
+      _id: USER_ID,
+      email: 'a@b.pe',
+      role: 'ADMIN2',
+    })
+
+    expect(hasRole(auth, 'ADMIN', 'ADMIN2')).toBe(true)
+    expect(hasRole(auth, 'TREASURY')).toBe(false)
+  })
+})
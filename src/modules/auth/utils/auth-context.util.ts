@@ -0,0 +1,25 @@
+import { AuthContext } from '../interfaces/auth-context.interface'
+
+export interface AuthSubject {
+  _id: unknown
+  email: string
+  role: string
+  companyId?: unknown
+}
+
+export function toAuthContext(
+  user: AuthSubject,
+  extras: Pick<AuthContext, 'providerId' | 'sessionId'> = {}
+): AuthContext {
+  return {
+    userId: String(user._id),
+    email: user.email,
+    companyId: user.companyId ? String(user.companyId) : undefined,
+    roles: [user.role],
+    ...(extras.providerId && { providerId: extras.providerId }),
+    ...(extras.sessionId && { sessionId: extras.sessionId }),
+  }
+}
+
+export const hasRole = (auth: AuthContext, ...roles: string[]): boolean =>
+  roles.some(role => auth.roles?.includes(role))
@@ -0,0 +1,54 @@
+import { JwtKeyConfigError, parseJwtKeys, readTokenKid } from './jwt-keys.util'
+
+const SECRET_A = 'a'.repeat(32)
+const SECRET_B = 'b'.repeat(40)
+
+describe('parseJwtKeys', () => {
+  it('uses the active kid to sign and keeps every key for verification', () => {
+    const ring = parseJwtKeys({
+      keys: JSON.stringify([
+        { kid: '2025-01', secret: SECRET_A },
+        { kid: '2025-06', secret: SECRET_B },
+      ]),
+      activeKid: '2025-06',
+    })
+
+    expect(ring.active).toEqual({ kid: '2025-06', secret: SECRET_B })
+    expect([...ring.keys.keys()]).toEqual(['2025-01', '2025-06'])
+  })
+
+  it('accepts a single secret with a default kid', () => {
+    expect(parseJwtKeys({ secret: SECRET_A }).active).toEqual({
+      kid: 'default',
+      secret: SECRET_A,
+    })
+    expect(parseJwtKeys({})).toBeUndefined()
+  })
+
+  it('rejects short secrets, repeated kids and unknown active kids', () => {
+    expect(() => parseJwtKeys({ secret: 'corta' })).toThrow(JwtKeyConfigError)
+    expect(() =>
+      parseJwtKeys({
+        keys: JSON.stringify([
+          { kid: 'k1', secret: SECRET_A },
+          { kid: 'k1', secret: SECRET_B },
+        ]),
+      })
+    ).toThrow('repetido')
+    expect(() => parseJwtKeys({ secret: SECRET_A, activeKid: 'otro' })).toThrow(
+      'no existe'
+    )
+    expect(() => parseJwtKeys({ keys: '{' })).toThrow('JSON válido')
+  })
+})
+
+describe('readTokenKid', () => {
+  it('reads the kid from the token header', () => {
+    const header = Buffer.from(
+      JSON.stringify({ alg: 'HS256', kid: '2025-06' })
+    ).toString('base64url')
+
+    expect(readTokenKid(`${header}.payload.signature`)).toBe('2025-06')
+    expect(readTokenKid('no-es-un-jwt')).toBeUndefined()
+  })
+})
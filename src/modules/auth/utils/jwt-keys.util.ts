@@ -0,0 +1,81 @@
+export interface JwtKey {
+  kid: string
+  secret: string
+}
+
+export interface JwtKeyRing {
+  // Clave con la que se firman los tokens nuevos
+  active: JwtKey
+  // Todas las claves aceptadas al verificar, por kid
+  keys: Map<string, JwtKey>
+}
+
+export interface JwtKeyConfig {
+  // JSON: [{ "kid": "2025-06", "secret": "..." }, ...]
+  keys?: string
+  // Alternativa de una sola clave
+  secret?: string
+  kid?: string
+  activeKid?: string
+}
+
+export class JwtKeyConfigError extends Error {}
+
+const MIN_SECRET_LENGTH = 32
+
+/*
+ * Rotación: se agrega la clave nueva a JWT_KEYS y se apunta JWT_ACTIVE_KID a ella.
+ * La anterior se retira cuando vencen los access tokens que firmó.
+ */
+export function parseJwtKeys(config: JwtKeyConfig): JwtKeyRing | undefined {
+  let list: JwtKey[] = []
+  if (config.keys) {
+    try {
+      list = JSON.parse(config.keys)
+    } catch {
+      throw new JwtKeyConfigError('JWT_KEYS debe ser un arreglo JSON válido')
+    }
+    if (!Array.isArray(list) || list.length === 0) {
+      throw new JwtKeyConfigError('JWT_KEYS debe tener al menos una clave')
+    }
+  } else if (config.secret) {
+    list = [{ kid: config.kid || 'default', secret: config.secret }]
+  } else {
+    return undefined
+  }
+
+  const keys = new Map<string, JwtKey>()
+  for (const key of list) {
+    if (!key?.kid || typeof key.secret !== 'string') {
+      throw new JwtKeyConfigError('Cada clave JWT necesita kid y secret')
+    }
+    if (key.secret.length < MIN_SECRET_LENGTH) {
+      throw new JwtKeyConfigError(
+        `La clave ${key.kid} debe tener al menos ${MIN_SECRET_LENGTH} caracteres`
+      )
+    }
+    if (keys.has(key.kid)) {
+      throw new JwtKeyConfigError(`El kid ${key.kid} está repetido`)
+    }
+    keys.set(key.kid, { kid: key.kid, secret: key.secret })
+  }
+
+  const activeKid = config.activeKid || list[0].kid
+  const active = keys.get(activeKid)
+  if (!active) {
+    throw new JwtKeyConfigError(`JWT_ACTIVE_KID ${activeKid} no existe`)
+  }
+  return { active, keys }
+}
+
+// Lee el kid de la cabecera sin verificar la firma
+export function readTokenKid(token: string): string | undefined {
+  try {
+    const header = JSON.parse(
+      Buffer.from(token.split('.')[0], 'base64url').toString('utf8')
+    )
+    return typeof header.kid === 'string' ? header.kid : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
+import { BankReconciliationService } from './bank-reconciliation.service'
+import { ImportBankStatementDto } from './dto/import-bank-statement.dto'
+import {
+  IgnoreBankMovementDto,
+  MatchBankMovementDto,
+} from './dto/resolve-bank-movement.dto'
+import { QueryBankMovementsDto } from './dto/query-bank-movements.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('bank-reconciliation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class BankReconciliationController {
+  constructor(
+    private readonly bankReconciliationService: BankReconciliationService
+  ) {}
+
+  // Extracto CSV u OFX descargado de la banca por internet
+  @Post('statements')
+  @Roles(UserRole.TREASURY)
+  @UseInterceptors(
+    FileInterceptor('statement', {
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB
+      },
+    })
+  )
+  importStatement(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importDto: ImportBankStatementDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    if (!file || !file.buffer) {
+      throw new HttpException(
+        'No se recibió ningún archivo o el archivo está corrupto.',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+    return this.bankReconciliationService.importStatement(
+      file,
+      importDto,
+      auth.companyId,
+      auth
+    )
+  }
+
+  @Get('statements')
+  @Roles(
+    UserRole.TREASURY,
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING
+  )
+  findStatements(@CurrentAuth() auth: AuthContext) {
+    return this.bankReconciliationService.findStatements(auth.companyId)
+  }
+
+  @Get('movements')
+  @Roles(
+    UserRole.TREASURY,
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING
+  )
+  findMovements(
+    @Query() query: QueryBankMovementsDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.bankReconciliationService.findMovements(auth.companyId, query)
+  }
+
+  @Post('movements/:id/match')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.OK)
+  match(
+    @Param('id') id: string,
+    @Body() matchDto: MatchBankMovementDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.bankReconciliationService.match(
+      id,
+      matchDto,
+      auth.companyId,
+      auth
+    )
+  }
+
+  @Post('movements/:id/ignore')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.OK)
+  ignore(
+    @Param('id') id: string,
+    @Body() ignoreDto: IgnoreBankMovementDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.bankReconciliationService.ignore(
+      id,
+      ignoreDto,
+      auth.companyId,
+      auth
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { BankReconciliationController } from './bank-reconciliation.controller'
+import { BankReconciliationService } from './bank-reconciliation.service'
+import {
+  BankStatement,
+  BankStatementSchema,
+} from './entities/bank-statement.entity'
+import {
+  BankMovement,
+  BankMovementSchema,
+} from './entities/bank-movement.entity'
+import { Invoice, InvoiceSchema } from '../invoice/entities/invoice.entity'
+import {
+  PaymentBatch,
+  PaymentBatchSchema,
+} from '../payment-batch/entities/payment-batch.entity'
+import { PaymentBatchModule } from '../payment-batch/payment-batch.module'
+import { ProvidersModule } from '../providers/providers.module'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: BankStatement.name, schema: BankStatementSchema },
+      { name: BankMovement.name, schema: BankMovementSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: PaymentBatch.name, schema: PaymentBatchSchema },
+    ]),
+    PaymentBatchModule,
+    ProvidersModule,
+  ],
+  controllers: [BankReconciliationController],
+  providers: [BankReconciliationService],
+})
+export class BankReconciliationModule {}
@@ -0,0 +1,265 @@
+import { BadRequestException } from '@nestjs/common'
+import { Types } from 'mongoose'
+import { BankReconciliationService } from './bank-reconciliation.service'
+import {
+  BankMovementStatus,
+  BankMovementType,
+} from './enums/bank-movement.enum'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from '../payment-batch/enums/payment-batch-status.enum'
+
+// Los esquemas de Mongoose y los servicios con dependencias nativas se reemplazan por dobles
+jest.mock('../invoice/entities/invoice.entity', () => ({
+  Invoice: { name: 'Invoice' },
+}))
+jest.mock('../payment-batch/payment-batch.service', () => ({
+  PaymentBatchService: class {},
+}))
+jest.mock('../providers/providers.service', () => ({
+  ProvidersService: class {},
+}))
+
+const COMPANY_ID = '64b7f0c2a1b2c3d4e5f60718'
+const BATCH_ID = new Types.ObjectId()
+const INVOICE_ID = new Types.ObjectId()
+const RUC = '20100066603'
+const treasury = { userId: 'user-1', roles: ['TREASURY'] }
+
+const CSV = [
+  'Fecha;Descripcion;Monto;RUC',
+  `16/06/2025;PAGO PROVEEDOR;-1000.00;${RUC}`,
+].join('\n')
+
+const invoiceDoc = (overrides: Record<string, unknown> = {}) => ({
+  _id: INVOICE_ID,
+  serie: 'F001',
+  correlativo: '123',
+  rucEmisor: RUC,
+  fechaEmision: '01-06-2025',
+  montoTotal: 1000,
+  moneda: 'PEN',
+  status: 'APPROVED',
+  paidAmount: 0,
+  scheduledAmount: 0,
+  ...overrides,
+})
+
+const batchDoc = (status: PaymentBatchStatus, itemStatus: string) => ({
+  _id: BATCH_ID,
+  status,
+  plannedDate: new Date('2025-06-15'),
+  executedAt:
+    status === PaymentBatchStatus.EXECUTED ? new Date('2025-06-15') : undefined,
+  items: [
+    {
+      invoiceId: INVOICE_ID,
+      invoiceNumber: 'F001-123',
+      rucEmisor: RUC,
+      amount: 1000,
+      status: itemStatus,
+    },
+  ],
+})
+
+const movementDoc = (overrides: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  type: BankMovementType.DEBIT,
+  status: BankMovementStatus.UNMATCHED,
+  date: new Date('2025-06-16'),
+  amount: 1000,
+  currency: 'PEN',
+  description: 'PAGO PROVEEDOR',
+  counterpartyTaxId: RUC,
+  candidates: [],
+  matches: [],
+  save: jest.fn(async function () {
+    return this
+  }),
+  ...overrides,
+})
+
+function build(invoices: any[], batches: any[], movement = movementDoc()) {
+  const query = (value: unknown) => ({
+    lean: () => ({ exec: async () => value }),
+    exec: async () => value,
+  })
+  const bankStatementModel = {
+    exists: jest.fn(async () => null),
+    create: jest.fn(async (doc: object) => doc),
+  }
+  const bankMovementModel = {
+    find: jest.fn(() => query([])),
+    findOne: jest.fn(() => query(movement)),
+    // Aplica el filtro de estado sobre el movimiento en memoria, como haría Mongo
+    findOneAndUpdate: jest.fn(
+      (filter: Record<string, any>, update: Record<string, any>) => {
+        const pending = filter.status.$in.includes(movement.status)
+        if (pending) Object.assign(movement, update.$set)
+        return query(pending ? movement : null)
+      }
+    ),
+    updateOne: jest.fn(
+      (filter: Record<string, any>, update: Record<string, any>) => {
+        if (movement.status === filter.status) {
+          Object.assign(movement, update.$set)
+        }
+        return query(undefined)
+      }
+    ),
+    insertMany: jest.fn(async (docs: object[]) =>
+      docs.map(doc => ({ ...movementDoc(), ...doc }))
+    ),
+  }
+  const invoiceModel = {
+    find: jest.fn(async () => invoices),
+    findById: jest.fn(async () => invoices[0]),
+  }
+  const paymentBatchModel = { find: jest.fn(() => query(batches)) }
+  const paymentBatchService = {
+    registerPayment: jest.fn(async () => 0),
+    confirmItemPayment: jest.fn(async () => undefined),
+  }
+  const providersService = { findAll: jest.fn(async () => []) }
+  const service = new BankReconciliationService(
+    bankStatementModel as any,
+    bankMovementModel as any,
+    invoiceModel as any,
+    paymentBatchModel as any,
+    paymentBatchService as any,
+    providersService as any
+  )
+  return { service, paymentBatchService, movement }
+}
+
+const importCsv = (service: BankReconciliationService) =>
+  service.importStatement(
+    {
+      buffer: Buffer.from(CSV),
+      originalname: 'extracto.csv',
+    } as Express.Multer.File,
+    { bank: 'BCP', currency: 'PEN' } as any,
+    COMPANY_ID,
+    treasury
+  )
+
+describe('BankReconciliationService', () => {
+  it('confirms the item of an executed batch instead of paying the invoice again', async () => {
+    const { service, paymentBatchService } = build(
+      [],
+      [batchDoc(PaymentBatchStatus.EXECUTED, PaymentBatchItemStatus.PAID)]
+    )
+
+    const result = await importCsv(service)
+
+    expect(result.matched).toBe(1)
+    expect(paymentBatchService.confirmItemPayment).toHaveBeenCalledWith(
+      String(BATCH_ID),
+      String(INVOICE_ID),
+      expect.any(Types.ObjectId),
+      new Date('2025-06-16'),
+      COMPANY_ID,
+      treasury
+    )
+    expect(paymentBatchService.registerPayment).not.toHaveBeenCalled()
+  })
+
+  it('confirms a scheduled batch item so the batch does not pay it twice', async () => {
+    const { service, paymentBatchService } = build(
+      [invoiceDoc({ status: 'SCHEDULED', scheduledAmount: 1000 })],
+      [batchDoc(PaymentBatchStatus.SCHEDULED, PaymentBatchItemStatus.PENDING)]
+    )
+
+    await importCsv(service)
+
+    expect(paymentBatchService.confirmItemPayment).toHaveBeenCalledTimes(1)
+    expect(paymentBatchService.registerPayment).not.toHaveBeenCalled()
+  })
+
+  it('does not count the scheduled part of an invoice as a new payment', async () => {
+    const { service, paymentBatchService } = build(
+      [
+        invoiceDoc({
+          status: 'SCHEDULED',
+          montoTotal: 2000,
+          scheduledAmount: 1000,
+        }),
+      ],
+      []
+    )
+
+    const result = await importCsv(service)
+
+    expect(result.matched).toBe(1)
+    expect(paymentBatchService.registerPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: INVOICE_ID }),
+      1000,
+      new Date('2025-06-16'),
+      COMPANY_ID,
+      treasury,
+      false
+    )
+  })
+
+  it('rejects a manual match above the balance net of the IGV retention', async () => {
+    const { service, paymentBatchService } = build(
+      [
+        invoiceDoc({
+          retencion: { aplica: true, monto: 30, montoNeto: 970 },
+        }),
+      ],
+      []
+    )
+
+    await expect(
+      service.match(
+        'movement-1',
+        { matches: [{ invoiceId: String(INVOICE_ID), amount: 1000 }] },
+        COMPANY_ID,
+        treasury
+      )
+    ).rejects.toThrow(BadRequestException)
+    expect(paymentBatchService.registerPayment).not.toHaveBeenCalled()
+  })
+
+  it('pays a double-submitted manual match only once', async () => {
+    const { service, paymentBatchService, movement } = build([invoiceDoc()], [])
+    const matchDto = {
+      matches: [{ invoiceId: String(INVOICE_ID), amount: 1000 }],
+    }
+
+    const results = await Promise.allSettled([
+      service.match('movement-1', matchDto, COMPANY_ID, treasury),
+      service.match('movement-1', matchDto, COMPANY_ID, treasury),
+    ])
+
+    expect(results.map(result => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ])
+    expect(paymentBatchService.registerPayment).toHaveBeenCalledTimes(1)
+    expect(movement.status).toBe(BankMovementStatus.MATCHED)
+  })
+
+  it('returns the movement to its previous status when the payment fails', async () => {
+    const { service, paymentBatchService, movement } = build(
+      [invoiceDoc()],
+      [],
+      movementDoc({ status: BankMovementStatus.REVIEW })
+    )
+    paymentBatchService.registerPayment.mockRejectedValueOnce(
+      new Error('sin conexión')
+    )
+
+    await expect(
+      service.match(
+        'movement-1',
+        { matches: [{ invoiceId: String(INVOICE_ID), amount: 1000 }] },
+        COMPANY_ID,
+        treasury
+      )
+    ).rejects.toThrow('sin conexión')
+    expect(movement.status).toBe(BankMovementStatus.REVIEW)
+  })
+})
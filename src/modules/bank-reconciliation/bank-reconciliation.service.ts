@@ -0,0 +1,625 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { createHash } from 'crypto'
+import { Model, Types } from 'mongoose'
+import {
+  BankStatement,
+  BankStatementDocument,
+} from './entities/bank-statement.entity'
+import {
+  BankMovement,
+  BankMovementDocument,
+  BankMovementMatch,
+} from './entities/bank-movement.entity'
+import {
+  BankMovementStatus,
+  BankMovementType,
+} from './enums/bank-movement.enum'
+import { ImportBankStatementDto } from './dto/import-bank-statement.dto'
+import {
+  IgnoreBankMovementDto,
+  MatchBankMovementDto,
+} from './dto/resolve-bank-movement.dto'
+import { QueryBankMovementsDto } from './dto/query-bank-movements.dto'
+import {
+  detectStatementFormat,
+  parseStatement,
+  ParsedStatement,
+  StatementParseError,
+} from './utils/statement-parser.util'
+import {
+  DEFAULT_DATE_WINDOW_DAYS,
+  InvoiceMatch,
+  matchMovement,
+  MatchResult,
+  OpenInvoice,
+  parseIssueDate,
+} from './utils/reconciliation-matcher.util'
+import { Invoice } from '../invoice/entities/invoice.entity'
+import { InvoiceStatus } from '../invoice/enums/invoice-status.enum'
+import {
+  PaymentBatch,
+  PaymentBatchDocument,
+} from '../payment-batch/entities/payment-batch.entity'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from '../payment-batch/enums/payment-batch-status.enum'
+import {
+  PaymentActor,
+  PaymentBatchService,
+} from '../payment-batch/payment-batch.service'
+import {
+  exceedsPending,
+  pendingAmount,
+  roundAmount,
+} from '../payment-batch/utils/payment-amount.util'
+import { ProvidersService } from '../providers/providers.service'
+
+// Facturas que todavía esperan un pago al proveedor
+const OPEN_STATUSES: string[] = [
+  InvoiceStatus.APPROVED,
+  InvoiceStatus.SCHEDULED,
+]
+
+// Movimientos que todavía pueden conciliarse o descartarse a mano
+const PENDING_STATUSES: BankMovementStatus[] = [
+  BankMovementStatus.REVIEW,
+  BankMovementStatus.UNMATCHED,
+]
+
+const TOLERANCE = 0.005
+
+// Pago de un lote cuyo cargo todavía no se confirmó con un extracto
+interface BatchPayment {
+  key: string
+  batchId: Types.ObjectId
+  invoiceId: Types.ObjectId
+  invoiceNumber: string
+  rucEmisor: string
+  amount: number
+  // Fecha de ejecución del lote o, si aún no se ejecuta, la planificada
+  date: Date
+}
+
+export interface StatementImportResult {
+  statement: BankStatementDocument
+  matched: number
+  review: number
+  unmatched: number
+}
+
+@Injectable()
+export class BankReconciliationService {
+  private readonly logger = new Logger(BankReconciliationService.name)
+
+  constructor(
+    @InjectModel(BankStatement.name)
+    private bankStatementModel: Model<BankStatementDocument>,
+    @InjectModel(BankMovement.name)
+    private bankMovementModel: Model<BankMovementDocument>,
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>,
+    @InjectModel(PaymentBatch.name)
+    private paymentBatchModel: Model<PaymentBatchDocument>,
+    private readonly paymentBatchService: PaymentBatchService,
+    private readonly providersService: ProvidersService
+  ) {}
+
+  // Importa el extracto, descarta movimientos ya importados y concilia los cargos
+  async importStatement(
+    file: Express.Multer.File,
+    importDto: ImportBankStatementDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<StatementImportResult> {
+    const content = file.buffer.toString('utf8')
+    const sha256 = createHash('sha256').update(file.buffer).digest('hex')
+    const companyObjectId = new Types.ObjectId(companyId)
+
+    if (
+      await this.bankStatementModel.exists({
+        companyId: companyObjectId,
+        sha256,
+      })
+    ) {
+      throw new ConflictException('Este extracto ya fue importado')
+    }
+
+    const format = detectStatementFormat(file.originalname, content)
+    let parsed: ParsedStatement
+    try {
+      parsed = parseStatement(format, content)
+    } catch (error) {
+      if (error instanceof StatementParseError) {
+        throw new BadRequestException(error.message)
+      }
+      throw error
+    }
+
+    const currency = (importDto.currency ?? parsed.currency)?.toUpperCase()
+    if (!currency) {
+      throw new BadRequestException('Indique la moneda de la cuenta')
+    }
+
+    const existing = new Set(
+      (
+        await this.bankMovementModel
+          .find(
+            {
+              companyId: companyObjectId,
+              externalId: {
+                $in: parsed.movements.map(movement => movement.externalId),
+              },
+            },
+            { externalId: 1 }
+          )
+          .lean()
+          .exec()
+      ).map(movement => movement.externalId)
+    )
+    const newMovements = parsed.movements.filter(
+      movement => !existing.has(movement.externalId)
+    )
+    const dates = parsed.movements.map(movement => movement.date.getTime())
+
+    const statement = await this.bankStatementModel.create({
+      companyId: companyObjectId,
+      bank: importDto.bank,
+      accountNumber: importDto.accountNumber ?? parsed.accountNumber,
+      currency,
+      format,
+      filename: file.originalname,
+      sha256,
+      periodStart: new Date(Math.min(...dates)),
+      periodEnd: new Date(Math.max(...dates)),
+      movementCount: newMovements.length,
+      duplicateCount: parsed.movements.length - newMovements.length,
+      importedBy: actor.userId,
+    })
+
+    const movements = await this.bankMovementModel.insertMany(
+      newMovements.map(movement => ({
+        ...movement,
+        companyId: companyObjectId,
+        statementId: statement._id,
+        type:
+          movement.amount < 0
+            ? BankMovementType.DEBIT
+            : BankMovementType.CREDIT,
+        amount: roundAmount(Math.abs(movement.amount)),
+        currency,
+        // Los abonos no corresponden a pagos a proveedores
+        status:
+          movement.amount < 0
+            ? BankMovementStatus.UNMATCHED
+            : BankMovementStatus.IGNORED,
+      }))
+    )
+
+    const debits = (movements as unknown as BankMovementDocument[])
+      .filter(movement => movement.type === BankMovementType.DEBIT)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+    await this.reconcile(
+      debits,
+      companyId,
+      currency,
+      importDto.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS,
+      actor
+    )
+
+    const count = (status: BankMovementStatus) =>
+      debits.filter(movement => movement.status === status).length
+    this.logger.log(
+      `Extracto ${file.originalname}: ${newMovements.length} movimientos nuevos, ${count(BankMovementStatus.MATCHED)} conciliados`
+    )
+    return {
+      statement,
+      matched: count(BankMovementStatus.MATCHED),
+      review: count(BankMovementStatus.REVIEW),
+      unmatched: count(BankMovementStatus.UNMATCHED),
+    }
+  }
+
+  async findStatements(companyId: string): Promise<BankStatementDocument[]> {
+    return this.bankStatementModel
+      .find({ companyId: new Types.ObjectId(companyId) })
+      .sort({ createdAt: -1 })
+      .exec()
+  }
+
+  // Cola de conciliación: por defecto, lo que requiere revisión o no se pudo conciliar
+  async findMovements(
+    companyId: string,
+    query: QueryBankMovementsDto
+  ): Promise<BankMovementDocument[]> {
+    return this.bankMovementModel
+      .find({
+        companyId: new Types.ObjectId(companyId),
+        status: query.status ?? { $in: PENDING_STATUSES },
+        ...(query.statementId && {
+          statementId: new Types.ObjectId(query.statementId),
+        }),
+      })
+      .sort({ date: -1 })
+      .exec()
+  }
+
+  // Confirmación manual de un movimiento contra pagos de lotes o facturas sin programar
+  async match(
+    id: string,
+    matchDto: MatchBankMovementDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<BankMovementDocument> {
+    const movement = await this.findPendingMovement(id, companyId)
+    const total = matchDto.matches.reduce((sum, match) => sum + match.amount, 0)
+    if (Math.abs(total - movement.amount) > TOLERANCE) {
+      throw new BadRequestException(
+        `Los montos aplicados (${roundAmount(total)}) deben sumar el monto del movimiento (${movement.amount})`
+      )
+    }
+
+    const batchPayments = new Map(
+      (await this.getBatchPayments(companyId, movement.currency)).map(
+        payment => [payment.key, payment]
+      )
+    )
+    const unbatched = matchDto.matches.filter(match => !match.batchId)
+    const invoices = await this.invoiceModel.find({
+      _id: { $in: unbatched.map(match => match.invoiceId) },
+      companyId,
+      moneda: movement.currency,
+      status: { $in: OPEN_STATUSES },
+    })
+    const byId = new Map(
+      invoices.map(invoice => [String(invoice._id), invoice])
+    )
+
+    // Se valida todo antes de registrar cualquier pago
+    const matches: BankMovementMatch[] = matchDto.matches.map(match => {
+      if (match.batchId) {
+        const payment = batchPayments.get(
+          this.batchPaymentKey(match.batchId, match.invoiceId)
+        )
+        if (!payment) {
+          throw new NotFoundException(
+            `La factura ${match.invoiceId} no tiene un pago pendiente de conciliar en el lote ${match.batchId}`
+          )
+        }
+        if (Math.abs(payment.amount - match.amount) > TOLERANCE) {
+          throw new BadRequestException(
+            `El lote pagó ${payment.amount} por la factura ${payment.invoiceNumber}; el monto aplicado debe coincidir`
+          )
+        }
+        return {
+          invoiceId: payment.invoiceId,
+          invoiceNumber: payment.invoiceNumber,
+          amount: payment.amount,
+          batchId: payment.batchId,
+        }
+      }
+
+      const invoice = byId.get(match.invoiceId)
+      if (!invoice) {
+        throw new NotFoundException(
+          `Factura con ID ${match.invoiceId} no encontrada o no pendiente de pago en ${movement.currency}`
+        )
+      }
+      // Lo ya programado en lotes se concilia contra el lote, no como pago nuevo
+      if (exceedsPending(match.amount, invoice)) {
+        throw new BadRequestException(
+          `El monto aplicado a la factura ${invoice.serie}-${invoice.correlativo} supera su saldo sin programar (${pendingAmount(invoice)})`
+        )
+      }
+      return {
+        invoiceId: invoice._id as unknown as Types.ObjectId,
+        invoiceNumber: `${invoice.serie}-${invoice.correlativo}`,
+        amount: match.amount,
+      }
+    })
+
+    // El movimiento se toma antes de registrar los pagos: un segundo envío ya no lo concilia
+    const previousStatus = movement.status
+    const claimed = await this.claimMovement(movement)
+    try {
+      await this.applyMatches(claimed, matches, byId, companyId, actor)
+    } catch (error) {
+      await this.bankMovementModel
+        .updateOne(
+          { _id: claimed._id, status: BankMovementStatus.MATCHING },
+          { $set: { status: previousStatus } }
+        )
+        .exec()
+      throw error
+    }
+    claimed.matches = matches
+    return this.resolve(claimed, BankMovementStatus.MATCHED, actor)
+  }
+
+  async ignore(
+    id: string,
+    ignoreDto: IgnoreBankMovementDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<BankMovementDocument> {
+    const movement = await this.claimMovement(
+      await this.findPendingMovement(id, companyId)
+    )
+    movement.reason = ignoreDto.reason
+    return this.resolve(movement, BankMovementStatus.IGNORED, actor)
+  }
+
+  // Primero se buscan los pagos de lotes; solo un cargo sin lote se registra como pago nuevo
+  private async reconcile(
+    movements: BankMovementDocument[],
+    companyId: string,
+    currency: string,
+    windowDays: number,
+    actor: PaymentActor
+  ) {
+    if (movements.length === 0) return
+
+    const batchPayments = new Map(
+      (await this.getBatchPayments(companyId, currency)).map(payment => [
+        payment.key,
+        payment,
+      ])
+    )
+    const invoices = await this.invoiceModel.find({
+      companyId,
+      moneda: currency,
+      status: { $in: OPEN_STATUSES },
+    })
+    const byId = new Map(
+      invoices.map(invoice => [String(invoice._id), invoice])
+    )
+    const accountIndex = await this.getAccountIndex(companyId)
+
+    for (const movement of movements) {
+      const batchResult = matchMovement(
+        movement,
+        [...batchPayments.values()].map(payment => ({
+          id: payment.key,
+          invoiceNumber: payment.invoiceNumber,
+          rucEmisor: payment.rucEmisor,
+          plannedDate: payment.date,
+          openAmount: payment.amount,
+        })),
+        accountIndex,
+        windowDays
+      )
+      // Los saldos se recalculan porque un cargo anterior pudo pagar la factura
+      const open: OpenInvoice[] = invoices
+        .filter(invoice => OPEN_STATUSES.includes(invoice.status))
+        .map(invoice => ({
+          id: String(invoice._id),
+          invoiceNumber: `${invoice.serie}-${invoice.correlativo}`,
+          rucEmisor: invoice.rucEmisor,
+          issueDate: parseIssueDate(invoice.fechaEmision),
+          openAmount: pendingAmount(invoice),
+        }))
+      const invoiceResult =
+        batchResult.status === BankMovementStatus.MATCHED
+          ? undefined
+          : matchMovement(movement, open, accountIndex, windowDays)
+
+      const toBatchMatch = (match: InvoiceMatch): BankMovementMatch => {
+        const payment = batchPayments.get(match.invoiceId)
+        return {
+          invoiceId: payment.invoiceId,
+          invoiceNumber: match.invoiceNumber,
+          amount: match.amount,
+          batchId: payment.batchId,
+        }
+      }
+      const toInvoiceMatch = (match: InvoiceMatch): BankMovementMatch => ({
+        invoiceId: new Types.ObjectId(match.invoiceId),
+        invoiceNumber: match.invoiceNumber,
+        amount: match.amount,
+      })
+      const result = this.combineResults(batchResult, invoiceResult)
+      const matches =
+        result === batchResult
+          ? result.matches.map(toBatchMatch)
+          : result.matches.map(toInvoiceMatch)
+
+      movement.supplierTaxId = result.supplierTaxId
+      movement.reason = result.reason
+      movement.candidates = [
+        ...batchResult.candidates.map(toBatchMatch),
+        ...(invoiceResult?.candidates.map(toInvoiceMatch) ?? []),
+      ]
+      movement.status = result.status
+      if (result.status === BankMovementStatus.MATCHED) {
+        try {
+          await this.applyMatches(movement, matches, byId, companyId, actor)
+          movement.matches = matches
+          movement.resolvedAt = new Date()
+          for (const match of matches.filter(m => m.batchId)) {
+            batchPayments.delete(
+              this.batchPaymentKey(match.batchId, match.invoiceId)
+            )
+            // La confirmación pudo registrar el pago: se recarga para no pisarlo con datos viejos
+            const stale = byId.get(String(match.invoiceId))
+            if (stale) {
+              const fresh = await this.invoiceModel.findById(match.invoiceId)
+              invoices[invoices.indexOf(stale)] = fresh
+              byId.set(String(match.invoiceId), fresh)
+            }
+          }
+        } catch (error) {
+          // Si la factura o el lote no admiten el pago, el movimiento pasa a revisión manual
+          movement.status = BankMovementStatus.REVIEW
+          movement.candidates = movement.candidates.concat(matches)
+          movement.reason = error.message
+        }
+      }
+      await movement.save()
+    }
+  }
+
+  // Una coincidencia con un lote prevalece; si no, la de facturas sin programar o la más útil para revisar
+  private combineResults(
+    batchResult: MatchResult,
+    invoiceResult?: MatchResult
+  ): MatchResult {
+    if (!invoiceResult || batchResult.status === BankMovementStatus.MATCHED) {
+      return batchResult
+    }
+    if (invoiceResult.status === BankMovementStatus.MATCHED) {
+      return invoiceResult
+    }
+    return batchResult.status === BankMovementStatus.REVIEW ||
+      invoiceResult.status !== BankMovementStatus.REVIEW
+      ? { ...batchResult, reason: batchResult.reason ?? invoiceResult.reason }
+      : invoiceResult
+  }
+
+  // Los pagos de lotes se confirman; los demás se registran como pagos nuevos de la factura
+  private async applyMatches(
+    movement: BankMovementDocument,
+    matches: BankMovementMatch[],
+    invoices: Map<string, Invoice>,
+    companyId: string,
+    actor: PaymentActor
+  ) {
+    for (const match of matches) {
+      if (match.batchId) {
+        await this.paymentBatchService.confirmItemPayment(
+          String(match.batchId),
+          String(match.invoiceId),
+          movement._id as Types.ObjectId,
+          movement.date,
+          companyId,
+          actor
+        )
+      } else {
+        await this.paymentBatchService.registerPayment(
+          invoices.get(String(match.invoiceId)),
+          match.amount,
+          movement.date,
+          companyId,
+          actor,
+          false
+        )
+      }
+    }
+  }
+
+  // Pagos de lotes ejecutados (ya registrados) o programados cuyo cargo aún no se concilió
+  private async getBatchPayments(
+    companyId: string,
+    currency: string
+  ): Promise<BatchPayment[]> {
+    const batches = await this.paymentBatchModel
+      .find({
+        companyId: new Types.ObjectId(companyId),
+        currency,
+        status: {
+          $in: [PaymentBatchStatus.SCHEDULED, PaymentBatchStatus.EXECUTED],
+        },
+      })
+      .lean()
+      .exec()
+    return batches.flatMap(batch =>
+      batch.items
+        .filter(
+          item =>
+            !item.bankMovementId &&
+            item.status ===
+              (batch.status === PaymentBatchStatus.EXECUTED
+                ? PaymentBatchItemStatus.PAID
+                : PaymentBatchItemStatus.PENDING)
+        )
+        .map(item => ({
+          key: this.batchPaymentKey(batch._id, item.invoiceId),
+          batchId: batch._id as Types.ObjectId,
+          invoiceId: item.invoiceId,
+          invoiceNumber: item.invoiceNumber,
+          rucEmisor: item.rucEmisor,
+          amount: item.amount,
+          date: batch.executedAt ?? batch.plannedDate,
+        }))
+    )
+  }
+
+  private batchPaymentKey(batchId: unknown, invoiceId: unknown): string {
+    return `${String(batchId)}:${String(invoiceId)}`
+  }
+
+  // Cuentas y CCI de proveedores para reconocer al beneficiario del cargo
+  private async getAccountIndex(
+    companyId: string
+  ): Promise<Map<string, string>> {
+    const providers = await this.providersService.findAll(companyId)
+    const index = new Map<string, string>()
+    for (const provider of providers) {
+      for (const account of provider.bankAccounts ?? []) {
+        for (const number of [account.accountNumber, account.cci]) {
+          const digits = (number ?? '').replace(/\D/g, '')
+          if (digits) index.set(digits, provider.taxId)
+        }
+      }
+    }
+    return index
+  }
+
+  private async findPendingMovement(
+    id: string,
+    companyId: string
+  ): Promise<BankMovementDocument> {
+    const movement = await this.bankMovementModel
+      .findOne({ _id: id, companyId: new Types.ObjectId(companyId) })
+      .exec()
+    if (!movement) {
+      throw new NotFoundException(`Movimiento con ID ${id} no encontrado`)
+    }
+    if (
+      movement.type !== BankMovementType.DEBIT ||
+      !PENDING_STATUSES.includes(movement.status)
+    ) {
+      throw new ConflictException(
+        `El movimiento está en estado ${movement.status} y no admite conciliación`
+      )
+    }
+    return movement
+  }
+
+  // Pasa el movimiento a MATCHING solo si sigue pendiente
+  private async claimMovement(
+    movement: BankMovementDocument
+  ): Promise<BankMovementDocument> {
+    const claimed = await this.bankMovementModel
+      .findOneAndUpdate(
+        { _id: movement._id, status: { $in: PENDING_STATUSES } },
+        { $set: { status: BankMovementStatus.MATCHING } },
+        { new: true }
+      )
+      .exec()
+    if (!claimed) {
+      throw new ConflictException(
+        'El movimiento ya se está conciliando o cambió de estado'
+      )
+    }
+    return claimed
+  }
+
+  private async resolve(
+    movement: BankMovementDocument,
+    status: BankMovementStatus,
+    actor: PaymentActor
+  ): Promise<BankMovementDocument> {
+    movement.status = status
+    movement.candidates = []
+    movement.resolvedAt = new Date()
+    movement.resolvedBy = actor.userId
+    return movement.save()
+  }
+}
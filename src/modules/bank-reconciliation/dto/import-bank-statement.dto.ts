@@ -0,0 +1,44 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class ImportBankStatementDto {
+  @ApiProperty({ description: 'Banco del extracto', example: 'BCP' })
+  @IsString()
+  @IsNotEmpty()
+  bank: string
+
+  @ApiProperty({ description: 'Cuenta de la empresa', required: false })
+  @IsString()
+  @IsOptional()
+  accountNumber?: string
+
+  @ApiProperty({
+    description: 'Moneda de la cuenta; el OFX la trae en CURDEF',
+    example: 'PEN',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  currency?: string
+
+  @ApiProperty({
+    description:
+      'Días de tolerancia respecto a la fecha planificada del lote de pago',
+    example: 5,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  @IsOptional()
+  dateWindowDays?: number
+}
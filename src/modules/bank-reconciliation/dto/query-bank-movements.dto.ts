@@ -0,0 +1,15 @@
+import { IsEnum, IsMongoId, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { BankMovementStatus } from '../enums/bank-movement.enum'
+
+export class QueryBankMovementsDto {
+  @ApiProperty({ enum: BankMovementStatus, required: false })
+  @IsEnum(BankMovementStatus)
+  @IsOptional()
+  status?: BankMovementStatus
+
+  @ApiProperty({ required: false })
+  @IsMongoId()
+  @IsOptional()
+  statementId?: string
+}
@@ -0,0 +1,49 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class MovementMatchDto {
+  @ApiProperty({ description: 'ID de la factura pagada' })
+  @IsMongoId()
+  invoiceId: string
+
+  @ApiProperty({ description: 'Monto del movimiento aplicado a la factura' })
+  @IsNumber()
+  @Min(0.01)
+  amount: number
+
+  @ApiProperty({
+    description: 'Lote de pago cuyo cargo confirma el movimiento',
+    required: false,
+  })
+  @IsMongoId()
+  @IsOptional()
+  batchId?: string
+}
+
+// Confirmación manual desde la cola de conciliación
+export class MatchBankMovementDto {
+  @ApiProperty({ type: [MovementMatchDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => MovementMatchDto)
+  matches: MovementMatchDto[]
+}
+
+export class IgnoreBankMovementDto {
+  @ApiProperty({ example: 'Pago de planilla' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string
+}
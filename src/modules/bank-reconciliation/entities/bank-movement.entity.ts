@@ -0,0 +1,122 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import {
+  BankMovementStatus,
+  BankMovementType,
+} from '../enums/bank-movement.enum'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+// Factura a la que se aplicó (o puede aplicarse) el movimiento
+@Schema({ _id: false })
+export class BankMovementMatch {
+  @Prop({ type: Types.ObjectId, ref: 'Invoice', required: true })
+  invoiceId: Types.ObjectId
+
+  @Prop()
+  invoiceNumber: string
+
+  @Prop({ required: true })
+  amount: number
+
+  // Lote cuyo pago confirma el movimiento; sin lote, el movimiento es un pago nuevo
+  @Prop({ type: Types.ObjectId, ref: 'PaymentBatch' })
+  batchId?: Types.ObjectId
+}
+
+export const BankMovementMatchSchema =
+  SchemaFactory.createForClass(BankMovementMatch)
+
+export interface BankMovementDocument extends Document {
+  companyId: Types.ObjectId
+  statementId: Types.ObjectId
+  externalId: string
+  date: Date
+  type: BankMovementType
+  amount: number
+  currency: string
+  description: string
+  reference?: string
+  counterpartyTaxId?: string
+  counterpartyAccount?: string
+  status: BankMovementStatus
+  supplierTaxId?: string
+  matches: BankMovementMatch[]
+  candidates: BankMovementMatch[]
+  reason?: string
+  resolvedAt?: Date
+  resolvedBy?: string
+}
+
+@Schema({ timestamps: true })
+export class BankMovement {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId
+
+  @Prop({ type: Types.ObjectId, ref: 'BankStatement', required: true })
+  statementId: Types.ObjectId
+
+  // FITID del OFX o huella de la fila del CSV
+  @Prop({ required: true })
+  externalId: string
+
+  @Prop({ required: true })
+  date: Date
+
+  @Prop({ type: String, enum: BankMovementType, required: true })
+  type: BankMovementType
+
+  // Siempre positivo; el tipo indica si es cargo o abono
+  @Prop({ required: true })
+  amount: number
+
+  @Prop({ required: true })
+  currency: string
+
+  @Prop({ default: '' })
+  description: string
+
+  @Prop()
+  reference?: string
+
+  @Prop()
+  counterpartyTaxId?: string
+
+  @Prop()
+  counterpartyAccount?: string
+
+  @Prop({
+    type: String,
+    enum: BankMovementStatus,
+    default: BankMovementStatus.UNMATCHED,
+  })
+  status: BankMovementStatus
+
+  // RUC del proveedor identificado por el RUC o la cuenta del movimiento
+  @Prop()
+  supplierTaxId?: string
+
+  @Prop({ type: [BankMovementMatchSchema], default: [] })
+  matches: BankMovementMatch[]
+
+  // Facturas propuestas cuando la coincidencia es parcial o ambigua
+  @Prop({ type: [BankMovementMatchSchema], default: [] })
+  candidates: BankMovementMatch[]
+
+  @Prop()
+  reason?: string
+
+  @Prop()
+  resolvedAt?: Date
+
+  @Prop({ type: String, ref: 'User' })
+  resolvedBy?: string
+}
+
+export const BankMovementSchema = SchemaFactory.createForClass(BankMovement)
+
+BankMovementSchema.index({ companyId: 1, externalId: 1 }, { unique: true })
+BankMovementSchema.index({ companyId: 1, status: 1, date: -1 })
+
+BankMovementSchema.plugin(tenantPlugin)
+BankMovementSchema.plugin(auditPlugin, { entity: 'BankMovement' })
@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import { BankStatementFormat } from '../enums/bank-movement.enum'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+export interface BankStatementDocument extends Document {
+  companyId: Types.ObjectId
+  bank: string
+  accountNumber?: string
+  currency: string
+  format: BankStatementFormat
+  filename: string
+  sha256: string
+  periodStart?: Date
+  periodEnd?: Date
+  movementCount: number
+  duplicateCount: number
+  importedBy?: string
+}
+
+// Extracto bancario importado; sus movimientos se guardan en BankMovement
+@Schema({ timestamps: true })
+export class BankStatement {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId
+
+  @Prop({ required: true })
+  bank: string
+
+  @Prop()
+  accountNumber?: string
+
+  @Prop({ required: true })
+  currency: string
+
+  @Prop({ type: String, enum: BankStatementFormat, required: true })
+  format: BankStatementFormat
+
+  @Prop({ required: true })
+  filename: string
+
+  // Evita importar dos veces el mismo archivo
+  @Prop({ required: true })
+  sha256: string
+
+  @Prop()
+  periodStart?: Date
+
+  @Prop()
+  periodEnd?: Date
+
+  @Prop({ default: 0 })
+  movementCount: number
+
+  // Movimientos ya importados en otro extracto que se solapa con este
+  @Prop({ default: 0 })
+  duplicateCount: number
+
+  @Prop({ type: String, ref: 'User' })
+  importedBy?: string
+}
+
+export const BankStatementSchema = SchemaFactory.createForClass(BankStatement)
+
+BankStatementSchema.plugin(tenantPlugin)
+
+BankStatementSchema.index({ companyId: 1, sha256: 1 }, { unique: true })
@@ -0,0 +1,20 @@
+export enum BankStatementFormat {
+  CSV = 'csv',
+  OFX = 'ofx',
+}
+
+export enum BankMovementType {
+  DEBIT = 'debit',
+  CREDIT = 'credit',
+}
+
+export enum BankMovementStatus {
+  MATCHED = 'matched',
+  // Coincidencia parcial o ambigua que tesorería debe confirmar
+  REVIEW = 'review',
+  UNMATCHED = 'unmatched',
+  // Tomado por una conciliación manual en curso
+  MATCHING = 'matching',
+  // Abonos y cargos que no corresponden a facturas de proveedores
+  IGNORED = 'ignored',
+}
@@ -0,0 +1,117 @@
+import { matchMovement, OpenInvoice } from './reconciliation-matcher.util'
+import { BankMovementStatus } from '../enums/bank-movement.enum'
+
+const RUC_A = '20100066603'
+const RUC_B = '20512345678'
+
+const invoice = (
+  id: string,
+  rucEmisor: string,
+  openAmount: number,
+  overrides: Partial<OpenInvoice> = {}
+): OpenInvoice => ({
+  id,
+  invoiceNumber: `F001-${id}`,
+  rucEmisor,
+  issueDate: new Date('2025-06-01T00:00:00Z'),
+  openAmount,
+  ...overrides,
+})
+
+const debit = (amount: number, overrides = {}) => ({
+  date: new Date('2025-06-15T00:00:00Z'),
+  amount,
+  description: 'TRANSFERENCIA',
+  ...overrides,
+})
+
+const accounts = new Map([['00310100300456789012', RUC_B]])
+
+describe('matchMovement', () => {
+  const invoices = [
+    invoice('1', RUC_A, 1180),
+    invoice('2', RUC_B, 590),
+    invoice('3', RUC_B, 410),
+  ]
+
+  it('matches by supplier RUC and exact amount', () => {
+    const result = matchMovement(
+      debit(1180, { counterpartyTaxId: RUC_A }),
+      invoices,
+      accounts
+    )
+    expect(result).toMatchObject({
+      status: BankMovementStatus.MATCHED,
+      supplierTaxId: RUC_A,
+      matches: [{ invoiceId: '1', amount: 1180 }],
+    })
+  })
+
+  it('identifies the supplier by its CCI and matches a grouped payment', () => {
+    const result = matchMovement(
+      debit(1000, { counterpartyAccount: '00310100300456789012' }),
+      invoices,
+      accounts
+    )
+    expect(result.status).toBe(BankMovementStatus.MATCHED)
+    expect(result.matches.map(m => m.invoiceId)).toEqual(['2', '3'])
+  })
+
+  it('sends amount-only and ambiguous matches to review', () => {
+    expect(matchMovement(debit(1180), invoices, accounts)).toMatchObject({
+      status: BankMovementStatus.REVIEW,
+      candidates: [{ invoiceId: '1' }],
+    })
+
+    const twins = [invoice('4', RUC_A, 300), invoice('5', RUC_A, 300)]
+    expect(
+      matchMovement(
+        debit(300, { description: `PAGO ${RUC_A}` }),
+        twins,
+        accounts
+      ).status
+    ).toBe(BankMovementStatus.REVIEW)
+  })
+
+  it('proposes partial payments for review', () => {
+    const result = matchMovement(
+      debit(500, { counterpartyTaxId: RUC_A }),
+      invoices,
+      accounts
+    )
+    expect(result).toMatchObject({
+      status: BankMovementStatus.REVIEW,
+      candidates: [{ invoiceId: '1', amount: 500 }],
+    })
+  })
+
+  it('respects the date window around the planned payment date', () => {
+    const scheduled = [
+      invoice('6', RUC_A, 1180, {
+        plannedDate: new Date('2025-06-01T00:00:00Z'),
+      }),
+    ]
+    expect(
+      matchMovement(
+        debit(1180, { counterpartyTaxId: RUC_A }),
+        scheduled,
+        accounts
+      ).status
+    ).toBe(BankMovementStatus.UNMATCHED)
+    expect(
+      matchMovement(
+        debit(1180, { counterpartyTaxId: RUC_A }),
+        scheduled,
+        accounts,
+        20
+      ).status
+    ).toBe(BankMovementStatus.MATCHED)
+  })
+
+  it('leaves unknown debits unmatched', () => {
+    expect(matchMovement(debit(75.3), invoices, accounts)).toMatchObject({
+      status: BankMovementStatus.UNMATCHED,
+      matches: [],
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { BankMovementStatus } from '../enums/bank-movement.enum'
+import { parseStatementDate } from './statement-parser.util'
+
+// Margen para comparar montos en soles/dólares con decimales
+const TOLERANCE = 0.005
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Sin lote de pago, se descartan facturas emitidas hace más de este plazo
+const MAX_DAYS_AFTER_ISSUE = 180
+export const DEFAULT_DATE_WINDOW_DAYS = 5
+
+export interface MovementToMatch {
+  date: Date
+  // Monto del cargo, en positivo
+  amount: number
+  description: string
+  reference?: string
+  counterpartyTaxId?: string
+  counterpartyAccount?: string
+}
+
+export interface OpenInvoice {
+  id: string
+  invoiceNumber: string
+  rucEmisor: string
+  issueDate?: Date
+  // Fecha planificada del lote en que se programó
+  plannedDate?: Date
+  // Monto que falta pagar al proveedor
+  openAmount: number
+}
+
+export interface InvoiceMatch {
+  invoiceId: string
+  invoiceNumber: string
+  amount: number
+}
+
+export interface MatchResult {
+  status: BankMovementStatus
+  supplierTaxId?: string
+  matches: InvoiceMatch[]
+  candidates: InvoiceMatch[]
+  reason?: string
+}
+
+// fechaEmision llega como texto (dd-mm-yyyy en las facturas extraídas)
+export function parseIssueDate(value?: string): Date | undefined {
+  try {
+    return value ? parseStatementDate(value) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) <= TOLERANCE
+
+const daysBetween = (a: Date, b: Date) =>
+  Math.abs(a.getTime() - b.getTime()) / DAY_MS
+
+// El proveedor se reconoce por su RUC o por una cuenta/CCI registrada en Provider
+function identifySupplier(
+  movement: MovementToMatch,
+  invoices: OpenInvoice[],
+  accountIndex: Map<string, string>
+): string | undefined {
+  if (movement.counterpartyTaxId?.length === 11) {
+    return movement.counterpartyTaxId
+  }
+  if (accountIndex.has(movement.counterpartyAccount ?? '')) {
+    return accountIndex.get(movement.counterpartyAccount)
+  }
+  const numbers =
+    `${movement.description} ${movement.reference ?? ''}`.match(/\d{10,20}/g) ??
+    []
+  const rucs = new Set(invoices.map(invoice => invoice.rucEmisor))
+  for (const number of numbers) {
+    if (rucs.has(number)) return number
+    if (accountIndex.has(number)) return accountIndex.get(number)
+  }
+  return undefined
+}
+
+function inDateWindow(
+  movement: MovementToMatch,
+  invoice: OpenInvoice,
+  windowDays: number
+): boolean {
+  if (invoice.issueDate && movement.date < invoice.issueDate) return false
+  if (invoice.plannedDate) {
+    return daysBetween(movement.date, invoice.plannedDate) <= windowDays
+  }
+  return (
+    !invoice.issueDate ||
+    daysBetween(movement.date, invoice.issueDate) <= MAX_DAYS_AFTER_ISSUE
+  )
+}
+
+const toMatch = (invoice: OpenInvoice, amount = invoice.openAmount) => ({
+  invoiceId: invoice.id,
+  invoiceNumber: invoice.invoiceNumber,
+  amount,
+})
+
+// Solo se concilia automáticamente si el proveedor y el monto coinciden sin ambigüedad
+export function matchMovement(
+  movement: MovementToMatch,
+  invoices: OpenInvoice[],
+  accountIndex: Map<string, string>,
+  windowDays = DEFAULT_DATE_WINDOW_DAYS
+): MatchResult {
+  const supplierTaxId = identifySupplier(movement, invoices, accountIndex)
+  const candidates = invoices.filter(
+    invoice =>
+      invoice.openAmount > TOLERANCE &&
+      inDateWindow(movement, invoice, windowDays) &&
+      (!supplierTaxId || invoice.rucEmisor === supplierTaxId)
+  )
+  const exact = candidates.filter(invoice =>
+    sameAmount(invoice.openAmount, movement.amount)
+  )
+  const result = (
+    status: BankMovementStatus,
+    matched: InvoiceMatch[],
+    proposed: InvoiceMatch[],
+    reason?: string
+  ): MatchResult => ({
+    status,
+    supplierTaxId,
+    matches: matched,
+    candidates: proposed,
+    reason,
+  })
+
+  if (exact.length > 1) {
+    return result(
+      BankMovementStatus.REVIEW,
+      [],
+      exact.map(invoice => toMatch(invoice)),
+      'Varias facturas coinciden con el monto'
+    )
+  }
+  if (exact.length === 1) {
+    return supplierTaxId
+      ? result(BankMovementStatus.MATCHED, [toMatch(exact[0])], [])
+      : result(
+          BankMovementStatus.REVIEW,
+          [],
+          [toMatch(exact[0])],
+          'Coincide solo por monto; no se identificó al proveedor'
+        )
+  }
+  if (!supplierTaxId || candidates.length === 0) {
+    return result(
+      BankMovementStatus.UNMATCHED,
+      [],
+      [],
+      supplierTaxId
+        ? 'El proveedor no tiene facturas pendientes en el rango de fechas'
+        : undefined
+    )
+  }
+
+  // Un solo cargo puede pagar todas las facturas pendientes del proveedor
+  const total = candidates.reduce((sum, invoice) => sum + invoice.openAmount, 0)
+  if (sameAmount(total, movement.amount)) {
+    return result(
+      BankMovementStatus.MATCHED,
+      candidates.map(invoice => toMatch(invoice)),
+      []
+    )
+  }
+
+  const partial = candidates.filter(
+    invoice => invoice.openAmount > movement.amount
+  )
+  if (partial.length > 0) {
+    return result(
+      BankMovementStatus.REVIEW,
+      [],
+      partial.map(invoice => toMatch(invoice, movement.amount)),
+      'El monto es menor al saldo de la factura (posible pago parcial)'
+    )
+  }
+  return result(
+    BankMovementStatus.REVIEW,
+    [],
+    candidates.map(invoice => toMatch(invoice)),
+    'El monto no coincide con las facturas pendientes del proveedor'
+  )
+}
@@ -0,0 +1,89 @@
+import {
+  parseAmount,
+  parseCsvStatement,
+  parseOfxStatement,
+  StatementParseError,
+} from './statement-parser.util'
+
+describe('statement parser', () => {
+  it('parses amounts in local and international formats', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56)
+    expect(parseAmount('-1.234,56')).toBe(-1234.56)
+    expect(parseAmount('(250.00)')).toBe(-250)
+    expect(parseAmount('S/ 90')).toBe(90)
+  })
+
+  it('reads semicolon CSVs with separate debit and credit columns', () => {
+    const { movements } = parseCsvStatement(
+      [
+        'Fecha;Descripción;Nro. Operación;Cargo;Abono;RUC',
+        '15/06/2025;TRANSF. PROVEEDOR;000123;1.180,00;;20100066603',
+        '16/06/2025;DEPOSITO CLIENTE;000124;;500,00;',
+      ].join('\r\n')
+    )
+
+    expect(movements).toHaveLength(2)
+    expect(movements[0]).toMatchObject({
+      date: new Date('2025-06-15T00:00:00Z'),
+      amount: -1180,
+      description: 'TRANSF. PROVEEDOR',
+      reference: '000123',
+      counterpartyTaxId: '20100066603',
+    })
+    expect(movements[1].amount).toBe(500)
+  })
+
+  it('gives repeated CSV rows different but stable ids', () => {
+    const csv =
+      'fecha,descripcion,monto\n01/06/2025,ITF,-0.05\n01/06/2025,ITF,-0.05'
+    const first = parseCsvStatement(csv).movements
+    const again = parseCsvStatement(csv).movements
+
+    expect(first[0].externalId).not.toBe(first[1].externalId)
+    expect(again.map(m => m.externalId)).toEqual(first.map(m => m.externalId))
+  })
+
+  it('rejects CSVs without date or amount columns', () => {
+    expect(() =>
+      parseCsvStatement('descripcion,ruc\nPAGO,20100066603')
+    ).toThrow(StatementParseError)
+  })
+
+  it('reads OFX transactions with unclosed value tags', () => {
+    const statement = parseOfxStatement(`OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>002<ACCTID>1931234567012</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250615120000
+<TRNAMT>-590.00
+<FITID>BCP-0001
+<NAME>PAGO PROVEEDOR
+<MEMO>F001-123
+<BANKACCTTO><BANKID>003<ACCTID>00310100300456789012</BANKACCTTO>
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250616
+<TRNAMT>100.00
+<NAME>ABONO
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`)
+
+    expect(statement).toMatchObject({
+      currency: 'USD',
+      accountNumber: '1931234567012',
+    })
+    expect(statement.movements[0]).toMatchObject({
+      externalId: 'BCP-0001',
+      date: new Date('2025-06-15T00:00:00Z'),
+      amount: -590,
+      description: 'PAGO PROVEEDOR F001-123',
+      counterpartyAccount: '00310100300456789012',
+    })
+    expect(statement.movements[1].externalId).toMatch(/^[0-9a-f]{40}$/)
+  })
+})
@@ -0,0 +1,242 @@
+import { createHash } from 'crypto'
+import { BankStatementFormat } from '../enums/bank-movement.enum'
+
+export interface ParsedMovement {
+  externalId: string
+  date: Date
+  // Negativo para cargos, positivo para abonos
+  amount: number
+  description: string
+  reference?: string
+  counterpartyTaxId?: string
+  counterpartyAccount?: string
+}
+
+export interface ParsedStatement {
+  currency?: string
+  accountNumber?: string
+  movements: ParsedMovement[]
+}
+
+export class StatementParseError extends Error {}
+
+// Encabezados aceptados en los CSV exportados por los bancos
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['fecha', 'fecha operacion', 'fecha valuta', 'date'],
+  description: ['descripcion', 'concepto', 'detalle', 'description'],
+  amount: ['monto', 'importe', 'amount'],
+  debit: ['cargo', 'cargos', 'debito', 'debit'],
+  credit: ['abono', 'abonos', 'credito', 'credit'],
+  reference: [
+    'referencia',
+    'nro operacion',
+    'numero operacion',
+    'operacion',
+    'reference',
+  ],
+  taxId: ['ruc', 'ruc beneficiario', 'documento'],
+  account: ['cuenta', 'cuenta destino', 'cci', 'account'],
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const digitsOnly = (value = '') => value.replace(/\D/g, '')
+
+export function detectStatementFormat(
+  filename: string,
+  content: string
+): BankStatementFormat {
+  if (/\.ofx$/i.test(filename) || /<OFX>/i.test(content)) {
+    return BankStatementFormat.OFX
+  }
+  return BankStatementFormat.CSV
+}
+
+// Acepta 1,234.56 / 1.234,56 / -1234.5 / (1234.50)
+export function parseAmount(value: string): number {
+  const raw = (value ?? '').trim()
+  if (!raw) return 0
+  const negative = /^-|^\(.*\)$|-$/.test(raw)
+  let number = raw.replace(/[^\d.,]/g, '')
+  const lastComma = number.lastIndexOf(',')
+  const lastDot = number.lastIndexOf('.')
+  if (lastComma > lastDot) {
+    number = number.replace(/\./g, '').replace(',', '.')
+  } else {
+    number = number.replace(/,/g, '')
+  }
+  const amount = Number(number)
+  if (Number.isNaN(amount)) {
+    throw new StatementParseError(`Monto inválido: ${value}`)
+  }
+  return negative ? -amount : amount
+}
+
+// Fechas dd/mm/yyyy, dd-mm-yyyy, yyyy-mm-dd y yyyymmdd (OFX), en UTC
+export function parseStatementDate(value: string): Date {
+  const raw = (value ?? '').trim()
+  let match = raw.match(/^(\d{2})[/-](\d{2})[/-](\d{4})/)
+  if (match) return new Date(Date.UTC(+match[3], +match[2] - 1, +match[1]))
+  match = raw.match(/^(\d{4})-?(\d{2})-?(\d{2})/)
+  if (match) return new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]))
+  throw new StatementParseError(`Fecha inválida: ${value}`)
+}
+
+// Las filas sin identificador propio se distinguen por su contenido y repetición
+function withExternalIds(
+  movements: Omit<ParsedMovement, 'externalId'>[]
+): ParsedMovement[] {
+  const seen = new Map<string, number>()
+  return movements.map(movement => {
+    const key = [
+      movement.date.toISOString().slice(0, 10),
+      movement.amount.toFixed(2),
+      movement.description,
+      movement.reference ?? '',
+    ].join('|')
+    const occurrence = (seen.get(key) ?? 0) + 1
+    seen.set(key, occurrence)
+    return {
+      ...movement,
+      externalId: createHash('sha1')
+        .update(`${key}|${occurrence}`)
+        .digest('hex'),
+    }
+  })
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+export function parseCsvStatement(content: string): ParsedStatement {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+  if (lines.length < 2) {
+    throw new StatementParseError('El extracto no tiene movimientos')
+  }
+
+  // Los bancos peruanos suelen exportar con punto y coma
+  const delimiter =
+    lines[0].split(';').length > lines[0].split(',').length ? ';' : ','
+  const header = splitCsvLine(lines[0], delimiter).map(normalizeHeader)
+  const column = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [
+      field,
+      header.findIndex(name => names.includes(name)),
+    ])
+  )
+  if (column.date < 0 || (column.amount < 0 && column.debit < 0)) {
+    throw new StatementParseError(
+      'El CSV debe tener columnas de fecha y monto (o cargo/abono)'
+    )
+  }
+
+  const movements = lines.slice(1).map(line => {
+    const cells = splitCsvLine(line, delimiter)
+    const cell = (field: string) =>
+      column[field] >= 0 ? (cells[column[field]] ?? '') : ''
+    const amount =
+      column.amount >= 0
+        ? parseAmount(cell('amount'))
+        : parseAmount(cell('credit')) - Math.abs(parseAmount(cell('debit')))
+    return {
+      date: parseStatementDate(cell('date')),
+      amount,
+      description: cell('description'),
+      reference: cell('reference') || undefined,
+      counterpartyTaxId: digitsOnly(cell('taxId')) || undefined,
+      counterpartyAccount: digitsOnly(cell('account')) || undefined,
+    }
+  })
+  return { movements: withExternalIds(movements) }
+}
+
+// OFX 1.x (SGML): las etiquetas de valor no siempre se cierran
+const ofxValue = (block: string, tag: string): string | undefined =>
+  block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim()
+
+export function parseOfxStatement(content: string): ParsedStatement {
+  const blocks = content.match(
+    /<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi
+  )
+  if (!blocks?.length) {
+    throw new StatementParseError('El OFX no tiene movimientos')
+  }
+
+  const movements = blocks.map(block => {
+    const amount = ofxValue(block, 'TRNAMT')
+    const date = ofxValue(block, 'DTPOSTED')
+    if (!amount || !date) {
+      throw new StatementParseError('Movimiento OFX sin fecha o monto')
+    }
+    const name = ofxValue(block, 'NAME') ?? ''
+    const memo = ofxValue(block, 'MEMO') ?? ''
+    return {
+      externalId: ofxValue(block, 'FITID'),
+      date: parseStatementDate(date),
+      amount: parseAmount(amount),
+      description: [name, memo].filter(Boolean).join(' '),
+      reference:
+        ofxValue(block, 'REFNUM') ?? ofxValue(block, 'CHECKNUM') ?? undefined,
+      // Cuenta destino: <BANKACCTTO> agrupa su propio <ACCTID>
+      counterpartyAccount:
+        digitsOnly(
+          block.match(/<BANKACCTTO>[\s\S]*?<ACCTID>([^<\r\n]*)/i)?.[1]
+        ) || undefined,
+    }
+  })
+
+  const withoutFitId = movements.filter(movement => !movement.externalId)
+  const generated = withExternalIds(withoutFitId)
+  return {
+    currency: ofxValue(content, 'CURDEF'),
+    accountNumber: ofxValue(
+      content.match(/<BANKACCTFROM>[\s\S]*?<\/BANKACCTFROM>/i)?.[0] ?? '',
+      'ACCTID'
+    ),
+    movements: movements.map(movement =>
+      movement.externalId
+        ? (movement as ParsedMovement)
+        : generated[withoutFitId.indexOf(movement)]
+    ),
+  }
+}
+
+export function parseStatement(
+  format: BankStatementFormat,
+  content: string
+): ParsedStatement {
+  return format === BankStatementFormat.OFX
+    ? parseOfxStatement(content)
+    : parseCsvStatement(content)
+}
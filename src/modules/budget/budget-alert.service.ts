@@ -0,0 +1,72 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { BudgetService } from './budget.service'
+
+const JOB_NAME = 'budget-alerts'
+const DEFAULT_INTERVAL_MINUTES = 60
+
+// Revisa periódicamente los presupuestos: las facturas cambian de estado fuera de este módulo
+@Injectable()
+export class BudgetAlertService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(BudgetAlertService.name)
+  private running = false
+
+  constructor(
+    private readonly budgetService: BudgetService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry
+  ) {}
+
+  // BUDGET_ALERTS_INTERVAL_MINUTES=0 desactiva el job
+  onApplicationBootstrap() {
+    const value = parseInt(
+      this.configService.get<string>('BUDGET_ALERTS_INTERVAL_MINUTES'),
+      10
+    )
+    const minutes = isNaN(value) ? DEFAULT_INTERVAL_MINUTES : value
+    if (minutes <= 0) {
+      this.logger.log('Budget alerts job disabled')
+      return
+    }
+    const interval = setInterval(() => this.runScheduled(), minutes * 60000)
+    this.schedulerRegistry.addInterval(JOB_NAME, interval)
+    this.logger.log(`Budget alerts scheduled every ${minutes} minutes`)
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', JOB_NAME)) {
+      this.schedulerRegistry.deleteInterval(JOB_NAME)
+    }
+  }
+
+  private async runScheduled() {
+    if (this.running) return
+    this.running = true
+    try {
+      let sent = 0
+      for (const {
+        projectId,
+        companyId,
+      } of await this.budgetService.findBudgetedProjects()) {
+        try {
+          sent += await this.budgetService.evaluateAlerts(projectId, companyId)
+        } catch (error) {
+          this.logger.error(
+            `Budget alerts failed for project ${projectId}: ${error.message}`
+          )
+        }
+      }
+      if (sent) this.logger.log(`Budget alerts sent: ${sent}`)
+    } finally {
+      this.running = false
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { Body, Controller, Get, Param, Put, UseGuards } from '@nestjs/common'
+import { BudgetService } from './budget.service'
+import { UpsertProjectBudgetDto } from './dto/upsert-project-budget.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('budgets')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class BudgetController {
+  constructor(private readonly budgetService: BudgetService) {}
+
+  @Put('projects/:projectId')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
+  upsert(
+    @Param('projectId') projectId: string,
+    @Body() upsertDto: UpsertProjectBudgetDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.budgetService.upsert(
+      projectId,
+      upsertDto,
+      auth.companyId,
+      auth.userId
+    )
+  }
+
+  @Get('projects/:projectId')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.ACCOUNTING)
+  findOne(
+    @Param('projectId') projectId: string,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.budgetService.findOne(projectId, auth.companyId)
+  }
+
+  // Comprometido vs. ejecutado por categoría, saldo y proyección al fin del proyecto
+  @Get('projects/:projectId/summary')
+  @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.ACCOUNTING)
+  getSummary(
+    @Param('projectId') projectId: string,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.budgetService.getSummary(projectId, auth.companyId)
+  }
+}
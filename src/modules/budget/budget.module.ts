@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { BudgetController } from './budget.controller'
+import { BudgetService } from './budget.service'
+import { BudgetAlertService } from './budget-alert.service'
+import {
+  ProjectBudget,
+  ProjectBudgetSchema,
+} from './entities/project-budget.entity'
+import { Project, ProjectSchema } from '../project/entities/project.entity'
+import { Expense, ExpenseSchema } from '../expense/entities/expense.entity'
+import { Invoice, InvoiceSchema } from '../invoice/entities/invoice.entity'
+import { Category, CategorySchema } from '../category/entities/category.entity'
+import { UsersModule } from '../users/users.module'
+import { EmailModule } from '../email/email.module'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ProjectBudget.name, schema: ProjectBudgetSchema },
+      { name: Project.name, schema: ProjectSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: Category.name, schema: CategorySchema },
+    ]),
+    UsersModule,
+    EmailModule,
+  ],
+  controllers: [BudgetController],
+  providers: [BudgetService, BudgetAlertService],
+  exports: [BudgetService],
+})
+export class BudgetModule {}
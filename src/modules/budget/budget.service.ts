@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+import {
+  ProjectBudget,
+  ProjectBudgetDocument,
+} from './entities/project-budget.entity'
+import { UpsertProjectBudgetDto } from './dto/upsert-project-budget.dto'
+import { BudgetOverrunPolicy } from './enums/budget-overrun-policy.enum'
+import { PROJECT_SCOPE } from './constants/budget.constants'
+import {
+  BudgetSummary,
+  buildBudgetSummary,
+  crossedThresholds,
+  Spend,
+} from './utils/budget-summary.util'
+import { Project } from '../project/entities/project.entity'
+import { Expense } from '../expense/entities/expense.entity'
+import { Invoice } from '../invoice/entities/invoice.entity'
+import { Category } from '../category/entities/category.entity'
+import { InvoiceStatus } from '../invoice/enums/invoice-status.enum'
+import { UsersService } from '../users/services/users.service'
+import { EmailService } from '../email/email.service'
+import { UserRole } from '../auth/enums/user-role.enum'
+
+export interface BudgetOverrun {
+  policy: BudgetOverrunPolicy
+  categoryName?: string
+  remaining: number
+  message: string
+}
+
+const TOLERANCE = 0.005
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Montos en soles; sin tipo de cambio se usa el importe original del comprobante
+const PEN_EXPENSE_TOTAL = { $ifNull: ['$totalPen', { $ifNull: ['$total', 0] }] }
+const PEN_INVOICE_TOTAL = { $ifNull: ['$montoTotalPen', '$montoTotal'] }
+
+@Injectable()
+export class BudgetService {
+  private readonly logger = new Logger(BudgetService.name)
+
+  constructor(
+    @InjectModel(ProjectBudget.name)
+    private budgetModel: Model<ProjectBudgetDocument>,
+    @InjectModel(Project.name)
+    private projectModel: Model<Project>,
+    @InjectModel(Expense.name)
+    private expenseModel: Model<Expense>,
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>,
+    @InjectModel(Category.name)
+    private categoryModel: Model<Category>,
+    private readonly usersService: UsersService,
+    private readonly emailService: EmailService
+  ) {}
+
+  // Reemplaza las líneas del presupuesto; las alertas se vuelven a evaluar desde cero
+  async upsert(
+    projectId: string,
+    upsertDto: UpsertProjectBudgetDto,
+    companyId: string,
+    userId: string
+  ): Promise<ProjectBudgetDocument> {
+    await this.findProject(projectId, companyId)
+    const categoryIds = upsertDto.lines.map(line => line.categoryId)
+    if (new Set(categoryIds).size !== categoryIds.length) {
+      throw new BadRequestException(
+        'Una categoría no puede tener más de una línea de presupuesto'
+      )
+    }
+    const categories = await this.categoryModel.countDocuments({
+      _id: { $in: categoryIds },
+      companyId: new Types.ObjectId(companyId),
+    })
+    if (categories !== categoryIds.length) {
+      throw new BadRequestException(
+        'Alguna de las categorías no existe en la empresa'
+      )
+    }
+
+    const filter = {
+      companyId: new Types.ObjectId(companyId),
+      projectId: new Types.ObjectId(projectId),
+    }
+    const budget =
+      (await this.budgetModel.findOne(filter).exec()) ??
+      new this.budgetModel({ ...filter, createdBy: userId })
+    budget.set({
+      ...upsertDto,
+      alertsSent: [],
+      updatedBy: userId,
+    })
+    await budget.save()
+    await this.evaluateAlerts(projectId, companyId)
+    return budget
+  }
+
+  async findOne(
+    projectId: string,
+    companyId: string
+  ): Promise<ProjectBudgetDocument> {
+    const budget = await this.budgetModel
+      .findOne({
+        companyId: new Types.ObjectId(companyId),
+        projectId: new Types.ObjectId(projectId),
+      })
+      .exec()
+    if (!budget) {
+      throw new NotFoundException(
+        `El proyecto ${projectId} no tiene presupuesto registrado`
+      )
+    }
+    return budget
+  }
+
+  async getSummary(
+    projectId: string,
+    companyId: string
+  ): Promise<BudgetSummary> {
+    const project = await this.findProject(projectId, companyId)
+    const budget = await this.budgetModel
+      .findOne({
+        companyId: new Types.ObjectId(companyId),
+        projectId: new Types.ObjectId(projectId),
+      })
+      .exec()
+    const lines = budget?.lines ?? []
+    const categories = await this.categoryModel
+      .find({ _id: { $in: lines.map(line => line.categoryId) } })
+      .exec()
+    const names = new Map(
+      categories.map(category => [String(category._id), category.name])
+    )
+
+    return buildBudgetSummary({
+      projectBudget: project.budget ?? undefined,
+      lines: lines.map(line => ({
+        categoryId: String(line.categoryId),
+        name: names.get(String(line.categoryId)),
+        amount: line.amount,
+      })),
+      expenses: await this.expenseSpend(projectId, companyId),
+      invoices: await this.invoiceSpend(projectId, companyId),
+      startDate: project.startDate,
+      endDate: project.endDate,
+      asOf: new Date(),
+    })
+  }
+
+  // Indica si un gasto nuevo supera el saldo de su categoría (comprometido + ejecutado)
+  async checkExpense(
+    projectId: string,
+    categoryId: string,
+    amount: number,
+    companyId: string
+  ): Promise<BudgetOverrun | undefined> {
+    const budget = await this.budgetModel
+      .findOne({
+        companyId: new Types.ObjectId(companyId),
+        projectId: new Types.ObjectId(projectId),
+      })
+      .exec()
+    const line = budget?.lines.find(
+      budgetLine => String(budgetLine.categoryId) === String(categoryId)
+    )
+    if (!line || !amount) return undefined
+
+    const spend = (await this.expenseSpend(projectId, companyId)).get(
+      String(categoryId)
+    ) ?? { committed: 0, actual: 0 }
+    const remaining = round2(line.amount - spend.committed - spend.actual)
+    if (amount <= remaining + TOLERANCE) return undefined
+
+    const category = await this.categoryModel.findById(categoryId).exec()
+    return {
+      policy: budget.overrunPolicy,
+      categoryName: category?.name,
+      remaining,
+      message: `El gasto de S/ ${round2(amount)} supera el saldo del presupuesto de ${category?.name ?? 'la categoría'} (S/ ${remaining})`,
+    }
+  }
+
+  // Envía a ADMIN2 las alertas de los umbrales alcanzados que aún no se notificaron
+  async evaluateAlerts(projectId: string, companyId: string): Promise<number> {
+    const budget = await this.budgetModel
+      .findOne({
+        companyId: new Types.ObjectId(companyId),
+        projectId: new Types.ObjectId(projectId),
+      })
+      .exec()
+    if (!budget) return 0
+
+    const summary = await this.getSummary(projectId, companyId)
+    const scopes = [
+      { scope: PROJECT_SCOPE, name: 'Total del proyecto', usage: summary },
+      ...summary.lines.map(line => ({
+        scope: line.categoryId,
+        name: line.name ?? line.categoryId,
+        usage: line,
+      })),
+    ]
+    const alerts = scopes.flatMap(({ scope, name, usage }) =>
+      crossedThresholds(
+        usage.percentUsed,
+        budget.alertThresholds,
+        budget.alertsSent
+          .filter(alert => alert.scope === scope)
+          .map(alert => alert.threshold)
+      ).map(threshold => ({ scope, name, usage, threshold }))
+    )
+    if (alerts.length === 0) return 0
+
+    const project = await this.findProject(projectId, companyId)
+    const admins = (await this.usersService.findAll(companyId)).filter(
+      user => user.role === UserRole.ADMIN2 && user.isActive && user.email
+    )
+    for (const alert of alerts) {
+      for (const admin of admins) {
+        try {
+          await this.emailService.sendBudgetAlertNotification(admin.email, {
+            projectName: project.name,
+            scope: alert.name,
+            threshold: alert.threshold,
+            percentUsed: alert.usage.percentUsed,
+            budget: alert.usage.budget,
+            committed: alert.usage.committed,
+            actual: alert.usage.actual,
+            remaining: alert.usage.remaining,
+          })
+        } catch (error) {
+          this.logger.error(
+            `No se pudo enviar la alerta de presupuesto a ${admin.email}: ${error.message}`
+          )
+        }
+      }
+      budget.alertsSent.push({
+        scope: alert.scope,
+        threshold: alert.threshold,
+        percentUsed: alert.usage.percentUsed,
+        sentAt: new Date(),
+      })
+    }
+    budget.markModified('alertsSent')
+    await budget.save()
+    return alerts.length
+  }
+
+  // Proyectos con presupuesto, para la evaluación periódica de alertas
+  async findBudgetedProjects(): Promise<
+    { projectId: string; companyId: string }[]
+  > {
+    const budgets = await this.budgetModel
+      .find()
+      .select('projectId companyId')
+      .exec()
+    return budgets.map(budget => ({
+      projectId: String(budget.projectId),
+      companyId: String(budget.companyId),
+    }))
+  }
+
+  private async findProject(projectId: string, companyId: string) {
+    const project = await this.projectModel
+      .findOne({ _id: projectId, companyId: new Types.ObjectId(companyId) })
+      .exec()
+    if (!project) {
+      throw new NotFoundException(`Proyecto con ID ${projectId} no encontrado`)
+    }
+    return project
+  }
+
+  // Gastos pendientes (comprometido) y aprobados (ejecutado) por categoría
+  private async expenseSpend(
+    projectId: string,
+    companyId: string
+  ): Promise<Map<string, Spend>> {
+    const rows: {
+      _id: { categoryId: Types.ObjectId; status: string }
+      total: number
+    }[] = await this.expenseModel.aggregate([
+      {
+        $match: {
+          proyectId: new Types.ObjectId(projectId),
+          companyId: new Types.ObjectId(companyId),
+          status: { $ne: 'rejected' },
+        },
+      },
+      {
+        $group: {
+          _id: { categoryId: '$categoryId', status: '$status' },
+          total: { $sum: PEN_EXPENSE_TOTAL },
+        },
+      },
+    ])
+    const spend = new Map<string, Spend>()
+    for (const row of rows) {
+      const key = String(row._id.categoryId)
+      const current = spend.get(key) ?? { committed: 0, actual: 0 }
+      if (row._id.status === 'approved') current.actual += row.total
+      else current.committed += row.total
+      spend.set(key, current)
+    }
+    return spend
+  }
+
+  // Facturas del proyecto: pagadas (ejecutado) y en curso (comprometido)
+  private async invoiceSpend(
+    projectId: string,
+    companyId: string
+  ): Promise<Spend> {
+    const rows: { _id: boolean; total: number }[] =
+      await this.invoiceModel.aggregate([
+        {
+          $match: {
+            projectId: new Types.ObjectId(projectId),
+            companyId: new Types.ObjectId(companyId),
+            status: { $nin: [InvoiceStatus.REJECTED, InvoiceStatus.VOIDED] },
+          },
+        },
+        {
+          $group: {
+            _id: { $eq: ['$status', InvoiceStatus.PAID] },
+            total: { $sum: PEN_INVOICE_TOTAL },
+          },
+        },
+      ])
+    return {
+      committed: rows.find(row => !row._id)?.total ?? 0,
+      actual: rows.find(row => row._id)?.total ?? 0,
+    }
+  }
+}
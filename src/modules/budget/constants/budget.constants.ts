@@ -0,0 +1,12 @@
+import { UserRole } from '../../auth/enums/user-role.enum'
+
+// Porcentajes de consumo (comprometido + ejecutado) que disparan una alerta
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100]
+
+// Alcance de las alertas sobre el presupuesto total del proyecto
+export const PROJECT_SCOPE = 'project'
+
+export const OVERRUN_APPROVAL_STEP = {
+  name: 'Aprobación por exceso de presupuesto',
+  roles: [UserRole.ADMIN2],
+}
@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger'
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { BudgetOverrunPolicy } from '../enums/budget-overrun-policy.enum'
+
+export class BudgetLineDto {
+  @ApiProperty({ description: 'ID de la categoría de gasto' })
+  @IsMongoId()
+  categoryId: string
+
+  @ApiProperty({ description: 'Monto asignado en soles', example: 15000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount: number
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  notes?: string
+}
+
+export class UpsertProjectBudgetDto {
+  @ApiProperty({ type: [BudgetLineDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BudgetLineDto)
+  lines: BudgetLineDto[]
+
+  @ApiProperty({
+    description: 'Porcentajes de consumo que generan alertas',
+    example: [80, 100],
+    required: false,
+  })
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsNumber({}, { each: true })
+  @Min(1, { each: true })
+  @Max(200, { each: true })
+  @IsOptional()
+  alertThresholds?: number[]
+
+  @ApiProperty({ enum: BudgetOverrunPolicy, required: false })
+  @IsEnum(BudgetOverrunPolicy)
+  @IsOptional()
+  overrunPolicy?: BudgetOverrunPolicy
+}
@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import { BudgetOverrunPolicy } from '../enums/budget-overrun-policy.enum'
+import { DEFAULT_ALERT_THRESHOLDS } from '../constants/budget.constants'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+// Monto asignado a una categoría de gasto dentro del proyecto
+@Schema({ _id: false })
+export class BudgetLine {
+  @Prop({ type: Types.ObjectId, ref: 'Category', required: true })
+  categoryId: Types.ObjectId
+
+  @Prop({ required: true })
+  amount: number
+
+  @Prop()
+  notes?: string
+}
+
+export const BudgetLineSchema = SchemaFactory.createForClass(BudgetLine)
+
+// Alerta ya enviada; evita repetir el mismo umbral para el mismo alcance
+@Schema({ _id: false })
+export class BudgetAlert {
+  // ID de la categoría o 'project' para el total
+  @Prop({ required: true })
+  scope: string
+
+  @Prop({ required: true })
+  threshold: number
+
+  @Prop()
+  percentUsed: number
+
+  @Prop({ required: true })
+  sentAt: Date
+}
+
+export const BudgetAlertSchema = SchemaFactory.createForClass(BudgetAlert)
+
+export interface ProjectBudgetDocument extends Document {
+  companyId: Types.ObjectId
+  projectId: Types.ObjectId
+  lines: BudgetLine[]
+  alertThresholds: number[]
+  overrunPolicy: BudgetOverrunPolicy
+  alertsSent: BudgetAlert[]
+  createdBy?: string
+  updatedBy?: string
+}
+
+// Presupuesto por categoría de un proyecto; los montos están en soles
+@Schema({ timestamps: true })
+export class ProjectBudget {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId
+
+  @Prop({ type: Types.ObjectId, ref: 'Project', required: true })
+  projectId: Types.ObjectId
+
+  @Prop({ type: [BudgetLineSchema], default: [] })
+  lines: BudgetLine[]
+
+  @Prop({ type: [Number], default: DEFAULT_ALERT_THRESHOLDS })
+  alertThresholds: number[]
+
+  @Prop({
+    type: String,
+    enum: BudgetOverrunPolicy,
+    default: BudgetOverrunPolicy.APPROVAL,
+  })
+  overrunPolicy: BudgetOverrunPolicy
+
+  @Prop({ type: [BudgetAlertSchema], default: [] })
+  alertsSent: BudgetAlert[]
+
+  @Prop({ type: String, ref: 'User' })
+  createdBy?: string
+
+  @Prop({ type: String, ref: 'User' })
+  updatedBy?: string
+}
+
+export const ProjectBudgetSchema = SchemaFactory.createForClass(ProjectBudget)
+
+ProjectBudgetSchema.index({ companyId: 1, projectId: 1 }, { unique: true })
+
+ProjectBudgetSchema.plugin(tenantPlugin)
+ProjectBudgetSchema.plugin(auditPlugin, { entity: 'ProjectBudget' })
@@ -0,0 +1,6 @@
+// Qué ocurre con un gasto que supera el presupuesto de su categoría
+export enum BudgetOverrunPolicy {
+  BLOCK = 'block',
+  // Se agrega un paso de aprobación adicional a la cadena del gasto
+  APPROVAL = 'approval',
+}
@@ -0,0 +1,105 @@
+import {
+  buildBudgetSummary,
+  crossedThresholds,
+  forecastBurn,
+} from './budget-summary.util'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+describe('buildBudgetSummary', () => {
+  const input = {
+    projectBudget: 10000,
+    lines: [
+      { categoryId: 'materiales', name: 'Materiales', amount: 4000 },
+      { categoryId: 'viaticos', name: 'Viáticos', amount: 1000 },
+    ],
+    expenses: new Map([
+      ['materiales', { committed: 500, actual: 2700 }],
+      ['transporte', { committed: 0, actual: 300 }],
+    ]),
+    invoices: { committed: 2000, actual: 1500 },
+    asOf: day('2025-06-11'),
+  }
+
+  it('compares committed and actual spend with each budget line', () => {
+    const summary = buildBudgetSummary(input)
+
+    expect(summary.lines).toEqual([
+      {
+        categoryId: 'materiales',
+        name: 'Materiales',
+        budget: 4000,
+        committed: 500,
+        actual: 2700,
+        remaining: 800,
+        percentUsed: 80,
+      },
+      {
+        categoryId: 'viaticos',
+        name: 'Viáticos',
+        budget: 1000,
+        committed: 0,
+        actual: 0,
+        remaining: 1000,
+        percentUsed: 0,
+      },
+    ])
+    expect(summary.unbudgeted).toEqual({ committed: 0, actual: 300 })
+  })
+
+  it('adds invoices to the project total', () => {
+    expect(buildBudgetSummary(input)).toMatchObject({
+      budget: 10000,
+      committed: 2500,
+      actual: 4500,
+      remaining: 3000,
+      percentUsed: 70,
+      forecast: undefined,
+    })
+  })
+
+  it('falls back to the sum of the lines without a project budget', () => {
+    expect(
+      buildBudgetSummary({ ...input, projectBudget: undefined }).budget
+    ).toBe(5000)
+  })
+})
+
+describe('forecastBurn', () => {
+  it('projects the actual burn rate to the end date', () => {
+    expect(
+      forecastBurn(
+        2000,
+        10000,
+        day('2025-06-01'),
+        day('2025-07-31'),
+        day('2025-06-11')
+      )
+    ).toEqual({
+      dailyBurn: 200,
+      projectedSpend: 12000,
+      projectedOverrun: 2000,
+      exhaustionDate: day('2025-07-21'),
+    })
+  })
+
+  it('does not forecast before the project starts', () => {
+    expect(
+      forecastBurn(
+        0,
+        10000,
+        day('2025-06-01'),
+        day('2025-07-31'),
+        day('2025-05-20')
+      )
+    ).toBeUndefined()
+  })
+})
+
+describe('crossedThresholds', () => {
+  it('returns only thresholds reached and not yet notified', () => {
+    expect(crossedThresholds(85, [80, 100], [])).toEqual([80])
+    expect(crossedThresholds(104, [100, 80], [80])).toEqual([100])
+    expect(crossedThresholds(79.99, [80, 100], [])).toEqual([])
+  })
+})
@@ -0,0 +1,154 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface Spend {
+  // Pendiente de aprobación o de pago
+  committed: number
+  // Aprobado (gastos) o pagado (facturas)
+  actual: number
+}
+
+export interface BudgetLineInput {
+  categoryId: string
+  name?: string
+  amount: number
+}
+
+export interface BudgetSummaryInput {
+  // Presupuesto del proyecto; si falta se usa la suma de las líneas
+  projectBudget?: number
+  lines: BudgetLineInput[]
+  // Gastos agrupados por categoría
+  expenses: Map<string, Spend>
+  invoices: Spend
+  startDate?: Date
+  endDate?: Date
+  asOf: Date
+}
+
+export interface BudgetUsage extends Spend {
+  budget: number
+  remaining: number
+  percentUsed: number
+}
+
+export interface BudgetForecast {
+  // Gasto ejecutado promedio por día desde el inicio del proyecto
+  dailyBurn: number
+  projectedSpend: number
+  projectedOverrun: number
+  // Fecha estimada en que se agotaría el presupuesto al ritmo actual
+  exhaustionDate?: Date
+}
+
+export interface BudgetSummary extends BudgetUsage {
+  lines: (BudgetUsage & { categoryId: string; name?: string })[]
+  // Gastos en categorías sin línea de presupuesto
+  unbudgeted: Spend
+  invoices: Spend
+  forecast?: BudgetForecast
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export function usage(budget: number, spend: Spend): BudgetUsage {
+  const used = spend.committed + spend.actual
+  return {
+    budget: round2(budget),
+    committed: round2(spend.committed),
+    actual: round2(spend.actual),
+    remaining: round2(budget - used),
+    percentUsed:
+      budget > 0 ? round2((used / budget) * 100) : used > 0 ? 100 : 0,
+  }
+}
+
+const addSpend = (a: Spend, b: Spend): Spend => ({
+  committed: a.committed + b.committed,
+  actual: a.actual + b.actual,
+})
+
+const NO_SPEND: Spend = { committed: 0, actual: 0 }
+
+// Proyección lineal del gasto ejecutado hasta la fecha de fin del proyecto
+export function forecastBurn(
+  actual: number,
+  budget: number,
+  startDate: Date,
+  endDate: Date,
+  asOf: Date
+): BudgetForecast | undefined {
+  const elapsedDays = (asOf.getTime() - startDate.getTime()) / DAY_MS
+  if (elapsedDays <= 0 || endDate <= startDate) return undefined
+
+  const dailyBurn = actual / elapsedDays
+  const remainingDays = Math.max(
+    0,
+    (endDate.getTime() - asOf.getTime()) / DAY_MS
+  )
+  const projectedSpend = actual + dailyBurn * remainingDays
+  const daysToExhaust =
+    dailyBurn > 0 ? (budget - actual) / dailyBurn : Number.POSITIVE_INFINITY
+  return {
+    dailyBurn: round2(dailyBurn),
+    projectedSpend: round2(projectedSpend),
+    projectedOverrun: round2(Math.max(0, projectedSpend - budget)),
+    exhaustionDate: Number.isFinite(daysToExhaust)
+      ? new Date(asOf.getTime() + Math.max(0, daysToExhaust) * DAY_MS)
+      : undefined,
+  }
+}
+
+export function buildBudgetSummary(input: BudgetSummaryInput): BudgetSummary {
+  const budgeted = new Set(input.lines.map(line => line.categoryId))
+  const lines = input.lines.map(line => ({
+    categoryId: line.categoryId,
+    name: line.name,
+    ...usage(line.amount, input.expenses.get(line.categoryId) ?? NO_SPEND),
+  }))
+
+  let unbudgeted = NO_SPEND
+  let expenses = NO_SPEND
+  for (const [categoryId, spend] of input.expenses) {
+    expenses = addSpend(expenses, spend)
+    if (!budgeted.has(categoryId)) unbudgeted = addSpend(unbudgeted, spend)
+  }
+
+  const total =
+    input.projectBudget ??
+    input.lines.reduce((sum, line) => sum + line.amount, 0)
+  const spend = addSpend(expenses, input.invoices)
+  return {
+    ...usage(total, spend),
+    lines,
+    unbudgeted: {
+      committed: round2(unbudgeted.committed),
+      actual: round2(unbudgeted.actual),
+    },
+    invoices: {
+      committed: round2(input.invoices.committed),
+      actual: round2(input.invoices.actual),
+    },
+    forecast:
+      input.startDate && input.endDate
+        ? forecastBurn(
+            spend.actual,
+            total,
+            input.startDate,
+            input.endDate,
+            input.asOf
+          )
+        : undefined,
+  }
+}
+
+// Umbrales alcanzados que todavía no se notificaron
+export function crossedThresholds(
+  percentUsed: number,
+  thresholds: number[],
+  alreadySent: number[]
+): number[] {
+  return thresholds
+    .filter(threshold => percentUsed >= threshold)
+    .filter(threshold => !alreadySent.includes(threshold))
+    .sort((a, b) => a - b)
+}
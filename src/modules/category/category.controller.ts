@@ -17,12 +17,12 @@ import { Roles } from '../auth/decorators/roles.decorator'
 import { UserRole } from '../auth/enums/user-role.enum'
 
 @Controller('categories')
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class CategoryController {
   constructor(private readonly categoryService: CategoryService) { }
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.ADMIN2)
-  @UseGuards(JwtAuthGuard, RolesGuard)
   create(@Body() createCategoryDto: CreateCategoryDto) {
     return this.categoryService.create(createCategoryDto)
   }
@@ -34,21 +34,18 @@ export class CategoryController {
 
   @Get(':id/:companyId')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COLABORADOR)
-  @UseGuards(JwtAuthGuard, RolesGuard)
   findOne(@Param('id') id: string, @Param('companyId') companyId: string) {
     return this.categoryService.findOne(id, companyId)
   }
 
   @Get('key/:key/:companyId')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COLABORADOR)
-  @UseGuards(JwtAuthGuard, RolesGuard)
   findByKey(@Param('key') key: string, @Param('companyId') companyId: string) {
     return this.categoryService.findByKey(key, companyId)
   }
 
   @Patch(':id/:companyId')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2)
-  @UseGuards(JwtAuthGuard, RolesGuard)
   update(
     @Param('id') id: string,
     @Param('companyId') companyId: string,
@@ -59,7 +56,6 @@ export class CategoryController {
 
   @Delete(':id/:companyId')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2)
-  @UseGuards(JwtAuthGuard, RolesGuard)
   remove(@Param('id') id: string, @Param('companyId') companyId: string) {
     return this.categoryService.remove(id, companyId)
   }
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Document, Types } from 'mongoose'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
 
 export interface CategoryDocument extends Document {
   name: string
@@ -34,4 +36,7 @@ export class Category {
 
 export const CategorySchema = SchemaFactory.createForClass(Category)
 
+CategorySchema.plugin(tenantPlugin)
+CategorySchema.plugin(auditPlugin, { entity: 'Category' })
+
 CategorySchema.index({ key: 1, companyId: 1 }, { unique: true })
@@ -1,15 +1,34 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
 import { CompanyService } from './company.service';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { UpdateCompanyDto } from './dto/update-company.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator';
+import { AuthContext } from '../auth/interfaces/auth-context.interface';
+import { TenantParam } from '../tenant/decorators/tenant-param.decorator';
 
+// El :id de la empresa debe ser el del usuario autenticado
 @Controller('company')
+@UseGuards(JwtAuthGuard)
+@TenantParam('id')
 export class CompanyController {
   constructor(private readonly companyService: CompanyService) { }
 
   @Post()
-  create(@Body() createCompanyDto: CreateCompanyDto) {
-    return this.companyService.create(createCompanyDto);
+  create(
+    @Body() createCompanyDto: CreateCompanyDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.companyService.create(createCompanyDto, auth.companyId);
   }
 
   @Get()
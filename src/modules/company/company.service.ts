@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { UpdateCompanyDto } from './dto/update-company.dto';
 import { InjectModel } from '@nestjs/mongoose';
@@ -13,8 +13,11 @@ export class CompanyService {
     private companyModel: Model<CompanyDocument>
   ) { }
 
-  create(createCompanyDto: CreateCompanyDto) {
-    const createdCompany = new this.companyModel(createCompanyDto);
+  // La empresa se crea con el id ya asignado al usuario que la registra
+  create(createCompanyDto: CreateCompanyDto, companyId?: string) {
+    const createdCompany = new this.companyModel(
+      companyId ? { ...createCompanyDto, _id: companyId } : createCompanyDto
+    );
     return createdCompany.save();
   }
 
@@ -30,6 +33,20 @@ export class CompanyService {
     return this.companyModel.findByIdAndUpdate(id, updateCompanyDto, { new: true }).exec();
   }
 
+  // Reserva correlativos consecutivos para los comprobantes de retención
+  async reserveRetentionNumbers(id: string, count: number) {
+    const company = await this.companyModel
+      .findByIdAndUpdate(id, { $inc: { lastRetentionNumber: count } }, { new: true })
+      .exec();
+    if (!company) {
+      throw new NotFoundException(`Empresa con ID ${id} no encontrada`);
+    }
+    return {
+      serie: company.retentionSerie,
+      firstNumber: company.lastRetentionNumber - count + 1,
+    };
+  }
+
   remove(id: string) {
     return this.companyModel.findByIdAndDelete(id).exec();
   }
@@ -1,4 +1,30 @@
-import { IsString, IsNotEmpty } from "class-validator";
+import { IsString, IsNotEmpty, IsBoolean, IsOptional, Matches, IsInt, Min, Max, ValidateNested } from "class-validator";
+import { Type } from "class-transformer";
+
+export class PasswordPolicyDto {
+    @IsInt()
+    @Min(6)
+    @Max(64)
+    @IsOptional()
+    minLength?: number;
+    @IsBoolean()
+    @IsOptional()
+    requireUppercase?: boolean;
+    @IsBoolean()
+    @IsOptional()
+    requireLowercase?: boolean;
+    @IsBoolean()
+    @IsOptional()
+    requireNumber?: boolean;
+    @IsBoolean()
+    @IsOptional()
+    requireSymbol?: boolean;
+    @IsInt()
+    @Min(0)
+    @Max(24)
+    @IsOptional()
+    historySize?: number;
+}
 
 export class CreateCompanyDto {
     @IsString()
@@ -18,4 +44,14 @@ export class CreateCompanyDto {
     email: string;
     @IsString()
     logo: string;
+    @IsBoolean()
+    @IsOptional()
+    isRetentionAgent?: boolean;
+    @Matches(/^R[A-Z0-9]{3}$/, { message: 'La serie de retención debe tener el formato R###' })
+    @IsOptional()
+    retentionSerie?: string;
+    @ValidateNested()
+    @Type(() => PasswordPolicyDto)
+    @IsOptional()
+    passwordPolicy?: PasswordPolicyDto;
 }
@@ -1,5 +1,32 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { auditPlugin } from '../../audit/plugins/audit.plugin';
+import { DEFAULT_PASSWORD_POLICY } from '../../users/utils/password-policy.util';
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin';
+
+// Requisitos de contraseña para los usuarios de la empresa
+@Schema({ _id: false })
+export class PasswordPolicy {
+    @Prop({ default: DEFAULT_PASSWORD_POLICY.minLength })
+    minLength: number;
+
+    @Prop({ default: DEFAULT_PASSWORD_POLICY.requireUppercase })
+    requireUppercase: boolean;
+
+    @Prop({ default: DEFAULT_PASSWORD_POLICY.requireLowercase })
+    requireLowercase: boolean;
+
+    @Prop({ default: DEFAULT_PASSWORD_POLICY.requireNumber })
+    requireNumber: boolean;
+
+    @Prop({ default: DEFAULT_PASSWORD_POLICY.requireSymbol })
+    requireSymbol: boolean;
+
+    @Prop({ default: DEFAULT_PASSWORD_POLICY.historySize })
+    historySize: number;
+}
+
+export const PasswordPolicySchema = SchemaFactory.createForClass(PasswordPolicy);
 
 export interface CompanyDocument extends Document {
     comercialName: string;
@@ -9,6 +36,10 @@ export interface CompanyDocument extends Document {
     phone: string;
     email: string;
     logo: string;
+    isRetentionAgent: boolean;
+    retentionSerie: string;
+    lastRetentionNumber: number;
+    passwordPolicy: PasswordPolicy;
 }
 
 export interface GetCompanyDocument extends CompanyDocument {
@@ -37,6 +68,23 @@ export class Company {
 
     @Prop()
     logo: string;
+
+    // Designada por SUNAT como agente de retención del IGV
+    @Prop({ default: false })
+    isRetentionAgent: boolean;
+
+    // Serie de los comprobantes de retención y último correlativo emitido
+    @Prop({ default: 'R001' })
+    retentionSerie: string;
+
+    @Prop({ default: 0 })
+    lastRetentionNumber: number;
+
+    @Prop({ type: PasswordPolicySchema, default: () => ({}) })
+    passwordPolicy: PasswordPolicy;
 }
 
 export const CompanySchema = SchemaFactory.createForClass(Company);
+
+CompanySchema.plugin(tenantPlugin, { companyField: '_id' });
+CompanySchema.plugin(auditPlugin, { entity: 'Company', companyField: '_id' });
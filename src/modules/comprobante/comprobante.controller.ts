@@ -0,0 +1,29 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common'
+import { ComprobanteService } from './comprobante.service'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('comprobantes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ComprobanteController {
+  constructor(private readonly comprobanteService: ComprobanteService) {}
+
+  // Reporte de posibles duplicados entre facturas y gastos
+  @Get('near-duplicates')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING,
+    UserRole.TREASURY
+  )
+  findNearDuplicates(
+    @CurrentAuth() auth: AuthContext,
+    @Query('rucEmisor') rucEmisor?: string
+  ) {
+    return this.comprobanteService.findNearDuplicates(auth.companyId, rucEmisor)
+  }
+}
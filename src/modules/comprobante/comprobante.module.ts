@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { ComprobanteService } from './comprobante.service'
+import { ComprobanteController } from './comprobante.controller'
+import { Invoice, InvoiceSchema } from '../invoice/entities/invoice.entity'
+import { Expense, ExpenseSchema } from '../expense/entities/expense.entity'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: Expense.name, schema: ExpenseSchema },
+    ]),
+  ],
+  controllers: [ComprobanteController],
+  providers: [ComprobanteService],
+  exports: [ComprobanteService],
+})
+export class ComprobanteModule {}
@@ -0,0 +1,100 @@
+import { ConflictException } from '@nestjs/common'
+import { ComprobanteService } from './comprobante.service'
+
+// Los esquemas de Mongoose se reemplazan por dobles
+jest.mock('../invoice/entities/invoice.entity', () => ({
+  Invoice: { name: 'Invoice' },
+}))
+jest.mock('../expense/entities/expense.entity', () => ({
+  Expense: { name: 'Expense' },
+}))
+
+const COMPANY_ID = '64b7f0c2a1b2c3d4e5f60718'
+
+const fakeModel = (docs: any[]) => {
+  const query = (result: any) => {
+    const chain = {
+      select: () => chain,
+      lean: () => chain,
+      exec: async () => result,
+    }
+    return chain
+  }
+  return {
+    findOne: jest.fn(() => query(docs[0])),
+    find: jest.fn(() => query(docs)),
+  }
+}
+
+describe('ComprobanteService', () => {
+  const data = {
+    rucEmisor: '20100066603',
+    tipoComprobante: 'Factura',
+    serie: 'F001',
+    correlativo: '00123',
+  }
+
+  it('returns a conflict pointing at the existing record', async () => {
+    const invoices = fakeModel([])
+    const expenses = fakeModel([{ _id: 'exp-1', status: 'approved' }])
+    const service = new ComprobanteService(invoices as any, expenses as any)
+
+    const error = await service
+      .assertNotDuplicate(COMPANY_ID, data)
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(ConflictException)
+    expect(error.getResponse().existing).toEqual({
+      type: 'expense',
+      id: 'exp-1',
+      status: 'approved',
+    })
+    expect(invoices.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ comprobanteKey: '20100066603-01-F001-123' })
+    )
+  })
+
+  it('returns the key when the comprobante is new', async () => {
+    const service = new ComprobanteService(
+      fakeModel([]) as any,
+      fakeModel([]) as any
+    )
+
+    await expect(service.assertNotDuplicate(COMPANY_ID, data)).resolves.toBe(
+      '20100066603-01-F001-123'
+    )
+  })
+
+  it('groups same RUC, date and amount with different numbers', async () => {
+    const base = { rucEmisor: '20100066603', fechaEmision: '14/05/2025' }
+    const invoices = fakeModel([
+      {
+        ...base,
+        _id: 'inv-1',
+        serie: 'F001',
+        correlativo: '1',
+        montoTotal: 118,
+      },
+      {
+        ...base,
+        _id: 'inv-2',
+        serie: 'F001',
+        correlativo: '9',
+        montoTotal: 50,
+      },
+    ])
+    const expenses = fakeModel([
+      { ...base, _id: 'exp-1', serie: 'F001', correlativo: '2', total: 118 },
+    ])
+    const service = new ComprobanteService(invoices as any, expenses as any)
+
+    const groups = await service.findNearDuplicates(COMPANY_ID)
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].montoTotal).toBe(118)
+    expect(groups[0].records.map(record => record.id)).toEqual([
+      'inv-1',
+      'exp-1',
+    ])
+  })
+})
@@ -0,0 +1,162 @@
+import { ConflictException, Injectable } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+import { Invoice } from '../invoice/entities/invoice.entity'
+import { Expense } from '../expense/entities/expense.entity'
+import {
+  buildComprobanteKey,
+  ComprobanteIdentifiers,
+} from './utils/comprobante-key.util'
+
+export type ComprobanteSource = 'invoice' | 'expense'
+
+export interface ExistingComprobante {
+  type: ComprobanteSource
+  id: string
+  status?: string
+}
+
+export interface NearDuplicateRecord extends ExistingComprobante {
+  serie?: string
+  correlativo?: string
+}
+
+export interface NearDuplicateGroup {
+  rucEmisor: string
+  fechaEmision: string
+  montoTotal: number
+  records: NearDuplicateRecord[]
+}
+
+@Injectable()
+export class ComprobanteService {
+  constructor(
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>,
+    @InjectModel(Expense.name)
+    private expenseModel: Model<Expense>
+  ) {}
+
+  // Busca el comprobante en facturas y gastos de la empresa, excluyendo el registro actual
+  async findExisting(
+    companyId: string,
+    comprobanteKey: string,
+    exclude?: ExistingComprobante
+  ): Promise<ExistingComprobante | undefined> {
+    const excludeId = (type: ComprobanteSource) =>
+      exclude?.type === type ? { _id: { $ne: exclude.id } } : {}
+
+    const invoice = await this.invoiceModel
+      .findOne({ companyId, comprobanteKey, ...excludeId('invoice') })
+      .select('_id status')
+      .lean()
+      .exec()
+    if (invoice) {
+      return {
+        type: 'invoice',
+        id: String(invoice._id),
+        status: invoice.status,
+      }
+    }
+
+    const expense = await this.expenseModel
+      .findOne({
+        companyId: new Types.ObjectId(companyId),
+        comprobanteKey,
+        ...excludeId('expense'),
+      })
+      .select('_id status')
+      .lean()
+      .exec()
+    if (expense) {
+      return {
+        type: 'expense',
+        id: String(expense._id),
+        status: expense.status,
+      }
+    }
+    return undefined
+  }
+
+  // Devuelve la clave del comprobante o lanza 409 con la referencia al registro existente
+  async assertNotDuplicate(
+    companyId: string,
+    data: ComprobanteIdentifiers,
+    exclude?: ExistingComprobante
+  ): Promise<string | undefined> {
+    const comprobanteKey = buildComprobanteKey(data)
+    if (!comprobanteKey || !companyId) return comprobanteKey
+
+    const existing = await this.findExisting(companyId, comprobanteKey, exclude)
+    if (existing) {
+      throw new ConflictException({
+        statusCode: 409,
+        message: `El comprobante ${data.serie}-${data.correlativo} del RUC ${data.rucEmisor} ya fue registrado`,
+        existing,
+      })
+    }
+    return comprobanteKey
+  }
+
+  // Mismo RUC, fecha y monto pero distinto número: posible doble registro
+  async findNearDuplicates(
+    companyId: string,
+    rucEmisor?: string
+  ): Promise<NearDuplicateGroup[]> {
+    const rucFilter = rucEmisor
+      ? { rucEmisor }
+      : { rucEmisor: { $exists: true } }
+    const [invoices, expenses] = await Promise.all([
+      this.invoiceModel
+        .find({ companyId, ...rucFilter })
+        .select(
+          'rucEmisor fechaEmision montoTotal serie correlativo comprobanteKey status'
+        )
+        .lean()
+        .exec(),
+      this.expenseModel
+        .find({ companyId: new Types.ObjectId(companyId), ...rucFilter })
+        .select(
+          'rucEmisor fechaEmision total serie correlativo comprobanteKey status'
+        )
+        .lean()
+        .exec(),
+    ])
+
+    const groups = new Map<string, NearDuplicateGroup & { keys: Set<string> }>()
+    const add = (
+      type: ComprobanteSource,
+      doc: Record<string, any>,
+      monto: number
+    ) => {
+      if (!doc.rucEmisor || !doc.fechaEmision || monto === undefined) return
+      const groupKey = [doc.rucEmisor, doc.fechaEmision, monto.toFixed(2)].join(
+        '|'
+      )
+      if (!groups.has(groupKey)) {
+        groups.set(groupKey, {
+          rucEmisor: doc.rucEmisor,
+          fechaEmision: doc.fechaEmision,
+          montoTotal: monto,
+          records: [],
+          keys: new Set(),
+        })
+      }
+      const group = groups.get(groupKey)
+      group.keys.add(doc.comprobanteKey || `${doc.serie}-${doc.correlativo}`)
+      group.records.push({
+        type,
+        id: String(doc._id),
+        status: doc.status,
+        serie: doc.serie,
+        correlativo: doc.correlativo,
+      })
+    }
+    invoices.forEach(doc => add('invoice', doc, doc.montoTotal))
+    expenses.forEach(doc => add('expense', doc, doc.total))
+
+    return [...groups.values()]
+      .filter(group => group.keys.size > 1)
+      .map(({ keys: _keys, ...group }) => group)
+  }
+}
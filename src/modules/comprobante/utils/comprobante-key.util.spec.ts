@@ -0,0 +1,28 @@
+import { buildComprobanteKey } from './comprobante-key.util'
+
+describe('buildComprobanteKey', () => {
+  it('normalizes type, serie and leading zeros', () => {
+    expect(
+      buildComprobanteKey({
+        rucEmisor: '20100066603',
+        tipoComprobante: 'Factura',
+        serie: 'f001',
+        correlativo: '00000123',
+      })
+    ).toBe('20100066603-01-F001-123')
+    expect(
+      buildComprobanteKey({
+        rucEmisor: '20100066603',
+        tipoComprobante: '01',
+        serie: 'F001',
+        correlativo: '123',
+      })
+    ).toBe('20100066603-01-F001-123')
+  })
+
+  it('returns undefined when an identifier is missing', () => {
+    expect(
+      buildComprobanteKey({ rucEmisor: '20100066603', serie: 'F001' })
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,32 @@
+import { normalizeTipoComprobante } from '../../extraction/utils/invoice-fields.util'
+
+export interface ComprobanteIdentifiers {
+  rucEmisor?: string
+  tipoComprobante?: string
+  serie?: string
+  correlativo?: string
+}
+
+export const COMPROBANTE_KEY_FIELDS: (keyof ComprobanteIdentifiers)[] = [
+  'rucEmisor',
+  'tipoComprobante',
+  'serie',
+  'correlativo',
+]
+
+// Identificador único de un comprobante: RUC-TIPO-SERIE-CORRELATIVO normalizados
+export function buildComprobanteKey(
+  data?: ComprobanteIdentifiers
+): string | undefined {
+  const ruc = String(data?.rucEmisor ?? '').replace(/\D/g, '')
+  const tipo = normalizeTipoComprobante(data?.tipoComprobante)
+  const serie = String(data?.serie ?? '')
+    .trim()
+    .toUpperCase()
+  // F001-00000123 y F001-123 son el mismo comprobante
+  const correlativo = String(data?.correlativo ?? '')
+    .trim()
+    .replace(/^0+(?=\d)/, '')
+  if (!ruc || !tipo || !serie || !correlativo) return undefined
+  return [ruc, tipo, serie, correlativo].join('-')
+}
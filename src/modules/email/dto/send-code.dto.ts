@@ -1,4 +0,0 @@
-export class SendCodeDto {
-    email: string;
-}
-
@@ -1,17 +1,13 @@
-import { Controller, Get, Post, Body } from '@nestjs/common'
+import { Controller, Get, Post, Body, UseGuards } from '@nestjs/common'
 import { EmailService } from './email.service'
-import { SendCodeDto } from './dto/send-code.dto'
 import { SendInvoiceNotificationDto } from './dto/send-invoice-notification.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 
 @Controller('email')
+@UseGuards(JwtAuthGuard)
 export class EmailController {
   constructor(private readonly emailService: EmailService) {}
 
-  @Post('send-code')
-  sendCodeConfirmation(@Body() sendCodeDto: SendCodeDto) {
-    return this.emailService.sendCodeConfirmation(sendCodeDto.email)
-  }
-
   @Post('send-invoice-notification')
   sendInvoiceNotification(
     @Body() sendInvoiceNotificationDto: SendInvoiceNotificationDto
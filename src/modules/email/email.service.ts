@@ -7,21 +7,21 @@ export class EmailService {
 
   constructor(private readonly mailerService: MailerService) {}
 
-  getCode() {
-    const code = Math.floor(100000 + Math.random() * 900000).toString()
-    return code
-  }
-
-  async sendCodeConfirmation(email: string) {
+  async sendCodeConfirmation(
+    email: string,
+    code: string,
+    expiresInMinutes: number
+  ) {
     try {
       this.logger.debug(`Enviando código de confirmación a ${email}`)
       await this.mailerService.sendMail({
         to: email,
         subject: 'Confirma tu correo en Nuestra App',
-        template: './confirmation', // se añade automáticamente la extensión (.hbs)
+        template: './send-code', // se añade automáticamente la extensión (.hbs)
         context: {
           logoUrl: 'https://eventuz.com/assets/images/logo1.svg',
-          verificationCode: this.getCode(),
+          verificationCode: code,
+          expiresInMinutes,
           year: new Date().getFullYear(),
         },
       })
@@ -91,6 +91,68 @@ export class EmailService {
     })
   }
 
+  async sendInvoiceAnnulledNotification(
+    email: string,
+    data: {
+      invoiceNumber: string
+      rucEmisor: string
+      fechaEmision: string
+      montoTotal: number
+      moneda: string
+      paymentStatus: string
+    }
+  ) {
+    try {
+      await this.mailerService.sendMail({
+        to: email,
+        subject: `Comprobante ${data.invoiceNumber} anulado en SUNAT`,
+        template: './invoice-annulled',
+        context: {
+          logoUrl: 'https://eventuz.com/assets/images/logo1.svg',
+          ...data,
+          year: new Date().getFullYear(),
+        },
+      })
+    } catch (error) {
+      this.logger.error(
+        `Error al enviar notificación de comprobante anulado a ${email}: ${error.message}`
+      )
+      throw error
+    }
+  }
+
+  async sendBudgetAlertNotification(
+    email: string,
+    data: {
+      projectName: string
+      scope: string
+      threshold: number
+      percentUsed: number
+      budget: number
+      committed: number
+      actual: number
+      remaining: number
+    }
+  ) {
+    try {
+      await this.mailerService.sendMail({
+        to: email,
+        subject: `Presupuesto de ${data.projectName} al ${data.percentUsed}%`,
+        template: './budget-alert',
+        context: {
+          logoUrl: 'https://eventuz.com/assets/images/logo1.svg',
+          ...data,
+          year: new Date().getFullYear(),
+        },
+      })
+    } catch (error) {
+      this.logger.error(
+        `Error al enviar alerta de presupuesto a ${email}: ${error.message}`
+      )
+      throw error
+    }
+  }
+
   async sendAccountingDecisionNotification(
     email: string,
     invoiceNumber: string,
@@ -413,36 +475,54 @@ export class EmailService {
     }
   }
 
-  async sendProviderWelcomeEmail(
+  // Enlace de un solo uso para que el usuario invitado defina su contraseña
+  async sendUserInvitationEmail(
     email: string,
     data: {
       firstName: string
       lastName: string
-      password: string
-      loginUrl: string
+      invitationUrl: string
+      expiresInHours: number
+    }
+  ) {
+    try {
+      this.logger.debug(`Enviando invitación a: ${email}`)
+      await this.mailerService.sendMail({
+        to: email,
+        subject: 'Bienvenido a Nuestra Plataforma',
+        template: './user-invitation',
+        context: {
+          logoUrl: 'https://eventuz.com/assets/images/logo1.svg',
+          ...data,
+          email,
+          year: new Date().getFullYear(),
+        },
+      })
+      this.logger.debug(`Invitación enviada exitosamente a ${email}`)
+    } catch (error) {
+      this.logger.error(`Error al enviar invitación a ${email}:`, error)
+      throw error
     }
+  }
+
+  async sendPasswordResetEmail(
+    email: string,
+    data: { firstName: string; resetUrl: string; expiresInMinutes: number }
   ) {
     try {
-      this.logger.debug(`Enviando correo de bienvenida a proveedor: ${email}`)
       await this.mailerService.sendMail({
         to: email,
-        subject: 'Bienvenido a Nuestra Plataforma de Proveedores',
-        template: './provider-welcome',
+        subject: 'Restablece tu contraseña',
+        template: './password-reset',
         context: {
           logoUrl: 'https://eventuz.com/assets/images/logo1.svg',
-          firstName: data.firstName,
-          lastName: data.lastName,
-          email: email,
-          password: data.password,
-          loginUrl: data.loginUrl,
+          ...data,
           year: new Date().getFullYear(),
         },
       })
-      this.logger.debug(`Correo de bienvenida enviado exitosamente a ${email}`)
     } catch (error) {
       this.logger.error(
-        `Error al enviar correo de bienvenida a ${email}:`,
-        error
+        `Error al enviar enlace de restablecimiento a ${email}: ${error.message}`
       )
       throw error
     }
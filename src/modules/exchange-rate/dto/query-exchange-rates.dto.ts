@@ -0,0 +1,19 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class QueryExchangeRatesDto {
+  @ApiProperty({ example: 'USD', required: false })
+  @IsString()
+  @IsOptional()
+  currency?: string
+
+  @ApiProperty({ example: '2025-06-01', required: false })
+  @IsDateString()
+  @IsOptional()
+  from?: string
+
+  @ApiProperty({ example: '2025-06-30', required: false })
+  @IsDateString()
+  @IsOptional()
+  to?: string
+}
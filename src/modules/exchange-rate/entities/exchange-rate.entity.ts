@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document } from 'mongoose'
+import { ExchangeRateSource } from '../enums/currency.enum'
+
+export interface ExchangeRateDocument extends Document {
+  date: string
+  currency: string
+  compra: number
+  venta: number
+  source: ExchangeRateSource
+}
+
+// Tipo de cambio publicado por SUNAT para un día; es el mismo para todas las empresas
+@Schema({ timestamps: true })
+export class ExchangeRate {
+  // yyyy-mm-dd: el orden alfabético coincide con el cronológico
+  @Prop({ required: true })
+  date: string
+
+  @Prop({ required: true })
+  currency: string
+
+  @Prop({ required: true })
+  compra: number
+
+  @Prop({ required: true })
+  venta: number
+
+  @Prop({ type: String, enum: ExchangeRateSource, required: true })
+  source: ExchangeRateSource
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate)
+
+ExchangeRateSchema.index({ currency: 1, date: -1 }, { unique: true })
@@ -0,0 +1,15 @@
+// Códigos ISO 4217 de las monedas con las que opera la empresa
+export enum Currency {
+  PEN = 'PEN',
+  USD = 'USD',
+  EUR = 'EUR',
+}
+
+// Moneda funcional: los reportes se consolidan en soles
+export const BASE_CURRENCY = Currency.PEN
+
+export enum ExchangeRateSource {
+  // Archivo local cargado al iniciar (EXCHANGE_RATES_FILE)
+  FILE = 'file',
+  UPLOAD = 'upload',
+}
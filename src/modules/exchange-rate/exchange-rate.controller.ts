@@ -0,0 +1,83 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
+import { ExchangeRateService } from './exchange-rate.service'
+import { QueryExchangeRatesDto } from './dto/query-exchange-rates.dto'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('exchange-rates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ExchangeRateController {
+  constructor(private readonly exchangeRateService: ExchangeRateService) {}
+
+  // Tabla de tipos de cambio de SUNAT en CSV (fecha;compra;venta) o JSON.
+  // La tabla es común a todas las empresas: solo la importa un administrador sin empresa
+  @Post('import')
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(
+    FileInterceptor('rates', {
+      limits: {
+        fileSize: 2 * 1024 * 1024, // 2MB
+      },
+    })
+  )
+  importRates(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    if (auth.companyId) {
+      throw new ForbiddenException(
+        'Los tipos de cambio son comunes a todas las empresas; solo un administrador de la plataforma puede importarlos'
+      )
+    }
+    if (!file || !file.buffer) {
+      throw new HttpException(
+        'No se recibió ningún archivo o el archivo está corrupto.',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+    return this.exchangeRateService.importRates(
+      file.buffer.toString('utf8'),
+      file.originalname
+    )
+  }
+
+  @Get()
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING,
+    UserRole.TREASURY
+  )
+  findAll(@Query() query: QueryExchangeRatesDto) {
+    return this.exchangeRateService.findAll(query)
+  }
+
+  // Tipo de cambio vigente en una fecha (yyyy-mm-dd)
+  @Get(':currency/:date')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING,
+    UserRole.TREASURY
+  )
+  findRate(@Param('currency') currency: string, @Param('date') date: string) {
+    return this.exchangeRateService.findRateOrFail(currency, date)
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { ExchangeRateController } from './exchange-rate.controller'
+import { ExchangeRateService } from './exchange-rate.service'
+import {
+  ExchangeRate,
+  ExchangeRateSchema,
+} from './entities/exchange-rate.entity'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+    ]),
+  ],
+  controllers: [ExchangeRateController],
+  providers: [ExchangeRateService],
+  exports: [ExchangeRateService],
+})
+export class ExchangeRateModule {}
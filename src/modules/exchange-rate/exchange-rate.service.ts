@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import * as fs from 'fs'
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from './entities/exchange-rate.entity'
+import { BASE_CURRENCY, ExchangeRateSource } from './enums/currency.enum'
+import { QueryExchangeRatesDto } from './dto/query-exchange-rates.dto'
+import { normalizeCurrency, toRateDate } from './utils/currency.util'
+import {
+  ExchangeRateParseError,
+  parseExchangeRates,
+} from './utils/exchange-rate-file.util'
+import { auditedBulkWrite } from '../audit/plugins/audit.plugin'
+
+// Sin publicación (fines de semana y feriados) rige el último tipo de cambio publicado
+const MAX_LOOKBACK_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ExchangeRateImportResult {
+  imported: number
+  from?: string
+  to?: string
+}
+
+export interface PenEquivalent {
+  tipoCambio: number
+  montoPen: number
+}
+
+@Injectable()
+export class ExchangeRateService implements OnModuleInit {
+  private readonly logger = new Logger(ExchangeRateService.name)
+
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private exchangeRateModel: Model<ExchangeRateDocument>,
+    private readonly configService: ConfigService
+  ) {}
+
+  // EXCHANGE_RATES_FILE: tabla local (CSV o JSON) que reemplaza a la descarga de SUNAT
+  async onModuleInit() {
+    const filePath = this.configService.get<string>('EXCHANGE_RATES_FILE')
+    if (!filePath) return
+    try {
+      const result = await this.importRates(
+        fs.readFileSync(filePath, 'utf8'),
+        filePath,
+        ExchangeRateSource.FILE
+      )
+      this.logger.log(
+        `Exchange rates loaded from ${filePath}: ${result.imported} (${result.from} - ${result.to})`
+      )
+    } catch (error) {
+      this.logger.error(
+        `No se pudo cargar EXCHANGE_RATES_FILE (${filePath}): ${error.message}`
+      )
+    }
+  }
+
+  // Reemplaza los tipos de cambio de los días incluidos en el archivo
+  async importRates(
+    content: string,
+    filename: string,
+    source = ExchangeRateSource.UPLOAD
+  ): Promise<ExchangeRateImportResult> {
+    let rates: ReturnType<typeof parseExchangeRates>
+    try {
+      rates = parseExchangeRates(content, filename)
+    } catch (error) {
+      if (error instanceof ExchangeRateParseError) {
+        throw new BadRequestException(error.message)
+      }
+      throw error
+    }
+    if (rates.length === 0) {
+      throw new BadRequestException('El archivo no contiene tipos de cambio')
+    }
+
+    await auditedBulkWrite(
+      this.exchangeRateModel,
+      rates.map(rate => ({
+        updateOne: {
+          filter: { currency: rate.currency, date: rate.date },
+          update: { $set: { ...rate, source } },
+          upsert: true,
+        },
+      })),
+      { entity: 'ExchangeRate' }
+    )
+    const dates = rates.map(rate => rate.date).sort()
+    return {
+      imported: rates.length,
+      from: dates[0],
+      to: dates[dates.length - 1],
+    }
+  }
+
+  async findAll(query: QueryExchangeRatesDto): Promise<ExchangeRateDocument[]> {
+    const date: Record<string, string> = {}
+    if (query.from) date.$gte = toRateDate(query.from)
+    if (query.to) date.$lte = toRateDate(query.to)
+    return this.exchangeRateModel
+      .find({
+        ...(query.currency && { currency: normalizeCurrency(query.currency) }),
+        ...(Object.keys(date).length > 0 && { date }),
+      })
+      .sort({ date: -1 })
+      .limit(366)
+      .exec()
+  }
+
+  // Tipo de cambio vigente en la fecha indicada
+  async findRate(
+    currency: string,
+    date: string | Date
+  ): Promise<ExchangeRateDocument | null> {
+    const code = normalizeCurrency(currency)
+    const day = toRateDate(date)
+    if (!code || !day) return null
+    const earliest = new Date(
+      new Date(`${day}T00:00:00Z`).getTime() - MAX_LOOKBACK_DAYS * DAY_MS
+    )
+    return this.exchangeRateModel
+      .findOne({
+        currency: code,
+        date: { $lte: day, $gte: toRateDate(earliest) },
+      })
+      .sort({ date: -1 })
+      .exec()
+  }
+
+  async findRateOrFail(
+    currency: string,
+    date: string
+  ): Promise<ExchangeRateDocument> {
+    const rate = await this.findRate(currency, date)
+    if (!rate) {
+      throw new NotFoundException(
+        `No hay tipo de cambio ${currency} registrado para el ${date}`
+      )
+    }
+    return rate
+  }
+
+  // Equivalente en soles con el tipo de cambio venta, el que SUNAT fija para las obligaciones
+  async toPen(
+    amount: number,
+    currency: string,
+    date?: string | Date
+  ): Promise<PenEquivalent | undefined> {
+    if (amount == null) return undefined
+    if (normalizeCurrency(currency) === BASE_CURRENCY) {
+      return { tipoCambio: 1, montoPen: amount }
+    }
+    const rate = date ? await this.findRate(currency, date) : null
+    if (!rate) return undefined
+    return {
+      tipoCambio: rate.venta,
+      montoPen: Math.round(amount * rate.venta * 100) / 100,
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { normalizeCurrency, toRateDate } from './currency.util'
+
+describe('normalizeCurrency', () => {
+  it('maps symbols and names to ISO 4217 codes', () => {
+    expect(normalizeCurrency('S/')).toBe('PEN')
+    expect(normalizeCurrency('s/.')).toBe('PEN')
+    expect(normalizeCurrency('Soles')).toBe('PEN')
+    expect(normalizeCurrency('$')).toBe('USD')
+    expect(normalizeCurrency('US$')).toBe('USD')
+    expect(normalizeCurrency('dólares americanos')).toBe('USD')
+    expect(normalizeCurrency('€')).toBe('EUR')
+  })
+
+  it('keeps other ISO codes and rejects unknown values', () => {
+    expect(normalizeCurrency('clp')).toBe('CLP')
+    expect(normalizeCurrency('pesos')).toBeUndefined()
+    expect(normalizeCurrency(undefined)).toBeUndefined()
+  })
+})
+
+describe('toRateDate', () => {
+  it('accepts the SUNAT and ISO date formats', () => {
+    expect(toRateDate('14-05-2025')).toBe('2025-05-14')
+    expect(toRateDate('14/05/2025')).toBe('2025-05-14')
+    expect(toRateDate('2025-05-14T10:00:00Z')).toBe('2025-05-14')
+    expect(toRateDate(new Date('2025-05-14T00:00:00Z'))).toBe('2025-05-14')
+    expect(toRateDate('mayo 2025')).toBeUndefined()
+  })
+})
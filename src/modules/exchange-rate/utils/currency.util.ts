@@ -0,0 +1,33 @@
+import { Currency } from '../enums/currency.enum'
+
+// Símbolos y nombres que aparecen en comprobantes y respuestas del LLM
+const CURRENCY_ALIASES: [RegExp, Currency][] = [
+  [/^(PEN|S\/\.?|SOLES?|NUEVOS SOLES)$/, Currency.PEN],
+  [/^(USD|US\$|\$|D[OÓ]LAR(ES)?( AMERICANOS)?)$/, Currency.USD],
+  [/^(EUR|€|EUROS?)$/, Currency.EUR],
+]
+
+// Devuelve el código ISO 4217 o undefined si la moneda no se reconoce
+export function normalizeCurrency(value?: string): string | undefined {
+  if (!value) return undefined
+  const upper = String(value).trim().toUpperCase().replace(/\s+/g, ' ')
+  const alias = CURRENCY_ALIASES.find(([pattern]) => pattern.test(upper))
+  if (alias) return alias[1]
+  return /^[A-Z]{3}$/.test(upper) ? upper : undefined
+}
+
+// Fechas dd/mm/yyyy, dd-mm-yyyy o yyyy-mm-dd como clave yyyy-mm-dd de la tabla de cambio
+export function toRateDate(value?: string | Date): string | undefined {
+  if (!value) return undefined
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? undefined
+      : value.toISOString().slice(0, 10)
+  }
+  const raw = value.trim()
+  let match = raw.match(/^(\d{2})[/-](\d{2})[/-](\d{4})/)
+  if (match) return `${match[3]}-${match[2]}-${match[1]}`
+  match = raw.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`
+  return undefined
+}
@@ -0,0 +1,36 @@
+import {
+  ExchangeRateParseError,
+  parseExchangeRates,
+} from './exchange-rate-file.util'
+
+describe('parseExchangeRates', () => {
+  it('parses the SUNAT CSV layout, defaulting to USD', () => {
+    const csv = [
+      'Fecha;Compra;Venta',
+      '02/06/2025;3,612;3,620',
+      '03/06/2025;3.598;3.606',
+    ].join('\n')
+
+    expect(parseExchangeRates(csv, 'tc-junio.csv')).toEqual([
+      { date: '2025-06-02', currency: 'USD', compra: 3.612, venta: 3.62 },
+      { date: '2025-06-03', currency: 'USD', compra: 3.598, venta: 3.606 },
+    ])
+  })
+
+  it('parses JSON tables with an explicit currency', () => {
+    const json = JSON.stringify([
+      { fecha: '2025-06-02', moneda: 'EUR', compra: 4.05, venta: 4.21 },
+    ])
+
+    expect(parseExchangeRates(json, 'tc.json')).toEqual([
+      { date: '2025-06-02', currency: 'EUR', compra: 4.05, venta: 4.21 },
+    ])
+  })
+
+  it('reports the row with invalid data', () => {
+    const csv = 'fecha,compra,venta\n2025-06-02,3.61,0'
+
+    expect(() => parseExchangeRates(csv)).toThrow(ExchangeRateParseError)
+    expect(() => parseExchangeRates(csv)).toThrow(/Fila 2/)
+  })
+})
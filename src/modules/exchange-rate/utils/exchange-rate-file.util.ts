@@ -0,0 +1,121 @@
+import { Currency } from '../enums/currency.enum'
+import { normalizeCurrency, toRateDate } from './currency.util'
+
+export interface ParsedExchangeRate {
+  // yyyy-mm-dd
+  date: string
+  currency: string
+  compra: number
+  venta: number
+}
+
+export class ExchangeRateParseError extends Error {}
+
+// Encabezados aceptados en el CSV (el formato de descarga de SUNAT usa fecha/compra/venta)
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['fecha', 'date', 'fecha publicacion'],
+  currency: ['moneda', 'currency'],
+  compra: ['compra', 'buy', 'tc compra'],
+  venta: ['venta', 'sell', 'tc venta'],
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+function toRate(
+  row: Record<string, unknown>,
+  position: string
+): ParsedExchangeRate {
+  const date = toRateDate(String(row.date ?? ''))
+  if (!date) {
+    throw new ExchangeRateParseError(`${position}: fecha inválida`)
+  }
+  const currency = row.currency
+    ? normalizeCurrency(String(row.currency))
+    : Currency.USD
+  if (!currency) {
+    throw new ExchangeRateParseError(`${position}: moneda no reconocida`)
+  }
+  const compra = Number(String(row.compra ?? '').replace(',', '.'))
+  const venta = Number(String(row.venta ?? '').replace(',', '.'))
+  if (!(compra > 0) || !(venta > 0)) {
+    throw new ExchangeRateParseError(
+      `${position}: los tipos de cambio compra y venta deben ser mayores a cero`
+    )
+  }
+  return { date, currency, compra, venta }
+}
+
+function parseCsv(content: string): ParsedExchangeRate[] {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+  if (lines.length < 2) return []
+
+  const delimiter =
+    lines[0].split(';').length > lines[0].split(',').length ? ';' : ','
+  const header = lines[0].split(delimiter).map(normalizeHeader)
+  const column = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [
+      field,
+      header.findIndex(name => names.includes(name)),
+    ])
+  )
+  if (column.date < 0 || column.compra < 0 || column.venta < 0) {
+    throw new ExchangeRateParseError(
+      'El CSV debe tener columnas fecha, compra y venta'
+    )
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = line.split(delimiter).map(cell => cell.trim())
+    const row = Object.fromEntries(
+      Object.entries(column)
+        .filter(([, position]) => position >= 0)
+        .map(([field, position]) => [field, cells[position]])
+    )
+    return toRate(row, `Fila ${index + 2}`)
+  })
+}
+
+// JSON: arreglo de { fecha, moneda?, compra, venta }
+function parseJson(content: string): ParsedExchangeRate[] {
+  let rows: unknown
+  try {
+    rows = JSON.parse(content)
+  } catch {
+    throw new ExchangeRateParseError('El archivo JSON no es válido')
+  }
+  if (!Array.isArray(rows)) {
+    throw new ExchangeRateParseError(
+      'El archivo JSON debe contener un arreglo de tipos de cambio'
+    )
+  }
+  return rows.map((row: Record<string, unknown>, index) =>
+    toRate(
+      {
+        date: row.fecha ?? row.date,
+        currency: row.moneda ?? row.currency,
+        compra: row.compra,
+        venta: row.venta,
+      },
+      `Elemento ${index + 1}`
+    )
+  )
+}
+
+export function parseExchangeRates(
+  content: string,
+  filename = ''
+): ParsedExchangeRate[] {
+  return /\.json$/i.test(filename) || /^\s*\[/.test(content)
+    ? parseJson(content)
+    : parseCsv(content)
+}
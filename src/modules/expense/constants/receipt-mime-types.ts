@@ -0,0 +1,7 @@
+// Formatos aceptados para la foto o el PDF del comprobante de un gasto
+export const RECEIPT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/heic',
+  'application/pdf',
+]
@@ -0,0 +1,9 @@
+import { PickType } from '@nestjs/swagger'
+import { CreateExpenseDto } from './create-expense.dto'
+
+// Comprobante ya subido por URL; la empresa y el usuario salen del token
+export class AnalyzeExpenseDto extends PickType(CreateExpenseDto, [
+  'proyectId',
+  'categoryId',
+  'imageUrl',
+] as const) {}
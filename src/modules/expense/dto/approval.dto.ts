@@ -13,12 +13,14 @@ export class ApprovalDto {
   status: ExpenseStatus
 
   @ApiProperty({
-    description: 'ID del usuario que realiza la acción',
+    description:
+      'ID del usuario que realiza la acción (se toma del token; el valor enviado se ignora)',
     example: '123456',
+    required: false,
   })
   @IsString()
-  @IsNotEmpty()
-  userId: string
+  @IsOptional()
+  userId?: string
 
   @ApiProperty({
     description: 'Motivo del rechazo (requerido solo para rechazos)',
@@ -28,4 +30,13 @@ export class ApprovalDto {
   @IsString()
   @IsOptional()
   reason?: string
+
+  @ApiProperty({
+    description: 'Comentario del aprobador para el paso actual',
+    example: 'Conforme con el presupuesto del proyecto',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  comment?: string
 }
@@ -23,6 +23,10 @@ export class CreateExpenseDto {
   @IsOptional()
   total?: number
 
+  @IsString()
+  @IsOptional()
+  moneda?: string
+
   @IsEnum(['pending', 'approved', 'rejected'])
   @IsOptional()
   status?: ExpenseStatus
@@ -1,4 +1,7 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateExpenseDto } from './create-expense.dto';
 
-export class UpdateExpenseDto extends PartialType(CreateExpenseDto) {}
+// El estado solo cambia mediante los endpoints de aprobación y rechazo
+export class UpdateExpenseDto extends PartialType(
+  OmitType(CreateExpenseDto, ['status'] as const)
+) {}
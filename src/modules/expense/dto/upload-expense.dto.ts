@@ -0,0 +1,14 @@
+import { IsMongoId, IsOptional, IsString } from 'class-validator'
+
+// Campos del formulario multipart; la empresa y el usuario salen del token
+export class UploadExpenseDto {
+  @IsMongoId()
+  proyectId: string
+
+  @IsMongoId()
+  categoryId: string
+
+  @IsString()
+  @IsOptional()
+  description?: string
+}
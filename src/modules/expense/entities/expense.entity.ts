@@ -1,16 +1,69 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Document, Types } from 'mongoose'
+import {
+  StoredFile,
+  StoredFileSchema,
+} from '../../storage/entities/stored-file.entity'
+import { ApproverType } from '../../approval-workflow/enums/approver-type.enum'
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
 
 export type ExpenseStatus = 'pending' | 'approved' | 'rejected'
 
+// Paso de la cadena de aprobación copiado al gasto cuando se registra
+@Schema({ _id: false })
+export class ExpenseApprovalStep {
+  @Prop({ required: true })
+  name: string
+
+  @Prop({ required: true, enum: ApproverType })
+  approverType: ApproverType
+
+  @Prop({ type: [String], enum: UserRole, default: [] })
+  roles: UserRole[]
+
+  @Prop({ type: String, ref: 'User' })
+  userId?: string
+
+  @Prop({ default: 'pending' })
+  status: ExpenseStatus
+
+  @Prop()
+  actedBy?: string
+
+  @Prop()
+  actedAt?: Date
+
+  @Prop()
+  comment?: string
+}
+
+export const ExpenseApprovalStepSchema =
+  SchemaFactory.createForClass(ExpenseApprovalStep)
+
 export interface ExpenseDocument extends Document {
   proyectId: Types.ObjectId
   total: number
+  moneda?: string
+  tipoCambio?: number
+  totalPen?: number
   description: string
   categoryId: Types.ObjectId
-  file: string
+  file?: string
+  attachment?: StoredFile
   data: string
+  confidence?: Record<string, number>
+  missingFields?: string[]
+  rucEmisor?: string
+  tipoComprobante?: string
+  serie?: string
+  correlativo?: string
+  fechaEmision?: string
+  comprobanteKey?: string
   status?: ExpenseStatus
+  approvalSteps?: ExpenseApprovalStep[]
+  currentStep?: number
   statusDate?: Date
   approvedBy?: string
   rejectedBy?: string
@@ -30,21 +83,71 @@ export class Expense {
   @Prop()
   total: number
 
+  // Código ISO 4217 del comprobante
+  @Prop({ default: 'PEN' })
+  moneda: string
+
+  // Tipo de cambio venta de SUNAT a la fecha de emisión y equivalente en soles
+  @Prop()
+  tipoCambio?: number
+
+  @Prop()
+  totalPen?: number
+
   @Prop()
   description: string
 
   @Prop({ required: true, type: Types.ObjectId, ref: 'Category' })
   categoryId: Types.ObjectId
 
-  @Prop({ required: true })
-  file: string
+  // URL pública del comprobante (gastos registrados con imageUrl)
+  @Prop()
+  file?: string
+
+  // Comprobante subido directamente, guardado en el almacenamiento
+  @Prop({ type: StoredFileSchema })
+  attachment?: StoredFile
 
   @Prop()
   data: string
 
+  // Confianza (0-1) con la que se extrajo cada campo del comprobante
+  @Prop({ type: Object })
+  confidence?: Record<string, number>
+
+  // Campos que no se pudieron extraer y deben completarse manualmente
+  @Prop({ type: [String], default: [] })
+  missingFields: string[]
+
+  // Identificadores del comprobante, extraídos de data para detectar duplicados
+  @Prop()
+  rucEmisor?: string
+
+  @Prop()
+  tipoComprobante?: string
+
+  @Prop()
+  serie?: string
+
+  @Prop()
+  correlativo?: string
+
+  @Prop()
+  fechaEmision?: string
+
+  @Prop()
+  comprobanteKey?: string
+
   @Prop({ default: 'pending' })
   status: ExpenseStatus
 
+  // El gasto pasa a aprobado solo cuando se completa el último paso
+  @Prop({ type: [ExpenseApprovalStepSchema], default: [] })
+  approvalSteps: ExpenseApprovalStep[]
+
+  @Prop({ default: 0 })
+  currentStep: number
+
   @Prop()
   statusDate: Date
 
@@ -65,3 +168,15 @@ export class Expense {
 }
 
 export const ExpenseSchema = SchemaFactory.createForClass(Expense)
+
+ExpenseSchema.plugin(tenantPlugin)
+ExpenseSchema.plugin(auditPlugin, { entity: 'Expense' })
+
+// Un comprobante solo puede registrarse una vez por empresa
+ExpenseSchema.index(
+  { companyId: 1, comprobanteKey: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { comprobanteKey: { $type: 'string' } },
+  }
+)
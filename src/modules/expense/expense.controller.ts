@@ -6,37 +6,96 @@ import {
   Patch,
   Param,
   Delete,
-  Request,
   UseGuards,
   Logger,
+  UseInterceptors,
+  UploadedFile,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
 import { ExpenseService } from './expense.service'
 import { CreateExpenseDto } from './dto/create-expense.dto'
 import { UpdateExpenseDto } from './dto/update-expense.dto'
 import { ApprovalDto } from './dto/approval.dto'
+import { UploadExpenseDto } from './dto/upload-expense.dto'
+import { AnalyzeExpenseDto } from './dto/analyze-expense.dto'
+import { RECEIPT_MIME_TYPES } from './constants/receipt-mime-types'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 import { Roles } from '../auth/decorators/roles.decorator'
 import { UserRole } from '../auth/enums/user-role.enum'
 import { RolesGuard } from '../auth/guards/roles.guard'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
 
 @Controller('expense')
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class ExpenseController {
   private readonly logger = new Logger(ExpenseController.name)
 
   constructor(private readonly expenseService: ExpenseService) { }
 
   @Post('analyze-image')
-  @UseGuards(JwtAuthGuard, RolesGuard)
   // @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COLABORADOR)
-  analyzeImage(@Body() body: CreateExpenseDto) {
-    return this.expenseService.analyzeImageWithUrl(body)
+  analyzeImage(
+    @Body() body: AnalyzeExpenseDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.expenseService.analyzeImageWithUrl(
+      body,
+      auth.companyId,
+      auth.userId
+    )
+  }
+
+  @Post('upload')
+  @UseInterceptors(
+    FileInterceptor('receipt', {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB
+      },
+      fileFilter: (_req, file, callback) => {
+        // Algunos dispositivos envían las fotos HEIC como image/heif
+        const allowedMimeTypes = [...RECEIPT_MIME_TYPES, 'image/heif']
+        if (allowedMimeTypes.includes(file.mimetype)) {
+          callback(null, true)
+        } else {
+          callback(new Error('Tipo de archivo no soportado'), false)
+        }
+      },
+    })
+  )
+  uploadReceipt(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: UploadExpenseDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    if (!file || !file.buffer) {
+      throw new HttpException(
+        'No se recibió ningún archivo o el archivo está corrupto.',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+    return this.expenseService.analyzeUploadedReceipt(
+      file,
+      body,
+      auth.companyId,
+      auth.userId
+    )
+  }
+
+  @Get(':id/attachment/url')
+  getAttachmentUrl(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.expenseService.getAttachmentUrl(id, auth.companyId)
   }
 
   @Post()
-  @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.ADMIN2)
-  create(@Body() createExpenseDto: CreateExpenseDto, @Request() req) {
-    const companyId = req.user.companyId
+  create(
+    @Body() createExpenseDto: CreateExpenseDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    const companyId = auth.companyId
     return this.expenseService.create(createExpenseDto, companyId)
   }
 
@@ -51,7 +110,6 @@ export class ExpenseController {
   }
 
   @Patch(':id/:companyId')
-  @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.ADMIN2)
   update(
     @Param('id') id: string,
@@ -61,66 +119,43 @@ export class ExpenseController {
     return this.expenseService.update(id, updateExpenseDto, companyId)
   }
 
+  // Quién puede actuar lo decide el paso pendiente de la cadena de aprobación
   @Patch(':id/:companyId/approve')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
   approveInvoice(
     @Param('id') id: string,
     @Body() approvalDto: ApprovalDto,
-    @Request() req
+    @CurrentAuth() auth: AuthContext
   ) {
-    this.logger.debug(
-      `Contenido de req.user: ${JSON.stringify(req.user || 'No disponible')}`
+    // El aprobador es siempre el usuario autenticado, nunca el indicado en el body
+    approvalDto.userId = auth.userId
+    const companyId = auth.companyId
+    return this.expenseService.approveInvoice(
+      id,
+      approvalDto,
+      companyId,
+      auth.roles
     )
-
-    if (req.user && req.user._id) {
-      this.logger.debug(`Usando ID de usuario del JWT: ${req.user._id}`)
-      approvalDto.userId = req.user._id
-    } else if (req.user && req.user.sub) {
-      this.logger.debug(
-        `Usando ID de usuario del campo sub del JWT: ${req.user.sub}`
-      )
-      approvalDto.userId = req.user.sub
-    } else {
-      this.logger.warn(
-        `No se encontró ID de usuario en el JWT, se usará el proporcionado: ${approvalDto.userId || 'ninguno'}`
-      )
-    }
-    const companyId = req.user.companyId
-    return this.expenseService.approveInvoice(id, approvalDto, companyId)
   }
 
+  // Quién puede actuar lo decide el paso pendiente de la cadena de aprobación
   @Patch(':id/:companyId/reject')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.ADMIN2)
   rejectInvoice(
     @Param('id') id: string,
     @Body() approvalDto: ApprovalDto,
-    @Request() req
+    @CurrentAuth() auth: AuthContext
   ) {
-    this.logger.debug(
-      `Contenido de req.user: ${JSON.stringify(req.user || 'No disponible')}`
+    // El aprobador es siempre el usuario autenticado, nunca el indicado en el body
+    approvalDto.userId = auth.userId
+    const companyId = auth.companyId
+    return this.expenseService.rejectInvoice(
+      id,
+      approvalDto,
+      companyId,
+      auth.roles
     )
-
-    if (req.user && req.user._id) {
-      this.logger.debug(`Usando ID de usuario del JWT: ${req.user._id}`)
-      approvalDto.userId = req.user._id
-    } else if (req.user && req.user.sub) {
-      this.logger.debug(
-        `Usando ID de usuario del campo sub del JWT: ${req.user.sub}`
-      )
-      approvalDto.userId = req.user.sub
-    } else {
-      this.logger.warn(
-        `No se encontró ID de usuario en el JWT, se usará el proporcionado: ${approvalDto.userId || 'ninguno'}`
-      )
-    }
-    const companyId = req.user.companyId
-    return this.expenseService.rejectInvoice(id, approvalDto, companyId)
   }
 
   @Delete(':id/:companyId')
-  @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.ADMIN2)
   remove(@Param('id') id: string, @Param('companyId') companyId: string) {
     return this.expenseService.remove(id, companyId)
@@ -8,6 +8,12 @@ import { EmailModule } from '../email/email.module'
 import { CategoryModule } from '../category/category.module'
 import { ProjectModule } from '../project/project.module'
 import { UsersModule } from '../users/users.module'
+import { ExtractionModule } from '../extraction/extraction.module'
+import { ComprobanteModule } from '../comprobante/comprobante.module'
+import { StorageModule } from '../storage/storage.module'
+import { ApprovalWorkflowModule } from '../approval-workflow/approval-workflow.module'
+import { ExchangeRateModule } from '../exchange-rate/exchange-rate.module'
+import { BudgetModule } from '../budget/budget.module'
 
 @Module({
   imports: [
@@ -16,6 +22,12 @@ import { UsersModule } from '../users/users.module'
     CategoryModule,
     ProjectModule,
     UsersModule,
+    ExtractionModule,
+    ComprobanteModule,
+    StorageModule,
+    ApprovalWorkflowModule,
+    ExchangeRateModule,
+    BudgetModule,
   ],
   controllers: [ExpenseController],
   providers: [ExpenseService],
@@ -1,87 +1,181 @@
 import {
+  BadRequestException,
+  ForbiddenException,
   HttpException,
   HttpStatus,
   Injectable,
   Logger,
   NotFoundException,
+  UnprocessableEntityException,
 } from '@nestjs/common'
 import { CreateExpenseDto } from './dto/create-expense.dto'
 import { UpdateExpenseDto } from './dto/update-expense.dto'
-import { ConfigService } from '@nestjs/config'
 import { Model, Types } from 'mongoose'
-import { Expense } from './entities/expense.entity'
+import { Expense, ExpenseApprovalStep } from './entities/expense.entity'
 import { InjectModel } from '@nestjs/mongoose'
 import { EmailService } from '../email/email.service'
-import { PROMPT1 } from './constants/prompt1'
-import OpenAI from 'openai'
 import { ApprovalDto } from './dto/approval.dto'
 import { UserRole } from '../auth/enums/user-role.enum'
 import { ProjectService } from '../project/project.service'
 import { UsersService } from '../users/services/users.service'
+import { ExtractionService } from '../extraction/extraction.service'
+import { ExtractionResult } from '../extraction/interfaces/extraction-engine.interface'
+import { InvoiceData } from '../extraction/interfaces/invoice-data.interface'
+import { missingEssentialFields } from '../extraction/utils/invoice-fields.util'
+import { ComprobanteService } from '../comprobante/comprobante.service'
+import { PageRendererService } from '../extraction/page-renderer.service'
+import { StorageService } from '../storage/storage.service'
+import { StoredFile } from '../storage/entities/stored-file.entity'
+import { UploadExpenseDto } from './dto/upload-expense.dto'
+import { AnalyzeExpenseDto } from './dto/analyze-expense.dto'
+import { RECEIPT_MIME_TYPES } from './constants/receipt-mime-types'
+import { ApprovalWorkflowService } from '../approval-workflow/approval-workflow.service'
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service'
+import { normalizeCurrency } from '../exchange-rate/utils/currency.util'
+import { Currency } from '../exchange-rate/enums/currency.enum'
+import { BudgetService } from '../budget/budget.service'
+import { BudgetOverrunPolicy } from '../budget/enums/budget-overrun-policy.enum'
+import { OVERRUN_APPROVAL_STEP } from '../budget/constants/budget.constants'
+import { ApproverType } from '../approval-workflow/enums/approver-type.enum'
+import {
+  Approver,
+  canActOnStep,
+} from '../approval-workflow/utils/approval-chain.util'
+
+// Origen del comprobante: URL pública (flujo antiguo) o archivo subido al almacenamiento
+interface ExpenseSource {
+  file?: string
+  attachment?: StoredFile
+}
+
 @Injectable()
 export class ExpenseService {
   private readonly logger = new Logger(ExpenseService.name)
-  private readonly openai: OpenAI
-  private readonly visionModel = 'gpt-4-turbo'
 
   constructor(
-    private readonly configService: ConfigService,
     @InjectModel(Expense.name)
     private expenseRepository: Model<Expense>,
     private readonly emailService: EmailService,
     private readonly projectService: ProjectService,
-    private readonly usersService: UsersService
-  ) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY')
-    if (!apiKey) {
-      throw new Error('OpenAI API key is not configured.')
-    }
-    this.openai = new OpenAI({ apiKey })
-  }
-
-  async analyzeImageWithUrl(body: CreateExpenseDto): Promise<Expense> {
+    private readonly usersService: UsersService,
+    private readonly extractionService: ExtractionService,
+    private readonly comprobanteService: ComprobanteService,
+    private readonly storageService: StorageService,
+    private readonly pageRendererService: PageRendererService,
+    private readonly approvalWorkflowService: ApprovalWorkflowService,
+    private readonly exchangeRateService: ExchangeRateService,
+    private readonly budgetService: BudgetService
+  ) {}
+
+  async analyzeImageWithUrl(
+    body: AnalyzeExpenseDto,
+    companyId: string,
+    userId: string
+  ): Promise<Expense> {
     console.log('body', body)
-    const prompt = PROMPT1
-    try {
+    const extraction = await this.extractReceiptData(() =>
+      this.extractionService.extract({ url: body.imageUrl }, 'expense')
+    )
+    return this.registerExpense(
+      { ...body, companyId, userId },
+      extraction,
+      async () => ({
+        file: body.imageUrl,
+      })
+    )
+  }
 
-      const response = await this.openai.chat.completions.create({
-        model: this.visionModel,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: prompt },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: body.imageUrl,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 500,
+  // Analiza el archivo, registra el gasto y guarda el adjunto en una sola llamada
+  async analyzeUploadedReceipt(
+    file: Express.Multer.File,
+    body: UploadExpenseDto,
+    companyId: string,
+    userId: string
+  ): Promise<Expense> {
+    const storeOptions = {
+      folder: 'expenses',
+      mimeType: file.mimetype,
+      filename: file.originalname,
+      allowedMimeTypes: RECEIPT_MIME_TYPES,
+    }
+    const mimeType = this.storageService.validate(file.buffer, storeOptions)
+    const extraction = await this.extractReceiptData(async () => {
+      const images = await this.pageRendererService.toImages(
+        file.buffer,
+        mimeType
+      )
+      return this.extractionService.extract({ images }, 'expense')
+    })
+    return this.registerExpense(
+      { ...body, companyId, userId },
+      extraction,
+      async () => ({
+        attachment: await this.storageService.store(file.buffer, storeOptions),
       })
+    )
+  }
 
-      const jsonStringLimpio = response.choices[0]?.message?.content
-        .replace(/^```json\s*/, '')
-        .replace(/\s*```$/, '')
-        .trim()
-      const jsonObject = JSON.parse(jsonStringLimpio)
+  async getAttachmentUrl(
+    id: string,
+    companyId: string
+  ): Promise<{ url: string; expiresAt: Date }> {
+    const expense = await this.findOne(id, companyId)
+    if (!expense) {
+      throw new NotFoundException(`Gasto con ID ${id} no encontrado`)
+    }
+    if (!expense.attachment) {
+      throw new NotFoundException(
+        `El gasto con ID ${id} no tiene un archivo adjunto`
+      )
+    }
+    return this.storageService.getDownloadUrl(expense.attachment)
+  }
+
+  private async registerExpense(
+    body: Omit<CreateExpenseDto, 'imageUrl'>,
+    extraction: ExtractionResult,
+    loadSource: () => Promise<ExpenseSource>
+  ): Promise<Expense> {
+    try {
+      const jsonObject = extraction.data
+      const comprobante = await this.resolveComprobante(
+        body.companyId,
+        jsonObject
+      )
 
       const categoryObject = Types.ObjectId.createFromHexString(body.categoryId)
       const projectObject = Types.ObjectId.createFromHexString(body.proyectId)
+      const currency = await this.resolveCurrency(
+        jsonObject.montoTotal,
+        jsonObject.moneda,
+        jsonObject.fechaEmision
+      )
 
+      // El adjunto se guarda cuando el comprobante ya pasó las validaciones: un rechazo no
+      // deja archivos huérfanos en el almacenamiento
+      const approvalSteps = await this.resolveApprovalSteps(
+        body.companyId,
+        body.categoryId,
+        currency.totalPen ?? jsonObject.montoTotal,
+        body.proyectId
+      )
+      const source = await loadSource()
       const expense = await this.expenseRepository.create({
         ...body,
         categoryId: categoryObject,
         proyectId: projectObject,
         total: jsonObject.montoTotal,
+        ...currency,
         data: JSON.stringify(jsonObject),
-        file: body.imageUrl,
+        confidence: extraction.confidence,
+        missingFields: missingEssentialFields(jsonObject),
+        ...comprobante,
+        ...source,
         status: 'pending',
+        approvalSteps,
         createdBy: body.userId,
       })
+      await this.evaluateBudgetAlerts(body.proyectId, body.companyId)
 
       const project = await this.projectService.findOne2(body.proyectId)
       try {
@@ -259,6 +353,9 @@ export class ExpenseService {
 
       return expense
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error
+      }
       this.logger.error('OpenAI API Error Response:', error)
       throw new HttpException(
         'Error al analizar la imagen desde la URL con OpenAI.',
@@ -267,18 +364,102 @@ export class ExpenseService {
     }
   }
 
+  // Si la extracción falla el gasto se registra igual, con los campos marcados como faltantes
+  private async extractReceiptData(
+    extract: () => Promise<ExtractionResult>
+  ): Promise<ExtractionResult> {
+    try {
+      return await extract()
+    } catch (error) {
+      this.logger.warn(`No se pudo analizar el comprobante: ${error.message}`)
+      return { data: {}, confidence: {}, engines: [], complete: false }
+    }
+  }
+
+  // Copia los identificadores del comprobante al gasto y rechaza duplicados de la empresa
+  private async resolveComprobante(
+    companyId: string,
+    data: InvoiceData,
+    expenseId?: string
+  ) {
+    const comprobanteKey = await this.comprobanteService.assertNotDuplicate(
+      companyId,
+      data,
+      expenseId ? { type: 'expense', id: expenseId } : undefined
+    )
+    return {
+      rucEmisor: data.rucEmisor,
+      tipoComprobante: data.tipoComprobante,
+      serie: data.serie,
+      correlativo: data.correlativo,
+      fechaEmision: data.fechaEmision,
+      comprobanteKey,
+    }
+  }
+
+  // Los umbrales de aprobación están en soles; sin tipo de cambio se usa el importe original
+  private async resolveCurrency(
+    total: number | undefined,
+    value: string | undefined,
+    fechaEmision?: string
+  ): Promise<{ moneda: string; tipoCambio?: number; totalPen?: number }> {
+    const moneda = normalizeCurrency(value || Currency.PEN)
+    if (!moneda) {
+      throw new BadRequestException(`Moneda no reconocida: ${value}`)
+    }
+    const equivalent = await this.exchangeRateService.toPen(
+      total,
+      moneda,
+      fechaEmision
+    )
+    return {
+      moneda,
+      tipoCambio: equivalent?.tipoCambio,
+      totalPen: equivalent?.montoPen,
+    }
+  }
+
+  private parseData(data: string): InvoiceData {
+    try {
+      return JSON.parse(data)
+    } catch {
+      throw new BadRequestException('El campo data debe ser un JSON válido')
+    }
+  }
+
   async create(
     createExpenseDto: CreateExpenseDto,
     companyId: string
   ): Promise<Expense> {
 
     const companyIdObject = new Types.ObjectId(companyId)
-
-    return this.expenseRepository.create({
+    const data = createExpenseDto.data
+      ? this.parseData(createExpenseDto.data)
+      : undefined
+    const comprobante = data
+      ? await this.resolveComprobante(companyId, data)
+      : {}
+    const currency = await this.resolveCurrency(
+      createExpenseDto.total,
+      createExpenseDto.moneda ?? data?.moneda,
+      data?.fechaEmision
+    )
+
+    const expense = await this.expenseRepository.create({
       ...createExpenseDto,
+      ...comprobante,
+      ...currency,
       companyId: companyIdObject,
       status: 'pending',
+      approvalSteps: await this.resolveApprovalSteps(
+        companyId,
+        createExpenseDto.categoryId,
+        currency.totalPen ?? createExpenseDto.total,
+        createExpenseDto.proyectId
+      ),
     })
+    await this.evaluateBudgetAlerts(createExpenseDto.proyectId, companyId)
+    return expense
   }
 
   async findAll(companyId: string): Promise<Expense[]> {
@@ -299,31 +480,98 @@ export class ExpenseService {
       .exec()
   }
 
+  // Solo se editan gastos pendientes; si cambia el importe o su imputación se rehace la cadena de aprobación
   async update(
     id: string,
     updateExpenseDto: UpdateExpenseDto,
     companyId: string
   ): Promise<Expense> {
     const companyIdObject = new Types.ObjectId(companyId)
-    if (updateExpenseDto.categoryId) {
-      const expense = await this.findOne(id, companyId)
-      if (!expense) {
-        throw new NotFoundException(`Gasto con ID ${id} no encontrado`)
-      }
+    const expense = await this.expenseRepository
+      .findOne({ _id: id, companyId: companyIdObject })
+      .exec()
+    if (!expense) {
+      throw new NotFoundException(`Gasto con ID ${id} no encontrado`)
+    }
+    if (expense.status !== 'pending') {
+      throw new HttpException(
+        `El gasto ya ha sido ${expense.status === 'approved' ? 'aprobado' : 'rechazado'}; no puede editarse`,
+        HttpStatus.BAD_REQUEST
+      )
+    }
 
+    // Al completar los datos manualmente se recalculan los campos faltantes
+    const update: UpdateExpenseDto & Record<string, unknown> = {
+      ...updateExpenseDto,
+    }
+    let data: InvoiceData | undefined
+    if (updateExpenseDto.data) {
+      data = this.parseData(updateExpenseDto.data)
+      update.missingFields = missingEssentialFields(data)
+      Object.assign(update, await this.resolveComprobante(companyId, data, id))
     }
 
-    return this.expenseRepository
-      .findOneAndUpdate({ _id: id, companyId: companyIdObject }, updateExpenseDto, { new: true })
+    const categoryId = updateExpenseDto.categoryId ?? String(expense.categoryId)
+    const projectId = updateExpenseDto.proyectId ?? String(expense.proyectId)
+    // Otra fecha de emisión cambia el tipo de cambio y con él el equivalente en soles
+    const repriced =
+      ['total', 'moneda', 'categoryId', 'proyectId'].some(
+        field => updateExpenseDto[field] !== undefined
+      ) ||
+      (data?.fechaEmision !== undefined &&
+        data.fechaEmision !== expense.fechaEmision)
+    if (repriced) {
+      const total = updateExpenseDto.total ?? expense.total
+      const currency = await this.resolveCurrency(
+        total,
+        updateExpenseDto.moneda ?? expense.moneda,
+        data?.fechaEmision ?? expense.fechaEmision
+      )
+      // El gasto ya figura como comprometido en su propia categoría del presupuesto
+      const committed =
+        categoryId === String(expense.categoryId) &&
+        projectId === String(expense.proyectId)
+          ? (expense.totalPen ?? expense.total ?? 0)
+          : 0
+      Object.assign(update, currency, {
+        approvalSteps: await this.resolveApprovalSteps(
+          companyId,
+          categoryId,
+          currency.totalPen ?? total,
+          projectId,
+          committed
+        ),
+        currentStep: 0,
+      })
+    }
+
+    // El filtro por estado evita editar un gasto aprobado entre la lectura y la escritura
+    const updated = await this.expenseRepository
+      .findOneAndUpdate(
+        { _id: id, companyId: companyIdObject, status: 'pending' },
+        update,
+        { new: true }
+      )
       .populate('companyId')
       .populate('categoryId')
       .exec()
+    if (!updated) {
+      throw new HttpException(
+        'El gasto ya no está pendiente; no puede editarse',
+        HttpStatus.CONFLICT
+      )
+    }
+    if (repriced) {
+      await this.evaluateBudgetAlerts(projectId, companyId)
+    }
+    return updated
   }
 
   async approveInvoice(
     id: string,
     approvalDto: ApprovalDto,
-    companyId: string
+    companyId: string,
+    approverRoles: string[] = []
   ) {
     const expense = await this.findOne(id, companyId)
     if (!expense) {
@@ -370,17 +618,27 @@ export class ExpenseService {
       }
     }
 
-    const updatedExpense = await this.expenseRepository
-      .findByIdAndUpdate(
-        id,
-        {
-          status: 'approved',
-          statusDate: new Date(),
-          approvedBy: validUserId,
-        },
-        { new: true }
-      )
-      .exec()
+    const approval = await this.actOnApprovalStep(
+      expense,
+      companyId,
+      { userId: validUserId && String(validUserId), roles: approverRoles },
+      'approved',
+      approvalDto.comment
+    )
+    if (!approval.completed) {
+      return this.saveApprovalStep(id, expense, companyId, {
+        approvalSteps: approval.steps,
+        currentStep: approval.currentStep,
+      })
+    }
+
+    const updatedExpense = await this.saveApprovalStep(id, expense, companyId, {
+      status: 'approved',
+      statusDate: new Date(),
+      approvedBy: validUserId,
+      approvalSteps: approval.steps,
+      currentStep: approval.currentStep,
+    })
 
     try {
       let approverName = 'Administrador del Sistema'
@@ -547,7 +805,12 @@ export class ExpenseService {
     return updatedExpense
   }
 
-  async rejectInvoice(id: string, approvalDto: ApprovalDto, companyId: string) {
+  async rejectInvoice(
+    id: string,
+    approvalDto: ApprovalDto,
+    companyId: string,
+    approverRoles: string[] = []
+  ) {
     const expense = await this.findOne(id, companyId)
     if (!expense) {
       throw new NotFoundException(`Factura con ID ${id} no encontrada`)
@@ -600,18 +863,22 @@ export class ExpenseService {
       }
     }
 
-    const updatedExpense = await this.expenseRepository
-      .findByIdAndUpdate(
-        id,
-        {
-          status: 'rejected',
-          statusDate: new Date(),
-          rejectedBy: validUserId,
-          rejectionReason: approvalDto.reason,
-        },
-        { new: true }
-      )
-      .exec()
+    const approval = await this.actOnApprovalStep(
+      expense,
+      companyId,
+      { userId: validUserId && String(validUserId), roles: approverRoles },
+      'rejected',
+      approvalDto.reason
+    )
+
+    const updatedExpense = await this.saveApprovalStep(id, expense, companyId, {
+      status: 'rejected',
+      statusDate: new Date(),
+      rejectedBy: validUserId,
+      rejectionReason: approvalDto.reason,
+      approvalSteps: approval.steps,
+      currentStep: approval.currentStep,
+    })
 
     try {
       let rejectorName = 'Administrador del Sistema'
@@ -783,6 +1050,137 @@ export class ExpenseService {
     return updatedExpense
   }
 
+  private async resolveApprovalSteps(
+    companyId: string,
+    categoryId: string,
+    amount?: number,
+    projectId?: string,
+    // Parte del importe que ya está comprometida en el presupuesto (al editar un gasto)
+    committed = 0
+  ): Promise<ExpenseApprovalStep[]> {
+    const steps = await this.approvalWorkflowService.resolveSteps(companyId, {
+      categoryId,
+      amount,
+    })
+    const approvalSteps: ExpenseApprovalStep[] = steps.map(step => ({
+      ...step,
+      status: 'pending',
+    }))
+
+    // Un gasto que excede el saldo de su categoría se bloquea o pide una aprobación extra
+    const overrun =
+      projectId &&
+      (await this.budgetService.checkExpense(
+        projectId,
+        categoryId,
+        amount - committed,
+        companyId
+      ))
+    if (overrun && overrun.policy === BudgetOverrunPolicy.BLOCK) {
+      throw new UnprocessableEntityException(overrun.message)
+    }
+    if (overrun) {
+      approvalSteps.push({
+        name: OVERRUN_APPROVAL_STEP.name,
+        approverType: ApproverType.ROLE,
+        roles: OVERRUN_APPROVAL_STEP.roles,
+        status: 'pending',
+      })
+    }
+    return approvalSteps
+  }
+
+  // Las alertas de presupuesto no deben impedir el registro del gasto
+  private async evaluateBudgetAlerts(projectId: string, companyId: string) {
+    try {
+      await this.budgetService.evaluateAlerts(projectId, companyId)
+    } catch (error) {
+      this.logger.warn(
+        `No se pudieron evaluar las alertas de presupuesto: ${error.message}`
+      )
+    }
+  }
+
+  // Registra la acción en el paso pendiente; un rechazo en cualquier paso cierra el gasto
+  private async actOnApprovalStep(
+    expense: Expense,
+    companyId: string,
+    approver: Approver,
+    status: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<{
+    steps: ExpenseApprovalStep[]
+    currentStep: number
+    completed: boolean
+  }> {
+    // Los gastos anteriores a las cadenas de aprobación las resuelven al primer uso
+    const category = expense.categoryId as unknown as { _id?: unknown }
+    const steps = expense.approvalSteps?.length
+      ? expense.approvalSteps
+      : await this.resolveApprovalSteps(
+          companyId,
+          String(category?._id ?? expense.categoryId),
+          expense.totalPen ?? expense.total
+        )
+    const index = steps.findIndex(step => step.status === 'pending')
+    const step = steps[index]
+    if (!step) {
+      throw new BadRequestException(
+        'El gasto no tiene pasos de aprobación pendientes'
+      )
+    }
+
+    const project = expense.proyectId as unknown as { leadId?: unknown }
+    if (!canActOnStep(step, approver, project?.leadId)) {
+      throw new ForbiddenException(
+        `No tiene permisos para ${status === 'approved' ? 'aprobar' : 'rechazar'} el paso "${step.name}"`
+      )
+    }
+
+    Object.assign(step, {
+      status,
+      actedBy: approver.userId,
+      actedAt: new Date(),
+      comment,
+    })
+    return {
+      steps,
+      currentStep: status === 'approved' ? index + 1 : index,
+      completed: status === 'rejected' || index === steps.length - 1,
+    }
+  }
+
+  // Solo se escribe si el gasto sigue pendiente en el paso leído: otra aprobación o un rechazo
+  // simultáneos ya lo habrán movido y esta acción se rechaza en lugar de pisar la cadena
+  private async saveApprovalStep(
+    id: string,
+    expense: Expense,
+    companyId: string,
+    update: Record<string, unknown>
+  ): Promise<Expense> {
+    const readStep = expense.currentStep ?? 0
+    const updated = await this.expenseRepository
+      .findOneAndUpdate(
+        {
+          _id: id,
+          companyId: new Types.ObjectId(companyId),
+          status: 'pending',
+          // Los gastos anteriores a las cadenas de aprobación no guardan currentStep
+          currentStep: readStep === 0 ? { $in: [0, null] } : readStep,
+        },
+        update,
+        { new: true }
+      )
+      .exec()
+    if (!updated) {
+      throw new HttpException(
+        'El gasto cambió mientras se registraba la aprobación; vuelva a intentarlo',
+        HttpStatus.CONFLICT
+      )
+    }
+    return updated
+  }
+
   async remove(id: string, companyId: string): Promise<void> {
     const companyIdObject = new Types.ObjectId(companyId)
     await this.expenseRepository.findOneAndDelete({ _id: id, companyId: companyIdObject }).exec()
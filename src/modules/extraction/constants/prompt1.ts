@@ -7,15 +7,18 @@ export const PROMPT1 = `
     # Reglas:
       - Normalmente los campos de la factura vienen en diferentes posiciones, normalmente los datos de emisos aparecen en la cabecera de la factura sin títulos, por ejemplo: Empresa de Transporte S.A., 20503000001, Av. Lima 123. Y los datos del cliente aparecen mas abajo como RUC, Razón Social, Dirección, etc.
     # Campos del objeto:
-      - rucEmisor: normalmente es un numero, por ejemplo 20503000001 siempre tiene 11 digitos, si hay 2, analiza cual es el ruc del emisor, normalmente el ruc del emisor está en la cabecera de la factura y puede venir sin el titulo de "RUC". 
+      - rucEmisor: normalmente es un numero, por ejemplo 20503000001 siempre tiene 11 digitos y debe devolverse como texto, si hay 2, analiza cual es el ruc del emisor, normalmente el ruc del emisor está en la cabecera de la factura y puede venir sin el titulo de "RUC". 
       - tipoComprobante: normalmente es una palabra, por ejemplo Factura
       - serie: normalmente es una letra con numeros, por ejemplo E001, si hay 2, analiza cual es la serie del emisor, normalmente la serie del emisor está en la cabecera de la factura.
       - correlativo: normalmente es un numero, y va seguido de la serie, por ejemplo E001-123
       - montoTotal: normalmente es un numero, por ejemplo 1000
-      - moneda: normalmente es un simbolo de moneda, por ejemplo PEN, S/ O $, el resultado siempre debe ser en este formato: S/ ó $
+      - moneda: normalmente es un simbolo de moneda, por ejemplo S/, $ o US$, el resultado siempre debe ser el código ISO 4217: PEN ó USD
       - razonSocial: normalmente es un nombre, por ejemplo Empresa de Transporte S.A., si hay 2, analiza cual es la razon social del emisor, normalmente la razon social del emisor está en la cabecera de la factura y puede venir sin el titulo de "Razón Social".
       - direccionEmisor: normalmente es una direccion, por ejemplo Av. Lima 123, si hay 2, analiza cual es la direccion del emisor, normalmente la direccion del emisor está en la cabecera de la factura y puede venir sin el titulo de "Dirección".
       - fechaEmision: normalmente es una fecha, por ejemplo 2021-01-01 ó 01/01/2021 ó 01-01-2021, analiza el formato de la fecha, puede venir en diferentes formatos, el resultado debes devolverlo con un formato de fecha valido, así: dd-mm-yyyy ejemplo: 14-05-2025
+      - items: lista de los ítems o líneas del comprobante, cada uno con description, quantity, unitPrice (valor unitario sin IGV) y subtotal (valor de venta sin IGV). Si no hay detalle, devuelve una lista vacía.
+      - taxes: desglose de impuestos con gravada (Op. Gravada), exonerada (Op. Exonerada), inafecta (Op. Inafecta), igv e isc. Los que no aparezcan deben ser 0.
+      - detraccion: solo si el comprobante indica que la operación está sujeta a detracción, un objeto con porcentaje, monto y cuentaBancoNacion (cuenta de detracciones del Banco de la Nación). Si no aplica, omite el campo.
       # Ejemplo de salida:
     {
       "rucEmisor": "20503000001",
@@ -26,7 +29,11 @@ export const PROMPT1 = `
       "moneda": "PEN",
       "razonSocial": "Empresa de Transporte S.A.",
       "direccionEmisor": "Av. Lima 123",
-      "fechaEmision": "14-05-2025"
+      "fechaEmision": "14-05-2025",
+      "items": [
+        { "description": "Servicio de transporte", "quantity": 1, "unitPrice": 847.46, "subtotal": 847.46 }
+      ],
+      "taxes": { "gravada": 847.46, "exonerada": 0, "inafecta": 0, "igv": 152.54, "isc": 0 }
     }
 
     # Reglas:
@@ -34,7 +41,7 @@ export const PROMPT1 = `
       - Debes usar el idioma del texto de la factura.
       - Debes usar el formato de salida especificado.
       - Debes usar la precisión y el contexto del texto de la factura para extraer los datos.
-      - Si no encuentras todos los datos necesarios, responde con un objeto vacio.
+      - Si no encuentras algún dato, usa null en ese campo; no omitas el resto de datos.
       - Solo responde con el Objeto JSON, no agregues comentarios o explicaciones.
       
     `
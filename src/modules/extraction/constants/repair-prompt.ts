@@ -0,0 +1,14 @@
+// Se envía al modelo cuando su respuesta no cumple el esquema de PROMPT1
+export const buildRepairPrompt = (errors: string[]) => `
+    La respuesta anterior no cumple con el formato requerido:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+
+    # Reglas:
+      - Vuelve a analizar la imagen y corrige solo los campos indicados.
+      - rucEmisor debe tener exactamente 11 dígitos.
+      - serie debe tener 4 caracteres, por ejemplo F001, B001, E001 o 0001.
+      - fechaEmision debe tener el formato dd-mm-yyyy, por ejemplo 14-05-2025.
+      - moneda debe ser PEN ó USD.
+      - Si un dato no aparece en el comprobante, usa null en ese campo.
+      - Solo responde con el Objeto JSON completo, no agregues comentarios o explicaciones.
+    `
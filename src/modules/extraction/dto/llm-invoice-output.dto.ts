@@ -0,0 +1,71 @@
+import {
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator'
+import {
+  InvoiceDetraccionData,
+  InvoiceItemData,
+  InvoiceTaxBreakdown,
+} from '../interfaces/invoice-data.interface'
+
+// Esquema esperado de la respuesta del modelo para PROMPT1
+export class LlmInvoiceOutputDto {
+  @Matches(/^\d{11}$/, { message: 'rucEmisor debe tener 11 dígitos' })
+  @IsOptional()
+  rucEmisor?: string
+
+  @IsString()
+  @IsOptional()
+  tipoComprobante?: string
+
+  @Matches(/^([FBE][A-Z0-9]{3}|\d{4})$/, {
+    message: 'serie debe tener el formato F001, B001, E001 o 0001',
+  })
+  @IsOptional()
+  serie?: string
+
+  @Matches(/^\d{1,8}$/, { message: 'correlativo debe ser numérico' })
+  @IsOptional()
+  correlativo?: string
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  montoTotal?: number
+
+  @IsIn(['PEN', 'USD'], { message: 'moneda debe ser PEN o USD' })
+  @IsOptional()
+  moneda?: string
+
+  @IsString()
+  @IsOptional()
+  razonSocial?: string
+
+  @IsString()
+  @IsOptional()
+  direccionEmisor?: string
+
+  @Matches(/^\d{2}-\d{2}-\d{4}$/, {
+    message: 'fechaEmision debe tener el formato dd-mm-yyyy',
+  })
+  @IsOptional()
+  fechaEmision?: string
+
+  @IsArray()
+  @IsOptional()
+  items?: InvoiceItemData[]
+
+  @IsObject()
+  @IsOptional()
+  taxes?: InvoiceTaxBreakdown
+
+  @IsObject()
+  @IsOptional()
+  detraccion?: InvoiceDetraccionData
+}
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { HttpService } from '@nestjs/axios'
+import { firstValueFrom } from 'rxjs'
+import OpenAI from 'openai'
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
+import { AIMessage, HumanMessage } from '@langchain/core/messages'
+import {
+  EngineResult,
+  ExtractionEngine,
+  ExtractionEngineName,
+  ExtractionImage,
+  ExtractionInput,
+  FieldConfidence,
+} from '../interfaces/extraction-engine.interface'
+import { InvoiceData } from '../interfaces/invoice-data.interface'
+import { PROMPT1 } from '../constants/prompt1'
+import { buildRepairPrompt } from '../constants/repair-prompt'
+import { isValidRuc } from '../utils/invoice-fields.util'
+import {
+  LlmOutputError,
+  LlmOutputValidation,
+  parseLlmJson,
+  validateLlmOutput,
+} from '../utils/llm-output.util'
+
+export type LlmProvider = 'openai' | 'google'
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  openai: 'gpt-4-turbo',
+  google: 'gemini-1.5-flash',
+}
+
+const DEFAULT_MAX_RETRIES = 2
+
+interface LlmTurn {
+  role: 'assistant' | 'user'
+  content: string
+}
+
+@Injectable()
+export class LlmVisionEngine implements ExtractionEngine {
+  readonly name = ExtractionEngineName.LLM
+  private readonly logger = new Logger(LlmVisionEngine.name)
+  private readonly provider: LlmProvider
+  private readonly model: string
+  private readonly apiKey?: string
+  private readonly maxRetries: number
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService
+  ) {
+    // El proveedor se elige por configuración: openai (por defecto) o google
+    this.provider =
+      this.configService.get<string>('EXTRACTION_LLM_PROVIDER') === 'google'
+        ? 'google'
+        : 'openai'
+    this.model =
+      this.configService.get<string>('EXTRACTION_LLM_MODEL') ||
+      DEFAULT_MODELS[this.provider]
+    this.apiKey = this.configService.get<string>(
+      this.provider === 'google' ? 'GOOGLE_API_KEY' : 'OPENAI_API_KEY'
+    )
+    const maxRetries = parseInt(
+      this.configService.get<string>('EXTRACTION_LLM_MAX_RETRIES'),
+      10
+    )
+    this.maxRetries = isNaN(maxRetries) ? DEFAULT_MAX_RETRIES : maxRetries
+    if (!this.apiKey) {
+      this.logger.warn(
+        `API key for ${this.provider} is not configured, LLM extraction disabled.`
+      )
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.apiKey
+  }
+
+  // Imágenes (archivo, páginas renderizadas o URL); los PDFs se envían como texto a otros motores
+  supports(input: ExtractionInput): boolean {
+    return (
+      !!input.images?.length ||
+      (!!input.buffer && !!input.mimeType?.startsWith('image/')) ||
+      (!input.buffer && !!input.url)
+    )
+  }
+
+  async extract(input: ExtractionInput): Promise<EngineResult> {
+    this.logger.log(`Analyzing image with ${this.provider}:${this.model}...`)
+    const history: LlmTurn[] = []
+    let best: LlmOutputValidation | undefined
+    let lastErrors: string[] = []
+
+    // La respuesta se valida contra el esquema; si no cumple se pide al modelo corregirla
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const content =
+        this.provider === 'google'
+          ? await this.completeWithGoogle(input, history)
+          : await this.completeWithOpenAI(input, history)
+
+      try {
+        const validation = validateLlmOutput(parseLlmJson(content))
+        if (
+          !best ||
+          Object.keys(validation.data).length >= Object.keys(best.data).length
+        ) {
+          best = validation
+        }
+        lastErrors = Object.values(validation.errors).flat()
+      } catch (error) {
+        if (!(error instanceof LlmOutputError)) throw error
+        lastErrors = [error.message]
+      }
+
+      if (lastErrors.length === 0) break
+      this.logger.warn(
+        `Invalid LLM output (attempt ${attempt + 1}): ${lastErrors.join('; ')}`
+      )
+      history.push(
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(lastErrors) }
+      )
+    }
+
+    // Los campos que siguen siendo inválidos se descartan y quedan como faltantes
+    if (!best) {
+      throw new LlmOutputError(lastErrors.join('; '))
+    }
+    return { data: best.data, confidence: this.estimateConfidence(best.data) }
+  }
+
+  private async completeWithOpenAI(
+    input: ExtractionInput,
+    history: LlmTurn[]
+  ): Promise<string> {
+    const openai = new OpenAI({ apiKey: this.apiKey })
+    const imageUrls =
+      input.buffer || input.images?.length
+        ? this.getImages(input).map(image => this.toDataUrl(image))
+        : [input.url]
+    const response = await openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: PROMPT1 },
+            ...imageUrls.map(url => ({
+              type: 'image_url' as const,
+              image_url: { url },
+            })),
+          ],
+        },
+        ...history,
+      ],
+      max_tokens: 1000,
+    })
+    return response.choices[0]?.message?.content || ''
+  }
+
+  private async completeWithGoogle(
+    input: ExtractionInput,
+    history: LlmTurn[]
+  ): Promise<string> {
+    const model = new ChatGoogleGenerativeAI({
+      apiKey: this.apiKey,
+      model: this.model,
+      maxOutputTokens: 1000,
+    })
+    // Gemini solo acepta imágenes embebidas en base64
+    const images =
+      input.buffer || input.images?.length
+        ? this.getImages(input)
+        : [await this.download(input.url)]
+    const response = await model.invoke([
+      new HumanMessage({
+        content: [
+          { type: 'text', text: PROMPT1 },
+          ...images.map(image => ({
+            type: 'image_url',
+            image_url: this.toDataUrl(image),
+          })),
+        ],
+      }),
+      ...history.map(turn =>
+        turn.role === 'assistant'
+          ? new AIMessage(turn.content)
+          : new HumanMessage(turn.content)
+      ),
+    ])
+    return typeof response.content === 'string'
+      ? response.content
+      : response.content.map(part => ('text' in part ? part.text : '')).join('')
+  }
+
+  // El modelo no informa su certeza: se parte de una base y se ajusta con validaciones
+  private estimateConfidence(data: InvoiceData): FieldConfidence {
+    const confidence: FieldConfidence = {}
+    Object.keys(data).forEach(field => (confidence[field] = 0.75))
+    if (data.rucEmisor) {
+      confidence.rucEmisor = isValidRuc(data.rucEmisor) ? 0.9 : 0.4
+    }
+    return confidence
+  }
+
+  // Un comprobante de varias páginas se envía completo en un solo mensaje
+  private getImages(input: ExtractionInput): ExtractionImage[] {
+    return input.images?.length
+      ? input.images
+      : [{ buffer: input.buffer, mimeType: input.mimeType }]
+  }
+
+  private async download(url: string): Promise<ExtractionImage> {
+    const response = await firstValueFrom(
+      this.httpService.get(url, { responseType: 'arraybuffer' })
+    )
+    return {
+      buffer: Buffer.from(response.data),
+      mimeType: String(response.headers['content-type'] || 'image/jpeg'),
+    }
+  }
+
+  private toDataUrl(image: ExtractionImage): string {
+    return `data:${image.mimeType || 'image/jpeg'};base64,${image.buffer.toString('base64')}`
+  }
+}
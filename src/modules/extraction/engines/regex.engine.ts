@@ -0,0 +1,164 @@
+import { Injectable, Logger } from '@nestjs/common'
+import * as pdfParse from 'pdf-parse'
+import {
+  EngineResult,
+  ExtractionEngine,
+  ExtractionEngineName,
+  ExtractionInput,
+  FieldConfidence,
+} from '../interfaces/extraction-engine.interface'
+import { InvoiceData } from '../interfaces/invoice-data.interface'
+import {
+  isValidRuc,
+  normalizeFecha,
+  tipoComprobanteFromSerie,
+} from '../utils/invoice-fields.util'
+import { normalizeCurrency } from '../../exchange-rate/utils/currency.util'
+import { Currency } from '../../exchange-rate/enums/currency.enum'
+
+@Injectable()
+export class RegexEngine implements ExtractionEngine {
+  readonly name = ExtractionEngineName.REGEX
+  private readonly logger = new Logger(RegexEngine.name)
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  // Texto ya extraído o PDFs con capa de texto
+  supports(input: ExtractionInput): boolean {
+    return !!input.text || input.mimeType === 'application/pdf'
+  }
+
+  async extract(input: ExtractionInput): Promise<EngineResult> {
+    let text = input.text
+    if (!text && input.buffer) {
+      this.logger.debug('Extrayendo texto del PDF...')
+      const pdfData = await pdfParse(input.buffer)
+      text = pdfData.text
+      this.logger.debug(`Texto extraído del PDF: ${text?.length} caracteres`)
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('No se pudo extraer texto del documento')
+    }
+
+    return this.extractFromText(text)
+  }
+
+  extractFromText(text: string): EngineResult {
+    this.logger.log('Attempting data extraction using RegEx...')
+    const data: InvoiceData = {}
+    const confidence: FieldConfidence = {}
+
+    // RUC Emisor (Busca "RUC:" seguido de 11 dígitos)
+    let match = text.match(/R\.?U\.?C\.?\s*:?\s*(\d{11})/i)
+    if (match) {
+      data.rucEmisor = match[1]
+      confidence.rucEmisor = 0.8
+    }
+    // Si no, intenta buscar solo 11 dígitos (menos preciso)
+    if (!data.rucEmisor) {
+      match = text.match(/(\b\d{11}\b)/)
+      if (match) {
+        data.rucEmisor = match[1]
+        confidence.rucEmisor = 0.4
+      }
+    }
+    if (data.rucEmisor && isValidRuc(data.rucEmisor)) {
+      confidence.rucEmisor += 0.15
+    }
+
+    // Tipo de Comprobante, Serie y Correlativo
+    // Formato: E001-19220608417061
+    match = text.match(/\b([A-Z]\d{3})\s*[-–—]\s*(\d{1,20})\b/i)
+    if (match) {
+      data.serie = match[1].toUpperCase()
+      data.correlativo = match[2]
+      data.tipoComprobante = tipoComprobanteFromSerie(data.serie)
+      confidence.serie = 0.8
+      confidence.correlativo = 0.8
+      if (data.tipoComprobante) confidence.tipoComprobante = 0.7
+    }
+
+    // Fecha Emisión (Busca DD/MM/YYYY o DD-MM-YYYY)
+    match = text.match(
+      /Fecha\s*(?:de\s*)?Emisi[oó]n\s*:?\s*(\d{1,2}[\s/-]\d{1,2}[\s/-]\d{4})/i
+    )
+    let dateConfidence = 0.85
+    if (!match) {
+      // Intenta buscar la fecha sin el texto "Fecha Emisión" cerca
+      match = text.match(/(\d{1,2}[\s/-]\d{1,2}[\s/-]\d{4})/)
+      dateConfidence = 0.5
+    }
+    if (match) {
+      data.fechaEmision = normalizeFecha(match[1])
+      if (data.fechaEmision) confidence.fechaEmision = dateConfidence
+    }
+
+    // Monto Total (Busca variantes de "TOTAL" seguido de una moneda y un número con decimales)
+    match = text.match(
+      /(?:IMPORTE\s*TOTAL|SUMA\s*TOTAL|MONTO\s*TOTAL|VALOR\s*TOTAL)\s*:(?:(S\/|PEN|USD|\$)\s*)?\s*([\d,]+\.\d{2})\b/i
+    )
+    if (match) {
+      // Limpia comas de miles y convierte a número
+      data.montoTotal = parseFloat(match[2].replace(/,/g, ''))
+      // Si no se encuentra moneda, asumimos PEN
+      data.moneda = normalizeCurrency(match[1]) ?? Currency.PEN
+      confidence.montoTotal = 0.85
+      confidence.moneda = match[1] ? 0.85 : 0.5
+    }
+
+    // Desglose de impuestos (Op. Gravada, Exonerada, Inafecta, IGV, ISC)
+    const taxes = {
+      gravada: this.extractAmount(text, /OP\.?\s*GRAVADAS?/),
+      exonerada: this.extractAmount(text, /OP\.?\s*EXONERADAS?/),
+      inafecta: this.extractAmount(text, /OP\.?\s*INAFECTAS?/),
+      igv: this.extractAmount(text, /\bI\.?G\.?V\.?(?:\s*\(?\s*18\s*%\s*\)?)?/),
+      isc: this.extractAmount(text, /\bI\.?S\.?C\.?/),
+    }
+    if (Object.values(taxes).some(value => value !== undefined)) {
+      data.taxes = {
+        gravada: taxes.gravada || 0,
+        exonerada: taxes.exonerada || 0,
+        inafecta: taxes.inafecta || 0,
+        exportacion: 0,
+        gratuita: 0,
+        igv: taxes.igv || 0,
+        isc: taxes.isc || 0,
+        icbper: 0,
+        otrosTributos: 0,
+      }
+      confidence.taxes = 0.6
+    }
+
+    // Detracción (porcentaje, monto y cuenta del Banco de la Nación)
+    match = text.match(
+      /DETRACCI[OÓ]N\s*(?:\(?\s*(\d{1,2}(?:\.\d+)?)\s*%\s*\)?)?[^\d\n]{0,30}([\d,]+\.\d{2})/i
+    )
+    if (match) {
+      data.detraccion = {
+        porcentaje: match[1] ? parseFloat(match[1]) : undefined,
+        monto: parseFloat(match[2].replace(/,/g, '')),
+      }
+      const account = text.match(
+        /(?:CTA\.?|CUENTA)\s*(?:DE\s*)?(?:DETRACCI[OÓ]N(?:ES)?|B\.?N\.?|BANCO\s*DE\s*LA\s*NACI[OÓ]N)\s*(?:N[°ºo]\.?)?\s*:?\s*([\d-]{8,})/i
+      )
+      if (account) data.detraccion.cuentaBancoNacion = account[1]
+      confidence.detraccion = 0.6
+    }
+
+    this.logger.debug(`Extraction Results: ${JSON.stringify(data)}`)
+    return { data, confidence }
+  }
+
+  // Busca un importe (con o sin símbolo de moneda) a continuación de la etiqueta
+  private extractAmount(text: string, label: RegExp): number | undefined {
+    const pattern = new RegExp(
+      `${label.source}\\s*:?\\s*(?:S\\/|PEN|USD|US\\$|\\$)?\\s*([\\d,]+\\.\\d{2})\\b`,
+      'i'
+    )
+    const match = text.match(pattern)
+    return match ? parseFloat(match[1].replace(/,/g, '')) : undefined
+  }
+}
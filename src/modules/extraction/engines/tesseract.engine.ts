@@ -0,0 +1,78 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { HttpService } from '@nestjs/axios'
+import { firstValueFrom } from 'rxjs'
+import * as Tesseract from 'tesseract.js'
+import {
+  EngineResult,
+  ExtractionEngine,
+  ExtractionEngineName,
+  ExtractionInput,
+  FieldConfidence,
+} from '../interfaces/extraction-engine.interface'
+import { RegexEngine } from './regex.engine'
+
+@Injectable()
+export class TesseractEngine implements ExtractionEngine {
+  readonly name = ExtractionEngineName.TESSERACT
+  private readonly logger = new Logger(TesseractEngine.name)
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly regexEngine: RegexEngine
+  ) {}
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  supports(input: ExtractionInput): boolean {
+    return (
+      !!input.images?.length ||
+      (!!input.buffer && !!input.mimeType?.startsWith('image/')) ||
+      (!input.buffer && !!input.url)
+    )
+  }
+
+  async extract(input: ExtractionInput): Promise<EngineResult> {
+    const images = input.images?.length
+      ? input.images.map(image => image.buffer)
+      : [input.buffer || (await this.download(input.url))]
+
+    const worker = await Tesseract.createWorker('spa')
+    try {
+      // Las páginas se reconocen por separado y el texto se une en orden
+      const pages = []
+      for (const image of images) {
+        pages.push((await worker.recognize(image)).data)
+      }
+      const text = pages.map(page => page.text).join('\n')
+      if (!text || text.trim().length === 0) {
+        throw new Error('No se pudo extraer texto de la imagen')
+      }
+      const pageConfidence =
+        pages.reduce((sum, page) => sum + (page.confidence || 0), 0) /
+        pages.length
+      this.logger.debug(
+        `Texto OCR: ${text.length} caracteres, confianza ${pageConfidence}`
+      )
+
+      // La confianza de cada campo se pondera con la confianza global del OCR
+      const { data, confidence } = this.regexEngine.extractFromText(text)
+      const ocrConfidence = pageConfidence / 100
+      const weighted: FieldConfidence = {}
+      Object.keys(confidence).forEach(
+        field => (weighted[field] = confidence[field] * ocrConfidence)
+      )
+      return { data, confidence: weighted }
+    } finally {
+      await worker.terminate()
+    }
+  }
+
+  private async download(url: string): Promise<Buffer> {
+    const response = await firstValueFrom(
+      this.httpService.get(url, { responseType: 'arraybuffer' })
+    )
+    return Buffer.from(response.data)
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common'
+import {
+  EngineResult,
+  ExtractionEngine,
+  ExtractionEngineName,
+  ExtractionInput,
+  FieldConfidence,
+} from '../interfaces/extraction-engine.interface'
+import { parseUblDocument } from '../parsers/ubl-invoice.parser'
+
+const XML_MIME_TYPES = ['application/xml', 'text/xml']
+
+@Injectable()
+export class XmlEngine implements ExtractionEngine {
+  readonly name = ExtractionEngineName.XML
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  supports(input: ExtractionInput): boolean {
+    return !!input.buffer && XML_MIME_TYPES.includes(input.mimeType)
+  }
+
+  // El XML UBL firmado es la fuente exacta: todos los campos tienen confianza 1
+  async extract(input: ExtractionInput): Promise<EngineResult> {
+    const data = parseUblDocument(input.buffer)
+    const confidence: FieldConfidence = {}
+    Object.keys(data).forEach(field => (confidence[field] = 1))
+    return { data, confidence }
+  }
+}
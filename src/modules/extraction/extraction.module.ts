@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common'
+import { HttpModule } from '@nestjs/axios'
+import { ExtractionService } from './extraction.service'
+import { XmlEngine } from './engines/xml.engine'
+import { RegexEngine } from './engines/regex.engine'
+import { TesseractEngine } from './engines/tesseract.engine'
+import { LlmVisionEngine } from './engines/llm-vision.engine'
+import { PageRendererService } from './page-renderer.service'
+
+@Module({
+  imports: [HttpModule],
+  providers: [
+    ExtractionService,
+    XmlEngine,
+    RegexEngine,
+    TesseractEngine,
+    LlmVisionEngine,
+    PageRendererService,
+  ],
+  exports: [ExtractionService, PageRendererService],
+})
+export class ExtractionModule {}
@@ -0,0 +1,106 @@
+import { ConfigService } from '@nestjs/config'
+import { ExtractionService } from './extraction.service'
+import {
+  EngineResult,
+  ExtractionEngineName,
+} from './interfaces/extraction-engine.interface'
+
+const fakeEngine = (
+  name: ExtractionEngineName,
+  result: EngineResult | Error,
+  available = true
+) => ({
+  name,
+  isAvailable: () => available,
+  supports: () => true,
+  extract: jest.fn(async () => {
+    if (result instanceof Error) throw result
+    return result
+  }),
+})
+
+const COMPLETE: EngineResult = {
+  data: {
+    rucEmisor: '20100066603',
+    tipoComprobante: 'Factura',
+    serie: 'F001',
+    correlativo: '123',
+    fechaEmision: '14-05-2025',
+    montoTotal: 118,
+  },
+  confidence: {
+    rucEmisor: 0.9,
+    tipoComprobante: 0.75,
+    serie: 0.75,
+    correlativo: 0.75,
+    fechaEmision: 0.75,
+    montoTotal: 0.75,
+  },
+}
+
+describe('ExtractionService', () => {
+  const build = (
+    env: Record<string, string>,
+    engines: ReturnType<typeof fakeEngine>[]
+  ) => {
+    const config = { get: (key: string) => env[key] } as ConfigService
+    const [xml, regex, tesseract, llm] = [
+      ExtractionEngineName.XML,
+      ExtractionEngineName.REGEX,
+      ExtractionEngineName.TESSERACT,
+      ExtractionEngineName.LLM,
+    ].map(
+      name =>
+        engines.find(engine => engine.name === name) ||
+        fakeEngine(name, new Error('not used'), false)
+    )
+    return new ExtractionService(
+      config,
+      xml as any,
+      regex as any,
+      tesseract as any,
+      llm as any
+    )
+  }
+
+  it('falls back to the next engine and keeps the most confident value per field', async () => {
+    const regex = fakeEngine(ExtractionEngineName.REGEX, {
+      data: { rucEmisor: '20100066603', montoTotal: 100 },
+      confidence: { rucEmisor: 0.95, montoTotal: 0.3 },
+    })
+    const llm = fakeEngine(ExtractionEngineName.LLM, COMPLETE)
+    const service = build({ EXTRACTION_CHAIN_INVOICE: 'regex,llm' }, [
+      regex,
+      llm,
+    ])
+
+    const result = await service.extract({ text: '...' }, 'invoice')
+
+    expect(result.engines).toEqual(['regex', 'llm'])
+    expect(result.complete).toBe(true)
+    expect(result.data.montoTotal).toBe(118)
+    expect(result.confidence.rucEmisor).toBe(0.95)
+    expect(result.data.tipoComprobante).toBe('01')
+    expect(result.data.fechaEmision).toBe('14/05/2025')
+  })
+
+  it('stops the chain once essential fields are confident enough', async () => {
+    const llm = fakeEngine(ExtractionEngineName.LLM, COMPLETE)
+    const tesseract = fakeEngine(ExtractionEngineName.TESSERACT, COMPLETE)
+    const service = build({}, [llm, tesseract])
+
+    const result = await service.extract({ url: 'http://x' }, 'expense')
+
+    expect(result.engines).toEqual(['llm'])
+    expect(tesseract.extract).not.toHaveBeenCalled()
+  })
+
+  it('skips failing engines and rethrows when none succeeded', async () => {
+    const error = new Error('boom')
+    const service = build({ EXTRACTION_CHAIN_INVOICE: 'xml,unknown' }, [
+      fakeEngine(ExtractionEngineName.XML, error),
+    ])
+
+    await expect(service.extract({ text: '' }, 'invoice')).rejects.toBe(error)
+  })
+})
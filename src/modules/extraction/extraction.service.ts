@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  EngineResult,
+  ExtractionEngine,
+  ExtractionEngineName,
+  ExtractionInput,
+  ExtractionProfile,
+  ExtractionResult,
+} from './interfaces/extraction-engine.interface'
+import { XmlEngine } from './engines/xml.engine'
+import { RegexEngine } from './engines/regex.engine'
+import { TesseractEngine } from './engines/tesseract.engine'
+import { LlmVisionEngine } from './engines/llm-vision.engine'
+import {
+  ESSENTIAL_FIELDS,
+  missingEssentialFields,
+  normalizeFecha,
+  normalizeTipoComprobante,
+} from './utils/invoice-fields.util'
+
+// Orden de los motores por defecto; se puede cambiar con EXTRACTION_CHAIN_INVOICE / EXTRACTION_CHAIN_EXPENSE
+const DEFAULT_CHAINS: Record<ExtractionProfile, string> = {
+  invoice: 'xml,regex,tesseract,llm',
+  expense: 'llm,tesseract',
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.6
+
+@Injectable()
+export class ExtractionService {
+  private readonly logger = new Logger(ExtractionService.name)
+  private readonly engines: Map<ExtractionEngineName, ExtractionEngine>
+
+  constructor(
+    private readonly configService: ConfigService,
+    xmlEngine: XmlEngine,
+    regexEngine: RegexEngine,
+    tesseractEngine: TesseractEngine,
+    llmVisionEngine: LlmVisionEngine
+  ) {
+    this.engines = new Map<ExtractionEngineName, ExtractionEngine>(
+      [xmlEngine, regexEngine, tesseractEngine, llmVisionEngine].map(engine => [
+        engine.name,
+        engine,
+      ])
+    )
+  }
+
+  // Ejecuta la cadena de motores hasta completar los campos esenciales con suficiente confianza
+  async extract(
+    input: ExtractionInput,
+    profile: ExtractionProfile
+  ): Promise<ExtractionResult> {
+    const chain = this.getChain(profile)
+    const minConfidence = this.getMinConfidence()
+    const result: ExtractionResult = {
+      data: {},
+      confidence: {},
+      engines: [],
+      complete: false,
+    }
+    let lastError: Error | undefined
+
+    for (const name of chain) {
+      const engine = this.engines.get(name)
+      if (!engine.supports(input) || !engine.isAvailable()) continue
+
+      try {
+        this.logger.log(`Running ${name} extraction engine...`)
+        const engineResult = this.normalize(await engine.extract(input))
+        this.merge(result, engineResult)
+        result.engines.push(name)
+      } catch (error) {
+        lastError = error
+        this.logger.warn(`Engine ${name} failed: ${error.message}`)
+        continue
+      }
+
+      result.complete = this.isComplete(result, minConfidence)
+      if (result.complete) break
+    }
+
+    if (result.engines.length === 0 && lastError) {
+      throw lastError
+    }
+    this.logger.debug(
+      `Extraction finished with engines [${result.engines.join(', ')}], complete: ${result.complete}`
+    )
+    return result
+  }
+
+  getChain(profile: ExtractionProfile): ExtractionEngineName[] {
+    const configured =
+      this.configService.get<string>(
+        `EXTRACTION_CHAIN_${profile.toUpperCase()}`
+      ) || DEFAULT_CHAINS[profile]
+    const valid = Object.values(ExtractionEngineName) as string[]
+    return configured
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(name => {
+        if (valid.includes(name)) return true
+        this.logger.warn(`Unknown extraction engine "${name}" ignored`)
+        return false
+      }) as ExtractionEngineName[]
+  }
+
+  private getMinConfidence(): number {
+    const value = parseFloat(
+      this.configService.get<string>('EXTRACTION_MIN_CONFIDENCE')
+    )
+    return isNaN(value) ? DEFAULT_MIN_CONFIDENCE : value
+  }
+
+  // Cada campo conserva el valor del motor que lo reportó con mayor confianza
+  private merge(target: EngineResult, source: EngineResult): void {
+    Object.keys(source.data).forEach(field => {
+      const value = source.data[field]
+      if (value === undefined || value === null || value === '') return
+      const confidence = source.confidence[field] ?? 0
+      if (
+        target.data[field] === undefined ||
+        confidence > (target.confidence[field] ?? 0)
+      ) {
+        target.data[field] = value
+        target.confidence[field] = confidence
+      }
+    })
+  }
+
+  private normalize(result: EngineResult): EngineResult {
+    const { data, confidence } = result
+    if (data.tipoComprobante) {
+      data.tipoComprobante = normalizeTipoComprobante(data.tipoComprobante)
+    }
+    if (data.fechaEmision) {
+      const fecha = normalizeFecha(data.fechaEmision)
+      if (fecha) {
+        data.fechaEmision = fecha
+      } else {
+        delete data.fechaEmision
+        delete confidence.fechaEmision
+      }
+    }
+    if (data.rucEmisor) data.rucEmisor = String(data.rucEmisor).trim()
+    if (typeof data.montoTotal === 'string') {
+      data.montoTotal = parseFloat(String(data.montoTotal).replace(/,/g, ''))
+    }
+    return result
+  }
+
+  private isComplete(result: EngineResult, minConfidence: number): boolean {
+    return (
+      missingEssentialFields(result.data).length === 0 &&
+      ESSENTIAL_FIELDS.every(
+        field => (result.confidence[field] ?? 0) >= minConfidence
+      )
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { InvoiceData } from './invoice-data.interface'
+
+export enum ExtractionEngineName {
+  XML = 'xml',
+  REGEX = 'regex',
+  TESSERACT = 'tesseract',
+  LLM = 'llm',
+}
+
+export type ExtractionProfile = 'invoice' | 'expense'
+
+export interface ExtractionImage {
+  buffer: Buffer
+  mimeType: string
+}
+
+// Documento de entrada: un archivo subido, una URL pública, texto ya extraído
+// o las páginas de un comprobante ya convertidas a imagen
+export interface ExtractionInput {
+  buffer?: Buffer
+  mimeType?: string
+  url?: string
+  text?: string
+  images?: ExtractionImage[]
+}
+
+// Confianza por campo entre 0 y 1
+export type FieldConfidence = Partial<Record<keyof InvoiceData, number>>
+
+export interface EngineResult {
+  data: InvoiceData
+  confidence: FieldConfidence
+}
+
+export interface ExtractionResult extends EngineResult {
+  engines: ExtractionEngineName[]
+  complete: boolean
+}
+
+export interface ExtractionEngine {
+  readonly name: ExtractionEngineName
+  isAvailable(): boolean
+  supports(input: ExtractionInput): boolean
+  extract(input: ExtractionInput): Promise<EngineResult>
+}
@@ -0,0 +1,54 @@
+export interface InvoiceItemData {
+  description: string
+  quantity: number
+  unitCode?: string
+  unitPrice: number // Valor unitario sin impuestos
+  subtotal: number // Valor de venta de la línea sin impuestos
+  igv?: number
+  code?: string
+}
+
+export interface InvoiceTaxBreakdown {
+  gravada: number
+  exonerada: number
+  inafecta: number
+  exportacion: number
+  gratuita: number
+  igv: number
+  isc: number
+  icbper: number
+  otrosTributos: number
+}
+
+export interface InvoiceDetraccionData {
+  codigoBienServicio?: string // Catálogo 54 de SUNAT
+  porcentaje?: number
+  monto?: number
+  cuentaBancoNacion?: string
+}
+
+export interface InvoiceDocumentReference {
+  tipoComprobante?: string
+  serie?: string
+  correlativo?: string
+}
+
+export interface InvoiceData {
+  rucEmisor?: string
+  razonSocial?: string
+  direccionEmisor?: string
+  rucReceptor?: string
+  tipoComprobante?: string // Ej: '01' para Factura, '03' para Boleta
+  tipoOperacion?: string // Catálogo 51, ej: '1001' operación sujeta a detracción
+  serie?: string
+  correlativo?: string
+  fechaEmision?: string // Formato DD/MM/YYYY (requerido por SUNAT)
+  fechaVencimiento?: string
+  montoTotal?: number
+  moneda?: string
+  items?: InvoiceItemData[]
+  taxes?: InvoiceTaxBreakdown
+  detraccion?: InvoiceDetraccionData
+  // Solo para notas de crédito y débito
+  documentoReferencia?: InvoiceDocumentReference
+}
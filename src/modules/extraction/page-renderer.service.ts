@@ -0,0 +1,79 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as heicConvert from 'heic-convert'
+import * as pdf2image from 'pdf2image'
+import { ExtractionImage } from './interfaces/extraction-engine.interface'
+
+const DEFAULT_MAX_PAGES = 5
+const DEFAULT_DENSITY = 150
+
+// Convierte los comprobantes subidos a imágenes que los motores de visión puedan leer
+@Injectable()
+export class PageRendererService {
+  private readonly logger = new Logger(PageRendererService.name)
+  private readonly maxPages: number
+  private readonly density: number
+
+  constructor(private readonly configService: ConfigService) {
+    const maxPages = parseInt(
+      this.configService.get<string>('EXTRACTION_PDF_MAX_PAGES'),
+      10
+    )
+    this.maxPages = isNaN(maxPages) ? DEFAULT_MAX_PAGES : maxPages
+    const density = parseInt(
+      this.configService.get<string>('EXTRACTION_PDF_DENSITY'),
+      10
+    )
+    this.density = isNaN(density) ? DEFAULT_DENSITY : density
+  }
+
+  async toImages(buffer: Buffer, mimeType: string): Promise<ExtractionImage[]> {
+    switch (mimeType) {
+      case 'image/jpeg':
+      case 'image/png':
+        return [{ buffer, mimeType }]
+      // HEIC (iPhone) no lo aceptan los modelos de visión ni Tesseract
+      case 'image/heic':
+        return [
+          {
+            buffer: Buffer.from(
+              await heicConvert({ buffer, format: 'JPEG', quality: 0.9 })
+            ),
+            mimeType: 'image/jpeg',
+          },
+        ]
+      case 'application/pdf':
+        return this.renderPdf(buffer)
+      default:
+        throw new BadRequestException('Tipo de archivo no soportado')
+    }
+  }
+
+  // Requiere ImageMagick y pdfinfo (poppler-utils) instalados en el servidor
+  private async renderPdf(buffer: Buffer): Promise<ExtractionImage[]> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'receipt-'))
+    try {
+      const pdfPath = path.join(dir, 'receipt.pdf')
+      await fs.writeFile(pdfPath, buffer)
+      const pages: { path: string }[] = await pdf2image.convertPDF(pdfPath, {
+        density: this.density,
+        outputType: 'jpg',
+        outputFormat: path.join(dir, 'page_%d'),
+        pages: `-${this.maxPages}`,
+        singleProcess: true,
+      })
+      this.logger.debug(`Rendered ${pages.length} PDF page(s)`)
+      return Promise.all(
+        pages.map(async page => ({
+          buffer: await fs.readFile(page.path),
+          mimeType: 'image/jpeg',
+        }))
+      )
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  }
+}
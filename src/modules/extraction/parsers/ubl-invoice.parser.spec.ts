@@ -0,0 +1,189 @@
+import { parseUblDocument, UblParseError } from './ubl-invoice.parser'
+
+const NAMESPACES = `xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2" xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"`
+
+const PARTIES = `
+  <cac:AccountingSupplierParty>
+    <cac:Party>
+      <cac:PartyIdentification><cbc:ID schemeID="6">20100066603</cbc:ID></cac:PartyIdentification>
+      <cac:PartyLegalEntity><cbc:RegistrationName><![CDATA[EMPRESA DE TRANSPORTE S.A.]]></cbc:RegistrationName></cac:PartyLegalEntity>
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>
+    <cac:Party>
+      <cac:PartyIdentification><cbc:ID schemeID="6">20601234567</cbc:ID></cac:PartyIdentification>
+    </cac:Party>
+  </cac:AccountingCustomerParty>`
+
+const INVOICE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" ${NAMESPACES}>
+  <ext:UBLExtensions><ext:UBLExtension><ext:ExtensionContent/></ext:UBLExtension></ext:UBLExtensions>
+  <cbc:UBLVersionID>2.1</cbc:UBLVersionID>
+  <cbc:ID>F001-00000123</cbc:ID>
+  <cbc:IssueDate>2025-05-14</cbc:IssueDate>
+  <cbc:DueDate>2025-06-13</cbc:DueDate>
+  <cbc:InvoiceTypeCode listID="0101">01</cbc:InvoiceTypeCode>
+  <cbc:DocumentCurrencyCode>PEN</cbc:DocumentCurrencyCode>
+  ${PARTIES}
+  <cac:PaymentMeans>
+    <cbc:ID>Detraccion</cbc:ID>
+    <cbc:PaymentMeansCode>001</cbc:PaymentMeansCode>
+    <cac:PayeeFinancialAccount><cbc:ID>00-051-123456</cbc:ID></cac:PayeeFinancialAccount>
+  </cac:PaymentMeans>
+  <cac:PaymentTerms>
+    <cbc:ID>Detraccion</cbc:ID>
+    <cbc:PaymentMeansID>027</cbc:PaymentMeansID>
+    <cbc:PaymentPercent>4</cbc:PaymentPercent>
+    <cbc:Amount currencyID="PEN">6.72</cbc:Amount>
+  </cac:PaymentTerms>
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="PEN">18.00</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="PEN">100.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="PEN">18.00</cbc:TaxAmount>
+      <cac:TaxCategory><cac:TaxScheme><cbc:ID>1000</cbc:ID><cbc:Name>IGV</cbc:Name></cac:TaxScheme></cac:TaxCategory>
+    </cac:TaxSubtotal>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="PEN">50.00</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="PEN">0.00</cbc:TaxAmount>
+      <cac:TaxCategory><cac:TaxScheme><cbc:ID>9997</cbc:ID><cbc:Name>EXO</cbc:Name></cac:TaxScheme></cac:TaxCategory>
+    </cac:TaxSubtotal>
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="PEN">150.00</cbc:LineExtensionAmount>
+    <cbc:PayableAmount currencyID="PEN">168.00</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="ZZ">2</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="PEN">100.00</cbc:LineExtensionAmount>
+    <cac:TaxTotal><cbc:TaxAmount currencyID="PEN">18.00</cbc:TaxAmount></cac:TaxTotal>
+    <cac:Item>
+      <cbc:Description>Servicio de transporte</cbc:Description>
+      <cac:SellersItemIdentification><cbc:ID>SRV-01</cbc:ID></cac:SellersItemIdentification>
+    </cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="PEN">50.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+  <cac:InvoiceLine>
+    <cbc:ID>2</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="NIU">1</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="PEN">50.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Description>Libros</cbc:Description></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="PEN">50.00</cbc:PriceAmount></cac:Price>
+  </cac:InvoiceLine>
+</Invoice>`
+
+const CREDIT_NOTE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2" ${NAMESPACES}>
+  <cbc:ID>FC01-45</cbc:ID>
+  <cbc:IssueDate>2025-05-20</cbc:IssueDate>
+  <cbc:DocumentCurrencyCode>USD</cbc:DocumentCurrencyCode>
+  <cac:BillingReference>
+    <cac:InvoiceDocumentReference>
+      <cbc:ID>F001-00000123</cbc:ID>
+      <cbc:DocumentTypeCode>01</cbc:DocumentTypeCode>
+    </cac:InvoiceDocumentReference>
+  </cac:BillingReference>
+  ${PARTIES}
+  <cac:LegalMonetaryTotal><cbc:PayableAmount currencyID="USD">11.80</cbc:PayableAmount></cac:LegalMonetaryTotal>
+  <cac:CreditNoteLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:CreditedQuantity unitCode="NIU">1</cbc:CreditedQuantity>
+    <cbc:LineExtensionAmount currencyID="USD">10.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Description>Descuento</cbc:Description></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="USD">10.00</cbc:PriceAmount></cac:Price>
+  </cac:CreditNoteLine>
+</CreditNote>`
+
+const DEBIT_NOTE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<DebitNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:DebitNote-2" ${NAMESPACES}>
+  <cbc:ID>FD01-7</cbc:ID>
+  <cbc:IssueDate>2025-05-21</cbc:IssueDate>
+  <cbc:DocumentCurrencyCode>PEN</cbc:DocumentCurrencyCode>
+  ${PARTIES}
+  <cac:RequestedMonetaryTotal><cbc:PayableAmount currencyID="PEN">59.00</cbc:PayableAmount></cac:RequestedMonetaryTotal>
+  <cac:DebitNoteLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:DebitedQuantity unitCode="NIU">1</cbc:DebitedQuantity>
+    <cbc:LineExtensionAmount currencyID="PEN">50.00</cbc:LineExtensionAmount>
+    <cac:Item><cbc:Description>Intereses por mora</cbc:Description></cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="PEN">50.00</cbc:PriceAmount></cac:Price>
+  </cac:DebitNoteLine>
+</DebitNote>`
+
+describe('parseUblDocument', () => {
+  it('should parse a UBL 2.1 invoice', () => {
+    const data = parseUblDocument(Buffer.from(INVOICE_XML))
+
+    expect(data).toMatchObject({
+      rucEmisor: '20100066603',
+      razonSocial: 'EMPRESA DE TRANSPORTE S.A.',
+      rucReceptor: '20601234567',
+      tipoComprobante: '01',
+      tipoOperacion: '0101',
+      serie: 'F001',
+      correlativo: '00000123',
+      fechaEmision: '14/05/2025',
+      fechaVencimiento: '13/06/2025',
+      montoTotal: 168,
+      moneda: 'PEN',
+    })
+    expect(data.taxes).toMatchObject({ gravada: 100, exonerada: 50, igv: 18 })
+    expect(data.detraccion).toEqual({
+      codigoBienServicio: '027',
+      porcentaje: 4,
+      monto: 6.72,
+      cuentaBancoNacion: '00-051-123456',
+    })
+    expect(data.items).toEqual([
+      {
+        description: 'Servicio de transporte',
+        code: 'SRV-01',
+        quantity: 2,
+        unitCode: 'ZZ',
+        unitPrice: 50,
+        subtotal: 100,
+        igv: 18,
+      },
+      {
+        description: 'Libros',
+        quantity: 1,
+        unitCode: 'NIU',
+        unitPrice: 50,
+        subtotal: 50,
+      },
+    ])
+  })
+
+  it('should parse a credit note with its referenced invoice', () => {
+    const data = parseUblDocument(CREDIT_NOTE_XML)
+
+    expect(data.tipoComprobante).toBe('07')
+    expect(data.serie).toBe('FC01')
+    expect(data.correlativo).toBe('45')
+    expect(data.moneda).toBe('USD')
+    expect(data.montoTotal).toBe(11.8)
+    expect(data.items).toHaveLength(1)
+    expect(data.documentoReferencia).toEqual({
+      tipoComprobante: '01',
+      serie: 'F001',
+      correlativo: '00000123',
+    })
+  })
+
+  it('should parse a debit note using its requested monetary total', () => {
+    const data = parseUblDocument(DEBIT_NOTE_XML)
+
+    expect(data.tipoComprobante).toBe('08')
+    expect(data.montoTotal).toBe(59)
+    expect(data.items[0].description).toBe('Intereses por mora')
+  })
+
+  it('should reject malformed or non UBL documents', () => {
+    expect(() => parseUblDocument('<Invoice><cbc:ID>')).toThrow(UblParseError)
+    expect(() => parseUblDocument('<Order><ID>1</ID></Order>')).toThrow(
+      UblParseError
+    )
+    expect(() => parseUblDocument('')).toThrow(UblParseError)
+  })
+})
@@ -0,0 +1,278 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser'
+import {
+  InvoiceData,
+  InvoiceDetraccionData,
+  InvoiceItemData,
+  InvoiceTaxBreakdown,
+} from '../interfaces/invoice-data.interface'
+
+export class UblParseError extends Error {}
+
+// Tipos de documento UBL 2.1 soportados y su código de comprobante SUNAT
+const DOCUMENT_TYPES = {
+  Invoice: {
+    tipoComprobante: undefined, // Se lee de cbc:InvoiceTypeCode (01 o 03)
+    line: 'InvoiceLine',
+    quantity: 'InvoicedQuantity',
+    monetaryTotal: 'LegalMonetaryTotal',
+  },
+  CreditNote: {
+    tipoComprobante: '07',
+    line: 'CreditNoteLine',
+    quantity: 'CreditedQuantity',
+    monetaryTotal: 'LegalMonetaryTotal',
+  },
+  DebitNote: {
+    tipoComprobante: '08',
+    line: 'DebitNoteLine',
+    quantity: 'DebitedQuantity',
+    monetaryTotal: 'RequestedMonetaryTotal',
+  },
+} as const
+
+type UblDocumentType = keyof typeof DOCUMENT_TYPES
+
+// Catálogo 05 de SUNAT: códigos de tributos
+const TAX_SCHEME = {
+  IGV: '1000',
+  IVAP: '1016',
+  ISC: '2000',
+  ICBPER: '7152',
+  EXPORTACION: '9995',
+  GRATUITO: '9996',
+  EXONERADO: '9997',
+  INAFECTO: '9998',
+  OTROS: '9999',
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  // Conservar los valores como texto (RUC, series y correlativos con ceros)
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+})
+
+export function parseUblDocument(content: Buffer | string): InvoiceData {
+  const xml = (Buffer.isBuffer(content) ? content.toString('utf8') : content)
+    .replace(/^\uFEFF/, '')
+    .trim()
+
+  if (!xml) {
+    throw new UblParseError('El archivo XML está vacío')
+  }
+
+  const validation = XMLValidator.validate(xml)
+  if (validation !== true) {
+    throw new UblParseError(
+      `El archivo XML está mal formado: ${validation.err.msg}`
+    )
+  }
+
+  const parsed = parser.parse(xml)
+  const documentType = (Object.keys(DOCUMENT_TYPES) as UblDocumentType[]).find(
+    type => parsed[type]
+  )
+  if (!documentType) {
+    throw new UblParseError(
+      'El XML no es un comprobante UBL 2.1 (Invoice, CreditNote o DebitNote)'
+    )
+  }
+
+  const root = parsed[documentType]
+  const definition = DOCUMENT_TYPES[documentType]
+  const data: InvoiceData = {}
+
+  const [serie, ...correlativo] = (text(root.ID) || '').split('-')
+  if (serie && correlativo.length) {
+    data.serie = serie.toUpperCase()
+    data.correlativo = correlativo.join('-')
+  }
+
+  data.tipoComprobante =
+    definition.tipoComprobante || text(root.InvoiceTypeCode)
+  // Catálogo 51: el listID indica, por ejemplo, si la operación está sujeta a detracción
+  data.tipoOperacion = text(first(root.InvoiceTypeCode)?.['@_listID'])
+  data.fechaEmision = toSunatDate(text(root.IssueDate))
+  const paymentTerms = asArray(root.PaymentTerms)
+  data.fechaVencimiento = toSunatDate(
+    text(root.DueDate) ||
+      text(paymentTerms.find(term => term.PaymentDueDate)?.PaymentDueDate)
+  )
+  data.moneda = text(root.DocumentCurrencyCode)
+
+  const supplier = root.AccountingSupplierParty
+  data.rucEmisor = partyId(supplier)
+  data.razonSocial = partyName(supplier)
+  data.rucReceptor = partyId(root.AccountingCustomerParty)
+
+  data.montoTotal = amount(root[definition.monetaryTotal]?.PayableAmount)
+  data.taxes = taxBreakdown(asArray(root.TaxTotal))
+  data.items = asArray(root[definition.line]).map(line =>
+    parseLine(line, definition.quantity)
+  )
+
+  data.detraccion = detraccion(paymentTerms, asArray(root.PaymentMeans))
+
+  const reference = first(root.BillingReference)?.InvoiceDocumentReference
+  if (reference) {
+    const [refSerie, ...refCorrelativo] = (text(reference.ID) || '').split('-')
+    data.documentoReferencia = {
+      tipoComprobante: text(reference.DocumentTypeCode),
+      serie: refSerie,
+      correlativo: refCorrelativo.join('-'),
+    }
+  }
+
+  return removeEmpty(data)
+}
+
+function parseLine(line: any, quantityTag: string): InvoiceItemData {
+  const item = line.Item || {}
+  const quantityNode = first(line[quantityTag])
+  const description = asArray(item.Description)
+    .map(node => text(node))
+    .filter(Boolean)
+    .join(' ')
+
+  return removeEmpty({
+    description,
+    code: text(item.SellersItemIdentification?.ID),
+    quantity: amount(quantityNode),
+    unitCode: quantityNode?.['@_unitCode'],
+    unitPrice: amount(line.Price?.PriceAmount),
+    subtotal: amount(line.LineExtensionAmount),
+    igv: amount(first(line.TaxTotal)?.TaxAmount),
+  })
+}
+
+function taxBreakdown(taxTotals: any[]): InvoiceTaxBreakdown {
+  const taxes: InvoiceTaxBreakdown = {
+    gravada: 0,
+    exonerada: 0,
+    inafecta: 0,
+    exportacion: 0,
+    gratuita: 0,
+    igv: 0,
+    isc: 0,
+    icbper: 0,
+    otrosTributos: 0,
+  }
+
+  for (const taxTotal of taxTotals) {
+    for (const subtotal of asArray(taxTotal.TaxSubtotal)) {
+      const schemeId = text(subtotal.TaxCategory?.TaxScheme?.ID)
+      const taxable = amount(subtotal.TaxableAmount) || 0
+      const tax = amount(subtotal.TaxAmount) || 0
+
+      switch (schemeId) {
+        case TAX_SCHEME.IGV:
+        case TAX_SCHEME.IVAP:
+          taxes.gravada += taxable
+          taxes.igv += tax
+          break
+        case TAX_SCHEME.ISC:
+          taxes.isc += tax
+          break
+        case TAX_SCHEME.ICBPER:
+          taxes.icbper += tax
+          break
+        case TAX_SCHEME.EXPORTACION:
+          taxes.exportacion += taxable
+          break
+        case TAX_SCHEME.GRATUITO:
+          taxes.gratuita += taxable
+          break
+        case TAX_SCHEME.EXONERADO:
+          taxes.exonerada += taxable
+          break
+        case TAX_SCHEME.INAFECTO:
+          taxes.inafecta += taxable
+          break
+        default:
+          taxes.otrosTributos += tax
+      }
+    }
+  }
+
+  for (const key of Object.keys(taxes)) {
+    taxes[key] = Math.round(taxes[key] * 100) / 100
+  }
+  return taxes
+}
+
+// SUNAT informa la detracción como un PaymentTerms/PaymentMeans con ID "Detraccion"
+function detraccion(
+  paymentTerms: any[],
+  paymentMeans: any[]
+): InvoiceDetraccionData | undefined {
+  const isDetraccion = (node: any) =>
+    /^detracci[oó]n$/i.test(text(node.ID) || '')
+  const terms = paymentTerms.find(isDetraccion)
+  if (!terms) return undefined
+
+  const means = paymentMeans.find(isDetraccion)
+  return removeEmpty({
+    codigoBienServicio: text(terms.PaymentMeansID),
+    porcentaje: amount(terms.PaymentPercent),
+    monto: amount(terms.Amount),
+    cuentaBancoNacion: text(means?.PayeeFinancialAccount?.ID),
+  })
+}
+
+function partyId(partyRoot: any): string | undefined {
+  if (!partyRoot) return undefined
+  const party = partyRoot.Party || {}
+  return (
+    text(first(party.PartyIdentification)?.ID) ||
+    text(first(party.PartyLegalEntity)?.CompanyID) ||
+    // UBL 2.0 (formato anterior de SUNAT)
+    text(partyRoot.CustomerAssignedAccountID)
+  )
+}
+
+function partyName(partyRoot: any): string | undefined {
+  const party = partyRoot?.Party || {}
+  return (
+    text(first(party.PartyLegalEntity)?.RegistrationName) ||
+    text(first(party.PartyName)?.Name)
+  )
+}
+
+function toSunatDate(isoDate?: string): string | undefined {
+  const match = isoDate?.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : undefined
+}
+
+function text(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined
+  if (Array.isArray(node)) return text(node[0])
+  if (typeof node === 'object') return text(node['#text'])
+  const value = String(node).trim()
+  return value.length ? value : undefined
+}
+
+function amount(node: any): number | undefined {
+  const value = text(node)
+  if (value === undefined) return undefined
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+function asArray<T>(node: T | T[]): T[] {
+  if (node === undefined || node === null) return []
+  return Array.isArray(node) ? node : [node]
+}
+
+function first(node: any): any {
+  return asArray(node)[0]
+}
+
+function removeEmpty<T extends object>(data: T): T {
+  for (const key of Object.keys(data)) {
+    if (data[key] === undefined || data[key] === '') delete data[key]
+  }
+  return data
+}
@@ -0,0 +1,75 @@
+import { InvoiceData } from '../interfaces/invoice-data.interface'
+
+export const ESSENTIAL_FIELDS: (keyof InvoiceData)[] = [
+  'rucEmisor',
+  'tipoComprobante',
+  'serie',
+  'correlativo',
+  'fechaEmision',
+  'montoTotal',
+]
+
+// Catálogo 01 de SUNAT: tipos de comprobante de pago
+const TIPO_COMPROBANTE_CODES: [RegExp, string][] = [
+  [/^0?1$|factura/i, '01'],
+  [/^0?3$|boleta/i, '03'],
+  [/^0?7$|nota\s*de\s*cr[eé]dito/i, '07'],
+  [/^0?8$|nota\s*de\s*d[eé]bito/i, '08'],
+  [/^12$|ticket/i, '12'],
+]
+
+// Valida el dígito verificador (módulo 11) de un RUC peruano
+export function isValidRuc(ruc?: string): boolean {
+  if (!ruc || !/^(10|15|16|17|20)\d{9}$/.test(ruc)) return false
+  const weights = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]
+  const sum = weights.reduce(
+    (total, weight, index) => total + weight * Number(ruc[index]),
+    0
+  )
+  const check = (11 - (sum % 11)) % 10
+  return check === Number(ruc[10])
+}
+
+export function normalizeTipoComprobante(value?: string): string | undefined {
+  if (!value) return undefined
+  const trimmed = String(value).trim()
+  const entry = TIPO_COMPROBANTE_CODES.find(([pattern]) =>
+    pattern.test(trimmed)
+  )
+  return entry ? entry[1] : trimmed
+}
+
+// Deduce el tipo de comprobante a partir de la letra inicial de la serie
+export function tipoComprobanteFromSerie(serie?: string): string | undefined {
+  if (!serie) return undefined
+  if (/^[FE]/i.test(serie)) return '01' // Factura / Factura Electrónica
+  if (/^B/i.test(serie)) return '03'
+  return undefined
+}
+
+// Acepta DD/MM/YYYY, DD-MM-YYYY o YYYY-MM-DD y devuelve DD/MM/YYYY (formato SUNAT)
+export function normalizeFecha(value?: string): string | undefined {
+  if (!value) return undefined
+  let day: string, month: string, year: string
+  let match = String(value).match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/)
+  if (match) {
+    ;[, year, month, day] = match
+  } else {
+    match = String(value).match(/^(\d{1,2})[-/ ](\d{1,2})[-/ ](\d{4})/)
+    if (!match) return undefined
+    ;[, day, month, year] = match
+  }
+  const d = parseInt(day, 10)
+  const m = parseInt(month, 10)
+  if (parseInt(year, 10) <= 1990 || m < 1 || m > 12 || d < 1 || d > 31) {
+    return undefined
+  }
+  return `${day.padStart(2, '0')}/${month.padStart(2, '0')}/${year}`
+}
+
+export function missingEssentialFields(data: InvoiceData): string[] {
+  return ESSENTIAL_FIELDS.filter(
+    field =>
+      data[field] === undefined || data[field] === null || data[field] === ''
+  )
+}
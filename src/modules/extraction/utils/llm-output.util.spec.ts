@@ -0,0 +1,50 @@
+import {
+  LlmOutputError,
+  parseLlmJson,
+  validateLlmOutput,
+} from './llm-output.util'
+
+describe('llm-output.util', () => {
+  it('parses JSON wrapped in code fences and surrounding text', () => {
+    const content = 'Aquí está:\n```json\n{ "serie": "F001" }\n```'
+    expect(parseLlmJson(content)).toEqual({ serie: 'F001' })
+  })
+
+  it('throws LlmOutputError for malformed responses', () => {
+    expect(() => parseLlmJson('{ "serie": "F001", ')).toThrow(LlmOutputError)
+    expect(() => parseLlmJson('No encontré datos')).toThrow(LlmOutputError)
+  })
+
+  it('repairs common format deviations before validating', () => {
+    const { data, errors } = validateLlmOutput({
+      rucEmisor: 20100066603,
+      serie: 'f001-00000123',
+      montoTotal: 'S/ 1,180.00',
+      moneda: 'PEN',
+      fechaEmision: '2025-05-14',
+      razonSocial: null,
+    })
+
+    expect(errors).toEqual({})
+    expect(data).toEqual({
+      rucEmisor: '20100066603',
+      serie: 'F001',
+      correlativo: '00000123',
+      montoTotal: 1180,
+      moneda: 'PEN',
+      fechaEmision: '14-05-2025',
+    })
+  })
+
+  it('drops fields that do not match the schema and reports them', () => {
+    const { data, errors } = validateLlmOutput({
+      rucEmisor: '2010006660',
+      serie: 'X1',
+      moneda: 'EUR',
+      correlativo: '123',
+    })
+
+    expect(Object.keys(errors).sort()).toEqual(['moneda', 'rucEmisor', 'serie'])
+    expect(data).toEqual({ correlativo: '123' })
+  })
+})
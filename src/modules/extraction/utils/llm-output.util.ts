@@ -0,0 +1,92 @@
+import { plainToInstance } from 'class-transformer'
+import { validateSync } from 'class-validator'
+import { LlmInvoiceOutputDto } from '../dto/llm-invoice-output.dto'
+import { InvoiceData } from '../interfaces/invoice-data.interface'
+import { normalizeFecha } from './invoice-fields.util'
+import { normalizeCurrency } from '../../exchange-rate/utils/currency.util'
+
+export class LlmOutputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LlmOutputError'
+  }
+}
+
+export interface LlmOutputValidation {
+  data: InvoiceData
+  // Mensajes de error por campo; los campos inválidos no se incluyen en data
+  errors: Record<string, string[]>
+}
+
+// Extrae el objeto JSON de la respuesta, tolerando bloques ```json y texto alrededor
+export function parseLlmJson(content: string): Record<string, any> {
+  const cleaned = (content || '')
+    .replace(/^\s*```(?:json)?\s*/i, '')
+    .replace(/\s*```\s*$/, '')
+    .trim()
+  const start = cleaned.indexOf('{')
+  const end = cleaned.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new LlmOutputError('La respuesta no contiene un objeto JSON')
+  }
+  try {
+    const parsed = JSON.parse(cleaned.slice(start, end + 1))
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new LlmOutputError('La respuesta no es un objeto JSON')
+    }
+    return parsed
+  } catch (error) {
+    if (error instanceof LlmOutputError) throw error
+    throw new LlmOutputError(`JSON inválido: ${error.message}`)
+  }
+}
+
+// Corrige localmente los desvíos de formato más comunes antes de validar
+export function repairLlmOutput(raw: Record<string, any>): Record<string, any> {
+  const output: Record<string, any> = {}
+  Object.keys(raw).forEach(field => {
+    if (raw[field] !== null && raw[field] !== undefined && raw[field] !== '') {
+      output[field] = raw[field]
+    }
+  })
+
+  if (output.rucEmisor !== undefined) {
+    output.rucEmisor = String(output.rucEmisor).replace(/\D/g, '')
+  }
+  if (typeof output.serie === 'string') {
+    const [serie, correlativo] = output.serie.toUpperCase().trim().split('-')
+    output.serie = serie.trim()
+    if (correlativo && output.correlativo === undefined) {
+      output.correlativo = correlativo.trim()
+    }
+  }
+  if (output.correlativo !== undefined) {
+    output.correlativo = String(output.correlativo).replace(/^\D+/, '').trim()
+  }
+  if (typeof output.montoTotal === 'string') {
+    const amount = parseFloat(output.montoTotal.replace(/[^\d.]/g, ''))
+    if (!isNaN(amount)) output.montoTotal = amount
+  }
+  if (typeof output.moneda === 'string') {
+    output.moneda = normalizeCurrency(output.moneda) ?? output.moneda
+  }
+  if (typeof output.fechaEmision === 'string') {
+    const fecha = normalizeFecha(output.fechaEmision.trim())
+    if (fecha) output.fechaEmision = fecha.replace(/\//g, '-')
+  }
+  return output
+}
+
+export function validateLlmOutput(
+  raw: Record<string, any>
+): LlmOutputValidation {
+  const repaired = repairLlmOutput(raw)
+  const errors: Record<string, string[]> = {}
+  validateSync(plainToInstance(LlmInvoiceOutputDto, repaired)).forEach(
+    error => {
+      errors[error.property] = Object.values(error.constraints || {})
+      delete repaired[error.property]
+    }
+  )
+  return { data: repaired as InvoiceData, errors }
+}
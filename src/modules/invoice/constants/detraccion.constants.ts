@@ -0,0 +1,42 @@
+// Catálogo 51 de SUNAT: tipos de operación sujetos al SPOT
+export const DETRACCION_OPERATION_TYPES = ['1001', '1002', '1003', '1004']
+
+// Monto mínimo de la operación (en soles) a partir del cual se aplica la detracción
+export const DETRACCION_THRESHOLD = 700
+export const DETRACCION_TRANSPORT_THRESHOLD = 400
+export const DETRACCION_TRANSPORT_CODE = '027'
+
+// Catálogo 54 de SUNAT: porcentaje vigente por bien o servicio (RS 183-2004/SUNAT)
+export const DETRACCION_RATES: Record<string, number> = {
+  '001': 10, // Azúcar y melaza de caña
+  '003': 10, // Alcohol etílico
+  '004': 4, // Recursos hidrobiológicos
+  '005': 4, // Maíz amarillo duro
+  '007': 10, // Caña de azúcar
+  '008': 4, // Madera
+  '009': 10, // Arena y piedra
+  '010': 15, // Residuos, subproductos, desechos
+  '011': 10, // Bienes gravados por renuncia a la exoneración
+  '012': 12, // Intermediación laboral y tercerización
+  '014': 4, // Carnes y despojos comestibles
+  '016': 10, // Aceite de pescado
+  '017': 4, // Harina, polvo y pellets de pescado
+  '019': 10, // Arrendamiento de bienes muebles
+  '020': 12, // Mantenimiento y reparación de bienes muebles
+  '021': 10, // Movimiento de carga
+  '022': 12, // Otros servicios empresariales
+  '023': 4, // Leche
+  '024': 10, // Comisión mercantil
+  '025': 10, // Fabricación de bienes por encargo
+  '026': 10, // Servicio de transporte de personas
+  '027': 4, // Servicio de transporte de carga
+  '030': 4, // Contratos de construcción
+  '031': 10, // Oro gravado con el IGV
+  '034': 10, // Minerales metálicos no auríferos
+  '035': 1.5, // Bienes exonerados del IGV
+  '036': 1.5, // Oro y demás minerales metálicos exonerados del IGV
+  '037': 12, // Demás servicios gravados con el IGV
+  '039': 10, // Minerales no metálicos
+  '040': 4, // Bien inmueble gravado con IGV
+  '041': 15, // Plomo
+}
@@ -0,0 +1,9 @@
+// Régimen de retenciones del IGV (RS 037-2002/SUNAT): tasa vigente del régimen 01
+export const RETENCION_RATE = 3
+export const RETENCION_REGIMEN = '01'
+
+// No se retiene cuando el importe de la operación no supera este monto en soles
+export const RETENCION_THRESHOLD = 700
+
+// Facturas y notas de débito; las boletas y recibos no están sujetos
+export const RETENCION_DOCUMENT_TYPES = ['01', '08']
@@ -5,21 +5,15 @@ import {
   IsBoolean,
   IsNumber,
   IsDate,
-  IsEnum,
   IsMongoId,
   IsArray,
   ValidateNested,
+  Matches,
   Min,
 } from 'class-validator'
 import { Type } from 'class-transformer'
 import { ApiProperty } from '@nestjs/swagger'
 
-export enum InvoiceStatus {
-  PENDING = 'PENDING',
-  APPROVED = 'APPROVED',
-  REJECTED = 'REJECTED',
-}
-
 export class InvoiceItemDto {
   @ApiProperty({
     description: 'Descripción del ítem',
@@ -58,6 +52,123 @@ export class InvoiceItemDto {
   @Min(0)
   @IsNotEmpty()
   subtotal: number
+
+  @ApiProperty({
+    description: 'Unidad de medida (catálogo 03 de SUNAT)',
+    example: 'NIU',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  unitCode?: string
+
+  @ApiProperty({
+    description: 'IGV del ítem',
+    example: 180.09,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  igv?: number
+
+  @ApiProperty({
+    description: 'Código del producto o servicio',
+    example: 'SRV-001',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  code?: string
+}
+
+export class InvoiceTaxesDto {
+  @ApiProperty({ description: 'Base imponible de operaciones gravadas' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  gravada?: number
+
+  @ApiProperty({ description: 'Importe de operaciones exoneradas' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  exonerada?: number
+
+  @ApiProperty({ description: 'Importe de operaciones inafectas' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  inafecta?: number
+
+  @ApiProperty({ description: 'Importe de operaciones de exportación' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  exportacion?: number
+
+  @ApiProperty({ description: 'Importe de operaciones gratuitas' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  gratuita?: number
+
+  @ApiProperty({ description: 'Monto del IGV' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  igv?: number
+
+  @ApiProperty({ description: 'Monto del ISC' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  isc?: number
+
+  @ApiProperty({ description: 'Impuesto a las bolsas plásticas (ICBPER)' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  icbper?: number
+
+  @ApiProperty({ description: 'Otros tributos' })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  otrosTributos?: number
+}
+
+export class InvoiceDetraccionDto {
+  @ApiProperty({
+    description: 'Código del bien o servicio (catálogo 54 de SUNAT)',
+    example: '037',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  codigoBienServicio?: string
+
+  @ApiProperty({ description: 'Porcentaje de detracción', example: 12 })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  porcentaje?: number
+
+  @ApiProperty({ description: 'Monto de la detracción', example: 141.6 })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  monto?: number
+
+  @ApiProperty({
+    description:
+      'Cuenta de detracciones del proveedor en el Banco de la Nación',
+    example: '00-051-123456',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cuentaBancoNacion?: string
 }
 
 export class CreateInvoiceDto {
@@ -85,6 +196,39 @@ export class CreateInvoiceDto {
   @IsNotEmpty()
   invoiceNumber: string
 
+  @ApiProperty({
+    description: 'RUC del emisor del comprobante',
+    example: '20100066603',
+  })
+  @Matches(/^\d{11}$/, { message: 'rucEmisor debe tener 11 dígitos' })
+  rucEmisor: string
+
+  @ApiProperty({
+    description:
+      'Tipo de comprobante (catálogo 01 de SUNAT); si falta se deduce de la serie',
+    example: '01',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  tipoComprobante?: string
+
+  @ApiProperty({
+    description: 'Serie del comprobante',
+    example: 'F001',
+  })
+  @Matches(/^([FBE][A-Z0-9]{3}|\d{4})$/, {
+    message: 'serie debe tener el formato F001, B001, E001 o 0001',
+  })
+  serie: string
+
+  @ApiProperty({
+    description: 'Correlativo del comprobante',
+    example: '123',
+  })
+  @Matches(/^\d{1,8}$/, { message: 'correlativo debe ser numérico' })
+  correlativo: string
+
   @ApiProperty({
     description: 'Fecha de emisión de la factura',
     example: '2024-03-28T12:00:00.000Z',
@@ -113,6 +257,35 @@ export class CreateInvoiceDto {
   @IsNotEmpty()
   items: InvoiceItemDto[]
 
+  @ApiProperty({
+    description: 'Desglose de bases imponibles e impuestos',
+    type: InvoiceTaxesDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => InvoiceTaxesDto)
+  @IsOptional()
+  taxes?: InvoiceTaxesDto
+
+  @ApiProperty({
+    description: 'Tipo de operación (catálogo 51 de SUNAT)',
+    example: '1001',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  tipoOperacion?: string
+
+  @ApiProperty({
+    description: 'Datos de la detracción (SPOT), si aplica',
+    type: InvoiceDetraccionDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => InvoiceDetraccionDto)
+  @IsOptional()
+  detraccion?: InvoiceDetraccionDto
+
   @ApiProperty({
     description: 'Subtotal de la factura',
     example: 1000.5,
@@ -154,13 +327,13 @@ export class CreateInvoiceDto {
   total: number
 
   @ApiProperty({
-    description: 'Estado de la factura',
-    enum: InvoiceStatus,
-    example: InvoiceStatus.PENDING,
+    description: 'Moneda de la factura (ISO 4217); por defecto PEN',
+    example: 'PEN',
+    required: false,
   })
-  @IsEnum(['PENDING', 'APPROVED', 'REJECTED'])
+  @IsString()
   @IsOptional()
-  status?: string
+  moneda?: string
 
   @ApiProperty({
     description: 'Notas adicionales sobre la factura',
@@ -0,0 +1,27 @@
+import { IsDateString, IsNotEmpty, IsString } from 'class-validator'
+import { ApiProperty, IntersectionType, PickType } from '@nestjs/swagger'
+import { CreateInvoiceDto, InvoiceDetraccionDto } from './create-invoice.dto'
+
+// Corrección manual cuando el comprobante no trae el código, el porcentaje o el tipo de operación
+export class UpdateDetraccionDto extends IntersectionType(
+  PickType(InvoiceDetraccionDto, [
+    'codigoBienServicio',
+    'porcentaje',
+    'cuentaBancoNacion',
+  ] as const),
+  PickType(CreateInvoiceDto, ['tipoOperacion'] as const)
+) {}
+
+export class RegisterDetraccionDepositDto {
+  @ApiProperty({
+    description: 'Número de constancia de depósito del Banco de la Nación',
+    example: '123456789',
+  })
+  @IsString()
+  @IsNotEmpty()
+  constancia: string
+
+  @ApiProperty({ description: 'Fecha del depósito', example: '2025-06-15' })
+  @IsDateString()
+  fechaDeposito: string
+}
@@ -0,0 +1,13 @@
+import { IsOptional, IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class InvoiceTransitionDto {
+  @ApiProperty({
+    description: 'Motivo de la acción (obligatorio para rechazar o anular)',
+    example: 'El monto no coincide con la orden de compra',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reason?: string
+}
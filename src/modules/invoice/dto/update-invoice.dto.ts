@@ -1,4 +1,16 @@
-import { PartialType } from '@nestjs/swagger'
+import { OmitType, PartialType } from '@nestjs/swagger'
 import { CreateInvoiceDto } from './create-invoice.dto'
 
-export class UpdateInvoiceDto extends PartialType(CreateInvoiceDto) {}
+// La detracción y el tipo de operación solo cambian por PATCH /invoices/:id/detraccion;
+// la clave del comprobante y la moneda del equivalente en soles no se editan tras el registro
+export class UpdateInvoiceDto extends PartialType(
+  OmitType(CreateInvoiceDto, [
+    'detraccion',
+    'tipoOperacion',
+    'rucEmisor',
+    'tipoComprobante',
+    'serie',
+    'correlativo',
+    'moneda',
+  ] as const)
+) {}
@@ -1,20 +1,222 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Types } from 'mongoose'
-import { InvoiceStatus } from '../dto/create-invoice.dto'
+import { InvoiceStatus } from '../enums/invoice-status.enum'
+import { InvoicePaymentStatus } from '../enums/invoice-payment-status.enum'
+import { DetraccionStatus } from '../enums/detraccion-status.enum'
 import { Document } from 'mongoose'
+import {
+  StoredFile,
+  StoredFileSchema,
+} from '../../storage/entities/stored-file.entity'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+@Schema({ _id: false })
+export class InvoiceItem {
+  @Prop({ required: true })
+  description: string
+
+  @Prop({ default: 0 })
+  quantity: number
+
+  @Prop()
+  unitCode?: string
+
+  @Prop({ default: 0 })
+  unitPrice: number
+
+  @Prop({ default: 0 })
+  subtotal: number
+
+  @Prop()
+  igv?: number
+
+  @Prop()
+  code?: string
+}
+
+export const InvoiceItemSchema = SchemaFactory.createForClass(InvoiceItem)
+
+@Schema({ _id: false })
+export class InvoiceTaxes {
+  @Prop({ default: 0 })
+  gravada: number
+
+  @Prop({ default: 0 })
+  exonerada: number
+
+  @Prop({ default: 0 })
+  inafecta: number
+
+  @Prop({ default: 0 })
+  exportacion: number
+
+  @Prop({ default: 0 })
+  gratuita: number
+
+  @Prop({ default: 0 })
+  igv: number
+
+  @Prop({ default: 0 })
+  isc: number
+
+  @Prop({ default: 0 })
+  icbper: number
+
+  @Prop({ default: 0 })
+  otrosTributos: number
+}
+
+export const InvoiceTaxesSchema = SchemaFactory.createForClass(InvoiceTaxes)
+
+@Schema({ _id: false })
+export class InvoiceDetraccion {
+  @Prop()
+  codigoBienServicio?: string // Catálogo 54 de SUNAT
+
+  @Prop()
+  porcentaje?: number
+
+  @Prop()
+  monto?: number
+
+  @Prop()
+  cuentaBancoNacion?: string
+
+  @Prop()
+  aplica?: boolean
+
+  // Monto a pagar al proveedor descontando la detracción, en la moneda del comprobante
+  @Prop()
+  montoNeto?: number
+
+  @Prop({ type: String, enum: DetraccionStatus })
+  estado?: DetraccionStatus
+
+  // Por qué no aplica o qué falta para calcularla
+  @Prop()
+  motivo?: string
+
+  // Constancia de depósito emitida por el Banco de la Nación
+  @Prop()
+  constancia?: string
+
+  @Prop()
+  fechaDeposito?: Date
+
+  @Prop({ type: String, ref: 'User' })
+  depositadoPor?: string
+}
+
+export const InvoiceDetraccionSchema =
+  SchemaFactory.createForClass(InvoiceDetraccion)
+
+// Retención del IGV practicada por la empresa cuando es agente de retención
+@Schema({ _id: false })
+export class InvoiceRetencion {
+  @Prop()
+  aplica: boolean
+
+  @Prop()
+  porcentaje?: number
+
+  // Importe total a retener, en la moneda del comprobante
+  @Prop()
+  monto?: number
+
+  @Prop()
+  montoNeto?: number
+
+  // Acumulado en los pagos ya ejecutados
+  @Prop({ default: 0 })
+  retenido?: number
+
+  @Prop()
+  motivo?: string
+}
+
+export const InvoiceRetencionSchema =
+  SchemaFactory.createForClass(InvoiceRetencion)
+
+// Resultado estructurado de la última consulta a SUNAT
+@Schema({ _id: false })
+export class InvoiceSunatValidation {
+  @Prop()
+  estadoCp?: string // 0 no existe, 1 aceptado, 2 anulado, 3 autorizado, 4 no autorizado
+
+  @Prop()
+  estadoRuc?: string
+
+  @Prop()
+  condDomiRuc?: string
+
+  @Prop({ type: [String], default: [] })
+  observaciones: string[]
+
+  @Prop()
+  validatedAt?: Date
+}
+
+export const InvoiceSunatValidationSchema = SchemaFactory.createForClass(
+  InvoiceSunatValidation
+)
+
+// Cada consulta a SUNAT (al subir el comprobante o en la revalidación programada)
+@Schema({ _id: false })
+export class InvoiceSunatCheck {
+  @Prop({ required: true })
+  status: string
+
+  @Prop()
+  estadoCp?: string
+
+  @Prop()
+  estadoRuc?: string
+
+  @Prop()
+  condDomiRuc?: string
+
+  @Prop({ type: [String], default: [] })
+  observaciones: string[]
+
+  @Prop({ enum: ['upload', 'scheduled'], default: 'upload' })
+  trigger: 'upload' | 'scheduled'
+
+  @Prop({ required: true })
+  validatedAt: Date
+}
+
+export const InvoiceSunatCheckSchema =
+  SchemaFactory.createForClass(InvoiceSunatCheck)
 
 export interface InvoiceDocument extends Document {
   correlativo: string
   fechaEmision: string
   moneda: string
   montoTotal: number
+  tipoCambio?: number
+  montoTotalPen?: number
   rucEmisor: string
   serie: string
   tipoComprobante: string
+  tipoOperacion?: string
   state: string
+  sunatValidation?: InvoiceSunatValidation
+  sunatHistory?: InvoiceSunatCheck[]
+  lastCheckedAt?: Date
   status: InvoiceStatus
-  actaAceptacion?: string
-  pdfFile?: string
+  items?: InvoiceItem[]
+  taxes?: InvoiceTaxes
+  detraccion?: InvoiceDetraccion
+  retencion?: InvoiceRetencion
+  extractionConfidence?: Record<string, number>
+  comprobanteKey?: string
+  paymentStatus: string
+  scheduledAmount?: number
+  paidAmount?: number
+  paymentDate?: Date
+  actaAceptacion?: StoredFile
+  pdfFile?: StoredFile
   clientId: Types.ObjectId
   projectId: Types.ObjectId
   companyId: string
@@ -38,6 +240,14 @@ export class Invoice extends Document {
   @Prop({ required: true })
   montoTotal: number
 
+  // Tipo de cambio venta de SUNAT a la fecha de emisión (1 para PEN)
+  @Prop()
+  tipoCambio?: number
+
+  // Equivalente en soles para consolidar reportes en varias monedas
+  @Prop()
+  montoTotalPen?: number
+
   @Prop({ required: true })
   rucEmisor: string
 
@@ -47,28 +257,80 @@ export class Invoice extends Document {
   @Prop({ required: true })
   tipoComprobante: string
 
+  // Catálogo 51 de SUNAT; 1001-1004 son operaciones sujetas a detracción
+  @Prop()
+  tipoOperacion?: string
+
+  // Estado del ciclo de vida; solo cambia a través de las transiciones permitidas
   @Prop({
     required: true,
-    enum: ['PENDING', 'APPROVED', 'REJECTED'],
-    default: 'PENDING',
+    enum: InvoiceStatus,
+    default: InvoiceStatus.UPLOADED,
   })
   status: string
 
+  // Derivado del estado: APPROVED al programar el pago, PAID/PARTIALLY_PAID al ejecutar lotes
   @Prop({
     required: true,
-    enum: ['PENDING', 'APPROVED', 'REJECTED'],
-    default: 'PENDING',
+    enum: InvoicePaymentStatus,
+    default: InvoicePaymentStatus.PENDING,
   })
   paymentStatus: string
 
+  // Montos en lotes de pago abiertos y ya pagados (admite pagos parciales)
+  @Prop({ default: 0 })
+  scheduledAmount: number
+
+  @Prop({ default: 0 })
+  paidAmount: number
+
+  @Prop()
+  paymentDate?: Date
+
   @Prop({ required: true })
   state: string
 
+  // Motivo de la anulación (manual o por anulación en SUNAT)
   @Prop()
-  actaAceptacion?: string
+  voidReason?: string
+
+  @Prop({ type: InvoiceSunatValidationSchema })
+  sunatValidation?: InvoiceSunatValidation
+
+  @Prop({ type: [InvoiceSunatCheckSchema], default: [] })
+  sunatHistory: InvoiceSunatCheck[]
 
+  // Último intento de revalidación, aunque SUNAT haya fallado o se haya omitido
   @Prop()
-  pdfFile?: string
+  lastCheckedAt?: Date
+
+  @Prop({ type: [InvoiceItemSchema], default: [] })
+  items: InvoiceItem[]
+
+  @Prop({ type: InvoiceTaxesSchema })
+  taxes?: InvoiceTaxes
+
+  @Prop({ type: InvoiceDetraccionSchema })
+  detraccion?: InvoiceDetraccion
+
+  // Se determina al programar el primer pago, con los datos vigentes del proveedor
+  @Prop({ type: InvoiceRetencionSchema })
+  retencion?: InvoiceRetencion
+
+  // Confianza (0-1) con la que se extrajo cada campo del documento
+  @Prop({ type: Object })
+  extractionConfidence?: Record<string, number>
+
+  // RUC-TIPO-SERIE-CORRELATIVO normalizado, compartido con los gastos
+  @Prop()
+  comprobanteKey?: string
+
+  // Solo referencias al almacenamiento; el contenido no se guarda en el documento
+  @Prop({ type: StoredFileSchema })
+  actaAceptacion?: StoredFile
+
+  @Prop({ type: StoredFileSchema })
+  pdfFile?: StoredFile
 
   @Prop({ type: Types.ObjectId, ref: 'Client', required: false })
   clientId?: Types.ObjectId
@@ -82,6 +344,24 @@ export class Invoice extends Document {
 
 export const InvoiceSchema = SchemaFactory.createForClass(Invoice)
 
+InvoiceSchema.plugin(tenantPlugin)
+InvoiceSchema.plugin(auditPlugin, { entity: 'Invoice' })
+
+// Permite a contabilidad consultar facturas a nivel de línea
+InvoiceSchema.index({ companyId: 1, 'items.description': 1 })
+
+// Selección de facturas para la revalidación programada en SUNAT
+InvoiceSchema.index({ state: 1, status: 1, lastCheckedAt: 1 })
+
+// Un comprobante solo puede registrarse una vez por empresa
+InvoiceSchema.index(
+  { companyId: 1, comprobanteKey: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { comprobanteKey: { $type: 'string' } },
+  }
+)
+
 export interface Invoice {
   _id: string
   providerName: string
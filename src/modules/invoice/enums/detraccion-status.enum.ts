@@ -0,0 +1,7 @@
+export enum DetraccionStatus {
+  // Sujeta a detracción, falta el depósito en el Banco de la Nación
+  PENDING = 'PENDING',
+  DEPOSITED = 'DEPOSITED',
+  // Falta el código o porcentaje para calcular el monto
+  INCOMPLETE = 'INCOMPLETE',
+}
@@ -0,0 +1,11 @@
+// Acciones que mueven una factura de un estado a otro
+export enum InvoiceAction {
+  VALIDATE_SUNAT = 'validate-sunat',
+  RECEIVE_ACTA = 'receive-acta',
+  APPROVE = 'approve',
+  SCHEDULE_PAYMENT = 'schedule-payment',
+  UNSCHEDULE_PAYMENT = 'unschedule-payment',
+  MARK_PAID = 'mark-paid',
+  REJECT = 'reject',
+  VOID = 'void',
+}
@@ -0,0 +1,8 @@
+// Estado del pago, derivado del ciclo de vida y de los lotes de tesorería
+export enum InvoicePaymentStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  PAID = 'PAID',
+  REJECTED = 'REJECTED',
+}
@@ -0,0 +1,11 @@
+// Ciclo de vida de la factura; las transiciones permitidas están en utils/invoice-state-machine.util.ts
+export enum InvoiceStatus {
+  UPLOADED = 'UPLOADED',
+  SUNAT_VALIDATED = 'SUNAT_VALIDATED',
+  ACTA_RECEIVED = 'ACTA_RECEIVED',
+  APPROVED = 'APPROVED',
+  SCHEDULED = 'SCHEDULED',
+  PAID = 'PAID',
+  REJECTED = 'REJECTED',
+  VOIDED = 'VOIDED',
+}
@@ -0,0 +1,45 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { Invoice } from './entities/invoice.entity'
+import { normalizeCurrency } from '../exchange-rate/utils/currency.util'
+import { Currency } from '../exchange-rate/enums/currency.enum'
+
+// Convierte las monedas guardadas como símbolo (S/, $) a códigos ISO 4217
+@Injectable()
+export class InvoiceCurrencyMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(InvoiceCurrencyMigrationService.name)
+
+  constructor(
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>
+  ) {}
+
+  async onApplicationBootstrap() {
+    const migrated = await this.migrateLegacyCurrencies()
+    if (migrated) {
+      this.logger.log(`Legacy invoice currencies migrated: ${migrated}`)
+    }
+  }
+
+  async migrateLegacyCurrencies(): Promise<number> {
+    let migrated = 0
+    const values: string[] = await this.invoiceModel.distinct('moneda')
+    for (const value of values) {
+      const moneda = normalizeCurrency(value)
+      if (!moneda || moneda === value) continue
+      const result = await this.invoiceModel.collection.updateMany(
+        { moneda: value },
+        { $set: { moneda } }
+      )
+      migrated += result.modifiedCount
+    }
+
+    // Las facturas en soles no necesitan tipo de cambio para su equivalente
+    const result = await this.invoiceModel.collection.updateMany(
+      { moneda: Currency.PEN, montoTotalPen: { $exists: false } },
+      [{ $set: { tipoCambio: 1, montoTotalPen: '$montoTotal' } }]
+    )
+    return migrated + result.modifiedCount
+  }
+}
@@ -0,0 +1,101 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { Invoice } from './entities/invoice.entity'
+import { StorageService } from '../storage/storage.service'
+
+const LEGACY_FIELDS = [
+  {
+    field: 'actaAceptacion',
+    folder: 'invoices/actas',
+    prefix: 'acta-aceptacion',
+  },
+  { field: 'pdfFile', folder: 'invoices/pdf', prefix: 'factura' },
+] as const
+
+export interface FileMigrationSummary {
+  migrated: number
+  failed: number
+}
+
+// Mueve al almacenamiento los PDFs que antes se guardaban en base64 dentro de la factura
+@Injectable()
+export class InvoiceFileMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(InvoiceFileMigrationService.name)
+
+  constructor(
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>,
+    private readonly storageService: StorageService,
+    private readonly configService: ConfigService
+  ) {}
+
+  // Se ejecuta antes de atender peticiones: Mongoose no puede leer los campos antiguos
+  async onApplicationBootstrap() {
+    if (
+      this.configService.get<string>('STORAGE_MIGRATE_LEGACY_FILES') === 'false'
+    ) {
+      return
+    }
+    const summary = await this.migrateLegacyFiles()
+    if (summary.migrated || summary.failed) {
+      this.logger.log(
+        `Legacy invoice files migrated: ${summary.migrated}, failed: ${summary.failed}`
+      )
+    }
+  }
+
+  async migrateLegacyFiles(): Promise<FileMigrationSummary> {
+    const summary: FileMigrationSummary = { migrated: 0, failed: 0 }
+    // Se usa la colección nativa porque el esquema ya no admite strings en estos campos
+    const cursor = this.invoiceModel.collection.find(
+      {
+        $or: LEGACY_FIELDS.map(({ field }) => ({
+          [field]: { $type: 'string' },
+        })),
+      },
+      {
+        projection: { actaAceptacion: 1, pdfFile: 1, serie: 1, correlativo: 1 },
+      }
+    )
+
+    for await (const doc of cursor) {
+      const update: Record<string, unknown> = {}
+      const unset: Record<string, ''> = {}
+      for (const { field, folder, prefix } of LEGACY_FIELDS) {
+        const value = doc[field]
+        if (typeof value !== 'string') continue
+        if (!value) {
+          unset[field] = ''
+          continue
+        }
+        try {
+          update[field] = await this.storageService.store(
+            Buffer.from(value, 'base64'),
+            {
+              folder,
+              filename: `${prefix}-${doc.serie}-${doc.correlativo}.pdf`,
+            }
+          )
+          summary.migrated++
+        } catch (error) {
+          summary.failed++
+          this.logger.error(
+            `No se pudo migrar ${field} de la factura ${doc._id}: ${error.message}`
+          )
+        }
+      }
+      if (Object.keys(update).length || Object.keys(unset).length) {
+        await this.invoiceModel.collection.updateOne(
+          { _id: doc._id },
+          {
+            ...(Object.keys(update).length && { $set: update }),
+            ...(Object.keys(unset).length && { $unset: unset }),
+          }
+        )
+      }
+    }
+    return summary
+  }
+}
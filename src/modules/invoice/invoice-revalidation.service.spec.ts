@@ -0,0 +1,220 @@
+import { InvoiceRevalidationService } from './invoice-revalidation.service'
+import { SunatValidationStatus } from '../sunat/enums/sunat-status.enum'
+import { UserRole } from '../auth/enums/user-role.enum'
+
+// Las dependencias reales (esquema de Mongoose, bcrypt) se reemplazan por dobles
+jest.mock('./entities/invoice.entity', () => ({ Invoice: { name: 'Invoice' } }))
+jest.mock('../users/services/users.service', () => ({ UsersService: class {} }))
+
+const invoiceDoc = (state: string) => ({
+  companyId: 'company-1',
+  serie: 'F001',
+  correlativo: '123',
+  rucEmisor: '20100066603',
+  tipoComprobante: '01',
+  fechaEmision: '14/05/2025',
+  montoTotal: 118,
+  moneda: 'S/',
+  status: 'APPROVED',
+  paymentStatus: 'PENDING',
+  state,
+  sunatValidation: { estadoCp: '1', observaciones: [] },
+  sunatHistory: [],
+  save: jest.fn(),
+})
+
+const result = (status: SunatValidationStatus, estadoCp?: string) => ({
+  status,
+  message: '',
+  details: { observaciones: [] },
+  validation: { estadoCp, observaciones: [], validatedAt: new Date() },
+})
+
+describe('InvoiceRevalidationService', () => {
+  const build = (invoices: any[], responses: any[]) => {
+    const chain = {
+      sort: () => chain,
+      limit: () => chain,
+      exec: async () => invoices,
+    }
+    const invoiceModel = {
+      find: jest.fn((_filter: object) => chain),
+      updateOne: jest.fn((_filter: object, _update: object) => ({
+        exec: async () => ({ modifiedCount: 1 }),
+      })),
+    }
+    const sunatService = { validate: jest.fn() }
+    responses.forEach(r => sunatService.validate.mockResolvedValueOnce(r))
+    const emailService = { sendInvoiceAnnulledNotification: jest.fn() }
+    const usersService = {
+      findAll: jest.fn(async () => [
+        { role: UserRole.TREASURY, isActive: true, email: 't@empresa.pe' },
+        { role: UserRole.ADMIN, isActive: true, email: 'a@empresa.pe' },
+      ]),
+    }
+    const companyService = {
+      findOne: jest.fn(async () => ({ businessId: '20601234567' })),
+    }
+    const config = { get: () => undefined }
+    const service = new InvoiceRevalidationService(
+      invoiceModel as any,
+      sunatService as any,
+      companyService as any,
+      usersService as any,
+      emailService as any,
+      config as any,
+      {} as any
+    )
+    return { service, emailService, sunatService, invoiceModel, companyService }
+  }
+
+  it('records history and notifies treasury when a valid invoice is annulled', async () => {
+    const invoice = invoiceDoc(SunatValidationStatus.VALIDO_ACEPTADO)
+    const { service, emailService, sunatService } = build(
+      [invoice],
+      [result(SunatValidationStatus.ANULADO, '2')]
+    )
+
+    const summary = await service.revalidatePending()
+
+    expect(sunatService.validate).toHaveBeenCalledWith('20601234567', invoice)
+    expect(invoice.state).toBe(SunatValidationStatus.ANULADO)
+    expect(invoice.status).toBe('VOIDED')
+    expect(invoice.sunatHistory).toHaveLength(1)
+    expect(invoice.sunatHistory[0]).toMatchObject({
+      status: SunatValidationStatus.ANULADO,
+      trigger: 'scheduled',
+    })
+    expect(emailService.sendInvoiceAnnulledNotification).toHaveBeenCalledTimes(
+      1
+    )
+    expect(emailService.sendInvoiceAnnulledNotification.mock.calls[0][0]).toBe(
+      't@empresa.pe'
+    )
+    expect(summary).toMatchObject({ checked: 1, changed: 1, annulled: 1 })
+  })
+
+  it('keeps a previous valid result when SUNAT is unavailable', async () => {
+    const invoice = invoiceDoc(SunatValidationStatus.VALIDO_ACEPTADO)
+    const { service, emailService } = build(
+      [invoice],
+      [result(SunatValidationStatus.ERROR_SUNAT)]
+    )
+
+    const summary = await service.revalidatePending()
+
+    expect(invoice.state).toBe(SunatValidationStatus.VALIDO_ACEPTADO)
+    expect(invoice.status).toBe('APPROVED')
+    expect(invoice.sunatValidation.estadoCp).toBe('1')
+    expect(invoice.sunatHistory[0].status).toBe(
+      SunatValidationStatus.ERROR_SUNAT
+    )
+    expect(invoice.save).toHaveBeenCalled()
+    expect(summary).toMatchObject({ checked: 1, changed: 0, errors: 1 })
+    expect(emailService.sendInvoiceAnnulledNotification).not.toHaveBeenCalled()
+  })
+
+  it('skips rejected and voided invoices', async () => {
+    const { service, invoiceModel } = build([], [])
+
+    await service.revalidatePending()
+
+    expect(invoiceModel.find.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        status: { $nin: ['REJECTED', 'VOIDED'] },
+      }),
+    ])
+  })
+
+  it('only appends to the history when the result changes, up to a limit', async () => {
+    const unchanged = invoiceDoc(SunatValidationStatus.VALIDO_ACEPTADO)
+    unchanged.sunatHistory = [
+      {
+        status: SunatValidationStatus.VALIDO_ACEPTADO,
+        estadoCp: '1',
+        observaciones: [],
+      },
+    ] as any
+    const full = invoiceDoc(SunatValidationStatus.ERROR_SUNAT)
+    full.sunatHistory = Array.from({ length: 50 }, () => ({
+      status: SunatValidationStatus.ERROR_SUNAT,
+    })) as any
+    const { service } = build(
+      [unchanged, full],
+      [
+        result(SunatValidationStatus.VALIDO_ACEPTADO, '1'),
+        result(SunatValidationStatus.VALIDO_ACEPTADO, '1'),
+      ]
+    )
+
+    await service.revalidatePending()
+
+    expect(unchanged.sunatHistory).toHaveLength(1)
+    expect(full.sunatHistory).toHaveLength(50)
+    expect(full.sunatHistory[49]).toMatchObject({
+      status: SunatValidationStatus.VALIDO_ACEPTADO,
+    })
+  })
+
+  it('counts an invoice that fails as an error and goes on with the rest', async () => {
+    const failing = invoiceDoc(SunatValidationStatus.VALIDO_ACEPTADO)
+    failing.save.mockRejectedValueOnce(new Error('write conflict'))
+    const next = invoiceDoc(SunatValidationStatus.ERROR_SUNAT)
+    const { service } = build(
+      [failing, next],
+      [
+        result(SunatValidationStatus.ANULADO, '2'),
+        result(SunatValidationStatus.VALIDO_ACEPTADO, '1'),
+      ]
+    )
+
+    const summary = await service.revalidatePending()
+
+    expect(next.state).toBe(SunatValidationStatus.VALIDO_ACEPTADO)
+    expect(summary).toMatchObject({ checked: 1, changed: 1, errors: 1 })
+  })
+
+  it('records every attempt so skipped and failing invoices do not block the queue', async () => {
+    const failing = {
+      ...invoiceDoc(SunatValidationStatus.VALIDO_ACEPTADO),
+      _id: 'failing',
+    }
+    failing.save.mockRejectedValueOnce(new Error('write conflict'))
+    const checked = invoiceDoc(SunatValidationStatus.VALIDO_ACEPTADO)
+    const { service, invoiceModel } = build(
+      [failing, checked],
+      [
+        result(SunatValidationStatus.ERROR_SUNAT),
+        result(SunatValidationStatus.ERROR_SUNAT),
+      ]
+    )
+
+    await service.revalidatePending()
+
+    expect(invoiceModel.updateOne).toHaveBeenCalledTimes(1)
+    expect(invoiceModel.updateOne.mock.calls[0][0]).toEqual({ _id: 'failing' })
+    expect(invoiceModel.updateOne.mock.calls[0][1]).toEqual({
+      $set: { lastCheckedAt: expect.any(Date) },
+    })
+    // Un error de SUNAT conserva el resultado anterior pero deja constancia del intento
+    expect(checked.sunatValidation.estadoCp).toBe('1')
+    expect((checked as any).lastCheckedAt).toBeInstanceOf(Date)
+  })
+
+  it('marks invoices of companies without RUC as checked', async () => {
+    const invoice = {
+      ...invoiceDoc(SunatValidationStatus.ERROR_SUNAT),
+      _id: 'no-ruc',
+    }
+    const { service, invoiceModel, sunatService, companyService } = build(
+      [invoice],
+      []
+    )
+    companyService.findOne.mockResolvedValueOnce({ businessId: undefined })
+
+    await service.revalidatePending()
+
+    expect(sunatService.validate).not.toHaveBeenCalled()
+    expect(invoiceModel.updateOne.mock.calls[0][0]).toEqual({ _id: 'no-ruc' })
+  })
+})
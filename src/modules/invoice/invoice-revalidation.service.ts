@@ -0,0 +1,259 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { SchedulerRegistry } from '@nestjs/schedule'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { Invoice, InvoiceSunatCheck } from './entities/invoice.entity'
+import { SunatService } from '../sunat/sunat.service'
+import { SunatValidationStatus } from '../sunat/enums/sunat-status.enum'
+import { CompanyService } from '../company/company.service'
+import { UsersService } from '../users/services/users.service'
+import { EmailService } from '../email/email.service'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { InvoiceStatus } from './enums/invoice-status.enum'
+import { InvoiceAction } from './enums/invoice-action.enum'
+import { advanceAutomatically } from './utils/invoice-state-machine.util'
+
+const JOB_NAME = 'sunat-revalidation'
+const DEFAULT_INTERVAL_MINUTES = 360
+const DEFAULT_BATCH_SIZE = 100
+// Solo se conservan las últimas consultas para que el documento no crezca sin límite
+const SUNAT_HISTORY_LIMIT = 50
+
+// Estados que se consideran válidos; si pasan a ANULADO se avisa a tesorería
+const VALID_STATES: string[] = [
+  SunatValidationStatus.VALIDO_ACEPTADO,
+  SunatValidationStatus.VALIDO_AUTORIZADO,
+]
+
+type SunatResult = Awaited<ReturnType<SunatService['validate']>>
+
+// Mismo estado y mismos datos del comprobante que la última consulta registrada
+const sameResult = (last: InvoiceSunatCheck | undefined, result: SunatResult) =>
+  !!last &&
+  last.status === result.status &&
+  last.estadoCp === result.validation.estadoCp &&
+  last.estadoRuc === result.validation.estadoRuc &&
+  last.condDomiRuc === result.validation.condDomiRuc &&
+  JSON.stringify(last.observaciones ?? []) ===
+    JSON.stringify(result.validation.observaciones ?? [])
+
+export interface RevalidationSummary {
+  checked: number
+  changed: number
+  annulled: number
+  errors: number
+}
+
+@Injectable()
+export class InvoiceRevalidationService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(InvoiceRevalidationService.name)
+  private running = false
+
+  constructor(
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>,
+    private readonly sunatService: SunatService,
+    private readonly companyService: CompanyService,
+    private readonly usersService: UsersService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry
+  ) {}
+
+  // SUNAT_REVALIDATION_INTERVAL_MINUTES=0 desactiva el job
+  onApplicationBootstrap() {
+    const minutes = this.getNumber(
+      'SUNAT_REVALIDATION_INTERVAL_MINUTES',
+      DEFAULT_INTERVAL_MINUTES
+    )
+    if (minutes <= 0) {
+      this.logger.log('SUNAT revalidation job disabled')
+      return
+    }
+    const interval = setInterval(() => this.runScheduled(), minutes * 60000)
+    this.schedulerRegistry.addInterval(JOB_NAME, interval)
+    this.logger.log(`SUNAT revalidation scheduled every ${minutes} minutes`)
+  }
+
+  onModuleDestroy() {
+    if (this.schedulerRegistry.doesExist('interval', JOB_NAME)) {
+      this.schedulerRegistry.deleteInterval(JOB_NAME)
+    }
+  }
+
+  private async runScheduled() {
+    if (this.running) {
+      this.logger.warn('Previous SUNAT revalidation still running, skipping')
+      return
+    }
+    this.running = true
+    try {
+      await this.revalidatePending()
+    } catch (error) {
+      this.logger.error(`SUNAT revalidation failed: ${error.message}`)
+    } finally {
+      this.running = false
+    }
+  }
+
+  // Facturas con error de SUNAT o aún no pagadas, empezando por las intentadas hace más tiempo.
+  // Las rechazadas y las anuladas ya no se pagan y no se vuelven a consultar
+  async revalidatePending(): Promise<RevalidationSummary> {
+    const batchSize = this.getNumber(
+      'SUNAT_REVALIDATION_BATCH_SIZE',
+      DEFAULT_BATCH_SIZE
+    )
+    const invoices = await this.invoiceModel
+      .find({
+        status: { $nin: [InvoiceStatus.REJECTED, InvoiceStatus.VOIDED] },
+        $or: [
+          { state: SunatValidationStatus.ERROR_SUNAT },
+          {
+            status: { $ne: InvoiceStatus.PAID },
+            state: { $ne: SunatValidationStatus.ANULADO },
+          },
+        ],
+      })
+      .sort({ lastCheckedAt: 1 })
+      .limit(batchSize)
+      .exec()
+
+    const summary: RevalidationSummary = {
+      checked: 0,
+      changed: 0,
+      annulled: 0,
+      errors: 0,
+    }
+    const rucByCompany = new Map<string, string | undefined>()
+
+    for (const invoice of invoices) {
+      // Una factura que falla no detiene la revisión de las demás
+      try {
+        const companyId = String(invoice.companyId)
+        if (!rucByCompany.has(companyId)) {
+          const company = await this.companyService.findOne(companyId)
+          rucByCompany.set(companyId, company?.businessId)
+        }
+        const rucConsultante = rucByCompany.get(companyId)
+        if (!rucConsultante) {
+          this.logger.warn(`Company ${companyId} has no RUC, skipping`)
+          await this.markChecked(invoice)
+          continue
+        }
+
+        const previousState = invoice.state
+        const status = await this.revalidate(invoice, rucConsultante)
+        summary.checked++
+        if (status === SunatValidationStatus.ERROR_SUNAT) summary.errors++
+        if (invoice.state !== previousState) summary.changed++
+
+        if (
+          VALID_STATES.includes(previousState) &&
+          invoice.state === SunatValidationStatus.ANULADO
+        ) {
+          summary.annulled++
+          await this.notifyTreasury(invoice)
+        }
+      } catch (error) {
+        summary.errors++
+        this.logger.error(
+          `No se pudo revalidar la factura ${invoice.serie}-${invoice.correlativo}: ${error.message}`
+        )
+        await this.markChecked(invoice)
+      }
+    }
+
+    this.logger.log(`SUNAT revalidation finished: ${JSON.stringify(summary)}`)
+    return summary
+  }
+
+  private async revalidate(
+    invoice: Invoice,
+    rucConsultante: string
+  ): Promise<SunatValidationStatus> {
+    const result = await this.sunatService.validate(rucConsultante, invoice)
+    const history = invoice.sunatHistory ?? []
+    // Se registra lo que cambia y cada error; las consultas con el mismo resultado no
+    if (
+      result.status === SunatValidationStatus.ERROR_SUNAT ||
+      !sameResult(history[history.length - 1], result)
+    ) {
+      const check: InvoiceSunatCheck = {
+        ...result.validation,
+        status: result.status,
+        trigger: 'scheduled',
+      }
+      invoice.sunatHistory = [...history, check].slice(-SUNAT_HISTORY_LIMIT)
+    }
+
+    // Una caída de SUNAT no debe sobrescribir un resultado válido anterior
+    if (
+      result.status !== SunatValidationStatus.ERROR_SUNAT ||
+      invoice.state === SunatValidationStatus.ERROR_SUNAT
+    ) {
+      invoice.state = result.status
+      invoice.sunatValidation = result.validation
+    }
+    // Avanza las facturas que ahora son válidas y anula las que SUNAT dio de baja
+    const applied = advanceAutomatically(invoice)
+    if (applied.includes(InvoiceAction.VOID)) {
+      invoice.voidReason = 'Comprobante anulado en SUNAT'
+    }
+    invoice.lastCheckedAt = new Date()
+    await invoice.save()
+    return result.status
+  }
+
+  // Las facturas omitidas o con error pasan al final de la cola y no bloquean las demás
+  private async markChecked(invoice: Invoice) {
+    try {
+      await this.invoiceModel
+        .updateOne(
+          { _id: invoice._id },
+          { $set: { lastCheckedAt: new Date() } }
+        )
+        .exec()
+    } catch (error) {
+      this.logger.error(
+        `No se pudo registrar la revisión de la factura ${invoice.serie}-${invoice.correlativo}: ${error.message}`
+      )
+    }
+  }
+
+  private async notifyTreasury(invoice: Invoice) {
+    const treasury = (
+      await this.usersService.findAll(String(invoice.companyId))
+    ).filter(u => u.role === UserRole.TREASURY && u.isActive)
+
+    for (const user of treasury) {
+      if (!user.email) continue
+      try {
+        await this.emailService.sendInvoiceAnnulledNotification(user.email, {
+          invoiceNumber: `${invoice.serie}-${invoice.correlativo}`,
+          rucEmisor: invoice.rucEmisor,
+          fechaEmision: invoice.fechaEmision,
+          montoTotal: invoice.montoTotal,
+          moneda: invoice.moneda,
+          paymentStatus: invoice.paymentStatus,
+        })
+      } catch (error) {
+        this.logger.error(
+          `No se pudo notificar la anulación a ${user.email}: ${error.message}`
+        )
+      }
+    }
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key), 10)
+    return isNaN(value) ? defaultValue : value
+  }
+}
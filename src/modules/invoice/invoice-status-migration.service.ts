@@ -0,0 +1,69 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { Invoice } from './entities/invoice.entity'
+import { InvoiceStatus } from './enums/invoice-status.enum'
+import { SunatValidationStatus } from '../sunat/enums/sunat-status.enum'
+
+const VALID_STATES = [
+  SunatValidationStatus.VALIDO_ACEPTADO,
+  SunatValidationStatus.VALIDO_AUTORIZADO,
+]
+
+// Equivalencias de los antiguos status/paymentStatus; el orden importa
+const LEGACY_STATUS_RULES: {
+  filter: Record<string, unknown>
+  status: InvoiceStatus
+}[] = [
+  {
+    filter: { status: 'APPROVED', paymentStatus: 'APPROVED' },
+    status: InvoiceStatus.SCHEDULED,
+  },
+  {
+    filter: { status: 'APPROVED', paymentStatus: 'REJECTED' },
+    status: InvoiceStatus.REJECTED,
+  },
+  {
+    filter: {
+      status: 'PENDING',
+      state: { $in: VALID_STATES },
+      actaAceptacion: { $exists: true },
+    },
+    status: InvoiceStatus.ACTA_RECEIVED,
+  },
+  {
+    filter: { status: 'PENDING', state: { $in: VALID_STATES } },
+    status: InvoiceStatus.SUNAT_VALIDATED,
+  },
+  { filter: { status: 'PENDING' }, status: InvoiceStatus.UPLOADED },
+]
+
+// Convierte las facturas con los estados anteriores al ciclo de vida actual
+@Injectable()
+export class InvoiceStatusMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(InvoiceStatusMigrationService.name)
+
+  constructor(
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>
+  ) {}
+
+  async onApplicationBootstrap() {
+    const migrated = await this.migrateLegacyStatuses()
+    if (migrated) {
+      this.logger.log(`Legacy invoice statuses migrated: ${migrated}`)
+    }
+  }
+
+  async migrateLegacyStatuses(): Promise<number> {
+    let migrated = 0
+    // Colección nativa: el esquema ya no admite PENDING como estado
+    for (const { filter, status } of LEGACY_STATUS_RULES) {
+      const result = await this.invoiceModel.collection.updateMany(filter, {
+        $set: { status },
+      })
+      migrated += result.modifiedCount
+    }
+    return migrated
+  }
+}
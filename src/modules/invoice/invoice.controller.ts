@@ -15,12 +15,19 @@ import {
   HttpException,
   Res,
   UploadedFiles,
-  Req,
   Put,
+  ParseEnumPipe,
 } from '@nestjs/common'
 import { InvoiceService } from './invoice.service'
-import { CreateInvoiceDto, InvoiceStatus } from './dto/create-invoice.dto'
+import { CreateInvoiceDto } from './dto/create-invoice.dto'
 import { UpdateInvoiceDto } from './dto/update-invoice.dto'
+import { InvoiceTransitionDto } from './dto/invoice-transition.dto'
+import {
+  RegisterDetraccionDepositDto,
+  UpdateDetraccionDto,
+} from './dto/detraccion.dto'
+import { InvoiceStatus } from './enums/invoice-status.enum'
+import { InvoiceAction } from './enums/invoice-action.enum'
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
 import { RolesGuard } from '../auth/guards/roles.guard'
 import { Roles } from '../auth/decorators/roles.decorator'
@@ -28,6 +35,9 @@ import { UserRole } from '../auth/enums/user-role.enum'
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express'
 import { Response } from 'express'
 import { EmailService } from '../email/email.service'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+import { inlineDisposition } from '../storage/utils/content-disposition.util'
 
 @Controller('invoices')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -39,11 +49,6 @@ export class InvoiceController {
     private readonly emailService: EmailService
   ) { }
 
-  @Get('token-sunat')
-  getToken() {
-    return this.invoiceService.generateTokenSunat()
-  }
-
   @Post('validate-from-image')
   @UseInterceptors(
     FileInterceptor('invoiceImage', {
@@ -67,7 +72,10 @@ export class InvoiceController {
       },
     })
   )
-  async validateInvoice(@UploadedFile() file: Express.Multer.File) {
+  async validateInvoice(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentAuth() auth: AuthContext
+  ) {
     this.logger.log(`Received file: ${file?.originalname}, size: ${file?.size}`)
 
     if (!file || !file.buffer) {
@@ -81,7 +89,8 @@ export class InvoiceController {
     try {
       const result = await this.invoiceService.validateInvoiceFromImage(
         file.buffer,
-        file.mimetype
+        file.mimetype,
+        auth.companyId
       )
       this.logger.log(
         `Validation result for ${file.originalname}: ${JSON.stringify(result)}`
@@ -105,8 +114,11 @@ export class InvoiceController {
   @Post()
   @Roles(UserRole.ADMIN, UserRole.PROVIDER)
   @HttpCode(HttpStatus.CREATED)
-  create(@Body() createInvoiceDto: CreateInvoiceDto, @Req() req: any) {
-    const companyId = req.user.companyId
+  create(
+    @Body() createInvoiceDto: CreateInvoiceDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    const companyId = auth.companyId
     return this.invoiceService.create(createInvoiceDto, companyId)
   }
 
@@ -119,15 +131,15 @@ export class InvoiceController {
     UserRole.ACCOUNTING,
     UserRole.TREASURY
   )
-  findAll(@Req() req: any) {
-    const companyId = req.user.companyId
+  findAll(@CurrentAuth() auth: AuthContext) {
+    const companyId = auth.companyId
     return this.invoiceService.findAll(companyId)
   }
 
   @Get(':id')
   @Roles(UserRole.ADMIN, UserRole.PROVIDER, UserRole.USER, UserRole.ACCOUNTING)
-  findOne(@Param('id') id: string, @Req() req: any) {
-    const companyId = req.user.companyId
+  findOne(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    const companyId = auth.companyId
     return this.invoiceService.findOne(id, companyId)
   }
 
@@ -149,9 +161,9 @@ export class InvoiceController {
   update(
     @Param('id') id: string,
     @Body() updateInvoiceDto: UpdateInvoiceDto,
-    @Req() req: any
+    @CurrentAuth() auth: AuthContext
   ) {
-    const companyId = req.user.companyId
+    const companyId = auth.companyId
     return this.invoiceService.update(id, updateInvoiceDto, companyId)
   }
 
@@ -160,22 +172,79 @@ export class InvoiceController {
   async updateStatus(
     @Param('id') id: string,
     @Body() body: { status: InvoiceStatus; reason?: string },
-    @Req() req: any
+    @CurrentAuth() auth: AuthContext
   ) {
-    const companyId = req.user.companyId
+    const companyId = auth.companyId
     return this.invoiceService.updateStatus(
       id,
       body.status,
       companyId,
+      auth,
       body.reason
     )
   }
 
+  // Acciones que el usuario puede ejecutar desde el estado actual de la factura
+  @Get(':id/transitions')
+  getTransitions(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.invoiceService.getTransitions(id, auth.companyId, auth)
+  }
+
+  @Post(':id/transitions/:action')
+  @HttpCode(HttpStatus.OK)
+  applyTransition(
+    @Param('id') id: string,
+    @Param('action', new ParseEnumPipe(InvoiceAction)) action: InvoiceAction,
+    @Body() body: InvoiceTransitionDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.invoiceService.transition(
+      id,
+      action,
+      auth.companyId,
+      auth,
+      body.reason
+    )
+  }
+
+  // Detracciones por depositar en el Banco de la Nación
+  @Get('detracciones/pending')
+  @Roles(UserRole.TREASURY, UserRole.ACCOUNTING, UserRole.ADMIN)
+  findPendingDetracciones(@CurrentAuth() auth: AuthContext) {
+    return this.invoiceService.findPendingDetracciones(auth.companyId)
+  }
+
+  @Patch(':id/detraccion')
+  @Roles(UserRole.ACCOUNTING)
+  updateDetraccion(
+    @Param('id') id: string,
+    @Body() body: UpdateDetraccionDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.invoiceService.updateDetraccion(id, body, auth.companyId)
+  }
+
+  @Post(':id/detraccion/deposit')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.OK)
+  registerDetraccionDeposit(
+    @Param('id') id: string,
+    @Body() body: RegisterDetraccionDepositDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.invoiceService.registerDetraccionDeposit(
+      id,
+      body,
+      auth.companyId,
+      auth.userId
+    )
+  }
+
   @Delete(':id')
   @Roles(UserRole.ADMIN, UserRole.PROVIDER)
   @HttpCode(HttpStatus.NO_CONTENT)
-  remove(@Param('id') id: string, @Req() req: any) {
-    const companyId = req.user.companyId
+  remove(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    const companyId = auth.companyId
     return this.invoiceService.remove(id, companyId)
   }
 
@@ -206,7 +275,11 @@ export class InvoiceController {
         HttpStatus.BAD_REQUEST
       )
     }
-    return this.invoiceService.uploadActaAceptacion(id, file.buffer)
+    return this.invoiceService.uploadActaAceptacion(
+      id,
+      file.buffer,
+      file.mimetype
+    )
   }
 
   @Get(':id/acta-aceptacion/download')
@@ -214,42 +287,48 @@ export class InvoiceController {
     const { buffer, filename } =
       await this.invoiceService.downloadActaAceptacion(id)
     res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', `inline; filename=${filename}`)
+    res.setHeader('Content-Disposition', inlineDisposition(filename))
     res.send(buffer)
   }
 
+  @Get(':id/acta-aceptacion/url')
+  getActaAceptacionUrl(
+    @Param('id') id: string,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.invoiceService.getFileDownloadUrl(id, auth.companyId, 'acta')
+  }
+
   @Get(':id/pdf')
   async getInvoicePdf(
     @Param('id') id: string,
-    @Req() req: any,
+    @CurrentAuth() auth: AuthContext,
     @Res() res: Response
   ) {
-    const companyId = req.user.companyId
-    const invoice = await this.invoiceService.findOne(id, companyId)
-    if (!invoice || !invoice.pdfFile) {
-      throw new HttpException('Factura no encontrada', HttpStatus.NOT_FOUND)
-    }
-    const buffer = Buffer.from(invoice.pdfFile, 'base64')
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader(
-      'Content-Disposition',
-      `inline; filename=factura-${invoice.serie}-${invoice.correlativo}.pdf`
+    const companyId = auth.companyId
+    const { buffer, filename } = await this.invoiceService.downloadInvoicePdf(
+      id,
+      companyId
     )
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', inlineDisposition(filename))
     res.send(buffer)
   }
 
+  @Get(':id/pdf/url')
+  getInvoicePdfUrl(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.invoiceService.getFileDownloadUrl(id, auth.companyId, 'pdf')
+  }
+
   @Post('upload')
   @UseInterceptors(FilesInterceptor('files', 2))
   async uploadInvoiceAndActa(
     @UploadedFiles() files: Express.Multer.File[],
-    @Req() req: any
+    @CurrentAuth() auth: AuthContext
   ) {
     try {
       this.logger.debug('Iniciando subida de factura y acta')
-      const result = await this.invoiceService.uploadInvoiceAndActa(
-        files,
-        req.user
-      )
+      const result = await this.invoiceService.uploadInvoiceAndActa(files, auth)
       this.logger.debug('Archivos subidos exitosamente')
       return {
         success: true,
@@ -258,6 +337,9 @@ export class InvoiceController {
       }
     } catch (error) {
       this.logger.error('Error al subir archivos:', error)
+      if (error instanceof HttpException) {
+        throw error
+      }
       throw new HttpException(
         {
           message: 'Error al subir archivos',
@@ -271,20 +353,23 @@ export class InvoiceController {
   @Put(':id/reject')
   async rejectInvoice(
     @Param('id') id: string,
-    @Body() body: { rejectionReason: string }
+    @Body() body: { rejectionReason: string },
+    @CurrentAuth() auth: AuthContext
   ) {
-    return this.invoiceService.rejectInvoice(id, body.rejectionReason)
+    return this.invoiceService.rejectInvoice(id, body.rejectionReason, auth)
   }
 
   @Put(':id/payment-status')
   @Roles(UserRole.TREASURY)
   async updatePaymentStatus(
     @Param('id') id: string,
-    @Body() body: { status: 'APPROVED' | 'REJECTED'; rejectionReason?: string }
+    @Body() body: { status: 'APPROVED' | 'REJECTED'; rejectionReason?: string },
+    @CurrentAuth() auth: AuthContext
   ) {
     return this.invoiceService.updatePaymentStatus(
       id,
       body.status,
+      auth,
       body.rejectionReason
     )
   }
@@ -2,22 +2,42 @@ import { Module } from '@nestjs/common'
 import { MongooseModule } from '@nestjs/mongoose'
 import { InvoiceController } from './invoice.controller'
 import { InvoiceService } from './invoice.service'
+import { InvoiceRevalidationService } from './invoice-revalidation.service'
+import { InvoiceFileMigrationService } from './invoice-file-migration.service'
+import { InvoiceStatusMigrationService } from './invoice-status-migration.service'
+import { InvoiceCurrencyMigrationService } from './invoice-currency-migration.service'
 import { Invoice, InvoiceSchema } from './entities/invoice.entity'
 import { ProjectModule } from '../project/project.module'
-import { HttpModule } from '@nestjs/axios'
 import { EmailModule } from '../email/email.module'
 import { UsersModule } from '../users/users.module'
+import { ExtractionModule } from '../extraction/extraction.module'
+import { SunatModule } from '../sunat/sunat.module'
+import { CompanyModule } from '../company/company.module'
+import { ComprobanteModule } from '../comprobante/comprobante.module'
+import { StorageModule } from '../storage/storage.module'
+import { ExchangeRateModule } from '../exchange-rate/exchange-rate.module'
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Invoice.name, schema: InvoiceSchema }]),
     ProjectModule,
-    HttpModule,
     EmailModule,
     UsersModule,
+    ExtractionModule,
+    SunatModule,
+    CompanyModule,
+    ComprobanteModule,
+    StorageModule,
+    ExchangeRateModule,
   ],
   controllers: [InvoiceController],
-  providers: [InvoiceService],
+  providers: [
+    InvoiceService,
+    InvoiceRevalidationService,
+    InvoiceFileMigrationService,
+    InvoiceStatusMigrationService,
+    InvoiceCurrencyMigrationService,
+  ],
   exports: [InvoiceService],
 })
 export class InvoiceModule {}
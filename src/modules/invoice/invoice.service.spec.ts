@@ -0,0 +1,158 @@
+import { InvoiceService } from './invoice.service'
+import { CreateInvoiceDto } from './dto/create-invoice.dto'
+import { InvoiceStatus } from './enums/invoice-status.enum'
+import { SunatValidationStatus } from '../sunat/enums/sunat-status.enum'
+
+// Los esquemas de Mongoose y los servicios con dependencias nativas se reemplazan por dobles
+jest.mock('./entities/invoice.entity', () => ({ Invoice: { name: 'Invoice' } }))
+jest.mock('../users/services/users.service', () => ({ UsersService: class {} }))
+jest.mock('../extraction/extraction.service', () => ({
+  ExtractionService: class {},
+}))
+jest.mock('../storage/storage.service', () => ({ StorageService: class {} }))
+jest.mock('../comprobante/comprobante.service', () => ({
+  ComprobanteService: class {},
+}))
+
+const COMPANY_ID = '64b7f0c2a1b2c3d4e5f60718'
+
+// Campos obligatorios del esquema de Invoice
+const REQUIRED_FIELDS = [
+  'correlativo',
+  'fechaEmision',
+  'moneda',
+  'montoTotal',
+  'rucEmisor',
+  'serie',
+  'tipoComprobante',
+  'status',
+  'state',
+  'companyId',
+]
+
+const manualInvoice = (): CreateInvoiceDto => ({
+  invoiceNumber: 'F001-123',
+  rucEmisor: '20100066603',
+  serie: 'F001',
+  correlativo: '123',
+  issueDate: new Date('2025-06-01T12:00:00.000Z'),
+  dueDate: new Date('2025-07-01T12:00:00.000Z'),
+  items: [
+    { description: 'Servicio', quantity: 1, unitPrice: 1000, subtotal: 1000 },
+  ],
+  subtotal: 1000,
+  taxRate: 0.18,
+  taxAmount: 180,
+  total: 1180,
+  moneda: 'USD',
+  tipoOperacion: '1001',
+  detraccion: { codigoBienServicio: '037' },
+})
+
+function build() {
+  const saved: Record<string, any>[] = []
+  // Doble del modelo: guarda el documento solo si trae todos los campos obligatorios
+  const invoiceModel = jest.fn(function (this: any, doc: Record<string, any>) {
+    Object.assign(this, doc)
+    this.save = jest.fn(async () => {
+      const missing = REQUIRED_FIELDS.filter(
+        field => this[field] === undefined || this[field] === null
+      )
+      if (missing.length) {
+        throw new Error(`Invoice validation failed: ${missing.join(', ')}`)
+      }
+      saved.push(this)
+      return this
+    })
+  })
+  const comprobanteService = {
+    assertNotDuplicate: jest.fn(
+      async (_companyId: string, _data: object) => '20100066603-01-F001-123'
+    ),
+  }
+  const exchangeRateService = {
+    toPen: jest.fn(
+      async (amount: number, _currency: string, _date: string) => ({
+        tipoCambio: 3.7,
+        montoPen: amount * 3.7,
+      })
+    ),
+  }
+  const service = new InvoiceService(
+    invoiceModel as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    comprobanteService as any,
+    {} as any,
+    exchangeRateService as any
+  )
+  return { service, saved, comprobanteService, exchangeRateService }
+}
+
+describe('InvoiceService', () => {
+  describe('create', () => {
+    it('persists a manual invoice with the fields the schema requires', async () => {
+      const { service, saved, comprobanteService, exchangeRateService } =
+        build()
+
+      const invoice: Record<string, any> = await service.create(
+        manualInvoice(),
+        COMPANY_ID
+      )
+
+      expect(saved).toHaveLength(1)
+      expect(invoice).toMatchObject({
+        fechaEmision: '01/06/2025',
+        montoTotal: 1180,
+        moneda: 'USD',
+        tipoComprobante: '01',
+        comprobanteKey: '20100066603-01-F001-123',
+        companyId: COMPANY_ID,
+        status: InvoiceStatus.UPLOADED,
+        state: SunatValidationStatus.ERROR_SUNAT,
+        tipoCambio: 3.7,
+        montoTotalPen: 4366,
+      })
+      expect(comprobanteService.assertNotDuplicate.mock.calls[0][1]).toEqual({
+        rucEmisor: '20100066603',
+        tipoComprobante: '01',
+        serie: 'F001',
+        correlativo: '123',
+      })
+      expect(exchangeRateService.toPen.mock.calls[0]).toEqual([
+        1180,
+        'USD',
+        '01/06/2025',
+      ])
+      // La detracción se calcula sobre el total de la factura
+      expect(invoice.detraccion.monto).toBeGreaterThan(0)
+    })
+
+    it('keeps the data extracted from the comprobante', async () => {
+      const { service } = build()
+
+      const invoice: Record<string, any> = await service.create(
+        {
+          rucEmisor: '20100066603',
+          tipoComprobante: '01',
+          serie: 'F001',
+          correlativo: '124',
+          fechaEmision: '14/05/2025',
+          montoTotal: 118,
+          moneda: 'PEN',
+          state: SunatValidationStatus.VALIDO_ACEPTADO,
+        } as unknown as CreateInvoiceDto,
+        COMPANY_ID
+      )
+
+      expect(invoice).toMatchObject({
+        fechaEmision: '14/05/2025',
+        montoTotal: 118,
+        state: SunatValidationStatus.VALIDO_ACEPTADO,
+      })
+    })
+  })
+})
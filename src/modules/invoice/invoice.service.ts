@@ -5,32 +5,71 @@ import {
   Logger,
   NotFoundException,
 } from '@nestjs/common'
-import { CreateInvoiceDto, InvoiceStatus } from './dto/create-invoice.dto'
+import { CreateInvoiceDto } from './dto/create-invoice.dto'
 import { UpdateInvoiceDto } from './dto/update-invoice.dto'
 import { InjectModel } from '@nestjs/mongoose'
 import { Model } from 'mongoose'
 import { Invoice } from './entities/invoice.entity'
-import { HttpService } from '@nestjs/axios'
-import * as Tesseract from 'tesseract.js'
-import * as pdfParse from 'pdf-parse'
 import * as fs from 'fs'
 import * as path from 'path'
-import { firstValueFrom } from 'rxjs'
 import { EmailService } from '../email/email.service'
 import { UsersService } from '../users/services/users.service'
 import { UserRole } from '../auth/enums/user-role.enum'
-
-interface InvoiceData {
-  rucEmisor?: string
-  tipoComprobante?: string // Ej: '01' para Factura, '03' para Boleta
-  serie?: string
-  correlativo?: string
-  fechaEmision?: string // Formato YYYY-MM-DD
-  montoTotal?: number
-  moneda?: string
-  // Otros campos si son necesarios para la API de SUNAT
+import { ExtractionService } from '../extraction/extraction.service'
+import {
+  ExtractionResult,
+  FieldConfidence,
+} from '../extraction/interfaces/extraction-engine.interface'
+import { UblParseError } from '../extraction/parsers/ubl-invoice.parser'
+import {
+  missingEssentialFields,
+  normalizeFecha,
+  tipoComprobanteFromSerie,
+} from '../extraction/utils/invoice-fields.util'
+import { SunatService } from '../sunat/sunat.service'
+import { SunatValidationStatus } from '../sunat/enums/sunat-status.enum'
+import { CompanyService } from '../company/company.service'
+import { ComprobanteService } from '../comprobante/comprobante.service'
+import { StorageService } from '../storage/storage.service'
+import { StoredFile } from '../storage/entities/stored-file.entity'
+import { InvoiceStatus } from './enums/invoice-status.enum'
+import { DetraccionStatus } from './enums/detraccion-status.enum'
+import { computeDetraccion } from './utils/detraccion.util'
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service'
+import { normalizeCurrency } from '../exchange-rate/utils/currency.util'
+import { Currency } from '../exchange-rate/enums/currency.enum'
+import {
+  RegisterDetraccionDepositDto,
+  UpdateDetraccionDto,
+} from './dto/detraccion.dto'
+import { InvoiceAction } from './enums/invoice-action.enum'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+import {
+  advanceAutomatically,
+  applyTransition,
+  AvailableTransition,
+  InvoiceTransitionError,
+  listTransitions,
+  TransitionActor,
+  TransitionErrorCode,
+} from './utils/invoice-state-machine.util'
+
+export type InvoiceFileKind = 'pdf' | 'acta'
+
+const TRANSITION_ERROR_STATUS: Record<TransitionErrorCode, HttpStatus> = {
+  invalid_state: HttpStatus.CONFLICT,
+  forbidden: HttpStatus.FORBIDDEN,
+  blocked: HttpStatus.UNPROCESSABLE_ENTITY,
+  reason_required: HttpStatus.BAD_REQUEST,
 }
 
+// El acta solo puede cambiarse mientras la factura no haya sido aprobada
+const ACTA_EDITABLE_STATUSES: string[] = [
+  InvoiceStatus.UPLOADED,
+  InvoiceStatus.SUNAT_VALIDATED,
+  InvoiceStatus.ACTA_RECEIVED,
+]
+
 @Injectable()
 export class InvoiceService {
   private readonly logger = new Logger(InvoiceService.name)
@@ -39,9 +78,14 @@ export class InvoiceService {
   constructor(
     @InjectModel(Invoice.name)
     private invoiceModel: Model<Invoice>,
-    private readonly httpService: HttpService,
     private readonly emailService: EmailService,
-    private readonly usersService: UsersService
+    private readonly usersService: UsersService,
+    private readonly extractionService: ExtractionService,
+    private readonly sunatService: SunatService,
+    private readonly companyService: CompanyService,
+    private readonly comprobanteService: ComprobanteService,
+    private readonly storageService: StorageService,
+    private readonly exchangeRateService: ExchangeRateService
   ) {
     // Asegurarse de que el directorio temporal existe y tiene permisos
     try {
@@ -67,11 +111,34 @@ export class InvoiceService {
     createInvoiceDto: CreateInvoiceDto,
     companyId: string
   ): Promise<Invoice> {
+    const identifiers = {
+      rucEmisor: createInvoiceDto.rucEmisor,
+      tipoComprobante:
+        createInvoiceDto.tipoComprobante ??
+        tipoComprobanteFromSerie(createInvoiceDto.serie),
+      serie: createInvoiceDto.serie,
+      correlativo: createInvoiceDto.correlativo,
+    }
+    const comprobanteKey = await this.comprobanteService.assertNotDuplicate(
+      companyId,
+      identifiers
+    )
+    // El alta manual envía issueDate y total y aún no se consultó en SUNAT: la revalidación
+    // programada la valida. Los datos extraídos del comprobante ya traen estos campos
     const createdInvoice = new this.invoiceModel({
+      fechaEmision: createInvoiceDto.issueDate
+        ? normalizeFecha(new Date(createInvoiceDto.issueDate).toISOString())
+        : undefined,
+      montoTotal: createInvoiceDto.total,
+      state: SunatValidationStatus.ERROR_SUNAT,
       ...createInvoiceDto,
+      ...identifiers,
+      comprobanteKey,
       companyId,
-      status: 'PENDING',
+      status: InvoiceStatus.UPLOADED,
     })
+    await this.applyExchangeRate(createdInvoice)
+    this.applyDetraccion(createdInvoice)
     return createdInvoice.save()
   }
 
@@ -145,6 +212,7 @@ export class InvoiceService {
     id: string,
     status: InvoiceStatus,
     companyId: string,
+    actor: TransitionActor,
     reason?: string
   ): Promise<Invoice> {
     try {
@@ -152,13 +220,30 @@ export class InvoiceService {
         `[DEBUG] Iniciando actualización de estado de factura ${id} a ${status}`
       )
 
-      const invoice = await this.invoiceModel.findById(id)
+      const invoice = await this.invoiceModel.findOne({ _id: id, companyId })
       if (!invoice) {
         this.logger.error(`Factura con ID ${id} no encontrada`)
         throw new NotFoundException(`Factura con ID ${id} no encontrada`)
       }
 
-      invoice.status = status
+      if (
+        status !== InvoiceStatus.APPROVED &&
+        status !== InvoiceStatus.REJECTED
+      ) {
+        throw new HttpException(
+          'Este endpoint solo aprueba o rechaza facturas; use /invoices/:id/transitions para otras acciones.',
+          HttpStatus.BAD_REQUEST
+        )
+      }
+
+      this.runTransition(
+        invoice,
+        status === InvoiceStatus.APPROVED
+          ? InvoiceAction.APPROVE
+          : InvoiceAction.REJECT,
+        actor,
+        reason
+      )
       invoice.rejectionReason = reason
       invoice.date = new Date()
       const updatedInvoice = await invoice.save()
@@ -245,7 +330,7 @@ export class InvoiceService {
         `[DEBUG] Error al actualizar estado de factura ${id}: ${error.message}`,
         error.stack
       )
-      if (error instanceof NotFoundException) {
+      if (error instanceof HttpException) {
         throw error
       }
       throw new HttpException(
@@ -255,19 +340,31 @@ export class InvoiceService {
     }
   }
 
-  async uploadActaAceptacion(id: string, fileBuffer: Buffer): Promise<Invoice> {
+  async uploadActaAceptacion(
+    id: string,
+    fileBuffer: Buffer,
+    mimeType = 'application/pdf'
+  ): Promise<Invoice> {
     const invoice = await this.invoiceModel.findById(id)
     if (!invoice) {
       throw new NotFoundException(`Factura con ID ${id} no encontrada`)
     }
+    if (!ACTA_EDITABLE_STATUSES.includes(invoice.status)) {
+      throw new HttpException(
+        `No se puede cambiar el acta de una factura en estado ${invoice.status}.`,
+        HttpStatus.CONFLICT
+      )
+    }
 
-    // Convertir el buffer a base64 para almacenamiento
-    const base64File = fileBuffer.toString('base64')
-    return this.invoiceModel.findByIdAndUpdate(
-      id,
-      { actaAceptacion: base64File },
-      { new: true }
-    )
+    invoice.actaAceptacion = await this.storageService.store(fileBuffer, {
+      folder: 'invoices/actas',
+      mimeType,
+      allowedMimeTypes: ['application/pdf'],
+      filename: this.buildFilename(invoice, 'acta'),
+    })
+    // Si la factura ya fue validada en SUNAT pasa a ACTA_RECEIVED
+    advanceAutomatically(invoice)
+    return invoice.save()
   }
 
   async downloadActaAceptacion(
@@ -284,11 +381,50 @@ export class InvoiceService {
       )
     }
 
-    // Convertir base64 a buffer
-    const buffer = Buffer.from(invoice.actaAceptacion, 'base64')
-    const filename = `acta-aceptacion-${invoice.serie}-${invoice.correlativo}.pdf`
+    const buffer = await this.storageService.read(invoice.actaAceptacion)
+    return { buffer, filename: this.buildFilename(invoice, 'acta') }
+  }
 
-    return { buffer, filename }
+  async downloadInvoicePdf(
+    id: string,
+    companyId: string
+  ): Promise<{ buffer: Buffer; filename: string }> {
+    const invoice = await this.findOne(id, companyId)
+    if (!invoice.pdfFile) {
+      throw new NotFoundException(
+        `No se encontró el PDF de la factura con ID ${id}`
+      )
+    }
+    const buffer = await this.storageService.read(invoice.pdfFile)
+    return { buffer, filename: this.buildFilename(invoice, 'pdf') }
+  }
+
+  // URL firmada y temporal para descargar el archivo sin pasar por la API
+  async getFileDownloadUrl(
+    id: string,
+    companyId: string,
+    kind: InvoiceFileKind
+  ): Promise<{ url: string; expiresAt: Date }> {
+    const invoice = await this.findOne(id, companyId)
+    const file: StoredFile | undefined =
+      kind === 'acta' ? invoice.actaAceptacion : invoice.pdfFile
+    if (!file) {
+      throw new NotFoundException(
+        `La factura con ID ${id} no tiene ${kind === 'acta' ? 'acta de aceptación' : 'PDF'}`
+      )
+    }
+    return this.storageService.getDownloadUrl(
+      file,
+      this.buildFilename(invoice, kind)
+    )
+  }
+
+  private buildFilename(
+    invoice: Pick<Invoice, 'serie' | 'correlativo'>,
+    kind: InvoiceFileKind
+  ): string {
+    const prefix = kind === 'acta' ? 'acta-aceptacion' : 'factura'
+    return `${prefix}-${invoice.serie}-${invoice.correlativo}.pdf`
   }
 
   async remove(id: string, companyId: string): Promise<void> {
@@ -300,43 +436,15 @@ export class InvoiceService {
     }
   }
 
-  ////SUNAT
-
-  async generateTokenSunat() {
-    const api = `https://api-seguridad.sunat.gob.pe/v1/clientesextranet/${process.env.ID_SUNAT}/oauth2/token/`
-    //x-www-form-urlencoded
-    const headers = {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    }
-
-    const grant_type = 'client_credentials'
-    const scope = 'https://api.sunat.gob.pe/v1/contribuyente/contribuyentes'
-    const client_id = process.env.ID_SUNAT
-    const client_secret = process.env.KEY_SUNAT
-
-    const data = {
-      grant_type: grant_type,
-      scope: scope,
-      client_id: client_id,
-      client_secret: client_secret,
-    }
-    try {
-      const response = await firstValueFrom(
-        this.httpService.post(api, data, { headers })
-      )
-      return response.data
-    } catch (error) {
-      console.log(error)
-    }
-  }
-
   async validateInvoiceFromImage(
     fileBuffer: Buffer,
-    mimeType: string
+    mimeType: string,
+    companyId: string
   ): Promise<any> {
     this.logger.log('Starting file processing...')
     let extractedData: any
-    let pdfBase64: string | undefined
+    let extractionConfidence: FieldConfidence | undefined
+    let pdfFile: StoredFile | undefined
 
     try {
       if (!fileBuffer || fileBuffer.length === 0) {
@@ -346,149 +454,62 @@ export class InvoiceService {
         )
       }
 
-      if (mimeType === 'application/pdf') {
-        pdfBase64 = fileBuffer.toString('base64')
-      }
-
-      if (mimeType.startsWith('image/') || mimeType === 'application/pdf') {
-        this.logger.log(
-          `Processing ${mimeType === 'application/pdf' ? 'PDF' : 'image'} with OCR...`
-        )
-
-        this.logger.debug(`File buffer length: ${fileBuffer.length}`)
-
-        try {
-          let text: string
-
-          if (mimeType === 'application/pdf') {
-            try {
-              this.logger.debug('Extrayendo texto del PDF...')
-              const pdfData = await pdfParse(fileBuffer)
-              text = pdfData.text
-              this.logger.debug(
-                `Texto extraído del PDF: ${text.length} caracteres`
-              )
-
-              if (!text || text.trim().length === 0) {
-                throw new Error('No se pudo extraer texto del PDF')
-              }
-            } catch (error) {
-              this.logger.error(
-                `Error al extraer texto del PDF: ${error.message}`
-              )
-              throw new HttpException(
-                'Error al leer el PDF. Verifique que el archivo sea válido y contenga texto.',
-                HttpStatus.BAD_REQUEST
-              )
-            }
-          } else {
-            // Para imágenes, usamos Tesseract como antes
-            const worker = await Tesseract.createWorker('spa')
-            const result = await worker.recognize(fileBuffer)
-            await worker.terminate()
-            text = result.data.text
-          }
+      const extraction = await this.extractInvoiceData(fileBuffer, mimeType)
+      extractedData = extraction.data
+      extractionConfidence = extraction.confidence
 
-          if (!text || text.trim().length === 0) {
-            this.logger.error('No se pudo extraer texto del archivo')
-            throw new HttpException(
-              'No se pudo extraer texto del archivo. Verifique que el archivo sea legible.',
-              HttpStatus.BAD_REQUEST
-            )
-          }
+      // Se rechaza el duplicado antes de consultar a SUNAT
+      await this.comprobanteService.assertNotDuplicate(companyId, extractedData)
 
-          this.logger.debug(`Extracted text length: ${text.length}`)
-          extractedData = this.extractDataFromText(text)
+      // Si SUNAT no responde la factura se registra como ERROR_SUNAT y se revalida luego
+      this.logger.log('Calling SUNAT validation service...', extractedData)
+      const rucConsultante = await this.getCompanyRuc(companyId)
+      const validationResult = await this.sunatService.validate(
+        rucConsultante,
+        extractedData
+      )
 
-          if (!this.areEssentialDataPresent(extractedData)) {
-            this.logger.warn('Essential data missing after extraction.')
-            throw new HttpException(
-              'No se pudieron extraer los datos necesarios del archivo. Verifique el formato.',
-              HttpStatus.BAD_REQUEST
-            )
-          }
-        } catch (error) {
-          this.logger.error(`Error during processing: ${error.message}`)
-          throw new HttpException(
-            'Error al procesar el archivo. Verifique que el archivo sea legible.',
-            HttpStatus.BAD_REQUEST
-          )
-        }
-      } else if (mimeType === 'application/xml' || mimeType === 'text/xml') {
-        // Procesamiento de XML
-        this.logger.log('Processing XML file...')
-        throw new HttpException(
-          'Procesamiento de XML aún no implementado.',
-          HttpStatus.NOT_IMPLEMENTED
-        )
+      // El PDF se guarda solo cuando la factura va a registrarse: si la extracción o la
+      // consulta fallan no quedan objetos huérfanos en el almacenamiento
+      if (mimeType === 'application/pdf') {
+        pdfFile = await this.storageService.store(fileBuffer, {
+          folder: 'invoices/pdf',
+          mimeType,
+          allowedMimeTypes: ['application/pdf'],
+          filename: this.buildFilename(extractedData, 'pdf'),
+        })
       }
 
-      // Llamada al API de SUNAT solo si tenemos datos extraídos
-      if (extractedData) {
-        this.logger.log('Calling SUNAT validation service...', extractedData)
-        const sunatApiUrl = `https://api.sunat.gob.pe/v1/contribuyente/contribuyentes/10450256451/validarcomprobante`
-        const sunatToken = await this.generateTokenSunat()
-
-        if (!sunatApiUrl || !sunatToken) {
-          this.logger.error('SUNAT API configuration missing')
-          throw new HttpException(
-            'Configuración de SUNAT incompleta. Contacte al administrador.',
-            HttpStatus.INTERNAL_SERVER_ERROR
-          )
-        }
-
-        const params = {
-          numRuc: extractedData.rucEmisor,
-          codComp: extractedData.tipoComprobante,
-          numeroSerie: extractedData.serie,
-          numero: extractedData.correlativo,
-          fechaEmision: extractedData.fechaEmision,
-          monto: extractedData.montoTotal?.toFixed(2),
-        }
-
-        const headers = {
-          Authorization: `Bearer ${sunatToken.access_token}`,
-          'Content-Type': 'application/json',
-        }
-
-        this.logger.debug(
-          `Requesting SUNAT: URL=${sunatApiUrl}, Params=${JSON.stringify(params)}`
-        )
-
-        try {
-          const response = await firstValueFrom(
-            this.httpService.post(sunatApiUrl, params, { headers })
-          )
-
-          this.logger.log(`SUNAT response status: ${response}`)
-
-          const validationResult = this.interpretSunatResponse(response.data)
-
-          // Crear la factura con el PDF si está disponible
-          const createdInvoice = await this.create(
+      // Crear la factura con el PDF si está disponible
+      const createdInvoice = await this.create(
+        {
+          ...extractedData,
+          state: validationResult.status,
+          sunatValidation: validationResult.validation,
+          sunatHistory: [
             {
-              ...extractedData,
-              state: validationResult.status,
-              pdfFile: pdfBase64, // Guardar el PDF en base64
+              ...validationResult.validation,
+              status: validationResult.status,
+              trigger: 'upload',
             },
-            extractedData.companyId
-          )
+          ],
+          pdfFile,
+          extractionConfidence,
+        },
+        companyId
+      )
+      if (advanceAutomatically(createdInvoice).length > 0) {
+        await createdInvoice.save()
+      }
 
-          return {
-            message: 'Validación completada.',
-            status: validationResult.status,
-            details: validationResult.details,
-            extractedData: extractedData,
-            invoiceId: createdInvoice._id,
-          }
-        } catch (error) {
-          console.log(error)
-          this.logger.error(`SUNAT API Error: ${error}`, error.stack)
-          throw new HttpException(
-            'Error en la comunicación con SUNAT. Por favor, intente nuevamente más tarde.',
-            HttpStatus.SERVICE_UNAVAILABLE
-          )
-        }
+      return {
+        message: 'Validación completada.',
+        status: validationResult.status,
+        sunatMessage: validationResult.message,
+        details: validationResult.details,
+        extractedData: extractedData,
+        extractionConfidence,
+        invoiceId: createdInvoice._id,
       }
     } catch (error) {
       if (error instanceof HttpException) {
@@ -504,141 +525,127 @@ export class InvoiceService {
 
   // --- Funciones Auxiliares ---
 
-  private extractDataFromText(text: string): InvoiceData {
-    this.logger.log('Attempting data extraction using RegEx...')
-    const data: InvoiceData = {}
-
-    // RUC Emisor (Busca "RUC:" seguido de 11 dígitos)
-    let match = text.match(/R\.?U\.?C\.?\s*:?\s*(\d{11})/i)
-    if (match) data.rucEmisor = match[1]
-    // Si no, intenta buscar solo 11 dígitos (menos preciso)
-    if (!data.rucEmisor) {
-      match = text.match(/(\b\d{11}\b)/)
-      if (match) data.rucEmisor = match[1]
-    }
-
-    // Tipo de Comprobante, Serie y Correlativo
-    // Intenta buscar diferentes formatos de serie y correlativo
-    // Formato 1: E001-19220608417061
-    match = text.match(/\b([A-Z]\d{3})\s*[-–—]\s*(\d{1,20})\b/i)
-    if (match) {
-      data.serie = match[1].toUpperCase()
-      data.correlativo = match[2]
-      // Determinar tipo basado en la letra inicial de la serie
-      if (data.serie.startsWith('F'))
-        data.tipoComprobante = '01' // Factura
-      else if (data.serie.startsWith('B'))
-        data.tipoComprobante = '03' // Boleta
-      else if (data.serie.startsWith('E')) data.tipoComprobante = '01' // Factura Electrónica
-    }
-
-    // Fecha Emisión (Busca DD/MM/YYYY o DD-MM-YYYY)
-    match = text.match(
-      /Fecha\s*(?:de\s*)?Emisi[oó]n\s*:?\s*(\d{1,2})[\s\/-](\d{1,2})[\s\/-](\d{4})/i
-    )
-    if (!match) {
-      // Intenta buscar la fecha sin el texto "Fecha Emisión" cerca
-      match = text.match(/(\d{1,2})[\s\/-](\d{1,2})[\s\/-](\d{4})/)
-    }
-    if (match) {
-      // Asegura formato YYYY-MM-DD para consistencia
-      const day = match[1].padStart(2, '0')
-      const month = match[2].padStart(2, '0')
-      const year = match[3]
-      if (
-        parseInt(year) > 1990 &&
-        parseInt(month) >= 1 &&
-        parseInt(month) <= 12 &&
-        parseInt(day) >= 1 &&
-        parseInt(day) <= 31
-      ) {
-        data.fechaEmision = `${day}/${month}/${year}`
+  // El RUC consultante de SUNAT es el de la empresa que recibe el comprobante
+  private async getCompanyRuc(companyId: string): Promise<string> {
+    const company = companyId
+      ? await this.companyService.findOne(companyId)
+      : null
+    if (!company?.businessId) {
+      throw new HttpException(
+        'La empresa no tiene un RUC configurado para validar en SUNAT.',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+    return company.businessId
+  }
+
+  // Ejecuta la cadena de motores configurada y exige los campos esenciales
+  private async extractInvoiceData(
+    fileBuffer: Buffer,
+    mimeType: string
+  ): Promise<ExtractionResult> {
+    let extraction: ExtractionResult
+    try {
+      extraction = await this.extractionService.extract(
+        { buffer: fileBuffer, mimeType },
+        'invoice'
+      )
+    } catch (error) {
+      this.logger.error(`Error during processing: ${error.message}`)
+      if (error instanceof UblParseError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST)
       }
+      throw new HttpException(
+        'Error al procesar el archivo. Verifique que el archivo sea legible.',
+        HttpStatus.BAD_REQUEST
+      )
     }
 
-    // Monto Total (Busca variantes de "TOTAL" seguido de una moneda y un número con decimales)
-    match = text.match(
-      /(?:IMPORTE\s*TOTAL|SUMA\s*TOTAL|MONTO\s*TOTAL|VALOR\s*TOTAL)\s*:(?:(S\/|PEN|USD|\$)\s*)?\s*([\d,]+\.\d{2})\b/i
-    )
-    if (match) {
-      // Limpia comas de miles y convierte a número
-      const amountString = match[2].replace(/,/g, '')
-      data.montoTotal = parseFloat(amountString)
-      data.moneda = match[1] || 'S/' // Si no se encuentra moneda, asumimos PEN
+    if (extraction.engines.length === 0) {
+      throw new HttpException(
+        `Tipo de archivo no soportado: ${mimeType}`,
+        HttpStatus.BAD_REQUEST
+      )
     }
 
-    this.logger.debug(`Extraction Results: ${JSON.stringify(data)}`)
-    return data
+    const missing = missingEssentialFields(extraction.data)
+    if (missing.length > 0 || extraction.data.rucEmisor?.length !== 11) {
+      this.logger.warn(
+        `Essential data missing after extraction: ${missing.join(', ')}`
+      )
+      throw new HttpException(
+        'No se pudieron extraer los datos necesarios del archivo. Verifique el formato.',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+    return extraction
   }
 
-  private areEssentialDataPresent(data: InvoiceData): boolean {
-    const requiredFields: (keyof InvoiceData)[] = [
-      'rucEmisor',
-      'tipoComprobante',
-      'serie',
-      'correlativo',
-      'fechaEmision',
-      'montoTotal',
-    ]
-    const missing = requiredFields.filter(
-      field =>
-        data[field] === undefined || data[field] === null || data[field] === ''
-    )
-    if (missing.length > 0) {
-      this.logger.warn(`Missing essential fields: ${missing.join(', ')}`)
-      return false
-    }
-    // Validación adicional simple (ej: RUC longitud)
-    if (data.rucEmisor?.length !== 11) {
-      this.logger.warn(`Invalid RUC length: ${data.rucEmisor}`)
-      return false
+  // Aplica la acción sin guardar y traduce los errores de la máquina de estados a HTTP
+  runTransition(
+    invoice: Invoice,
+    action: InvoiceAction,
+    actor: TransitionActor,
+    reason?: string
+  ) {
+    try {
+      return applyTransition(invoice, action, actor, reason)
+    } catch (error) {
+      if (error instanceof InvoiceTransitionError) {
+        throw new HttpException(
+          error.message,
+          TRANSITION_ERROR_STATUS[error.code]
+        )
+      }
+      throw error
     }
-    return true
   }
 
-  // Función para interpretar la respuesta específica de SUNAT
-  private interpretSunatResponse(sunatData: any): {
-    status: string
-    details: any
-    message: string
-  } {
-    this.logger.log('Interpreting SUNAT response...', sunatData)
-    // --- ¡ESTO DEPENDE TOTALMENTE DE LA API DE SUNAT! ---
-    // Analiza la estructura de 'sunatData' y determina el estado.
-    // Ejemplo hipotético:
-    if (sunatData.success === true && sunatData.data?.estadoCp === '0') {
-      // '1' podría ser ACEPTADO
-      return {
-        status: 'VALIDO_ACEPTADO',
-        details: sunatData.data,
-        message: 'El comprobante es válido y fue facturado a esta empresa.',
-      }
-    } else if (sunatData.success === true && sunatData.data?.estadoCp === '1') {
-      // '0' podría ser RECHAZADO o ANULADO
-      return {
-        status: 'VALIDO_NO_PERTENECE',
-        details: sunatData.data,
-        message:
-          'El comprobante es válido, pero no fue facturado a esta empresa.',
-      }
-    } else if (sunatData.cod === '98') {
-      // Código hipotético para "no encontrado"
-      return {
-        status: 'NO_ENCONTRADO',
-        details: sunatData.msg || 'El comprobante no existe en SUNAT.',
-        message: 'El comprobante no existe en SUNAT.',
-      }
-    } else {
-      // Otros errores o casos
-      this.logger.warn(
-        `Uninterpretable SUNAT response: ${JSON.stringify(sunatData)}`
-      )
-      return {
-        status: 'ERROR_SUNAT',
-        details: sunatData,
-        message: 'Error al validar el comprobante.',
-      }
+  async getTransitions(
+    id: string,
+    companyId: string,
+    actor: TransitionActor
+  ): Promise<AvailableTransition[]> {
+    const invoice = await this.findOne(id, companyId)
+    return listTransitions(invoice, actor)
+  }
+
+  // Aprobación, rechazo y programación de pago conservan sus notificaciones
+  async transition(
+    id: string,
+    action: InvoiceAction,
+    companyId: string,
+    actor: TransitionActor,
+    reason?: string
+  ): Promise<Invoice> {
+    const invoice = await this.invoiceModel.findOne({ _id: id, companyId })
+    if (!invoice) {
+      throw new NotFoundException(`Factura con ID ${id} no encontrada`)
+    }
+
+    switch (action) {
+      case InvoiceAction.APPROVE:
+        return this.updateStatus(
+          id,
+          InvoiceStatus.APPROVED,
+          companyId,
+          actor,
+          reason
+        )
+      case InvoiceAction.SCHEDULE_PAYMENT:
+        return this.updatePaymentStatus(id, 'APPROVED', actor)
+      case InvoiceAction.REJECT:
+        return invoice.status === InvoiceStatus.APPROVED ||
+          invoice.status === InvoiceStatus.SCHEDULED
+          ? this.updatePaymentStatus(id, 'REJECTED', actor, reason)
+          : this.rejectInvoice(id, reason, actor)
+    }
+
+    this.runTransition(invoice, action, actor, reason)
+    if (action === InvoiceAction.VOID) {
+      invoice.voidReason = reason
     }
+    return invoice.save()
   }
 
   async sendInvoiceUploadedNotification(
@@ -670,7 +677,7 @@ export class InvoiceService {
     }
   }
 
-  async uploadInvoiceAndActa(files: Express.Multer.File[], user: any) {
+  async uploadInvoiceAndActa(files: Express.Multer.File[], auth: AuthContext) {
     if (!files || files.length !== 2) {
       throw new HttpException(
         'Debe subir exactamente dos archivos: la factura y el acta de aceptación',
@@ -685,23 +692,24 @@ export class InvoiceService {
       // Validar la factura
       const validationResult = await this.validateInvoiceFromImage(
         invoiceFile.buffer,
-        invoiceFile.mimetype
+        invoiceFile.mimetype,
+        auth.companyId
       )
 
-      // Crear la factura
-      const invoice = await this.create(
-        {
-          ...validationResult,
-          status: 'PENDING',
-        },
-        validationResult.companyId
+      // validateInvoiceFromImage ya registró la factura; se le adjunta el acta
+      const invoice = await this.uploadActaAceptacion(
+        String(validationResult.invoiceId),
+        actaFile.buffer,
+        actaFile.mimetype
       )
 
       // Obtener usuarios con roles específicos para enviar notificaciones
       try {
-        const admins = (await this.usersService.findAll(user.companyId)).filter(
+        const admins = (await this.usersService.findAll(auth.companyId)).filter(
           u => u.role === UserRole.ADMIN2 && u.isActive
         )
+        // El contexto de autenticación no trae el nombre del usuario
+        const user = await this.usersService.findOne(auth.userId)
 
         // Obtener el nombre completo del usuario para los correos
         const userName =
@@ -742,9 +750,6 @@ export class InvoiceService {
           this.logger.warn('No se encontraron usuarios con rol ADMIN2 activos')
         }
 
-        // Subir el acta
-        await this.uploadActaAceptacion(invoice._id.toString(), actaFile.buffer)
-
         // Enviar notificación de acta subida
         await this.sendActaUploadedNotification(
           user.email,
@@ -827,7 +832,8 @@ export class InvoiceService {
 
   async rejectInvoice(
     invoiceId: string,
-    rejectionReason: string
+    rejectionReason: string,
+    actor: TransitionActor
   ): Promise<Invoice> {
     try {
       this.logger.debug(
@@ -853,7 +859,7 @@ export class InvoiceService {
         )}`
       )
 
-      invoice.status = InvoiceStatus.REJECTED
+      this.runTransition(invoice, InvoiceAction.REJECT, actor, rejectionReason)
       invoice.rejectionReason = rejectionReason
       await invoice.save()
 
@@ -908,7 +914,7 @@ export class InvoiceService {
         `[DEBUG] Error al rechazar factura ${invoiceId}: ${error.message}`,
         error.stack
       )
-      if (error instanceof NotFoundException) {
+      if (error instanceof HttpException) {
         throw error
       }
       throw new HttpException(
@@ -921,6 +927,7 @@ export class InvoiceService {
   async updatePaymentStatus(
     id: string,
     status: 'APPROVED' | 'REJECTED',
+    actor: TransitionActor,
     rejectionReason?: string
   ): Promise<Invoice> {
     try {
@@ -934,7 +941,14 @@ export class InvoiceService {
         throw new NotFoundException(`Factura con ID ${id} no encontrada`)
       }
 
-      invoice.paymentStatus = status
+      this.runTransition(
+        invoice,
+        status === 'APPROVED'
+          ? InvoiceAction.SCHEDULE_PAYMENT
+          : InvoiceAction.REJECT,
+        actor,
+        rejectionReason
+      )
       if (status === 'REJECTED' && rejectionReason) {
         invoice.rejectionReason = rejectionReason
       }
@@ -996,4 +1010,129 @@ export class InvoiceService {
       )
     }
   }
+
+  // Facturas con detracción por depositar o por completar
+  async findPendingDetracciones(companyId: string): Promise<Invoice[]> {
+    return this.invoiceModel
+      .find({
+        companyId,
+        'detraccion.aplica': true,
+        'detraccion.estado': {
+          $in: [DetraccionStatus.PENDING, DetraccionStatus.INCOMPLETE],
+        },
+        status: { $nin: [InvoiceStatus.REJECTED, InvoiceStatus.VOIDED] },
+      })
+      .sort({ createdAt: 1 })
+      .exec()
+  }
+
+  async updateDetraccion(
+    id: string,
+    updateDto: UpdateDetraccionDto,
+    companyId: string
+  ): Promise<Invoice> {
+    const invoice = await this.invoiceModel.findOne({ _id: id, companyId })
+    if (!invoice) {
+      throw new NotFoundException(`Factura con ID ${id} no encontrada`)
+    }
+    if (invoice.detraccion?.estado === DetraccionStatus.DEPOSITED) {
+      throw new HttpException(
+        'La detracción ya fue depositada y no puede modificarse',
+        HttpStatus.CONFLICT
+      )
+    }
+    // El neto a pagar no puede cambiar una vez programado o pagado
+    if (invoice.scheduledAmount || invoice.paidAmount) {
+      throw new HttpException(
+        'La factura ya tiene pagos programados o realizados',
+        HttpStatus.CONFLICT
+      )
+    }
+
+    if (updateDto.tipoOperacion !== undefined) {
+      invoice.tipoOperacion = updateDto.tipoOperacion
+    }
+    invoice.detraccion = {
+      codigoBienServicio:
+        updateDto.codigoBienServicio ?? invoice.detraccion?.codigoBienServicio,
+      porcentaje:
+        updateDto.porcentaje ??
+        (updateDto.codigoBienServicio
+          ? undefined
+          : invoice.detraccion?.porcentaje),
+      cuentaBancoNacion:
+        updateDto.cuentaBancoNacion ?? invoice.detraccion?.cuentaBancoNacion,
+    }
+    this.applyDetraccion(invoice)
+    return invoice.save()
+  }
+
+  async registerDetraccionDeposit(
+    id: string,
+    depositDto: RegisterDetraccionDepositDto,
+    companyId: string,
+    userId: string
+  ): Promise<Invoice> {
+    const invoice = await this.invoiceModel.findOne({ _id: id, companyId })
+    if (!invoice) {
+      throw new NotFoundException(`Factura con ID ${id} no encontrada`)
+    }
+    if (invoice.detraccion?.estado !== DetraccionStatus.PENDING) {
+      throw new HttpException(
+        invoice.detraccion?.estado === DetraccionStatus.INCOMPLETE
+          ? `Complete la detracción antes de registrar el depósito: ${invoice.detraccion.motivo}`
+          : 'La factura no tiene una detracción pendiente de depósito',
+        HttpStatus.CONFLICT
+      )
+    }
+
+    invoice.detraccion.estado = DetraccionStatus.DEPOSITED
+    invoice.detraccion.constancia = depositDto.constancia
+    invoice.detraccion.fechaDeposito = new Date(depositDto.fechaDeposito)
+    invoice.detraccion.depositadoPor = userId
+    invoice.markModified('detraccion')
+    return invoice.save()
+  }
+
+  // Moneda en ISO 4217 y equivalente en soles con el tipo de cambio de la fecha de emisión
+  private async applyExchangeRate(invoice: Invoice) {
+    const moneda = normalizeCurrency(invoice.moneda || Currency.PEN)
+    if (!moneda) {
+      throw new HttpException(
+        `Moneda no reconocida: ${invoice.moneda}`,
+        HttpStatus.BAD_REQUEST
+      )
+    }
+    invoice.moneda = moneda
+    const equivalent = await this.exchangeRateService.toPen(
+      invoice.montoTotal,
+      moneda,
+      invoice.fechaEmision
+    )
+    if (!equivalent) {
+      this.logger.warn(
+        `Sin tipo de cambio ${moneda} para el ${invoice.fechaEmision}; la factura ${invoice.serie}-${invoice.correlativo} queda sin equivalente en soles`
+      )
+      return
+    }
+    invoice.tipoCambio = equivalent.tipoCambio
+    invoice.montoTotalPen = equivalent.montoPen
+  }
+
+  // Recalcula la detracción conservando la cuenta del Banco de la Nación ya registrada
+  private applyDetraccion(invoice: Invoice) {
+    const current = invoice.detraccion
+    const result = computeDetraccion({
+      tipoOperacion: invoice.tipoOperacion,
+      montoTotal: invoice.montoTotal,
+      moneda: invoice.moneda,
+      tipoCambio: invoice.tipoCambio,
+      detraccion: current,
+    })
+    if (!result.aplica && !current) return
+    invoice.detraccion = {
+      ...result,
+      cuentaBancoNacion: result.cuentaBancoNacion ?? current?.cuentaBancoNacion,
+    }
+  }
 }
@@ -0,0 +1,96 @@
+import { computeDetraccion } from './detraccion.util'
+import { DetraccionStatus } from '../enums/detraccion-status.enum'
+
+describe('computeDetraccion', () => {
+  it('ignores operations not subject to detracción', () => {
+    expect(
+      computeDetraccion({
+        tipoOperacion: '0101',
+        montoTotal: 5000,
+        moneda: 'PEN',
+      })
+    ).toEqual({ aplica: false })
+  })
+
+  it('uses the Catálogo 54 rate and rounds the deposit to whole soles', () => {
+    expect(
+      computeDetraccion({
+        tipoOperacion: '1001',
+        montoTotal: 1180.5,
+        moneda: 'PEN',
+        detraccion: {
+          codigoBienServicio: '037',
+          cuentaBancoNacion: '00-051-123456',
+        },
+      })
+    ).toEqual({
+      aplica: true,
+      codigoBienServicio: '037',
+      porcentaje: 12,
+      monto: 142,
+      montoNeto: 1038.5,
+      cuentaBancoNacion: '00-051-123456',
+      estado: DetraccionStatus.PENDING,
+    })
+  })
+
+  it('applies the lower threshold for freight transport', () => {
+    const freight = (montoTotal: number) =>
+      computeDetraccion({
+        tipoOperacion: '1004',
+        montoTotal,
+        moneda: 'PEN',
+        detraccion: { codigoBienServicio: '027' },
+      })
+
+    expect(freight(400).aplica).toBe(false)
+    expect(freight(500)).toMatchObject({
+      aplica: true,
+      porcentaje: 4,
+      monto: 20,
+    })
+  })
+
+  it('skips amounts up to S/ 700 even when the invoice declares it', () => {
+    expect(
+      computeDetraccion({
+        montoTotal: 700,
+        moneda: 'PEN',
+        detraccion: { codigoBienServicio: '022', porcentaje: 12 },
+      })
+    ).toMatchObject({ aplica: false, motivo: expect.stringContaining('700') })
+  })
+
+  it('converts foreign currency invoices with the exchange rate', () => {
+    expect(
+      computeDetraccion({
+        tipoOperacion: '1001',
+        montoTotal: 1000,
+        moneda: 'USD',
+        tipoCambio: 3.75,
+        detraccion: { porcentaje: 12 },
+      })
+    ).toMatchObject({ monto: 450, montoNeto: 880 })
+  })
+
+  it('flags invoices that lack the data to compute the deposit', () => {
+    expect(
+      computeDetraccion({
+        tipoOperacion: '1001',
+        montoTotal: 2000,
+        moneda: 'PEN',
+      })
+    ).toMatchObject({ aplica: true, estado: DetraccionStatus.INCOMPLETE })
+    expect(
+      computeDetraccion({
+        tipoOperacion: '1001',
+        montoTotal: 2000,
+        moneda: 'USD',
+        detraccion: { codigoBienServicio: '037' },
+      })
+    ).toMatchObject({
+      estado: DetraccionStatus.INCOMPLETE,
+      motivo: expect.stringContaining('tipo de cambio'),
+    })
+  })
+})
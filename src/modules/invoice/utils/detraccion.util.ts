@@ -0,0 +1,117 @@
+import {
+  DETRACCION_OPERATION_TYPES,
+  DETRACCION_RATES,
+  DETRACCION_THRESHOLD,
+  DETRACCION_TRANSPORT_CODE,
+  DETRACCION_TRANSPORT_THRESHOLD,
+} from '../constants/detraccion.constants'
+import { DetraccionStatus } from '../enums/detraccion-status.enum'
+
+export interface DetraccionInput {
+  tipoOperacion?: string
+  montoTotal: number
+  moneda: string
+  // Tipo de cambio a soles para comprobantes en otra moneda
+  tipoCambio?: number
+  detraccion?: {
+    codigoBienServicio?: string
+    porcentaje?: number
+    monto?: number
+    cuentaBancoNacion?: string
+  }
+}
+
+export interface DetraccionResult {
+  aplica: boolean
+  codigoBienServicio?: string
+  porcentaje?: number
+  // Depósito en soles en la cuenta del Banco de la Nación
+  monto?: number
+  // Lo que se paga al proveedor, en la moneda del comprobante
+  montoNeto?: number
+  cuentaBancoNacion?: string
+  estado?: DetraccionStatus
+  motivo?: string
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Sujeta si el tipo de operación lo indica o el comprobante trae datos de detracción
+export function isDeclaredDetraccion(input: DetraccionInput): boolean {
+  const { detraccion } = input
+  return (
+    DETRACCION_OPERATION_TYPES.includes(input.tipoOperacion) ||
+    !!(
+      detraccion?.codigoBienServicio ||
+      detraccion?.porcentaje ||
+      detraccion?.monto
+    )
+  )
+}
+
+export function computeDetraccion(input: DetraccionInput): DetraccionResult {
+  if (!isDeclaredDetraccion(input)) return { aplica: false }
+
+  const codigoBienServicio = input.detraccion?.codigoBienServicio
+  const cuentaBancoNacion = input.detraccion?.cuentaBancoNacion
+  const amountInSoles =
+    input.moneda === 'PEN'
+      ? input.montoTotal
+      : input.tipoCambio
+        ? input.montoTotal * input.tipoCambio
+        : undefined
+
+  const threshold =
+    codigoBienServicio === DETRACCION_TRANSPORT_CODE
+      ? DETRACCION_TRANSPORT_THRESHOLD
+      : DETRACCION_THRESHOLD
+  if (amountInSoles !== undefined && amountInSoles <= threshold) {
+    return {
+      aplica: false,
+      codigoBienServicio,
+      motivo: `El importe de la operación no supera S/ ${threshold}`,
+    }
+  }
+
+  const porcentaje =
+    input.detraccion?.porcentaje ?? DETRACCION_RATES[codigoBienServicio]
+  if (!porcentaje) {
+    return {
+      aplica: true,
+      codigoBienServicio,
+      cuentaBancoNacion,
+      estado: DetraccionStatus.INCOMPLETE,
+      motivo:
+        'Falta el código de bien o servicio (Catálogo 54) o el porcentaje',
+    }
+  }
+
+  // SUNAT exige depositar montos enteros en soles
+  const monto =
+    amountInSoles !== undefined
+      ? Math.round((amountInSoles * porcentaje) / 100)
+      : input.detraccion?.monto
+  if (monto === undefined) {
+    return {
+      aplica: true,
+      codigoBienServicio,
+      porcentaje,
+      cuentaBancoNacion,
+      estado: DetraccionStatus.INCOMPLETE,
+      motivo: `Falta el tipo de cambio para calcular la detracción en ${input.moneda}`,
+    }
+  }
+
+  return {
+    aplica: true,
+    codigoBienServicio,
+    porcentaje,
+    monto,
+    montoNeto:
+      input.moneda === 'PEN'
+        ? round2(input.montoTotal - monto)
+        : round2(input.montoTotal * (1 - porcentaje / 100)),
+    cuentaBancoNacion,
+    estado: DetraccionStatus.PENDING,
+  }
+}
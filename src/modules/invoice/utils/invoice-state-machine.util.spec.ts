@@ -0,0 +1,146 @@
+import {
+  advanceAutomatically,
+  applyTransition,
+  InvoiceLifecycleSubject,
+  listTransitions,
+} from './invoice-state-machine.util'
+import { InvoiceAction } from '../enums/invoice-action.enum'
+import { InvoiceStatus } from '../enums/invoice-status.enum'
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { SunatValidationStatus } from '../../sunat/enums/sunat-status.enum'
+
+const invoice = (
+  status: InvoiceStatus,
+  overrides: Partial<InvoiceLifecycleSubject> = {}
+): InvoiceLifecycleSubject => ({
+  status,
+  paymentStatus: 'PENDING',
+  state: SunatValidationStatus.VALIDO_ACEPTADO,
+  sunatValidation: { estadoCp: '1' },
+  actaAceptacion: { key: 'invoices/actas/abc.pdf' },
+  ...overrides,
+})
+
+const accounting = { roles: [UserRole.ACCOUNTING] }
+const treasury = { roles: [UserRole.TREASURY] }
+
+describe('invoice state machine', () => {
+  it('walks the happy path from acta received to paid', () => {
+    const subject = invoice(InvoiceStatus.ACTA_RECEIVED)
+
+    applyTransition(subject, InvoiceAction.APPROVE, accounting)
+    applyTransition(subject, InvoiceAction.SCHEDULE_PAYMENT, treasury)
+    expect(subject.paymentStatus).toBe('APPROVED')
+    subject.montoTotal = 1000
+    subject.paidAmount = 1000
+    applyTransition(subject, InvoiceAction.MARK_PAID, treasury)
+
+    expect(subject.status).toBe(InvoiceStatus.PAID)
+  })
+
+  it('does not mark as paid an invoice whose payments are not registered', () => {
+    const subject = invoice(InvoiceStatus.SCHEDULED, {
+      montoTotal: 1000,
+      scheduledAmount: 1000,
+      paidAmount: 0,
+    })
+
+    expect(() =>
+      applyTransition(subject, InvoiceAction.MARK_PAID, treasury)
+    ).toThrow(expect.objectContaining({ code: 'blocked' }))
+    expect(subject.status).toBe(InvoiceStatus.SCHEDULED)
+  })
+
+  it('rejects actions that are not allowed from the current state', () => {
+    expect(() =>
+      applyTransition(
+        invoice(InvoiceStatus.UPLOADED),
+        InvoiceAction.MARK_PAID,
+        treasury
+      )
+    ).toThrow(expect.objectContaining({ code: 'invalid_state' }))
+  })
+
+  it('checks the role for each transition', () => {
+    expect(() =>
+      applyTransition(
+        invoice(InvoiceStatus.ACTA_RECEIVED),
+        InvoiceAction.APPROVE,
+        treasury
+      )
+    ).toThrow(expect.objectContaining({ code: 'forbidden' }))
+  })
+
+  it('blocks approval of invoices annulled in SUNAT', () => {
+    const subject = invoice(InvoiceStatus.ACTA_RECEIVED, {
+      state: SunatValidationStatus.ANULADO,
+    })
+    expect(() =>
+      applyTransition(subject, InvoiceAction.APPROVE, accounting)
+    ).toThrow(expect.objectContaining({ code: 'blocked' }))
+    expect(subject.status).toBe(InvoiceStatus.ACTA_RECEIVED)
+  })
+
+  it('requires a reason to reject and picks the rule by source state', () => {
+    expect(() =>
+      applyTransition(
+        invoice(InvoiceStatus.SUNAT_VALIDATED),
+        InvoiceAction.REJECT,
+        accounting
+      )
+    ).toThrow(expect.objectContaining({ code: 'reason_required' }))
+
+    const scheduled = invoice(InvoiceStatus.SCHEDULED)
+    expect(() =>
+      applyTransition(scheduled, InvoiceAction.REJECT, accounting, 'x')
+    ).toThrow(expect.objectContaining({ code: 'forbidden' }))
+    applyTransition(scheduled, InvoiceAction.REJECT, treasury, 'Sin fondos')
+    expect(scheduled).toMatchObject({
+      status: InvoiceStatus.REJECTED,
+      paymentStatus: 'REJECTED',
+    })
+  })
+
+  it('advances automatic transitions once their conditions hold', () => {
+    const pending = invoice(InvoiceStatus.UPLOADED, {
+      state: SunatValidationStatus.ERROR_SUNAT,
+    })
+    expect(advanceAutomatically(pending)).toEqual([])
+
+    pending.state = SunatValidationStatus.VALIDO_ACEPTADO
+    expect(advanceAutomatically(pending)).toEqual([
+      InvoiceAction.VALIDATE_SUNAT,
+      InvoiceAction.RECEIVE_ACTA,
+    ])
+    expect(pending.status).toBe(InvoiceStatus.ACTA_RECEIVED)
+
+    const scheduled = invoice(InvoiceStatus.SCHEDULED, {
+      state: SunatValidationStatus.ANULADO,
+    })
+    expect(advanceAutomatically(scheduled)).toEqual([InvoiceAction.VOID])
+    expect(scheduled.status).toBe(InvoiceStatus.VOIDED)
+  })
+
+  it('lists the next actions for the user with their guard result', () => {
+    const subject = invoice(InvoiceStatus.ACTA_RECEIVED, {
+      sunatValidation: { estadoCp: '1', condDomiRuc: '12' },
+    })
+
+    expect(listTransitions(subject, accounting)).toEqual([
+      {
+        action: InvoiceAction.APPROVE,
+        to: InvoiceStatus.APPROVED,
+        allowed: false,
+        requiresReason: false,
+        reason: expect.stringContaining('NO HABIDO'),
+      },
+      {
+        action: InvoiceAction.REJECT,
+        to: InvoiceStatus.REJECTED,
+        allowed: true,
+        requiresReason: true,
+      },
+    ])
+    expect(listTransitions(subject, treasury)).toEqual([])
+  })
+})
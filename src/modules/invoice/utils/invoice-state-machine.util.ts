@@ -0,0 +1,286 @@
+import { UserRole } from '../../auth/enums/user-role.enum'
+import { SunatValidationStatus } from '../../sunat/enums/sunat-status.enum'
+import {
+  getApprovalBlockReason,
+  SunatValidation,
+} from '../../sunat/utils/sunat-response.util'
+import { InvoiceAction } from '../enums/invoice-action.enum'
+import { InvoiceStatus } from '../enums/invoice-status.enum'
+import { InvoicePaymentStatus } from '../enums/invoice-payment-status.enum'
+import {
+  isFullyPaid,
+  PayableInvoice,
+} from '../../payment-batch/utils/payment-amount.util'
+
+// Campos de la factura que intervienen en las transiciones
+export interface InvoiceLifecycleSubject {
+  status: string
+  paymentStatus?: string
+  state?: string
+  sunatValidation?: Partial<SunatValidation>
+  actaAceptacion?: unknown
+  montoTotal?: number
+  scheduledAmount?: number
+  paidAmount?: number
+  detraccion?: PayableInvoice['detraccion']
+  retencion?: PayableInvoice['retencion']
+}
+
+export interface TransitionActor {
+  roles?: string[]
+}
+
+export interface InvoiceTransition {
+  action: InvoiceAction
+  from: InvoiceStatus[]
+  to: InvoiceStatus
+  roles: UserRole[]
+  // El sistema la ejecuta por su cuenta cuando se cumple la condición
+  automatic?: (invoice: InvoiceLifecycleSubject) => boolean
+  requiresReason?: boolean
+  // Se mantiene paymentStatus para los clientes que aún lo leen
+  paymentStatus?: InvoicePaymentStatus
+  guard?: (invoice: InvoiceLifecycleSubject) => string | undefined
+}
+
+export type TransitionErrorCode =
+  'invalid_state' | 'forbidden' | 'blocked' | 'reason_required'
+
+export class InvoiceTransitionError extends Error {
+  constructor(
+    message: string,
+    readonly code: TransitionErrorCode
+  ) {
+    super(message)
+    this.name = 'InvoiceTransitionError'
+  }
+}
+
+export interface AvailableTransition {
+  action: InvoiceAction
+  to: InvoiceStatus
+  allowed: boolean
+  requiresReason: boolean
+  reason?: string
+}
+
+const VALID_SUNAT_STATES: string[] = [
+  SunatValidationStatus.VALIDO_ACEPTADO,
+  SunatValidationStatus.VALIDO_AUTORIZADO,
+]
+
+const requireSunatValid = (invoice: InvoiceLifecycleSubject) =>
+  VALID_SUNAT_STATES.includes(invoice.state)
+    ? undefined
+    : 'El comprobante aún no ha sido validado en SUNAT.'
+
+const requireActa = (invoice: InvoiceLifecycleSubject) =>
+  invoice.actaAceptacion ? undefined : 'La factura no tiene acta de aceptación.'
+
+const requireApprovable = (invoice: InvoiceLifecycleSubject) =>
+  getApprovalBlockReason(invoice.state, invoice.sunatValidation)
+
+// Con montos en lotes o ya pagados, la factura solo se mueve a través de los lotes
+const requireNoPayments = (invoice: InvoiceLifecycleSubject) =>
+  invoice.scheduledAmount > 0 || invoice.paidAmount > 0
+    ? 'La factura tiene pagos programados en lotes o pagos realizados.'
+    : undefined
+
+// Solo los lotes de pago y la conciliación registran pagos; la transición no puede adelantarse
+const requireFullyPaid = (invoice: InvoiceLifecycleSubject) =>
+  isFullyPaid(invoice as PayableInvoice)
+    ? undefined
+    : 'La factura no está pagada por completo; los pagos se registran con los lotes de pago o la conciliación bancaria.'
+
+const always = () => true
+
+const isAnnulled = (invoice: InvoiceLifecycleSubject) =>
+  invoice.state === SunatValidationStatus.ANULADO
+
+// Una acción puede tener varias entradas cuando los roles dependen del estado de origen
+export const INVOICE_TRANSITIONS: InvoiceTransition[] = [
+  {
+    action: InvoiceAction.VALIDATE_SUNAT,
+    from: [InvoiceStatus.UPLOADED],
+    to: InvoiceStatus.SUNAT_VALIDATED,
+    roles: [],
+    automatic: always,
+    guard: requireSunatValid,
+  },
+  {
+    action: InvoiceAction.RECEIVE_ACTA,
+    from: [InvoiceStatus.SUNAT_VALIDATED],
+    to: InvoiceStatus.ACTA_RECEIVED,
+    roles: [UserRole.ADMIN, UserRole.PROVIDER],
+    automatic: always,
+    guard: requireActa,
+  },
+  {
+    action: InvoiceAction.APPROVE,
+    from: [InvoiceStatus.ACTA_RECEIVED],
+    to: InvoiceStatus.APPROVED,
+    roles: [UserRole.ACCOUNTING],
+    guard: invoice => requireApprovable(invoice) || requireActa(invoice),
+  },
+  {
+    action: InvoiceAction.SCHEDULE_PAYMENT,
+    from: [InvoiceStatus.APPROVED],
+    to: InvoiceStatus.SCHEDULED,
+    roles: [UserRole.TREASURY],
+    paymentStatus: InvoicePaymentStatus.APPROVED,
+    guard: requireApprovable,
+  },
+  {
+    action: InvoiceAction.UNSCHEDULE_PAYMENT,
+    from: [InvoiceStatus.SCHEDULED],
+    to: InvoiceStatus.APPROVED,
+    roles: [UserRole.TREASURY],
+    paymentStatus: InvoicePaymentStatus.PENDING,
+    guard: requireNoPayments,
+  },
+  {
+    action: InvoiceAction.MARK_PAID,
+    from: [InvoiceStatus.SCHEDULED],
+    to: InvoiceStatus.PAID,
+    roles: [UserRole.TREASURY],
+    paymentStatus: InvoicePaymentStatus.PAID,
+    guard: invoice => requireApprovable(invoice) || requireFullyPaid(invoice),
+  },
+  {
+    action: InvoiceAction.REJECT,
+    from: [
+      InvoiceStatus.UPLOADED,
+      InvoiceStatus.SUNAT_VALIDATED,
+      InvoiceStatus.ACTA_RECEIVED,
+    ],
+    to: InvoiceStatus.REJECTED,
+    roles: [UserRole.ACCOUNTING, UserRole.ADMIN, UserRole.ADMIN2],
+    requiresReason: true,
+  },
+  {
+    action: InvoiceAction.REJECT,
+    from: [InvoiceStatus.APPROVED, InvoiceStatus.SCHEDULED],
+    to: InvoiceStatus.REJECTED,
+    roles: [UserRole.TREASURY],
+    requiresReason: true,
+    paymentStatus: InvoicePaymentStatus.REJECTED,
+    guard: requireNoPayments,
+  },
+  {
+    action: InvoiceAction.VOID,
+    from: [
+      InvoiceStatus.UPLOADED,
+      InvoiceStatus.SUNAT_VALIDATED,
+      InvoiceStatus.ACTA_RECEIVED,
+      InvoiceStatus.APPROVED,
+      InvoiceStatus.SCHEDULED,
+      InvoiceStatus.REJECTED,
+    ],
+    to: InvoiceStatus.VOIDED,
+    roles: [UserRole.ADMIN, UserRole.ADMIN2],
+    automatic: isAnnulled,
+    requiresReason: true,
+  },
+]
+
+const canExecute = (transition: InvoiceTransition, actor: TransitionActor) =>
+  transition.roles.some(role => actor.roles?.includes(role))
+
+const isFrom = (
+  transition: InvoiceTransition,
+  invoice: InvoiceLifecycleSubject
+) => transition.from.includes(invoice.status as InvoiceStatus)
+
+const setStatus = (
+  invoice: InvoiceLifecycleSubject,
+  transition: InvoiceTransition
+) => {
+  invoice.status = transition.to
+  if (transition.paymentStatus) {
+    invoice.paymentStatus = transition.paymentStatus
+  }
+}
+
+// Valida la transición y devuelve la entrada de la tabla que aplica
+export function resolveTransition(
+  invoice: InvoiceLifecycleSubject,
+  action: InvoiceAction,
+  actor: TransitionActor,
+  reason?: string
+): InvoiceTransition {
+  const candidates = INVOICE_TRANSITIONS.filter(
+    t => t.action === action && isFrom(t, invoice)
+  )
+  if (candidates.length === 0) {
+    throw new InvoiceTransitionError(
+      `No se puede ejecutar "${action}" sobre una factura en estado ${invoice.status}.`,
+      'invalid_state'
+    )
+  }
+  const transition = candidates.find(t => canExecute(t, actor))
+  if (!transition) {
+    throw new InvoiceTransitionError(
+      `No tiene permisos para ejecutar "${action}" sobre esta factura.`,
+      'forbidden'
+    )
+  }
+  const blockReason = transition.guard?.(invoice)
+  if (blockReason) {
+    throw new InvoiceTransitionError(blockReason, 'blocked')
+  }
+  if (transition.requiresReason && !reason?.trim()) {
+    throw new InvoiceTransitionError(
+      'Debe indicar el motivo para esta acción.',
+      'reason_required'
+    )
+  }
+  return transition
+}
+
+// Aplica la transición sobre el documento sin guardarlo
+export function applyTransition(
+  invoice: InvoiceLifecycleSubject,
+  action: InvoiceAction,
+  actor: TransitionActor,
+  reason?: string
+): InvoiceTransition {
+  const transition = resolveTransition(invoice, action, actor, reason)
+  setStatus(invoice, transition)
+  return transition
+}
+
+// Aplica en cadena las transiciones automáticas cuyas condiciones ya se cumplen
+export function advanceAutomatically(
+  invoice: InvoiceLifecycleSubject
+): InvoiceAction[] {
+  const applied: InvoiceAction[] = []
+  let next: InvoiceTransition | undefined
+  while (
+    (next = INVOICE_TRANSITIONS.find(
+      t => isFrom(t, invoice) && t.automatic?.(invoice) && !t.guard?.(invoice)
+    ))
+  ) {
+    setStatus(invoice, next)
+    applied.push(next.action)
+  }
+  return applied
+}
+
+// Siguientes acciones que el usuario puede ver desde el estado actual
+export function listTransitions(
+  invoice: InvoiceLifecycleSubject,
+  actor: TransitionActor
+): AvailableTransition[] {
+  return INVOICE_TRANSITIONS.filter(
+    t => isFrom(t, invoice) && canExecute(t, actor)
+  ).map(t => {
+    const reason = t.guard?.(invoice)
+    return {
+      action: t.action,
+      to: t.to,
+      allowed: !reason,
+      requiresReason: !!t.requiresReason,
+      ...(reason && { reason }),
+    }
+  })
+}
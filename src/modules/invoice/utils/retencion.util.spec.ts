@@ -0,0 +1,79 @@
+import { computeRetencion, retentionForPayment } from './retencion.util'
+
+describe('computeRetencion', () => {
+  const base = {
+    isRetentionAgent: true,
+    tipoComprobante: '01',
+    montoTotal: 1180,
+    moneda: 'PEN',
+  }
+
+  it('withholds 3% of the invoice total', () => {
+    expect(computeRetencion(base)).toEqual({
+      aplica: true,
+      porcentaje: 3,
+      monto: 35.4,
+      montoNeto: 1144.6,
+    })
+  })
+
+  it('does not apply when the company is not a retention agent', () => {
+    expect(
+      computeRetencion({ ...base, isRetentionAgent: false })
+    ).toMatchObject({ aplica: false })
+  })
+
+  it('exempts buen contribuyente suppliers and other retention agents', () => {
+    expect(
+      computeRetencion({ ...base, supplier: { buenContribuyente: true } })
+    ).toEqual({ aplica: false, motivo: 'El proveedor es buen contribuyente' })
+    expect(
+      computeRetencion({ ...base, supplier: { agenteRetencion: true } })
+    ).toEqual({ aplica: false, motivo: 'El proveedor es agente de retención' })
+  })
+
+  it('exempts operations up to S/ 700, converting foreign currency', () => {
+    expect(computeRetencion({ ...base, montoTotal: 700 })).toMatchObject({
+      aplica: false,
+    })
+    expect(
+      computeRetencion({
+        ...base,
+        moneda: 'USD',
+        montoTotal: 180,
+        tipoCambio: 3.8,
+      })
+    ).toMatchObject({ aplica: false })
+    expect(
+      computeRetencion({
+        ...base,
+        moneda: 'USD',
+        montoTotal: 200,
+        tipoCambio: 3.8,
+      })
+    ).toMatchObject({ aplica: true, monto: 6 })
+  })
+
+  it('excludes receipts and operations subject to detracción', () => {
+    expect(computeRetencion({ ...base, tipoComprobante: '03' })).toMatchObject({
+      aplica: false,
+    })
+    expect(computeRetencion({ ...base, detraccionAplica: true })).toMatchObject(
+      { aplica: false }
+    )
+  })
+})
+
+describe('retentionForPayment', () => {
+  const retencion = { porcentaje: 3, monto: 35.4, retenido: 0 }
+
+  it('withholds proportionally on partial net payments', () => {
+    expect(retentionForPayment(500, retencion, false)).toBe(15.46)
+  })
+
+  it('closes the remaining retention on the last payment', () => {
+    expect(
+      retentionForPayment(644.6, { ...retencion, retenido: 15.46 }, true)
+    ).toBe(19.94)
+  })
+})
@@ -0,0 +1,87 @@
+import {
+  RETENCION_DOCUMENT_TYPES,
+  RETENCION_RATE,
+  RETENCION_THRESHOLD,
+} from '../constants/retencion.constants'
+
+export interface RetencionInput {
+  // La empresa compradora fue designada agente de retención
+  isRetentionAgent: boolean
+  tipoComprobante: string
+  montoTotal: number
+  moneda: string
+  tipoCambio?: number
+  // Las operaciones con detracción quedan excluidas del régimen
+  detraccionAplica?: boolean
+  supplier?: {
+    buenContribuyente?: boolean
+    agenteRetencion?: boolean
+  }
+}
+
+export interface RetencionResult {
+  aplica: boolean
+  porcentaje?: number
+  // Importe a retener, en la moneda del comprobante
+  monto?: number
+  // Lo que se paga al proveedor descontando la retención
+  montoNeto?: number
+  motivo?: string
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function exemptionReason(input: RetencionInput): string | undefined {
+  if (!input.isRetentionAgent) return 'La empresa no es agente de retención'
+  if (input.detraccionAplica) {
+    return 'La operación está sujeta a detracción'
+  }
+  if (!RETENCION_DOCUMENT_TYPES.includes(input.tipoComprobante)) {
+    return `El comprobante tipo ${input.tipoComprobante} no está sujeto a retención`
+  }
+  if (input.supplier?.buenContribuyente) {
+    return 'El proveedor es buen contribuyente'
+  }
+  if (input.supplier?.agenteRetencion) {
+    return 'El proveedor es agente de retención'
+  }
+  // Sin tipo de cambio no puede evaluarse el mínimo; se retiene por defecto
+  const amountInSoles =
+    input.moneda === 'PEN'
+      ? input.montoTotal
+      : input.tipoCambio
+        ? input.montoTotal * input.tipoCambio
+        : undefined
+  if (amountInSoles !== undefined && amountInSoles <= RETENCION_THRESHOLD) {
+    return `El importe de la operación no supera S/ ${RETENCION_THRESHOLD}`
+  }
+  return undefined
+}
+
+export function computeRetencion(input: RetencionInput): RetencionResult {
+  const motivo = exemptionReason(input)
+  if (motivo) return { aplica: false, motivo }
+
+  const monto = round2((input.montoTotal * RETENCION_RATE) / 100)
+  return {
+    aplica: true,
+    porcentaje: RETENCION_RATE,
+    monto,
+    montoNeto: round2(input.montoTotal - monto),
+  }
+}
+
+// Retención que corresponde a un pago neto; el último pago cierra la diferencia por redondeo
+export function retentionForPayment(
+  netAmount: number,
+  retencion: { porcentaje?: number; monto?: number; retenido?: number },
+  closesInvoice: boolean
+): number {
+  const remaining = round2((retencion.monto ?? 0) - (retencion.retenido ?? 0))
+  if (closesInvoice) return Math.max(0, remaining)
+  const porcentaje = retencion.porcentaje ?? RETENCION_RATE
+  return Math.min(
+    remaining,
+    round2((netAmount * porcentaje) / (100 - porcentaje))
+  )
+}
@@ -0,0 +1,144 @@
+import { Types } from 'mongoose'
+import { BankFileService } from './bank-file.service'
+import { BankFileFormat } from './enums/bank-file.enum'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from './enums/payment-batch-status.enum'
+
+// Los esquemas de Mongoose y los servicios con dependencias nativas se reemplazan por dobles
+jest.mock('../invoice/entities/invoice.entity', () => ({
+  Invoice: { name: 'Invoice' },
+}))
+jest.mock('../project/entities/project.entity', () => ({
+  Project: { name: 'Project' },
+}))
+jest.mock('../invoice/invoice.service', () => ({ InvoiceService: class {} }))
+jest.mock('../providers/providers.service', () => ({
+  ProvidersService: class {},
+}))
+jest.mock('../company/company.service', () => ({ CompanyService: class {} }))
+
+const COMPANY_ID = '64b7f0c2a1b2c3d4e5f60718'
+const treasury = { userId: '64b7f0c2a1b2c3d4e5f60799', roles: ['TREASURY'] }
+
+const provider = {
+  firstName: 'Constructora',
+  lastName: 'Andina',
+  bankAccounts: [
+    { bank: 'BCP', accountNumber: '1941112223104', currency: 'PEN' },
+  ],
+}
+
+function build(providerFound = true) {
+  const batch: Record<string, any> = {
+    _id: new Types.ObjectId(),
+    name: 'Lote junio',
+    plannedDate: new Date('2025-06-15T12:00:00.000Z'),
+    bankAccount: { bank: 'BCP', accountNumber: '1931234567089' },
+    currency: 'PEN',
+    status: PaymentBatchStatus.SCHEDULED,
+    activeBankFileId: null,
+    items: [
+      {
+        invoiceId: new Types.ObjectId(),
+        invoiceNumber: 'F001-1',
+        rucEmisor: '20100066603',
+        amount: 1000,
+        status: PaymentBatchItemStatus.PENDING,
+      },
+    ],
+  }
+  // Doble del modelo: aplica el filtro del lote en memoria, como haría Mongo
+  const paymentBatchModel = {
+    findOneAndUpdate: jest.fn(
+      (filter: Record<string, any>, update: Record<string, any>) => ({
+        exec: async () => {
+          if (
+            batch.status !== filter.status ||
+            batch.activeBankFileId !== filter.activeBankFileId
+          ) {
+            return null
+          }
+          Object.assign(batch, update.$set)
+          return batch
+        },
+      })
+    ),
+    updateOne: jest.fn(
+      (filter: Record<string, any>, update: Record<string, any>) => ({
+        exec: async () => {
+          if (batch.activeBankFileId === filter.activeBankFileId) {
+            Object.assign(batch, update.$set)
+          }
+        },
+      })
+    ),
+  }
+  const bankFileModel = {
+    create: jest.fn(async (doc: Record<string, any>) => doc),
+  }
+  const paymentBatchService = {
+    findOne: jest.fn(async (_id: string, _companyId: string) => ({
+      ...batch,
+    })),
+  }
+  const providersService = {
+    findByTaxId: jest.fn(async (_taxId: string, _companyId: string) =>
+      providerFound ? provider : null
+    ),
+  }
+  const service = new BankFileService(
+    bankFileModel as any,
+    paymentBatchModel as any,
+    paymentBatchService as any,
+    providersService as any
+  )
+  return { service, batch, bankFileModel }
+}
+
+describe('BankFileService.generate', () => {
+  it('claims the batch so a concurrent request does not generate a second file', async () => {
+    const { service, batch, bankFileModel } = build()
+
+    const results = await Promise.allSettled([
+      service.generate(
+        String(batch._id),
+        { format: BankFileFormat.CSV },
+        COMPANY_ID,
+        treasury
+      ),
+      service.generate(
+        String(batch._id),
+        { format: BankFileFormat.CSV },
+        COMPANY_ID,
+        treasury
+      ),
+    ])
+
+    expect(results.map(result => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ])
+    expect(bankFileModel.create).toHaveBeenCalledTimes(1)
+    expect(batch.activeBankFileId).toBe(
+      bankFileModel.create.mock.calls[0][0]._id
+    )
+  })
+
+  it('releases the batch when the file cannot be built', async () => {
+    const { service, batch, bankFileModel } = build(false)
+
+    await expect(
+      service.generate(
+        String(batch._id),
+        { format: BankFileFormat.CSV },
+        COMPANY_ID,
+        treasury
+      )
+    ).rejects.toThrow('Proveedores sin cuenta bancaria')
+
+    expect(bankFileModel.create).not.toHaveBeenCalled()
+    expect(batch.activeBankFileId).toBeNull()
+  })
+})
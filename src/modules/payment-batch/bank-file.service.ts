@@ -0,0 +1,300 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+import {
+  BankPaymentFile,
+  BankPaymentFileDocument,
+  BankPaymentFileItem,
+} from './entities/bank-payment-file.entity'
+import {
+  PaymentBatch,
+  PaymentBatchDocument,
+} from './entities/payment-batch.entity'
+import { BankFileStatus } from './enums/bank-file.enum'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from './enums/payment-batch-status.enum'
+import { GenerateBankFileDto } from './dto/generate-bank-file.dto'
+import { VoidBankFileDto } from './dto/void-bank-file.dto'
+import { PaymentActor, PaymentBatchService } from './payment-batch.service'
+import {
+  BankFile,
+  BankFilePayment,
+  buildBankFile,
+  getLayoutBank,
+  normalizeBank,
+  selectPayeeAccount,
+} from './utils/bank-file.util'
+import { ProvidersService } from '../providers/providers.service'
+
+export interface BankFileDownload {
+  content: string
+  filename: string
+  contentType: string
+  sha256: string
+}
+
+@Injectable()
+export class BankFileService {
+  private readonly logger = new Logger(BankFileService.name)
+
+  constructor(
+    @InjectModel(BankPaymentFile.name)
+    private bankFileModel: Model<BankPaymentFileDocument>,
+    @InjectModel(PaymentBatch.name)
+    private paymentBatchModel: Model<PaymentBatchDocument>,
+    private readonly paymentBatchService: PaymentBatchService,
+    private readonly providersService: ProvidersService
+  ) {}
+
+  // Genera el archivo de pagos masivos del lote con las cuentas de cada proveedor
+  async generate(
+    batchId: string,
+    generateDto: GenerateBankFileDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<BankPaymentFileDocument> {
+    const batch = await this.paymentBatchService.findOne(batchId, companyId)
+    if (batch.status !== PaymentBatchStatus.SCHEDULED) {
+      throw new ConflictException(
+        `El lote de pago está en estado ${batch.status}; no puede generarse un archivo bancario`
+      )
+    }
+    // Un solo archivo vigente por lote evita subir dos veces los mismos abonos
+    if (batch.activeBankFileId) {
+      throw new ConflictException(
+        'El lote ya tiene un archivo bancario vigente; anúlelo antes de generar otro'
+      )
+    }
+
+    const layoutBank = getLayoutBank(generateDto.format)
+    if (layoutBank && normalizeBank(batch.bankAccount.bank) !== layoutBank) {
+      throw new BadRequestException(
+        `La cuenta de cargo del lote es de ${batch.bankAccount.bank}; no puede generarse un archivo ${layoutBank}`
+      )
+    }
+
+    // El lote se reserva para el archivo antes de armarlo: una generación simultánea ya no lo toma
+    const fileId = new Types.ObjectId()
+    const claimed = await this.paymentBatchModel
+      .findOneAndUpdate(
+        {
+          _id: batch._id,
+          status: PaymentBatchStatus.SCHEDULED,
+          activeBankFileId: null,
+        },
+        { $set: { activeBankFileId: fileId } },
+        { new: true }
+      )
+      .exec()
+    if (!claimed) {
+      throw new ConflictException(
+        'El lote ya tiene un archivo bancario vigente o cambió de estado'
+      )
+    }
+
+    let file: BankPaymentFileDocument
+    let bankFile: BankFile
+    try {
+      const { payments, items } = await this.resolvePayments(claimed, companyId)
+      try {
+        bankFile = buildBankFile(generateDto.format, {
+          originAccount: claimed.bankAccount.accountNumber,
+          currency: claimed.currency,
+          paymentDate: claimed.plannedDate,
+          reference: claimed.name,
+          payments,
+        })
+      } catch (error) {
+        throw new BadRequestException(error.message)
+      }
+
+      const date = claimed.plannedDate
+        .toISOString()
+        .slice(0, 10)
+        .replace(/-/g, '')
+      file = await this.bankFileModel.create({
+        _id: fileId,
+        companyId: new Types.ObjectId(companyId),
+        batchId: claimed._id,
+        format: generateDto.format,
+        filename: `pagos-${generateDto.format}-${date}-${String(claimed._id).slice(-6)}.${bankFile.extension}`,
+        currency: claimed.currency,
+        paymentDate: claimed.plannedDate,
+        items,
+        itemCount: bankFile.itemCount,
+        totalAmount: bankFile.totalAmount,
+        controlSum: bankFile.controlSum,
+        sha256: bankFile.sha256,
+        content: bankFile.content,
+        generatedBy: actor.userId,
+      })
+    } catch (error) {
+      await this.releaseBatch(claimed._id, fileId)
+      throw error
+    }
+
+    this.logger.log(
+      `Archivo ${file.filename} generado para el lote ${batch._id} (${bankFile.itemCount} abonos, ${bankFile.totalAmount} ${batch.currency})`
+    )
+    return file
+  }
+
+  async findByBatch(
+    batchId: string,
+    companyId: string
+  ): Promise<BankPaymentFileDocument[]> {
+    return this.bankFileModel
+      .find({
+        batchId: new Types.ObjectId(batchId),
+        companyId: new Types.ObjectId(companyId),
+      })
+      .select('-content')
+      .sort({ createdAt: -1 })
+      .exec()
+  }
+
+  async download(
+    batchId: string,
+    fileId: string,
+    companyId: string
+  ): Promise<BankFileDownload> {
+    const file = await this.findFile(batchId, fileId, companyId)
+    return {
+      content: file.content,
+      filename: file.filename,
+      contentType: file.filename.endsWith('.csv')
+        ? 'text/csv; charset=utf-8'
+        : 'text/plain; charset=utf-8',
+      sha256: file.sha256,
+    }
+  }
+
+  // Libera el lote para regenerar el archivo o para cancelarlo
+  async void(
+    batchId: string,
+    fileId: string,
+    voidDto: VoidBankFileDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<BankPaymentFileDocument> {
+    const file = await this.findFile(batchId, fileId, companyId)
+    if (file.status !== BankFileStatus.GENERATED) {
+      throw new ConflictException('El archivo bancario ya fue anulado')
+    }
+    const batch = await this.paymentBatchService.findOne(batchId, companyId)
+    if (batch.status !== PaymentBatchStatus.SCHEDULED) {
+      throw new ConflictException(
+        `El lote de pago está en estado ${batch.status}; su archivo bancario ya no puede anularse`
+      )
+    }
+
+    file.status = BankFileStatus.VOIDED
+    file.voidedAt = new Date()
+    file.voidedBy = actor.userId
+    file.voidReason = voidDto.reason
+    await file.save()
+
+    await this.releaseBatch(batch._id, file._id)
+    return file
+  }
+
+  // Quita la reserva del lote solo si sigue apuntando a este archivo
+  private async releaseBatch(
+    batchId: Types.ObjectId,
+    fileId: Types.ObjectId
+  ): Promise<void> {
+    await this.paymentBatchModel
+      .updateOne(
+        { _id: batchId, activeBankFileId: fileId },
+        { $set: { activeBankFileId: null } }
+      )
+      .exec()
+  }
+
+  private async findFile(
+    batchId: string,
+    fileId: string,
+    companyId: string
+  ): Promise<BankPaymentFileDocument> {
+    const file = await this.bankFileModel
+      .findOne({
+        _id: fileId,
+        batchId: new Types.ObjectId(batchId),
+        companyId: new Types.ObjectId(companyId),
+      })
+      .exec()
+    if (!file) {
+      throw new NotFoundException(
+        `Archivo bancario con ID ${fileId} no encontrado`
+      )
+    }
+    return file
+  }
+
+  private async resolvePayments(
+    batch: PaymentBatchDocument,
+    companyId: string
+  ): Promise<{ payments: BankFilePayment[]; items: BankPaymentFileItem[] }> {
+    const payments: BankFilePayment[] = []
+    const items: BankPaymentFileItem[] = []
+    const missing: string[] = []
+
+    const pendingItems = batch.items.filter(
+      item => item.status === PaymentBatchItemStatus.PENDING
+    )
+    if (pendingItems.length === 0) {
+      throw new ConflictException('El lote no tiene pagos pendientes')
+    }
+
+    for (const item of pendingItems) {
+      const provider = await this.providersService.findByTaxId(
+        item.rucEmisor,
+        companyId
+      )
+      const account =
+        provider &&
+        selectPayeeAccount(
+          provider.bankAccounts,
+          batch.currency,
+          batch.bankAccount.bank
+        )
+      if (!account) {
+        missing.push(item.invoiceNumber)
+        continue
+      }
+
+      const beneficiaryName = `${provider.firstName} ${provider.lastName}`
+      payments.push({
+        ...account,
+        beneficiaryTaxId: item.rucEmisor,
+        beneficiaryName,
+        amount: item.amount,
+        reference: item.invoiceNumber,
+      })
+      items.push({
+        ...account,
+        invoiceId: item.invoiceId,
+        invoiceNumber: item.invoiceNumber,
+        rucEmisor: item.rucEmisor,
+        beneficiaryName,
+        amount: item.amount,
+      })
+    }
+
+    if (missing.length > 0) {
+      throw new UnprocessableEntityException(
+        `Proveedores sin cuenta bancaria en ${batch.currency} para las facturas: ${missing.join(', ')}`
+      )
+    }
+    return { payments, items }
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator'
+import { Type } from 'class-transformer'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class PaymentBankAccountDto {
+  @ApiProperty({ description: 'Banco', example: 'BCP' })
+  @IsString()
+  @IsNotEmpty()
+  bank: string
+
+  @ApiProperty({ description: 'Número de cuenta', example: '193-1234567-0-12' })
+  @IsString()
+  @IsNotEmpty()
+  accountNumber: string
+
+  @ApiProperty({
+    description: 'Código de cuenta interbancario',
+    example: '00219300123456701215',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cci?: string
+
+  @ApiProperty({ description: 'Moneda de la cuenta', example: 'PEN' })
+  @IsString()
+  @IsOptional()
+  currency?: string
+}
+
+export class PaymentBatchItemDto {
+  @ApiProperty({ description: 'ID de la factura aprobada' })
+  @IsMongoId()
+  invoiceId: string
+
+  @ApiProperty({
+    description: 'Monto a pagar; por defecto el saldo pendiente de la factura',
+    example: 590,
+    required: false,
+  })
+  @IsNumber()
+  @Min(0.01)
+  @IsOptional()
+  amount?: number
+}
+
+export class CreatePaymentBatchDto {
+  @ApiProperty({ example: 'Pagos proveedores 15/06' })
+  @IsString()
+  @IsNotEmpty()
+  name: string
+
+  @ApiProperty({
+    description: 'Fecha planificada de pago',
+    example: '2025-06-15',
+  })
+  @IsDateString()
+  plannedDate: string
+
+  @ApiProperty({ type: PaymentBankAccountDto })
+  @ValidateNested()
+  @Type(() => PaymentBankAccountDto)
+  bankAccount: PaymentBankAccountDto
+
+  @ApiProperty({ type: [PaymentBatchItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PaymentBatchItemDto)
+  items: PaymentBatchItemDto[]
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  notes?: string
+}
@@ -0,0 +1,13 @@
+import { IsDateString, IsOptional } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class ExecutePaymentBatchDto {
+  @ApiProperty({
+    description: 'Fecha en que se realizó el pago; por defecto la actual',
+    example: '2025-06-15',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  executedAt?: string
+}
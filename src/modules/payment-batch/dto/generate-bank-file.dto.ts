@@ -0,0 +1,9 @@
+import { IsEnum } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+import { BankFileFormat } from '../enums/bank-file.enum'
+
+export class GenerateBankFileDto {
+  @ApiProperty({ enum: BankFileFormat, example: BankFileFormat.BCP })
+  @IsEnum(BankFileFormat)
+  format: BankFileFormat
+}
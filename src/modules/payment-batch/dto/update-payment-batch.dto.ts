@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger'
+import { CreatePaymentBatchDto } from './create-payment-batch.dto'
+
+// Las facturas del lote no se cambian; se cancela el lote y se crea otro
+export class UpdatePaymentBatchDto extends PartialType(
+  OmitType(CreatePaymentBatchDto, ['items'] as const)
+) {}
@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString } from 'class-validator'
+import { ApiProperty } from '@nestjs/swagger'
+
+export class VoidBankFileDto {
+  @ApiProperty({ example: 'Cuenta de abono errada, se regenerará' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string
+}
@@ -0,0 +1,128 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import { BankFileFormat, BankFileStatus } from '../enums/bank-file.enum'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+// Abono incluido en el archivo, con la cuenta usada al generarlo
+@Schema({ _id: false })
+export class BankPaymentFileItem {
+  @Prop({ type: Types.ObjectId, ref: 'Invoice', required: true })
+  invoiceId: Types.ObjectId
+
+  @Prop()
+  invoiceNumber: string
+
+  @Prop()
+  rucEmisor: string
+
+  @Prop()
+  beneficiaryName: string
+
+  @Prop()
+  bank: string
+
+  @Prop()
+  accountType: string
+
+  @Prop({ required: true })
+  account: string
+
+  @Prop({ default: false })
+  interbank: boolean
+
+  @Prop({ required: true })
+  amount: number
+}
+
+export const BankPaymentFileItemSchema =
+  SchemaFactory.createForClass(BankPaymentFileItem)
+
+export interface BankPaymentFileDocument extends Document {
+  companyId: Types.ObjectId
+  batchId: Types.ObjectId
+  format: BankFileFormat
+  filename: string
+  currency: string
+  paymentDate: Date
+  items: BankPaymentFileItem[]
+  itemCount: number
+  totalAmount: number
+  controlSum: string
+  sha256: string
+  content: string
+  status: BankFileStatus
+  generatedBy?: string
+  voidedAt?: Date
+  voidedBy?: string
+  voidReason?: string
+}
+
+// Archivo de pagos masivos entregado al banco para un lote de tesorería
+@Schema({ timestamps: true })
+export class BankPaymentFile {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId
+
+  @Prop({ type: Types.ObjectId, ref: 'PaymentBatch', required: true })
+  batchId: Types.ObjectId
+
+  @Prop({ type: String, enum: BankFileFormat, required: true })
+  format: BankFileFormat
+
+  @Prop({ required: true })
+  filename: string
+
+  @Prop({ required: true })
+  currency: string
+
+  @Prop({ required: true })
+  paymentDate: Date
+
+  @Prop({ type: [BankPaymentFileItemSchema], default: [] })
+  items: BankPaymentFileItem[]
+
+  @Prop({ required: true })
+  itemCount: number
+
+  @Prop({ required: true })
+  totalAmount: number
+
+  @Prop({ required: true })
+  controlSum: string
+
+  // Huella del contenido para comprobar que no se modificó antes de subirlo
+  @Prop({ required: true })
+  sha256: string
+
+  @Prop({ required: true })
+  content: string
+
+  @Prop({
+    type: String,
+    enum: BankFileStatus,
+    default: BankFileStatus.GENERATED,
+  })
+  status: BankFileStatus
+
+  @Prop({ type: String, ref: 'User' })
+  generatedBy?: string
+
+  @Prop()
+  voidedAt?: Date
+
+  @Prop({ type: String, ref: 'User' })
+  voidedBy?: string
+
+  @Prop()
+  voidReason?: string
+}
+
+export const BankPaymentFileSchema =
+  SchemaFactory.createForClass(BankPaymentFile)
+
+BankPaymentFileSchema.index({ companyId: 1, batchId: 1, status: 1 })
+BankPaymentFileSchema.index({ 'items.invoiceId': 1, status: 1 })
+
+BankPaymentFileSchema.plugin(tenantPlugin)
+BankPaymentFileSchema.plugin(auditPlugin, { entity: 'BankPaymentFile' })
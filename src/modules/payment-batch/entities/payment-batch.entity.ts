@@ -0,0 +1,224 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from '../enums/payment-batch-status.enum'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+// Cuenta de la empresa desde la que se paga el lote
+@Schema({ _id: false })
+export class PaymentBankAccount {
+  @Prop({ required: true })
+  bank: string
+
+  @Prop({ required: true })
+  accountNumber: string
+
+  @Prop()
+  cci?: string
+
+  @Prop()
+  currency?: string
+}
+
+export const PaymentBankAccountSchema =
+  SchemaFactory.createForClass(PaymentBankAccount)
+
+@Schema({ _id: false })
+export class PaymentBatchItem {
+  @Prop({ type: Types.ObjectId, ref: 'Invoice', required: true })
+  invoiceId: Types.ObjectId
+
+  @Prop()
+  invoiceNumber: string
+
+  @Prop()
+  rucEmisor: string
+
+  // Puede ser menor que el saldo de la factura (pago parcial)
+  @Prop({ required: true })
+  amount: number
+
+  @Prop({
+    enum: PaymentBatchItemStatus,
+    default: PaymentBatchItemStatus.PENDING,
+  })
+  status: PaymentBatchItemStatus
+
+  @Prop()
+  note?: string
+
+  // Retención del IGV practicada al ejecutar el pago
+  @Prop()
+  retentionAmount?: number
+
+  // Movimiento del extracto que confirmó el cargo de este pago
+  @Prop({ type: Types.ObjectId, ref: 'BankMovement' })
+  bankMovementId?: Types.ObjectId
+
+  @Prop()
+  confirmedAt?: Date
+}
+
+export const PaymentBatchItemSchema =
+  SchemaFactory.createForClass(PaymentBatchItem)
+
+// Comprobante pagado dentro de un comprobante de retención
+@Schema({ _id: false })
+export class RetentionVoucherLine {
+  @Prop({ type: Types.ObjectId, ref: 'Invoice', required: true })
+  invoiceId: Types.ObjectId
+
+  @Prop()
+  tipoComprobante: string
+
+  @Prop()
+  serie: string
+
+  @Prop()
+  correlativo: string
+
+  @Prop()
+  fechaEmision: string
+
+  @Prop()
+  importeTotal: number
+
+  @Prop()
+  fechaPago: Date
+
+  // Pago sin descontar la retención
+  @Prop()
+  importePagado: number
+
+  @Prop()
+  importeRetenido: number
+
+  @Prop()
+  importeNetoPagado: number
+}
+
+export const RetentionVoucherLineSchema =
+  SchemaFactory.createForClass(RetentionVoucherLine)
+
+// Datos del comprobante de retención (tipo 20) que se entrega a cada proveedor
+@Schema({ _id: false })
+export class RetentionVoucher {
+  @Prop({ required: true })
+  serie: string
+
+  @Prop({ required: true })
+  correlativo: string
+
+  @Prop({ required: true })
+  fechaEmision: Date
+
+  @Prop({ required: true })
+  rucProveedor: string
+
+  @Prop()
+  razonSocialProveedor?: string
+
+  @Prop()
+  regimen: string
+
+  @Prop()
+  tasa: number
+
+  @Prop()
+  moneda: string
+
+  @Prop({ type: [RetentionVoucherLineSchema], default: [] })
+  lines: RetentionVoucherLine[]
+
+  @Prop()
+  totalRetenido: number
+
+  @Prop()
+  totalPagado: number
+}
+
+export const RetentionVoucherSchema =
+  SchemaFactory.createForClass(RetentionVoucher)
+
+export interface PaymentBatchDocument extends Document {
+  companyId: Types.ObjectId
+  name: string
+  plannedDate: Date
+  bankAccount: PaymentBankAccount
+  currency: string
+  items: PaymentBatchItem[]
+  totalAmount: number
+  status: PaymentBatchStatus
+  notes?: string
+  createdBy?: string
+  executedAt?: Date
+  executedBy?: string
+  cancelledAt?: Date
+  activeBankFileId?: Types.ObjectId
+  retentionVouchers: RetentionVoucher[]
+}
+
+// Lote de pagos de tesorería: agrupa facturas aprobadas para pagarlas en una fecha
+@Schema({ timestamps: true })
+export class PaymentBatch {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId
+
+  @Prop({ required: true })
+  name: string
+
+  @Prop({ required: true })
+  plannedDate: Date
+
+  @Prop({ type: PaymentBankAccountSchema, required: true })
+  bankAccount: PaymentBankAccount
+
+  @Prop({ required: true })
+  currency: string
+
+  @Prop({ type: [PaymentBatchItemSchema], default: [] })
+  items: PaymentBatchItem[]
+
+  @Prop({ default: 0 })
+  totalAmount: number
+
+  @Prop({
+    enum: PaymentBatchStatus,
+    default: PaymentBatchStatus.SCHEDULED,
+  })
+  status: PaymentBatchStatus
+
+  @Prop()
+  notes?: string
+
+  @Prop({ type: String, ref: 'User' })
+  createdBy?: string
+
+  @Prop()
+  executedAt?: Date
+
+  @Prop({ type: String, ref: 'User' })
+  executedBy?: string
+
+  @Prop()
+  cancelledAt?: Date
+
+  // Archivo bancario vigente; mientras exista el lote no puede modificarse
+  @Prop({ type: Types.ObjectId, ref: 'BankPaymentFile' })
+  activeBankFileId?: Types.ObjectId
+
+  // Un comprobante por proveedor con retención, numerado al ejecutar el lote
+  @Prop({ type: [RetentionVoucherSchema], default: [] })
+  retentionVouchers: RetentionVoucher[]
+}
+
+export const PaymentBatchSchema = SchemaFactory.createForClass(PaymentBatch)
+
+PaymentBatchSchema.index({ companyId: 1, status: 1, plannedDate: 1 })
+PaymentBatchSchema.index({ 'items.invoiceId': 1 })
+
+PaymentBatchSchema.plugin(tenantPlugin)
+PaymentBatchSchema.plugin(auditPlugin, { entity: 'PaymentBatch' })
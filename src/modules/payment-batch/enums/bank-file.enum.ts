@@ -0,0 +1,13 @@
+// Formatos de archivo de pagos masivos soportados
+export enum BankFileFormat {
+  BCP = 'bcp',
+  INTERBANK = 'interbank',
+  // Formato genérico para bancos sin layout propio
+  CSV = 'csv',
+}
+
+export enum BankFileStatus {
+  GENERATED = 'generated',
+  // Se anuló para volver a generarlo o porque no se subió al banco
+  VOIDED = 'voided',
+}
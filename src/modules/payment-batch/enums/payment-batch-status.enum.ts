@@ -0,0 +1,14 @@
+export enum PaymentBatchStatus {
+  SCHEDULED = 'scheduled',
+  // Reservado mientras se registran los pagos: el lote no puede ejecutarse dos veces
+  EXECUTING = 'executing',
+  EXECUTED = 'executed',
+  CANCELLED = 'cancelled',
+}
+
+export enum PaymentBatchItemStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  // La factura dejó de ser pagable (anulada, rechazada) antes de ejecutar el lote
+  SKIPPED = 'skipped',
+}
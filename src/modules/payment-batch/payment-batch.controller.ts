@@ -0,0 +1,171 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common'
+import { Response } from 'express'
+import { PaymentBatchService } from './payment-batch.service'
+import { BankFileService } from './bank-file.service'
+import { CreatePaymentBatchDto } from './dto/create-payment-batch.dto'
+import { UpdatePaymentBatchDto } from './dto/update-payment-batch.dto'
+import { ExecutePaymentBatchDto } from './dto/execute-payment-batch.dto'
+import { GenerateBankFileDto } from './dto/generate-bank-file.dto'
+import { VoidBankFileDto } from './dto/void-bank-file.dto'
+import { PaymentBatchStatus } from './enums/payment-batch-status.enum'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../auth/guards/roles.guard'
+import { Roles } from '../auth/decorators/roles.decorator'
+import { UserRole } from '../auth/enums/user-role.enum'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+
+@Controller('payment-batches')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PaymentBatchController {
+  constructor(
+    private readonly paymentBatchService: PaymentBatchService,
+    private readonly bankFileService: BankFileService
+  ) {}
+
+  @Post()
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createDto: CreatePaymentBatchDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.paymentBatchService.create(createDto, auth.companyId, auth)
+  }
+
+  @Get()
+  @Roles(
+    UserRole.TREASURY,
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING
+  )
+  findAll(
+    @CurrentAuth() auth: AuthContext,
+    @Query('status') status?: PaymentBatchStatus
+  ) {
+    return this.paymentBatchService.findAll(auth.companyId, status)
+  }
+
+  @Get(':id')
+  @Roles(
+    UserRole.TREASURY,
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING
+  )
+  findOne(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.paymentBatchService.findOne(id, auth.companyId)
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.TREASURY)
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdatePaymentBatchDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.paymentBatchService.update(id, updateDto, auth.companyId)
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.OK)
+  cancel(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.paymentBatchService.cancel(id, auth.companyId, auth)
+  }
+
+  // Marca el lote como pagado
+  @Post(':id/execute')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.OK)
+  execute(
+    @Param('id') id: string,
+    @Body() executeDto: ExecutePaymentBatchDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.paymentBatchService.execute(
+      id,
+      executeDto,
+      auth.companyId,
+      auth
+    )
+  }
+
+  // Archivo de pagos masivos para subir al portal del banco
+  @Post(':id/bank-files')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.CREATED)
+  generateBankFile(
+    @Param('id') id: string,
+    @Body() generateDto: GenerateBankFileDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.bankFileService.generate(id, generateDto, auth.companyId, auth)
+  }
+
+  @Get(':id/bank-files')
+  @Roles(
+    UserRole.TREASURY,
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING
+  )
+  findBankFiles(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.bankFileService.findByBatch(id, auth.companyId)
+  }
+
+  @Get(':id/bank-files/:fileId/download')
+  @Roles(UserRole.TREASURY)
+  async downloadBankFile(
+    @Param('id') id: string,
+    @Param('fileId') fileId: string,
+    @CurrentAuth() auth: AuthContext,
+    @Res() res: Response
+  ) {
+    const { content, contentType, filename, sha256 } =
+      await this.bankFileService.download(id, fileId, auth.companyId)
+    res.setHeader('Content-Type', contentType)
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`)
+    res.setHeader('X-Content-SHA256', sha256)
+    res.send(content)
+  }
+
+  @Post(':id/bank-files/:fileId/void')
+  @Roles(UserRole.TREASURY)
+  @HttpCode(HttpStatus.OK)
+  voidBankFile(
+    @Param('id') id: string,
+    @Param('fileId') fileId: string,
+    @Body() voidDto: VoidBankFileDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.bankFileService.void(id, fileId, voidDto, auth.companyId, auth)
+  }
+
+  @Get(':id/retention-vouchers')
+  @Roles(
+    UserRole.TREASURY,
+    UserRole.ADMIN,
+    UserRole.ADMIN2,
+    UserRole.ACCOUNTING
+  )
+  findRetentionVouchers(
+    @Param('id') id: string,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.paymentBatchService.findRetentionVouchers(id, auth.companyId)
+  }
+}
@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { PaymentBatchController } from './payment-batch.controller'
+import { PaymentBatchService } from './payment-batch.service'
+import { BankFileService } from './bank-file.service'
+import {
+  PaymentBatch,
+  PaymentBatchSchema,
+} from './entities/payment-batch.entity'
+import {
+  BankPaymentFile,
+  BankPaymentFileSchema,
+} from './entities/bank-payment-file.entity'
+import { Invoice, InvoiceSchema } from '../invoice/entities/invoice.entity'
+import { Project, ProjectSchema } from '../project/entities/project.entity'
+import { InvoiceModule } from '../invoice/invoice.module'
+import { ProvidersModule } from '../providers/providers.module'
+import { EmailModule } from '../email/email.module'
+import { CompanyModule } from '../company/company.module'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PaymentBatch.name, schema: PaymentBatchSchema },
+      { name: BankPaymentFile.name, schema: BankPaymentFileSchema },
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: Project.name, schema: ProjectSchema },
+    ]),
+    InvoiceModule,
+    ProvidersModule,
+    EmailModule,
+    CompanyModule,
+  ],
+  controllers: [PaymentBatchController],
+  providers: [PaymentBatchService, BankFileService],
+  exports: [PaymentBatchService, BankFileService],
+})
+export class PaymentBatchModule {}
@@ -0,0 +1,465 @@
+import { PaymentBatchService } from './payment-batch.service'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from './enums/payment-batch-status.enum'
+import { applyTransition } from '../invoice/utils/invoice-state-machine.util'
+import { Types } from 'mongoose'
+
+// Los esquemas de Mongoose y los servicios con dependencias nativas se reemplazan por dobles
+jest.mock('../invoice/entities/invoice.entity', () => ({
+  Invoice: { name: 'Invoice' },
+}))
+jest.mock('../project/entities/project.entity', () => ({
+  Project: { name: 'Project' },
+}))
+jest.mock('../invoice/invoice.service', () => ({ InvoiceService: class {} }))
+jest.mock('../providers/providers.service', () => ({
+  ProvidersService: class {},
+}))
+jest.mock('../company/company.service', () => ({ CompanyService: class {} }))
+
+const COMPANY_ID = '64b7f0c2a1b2c3d4e5f60718'
+const treasury = { userId: '64b7f0c2a1b2c3d4e5f60799', roles: ['TREASURY'] }
+
+const invoiceDoc = (id: string, overrides: Record<string, unknown> = {}) => ({
+  _id: id,
+  serie: 'F001',
+  correlativo: id,
+  rucEmisor: '20100066603',
+  montoTotal: 1000,
+  moneda: 'PEN',
+  status: 'SCHEDULED',
+  paymentStatus: 'APPROVED',
+  state: 'VALIDO_ACEPTADO',
+  sunatValidation: { estadoCp: '1' },
+  scheduledAmount: 1000,
+  paidAmount: 0,
+  projectId: 'project-1',
+  save: jest.fn(),
+  ...overrides,
+})
+
+// Aplica el $inc de Mongo sobre las facturas en memoria
+const incInvoices =
+  (invoices: any[]) => (filter: { _id: string }, update: any) => {
+    const invoice = invoices.find(i => i._id === filter._id)
+    if (invoice) invoice.scheduledAmount += update.$inc.scheduledAmount
+    return { exec: async () => invoice }
+  }
+
+describe('PaymentBatchService.execute', () => {
+  const build = (invoices: any[], items: any[]) => {
+    const batch = {
+      status: PaymentBatchStatus.SCHEDULED,
+      items,
+      currency: 'PEN',
+      retentionVouchers: [],
+      markModified: jest.fn(),
+      save: jest.fn(async () => batch),
+    }
+    const batchModel = {
+      findOne: jest.fn(() => ({ exec: async () => batch })),
+      findOneAndUpdate: jest.fn((filter: any, update: any) => ({
+        exec: async () => {
+          if (batch.status !== filter.status) return null
+          batch.status = update.$set.status
+          return batch
+        },
+      })),
+    }
+    const invoiceModel = {
+      findById: jest.fn(async id => invoices.find(i => i._id === id)),
+      findOneAndUpdate: jest.fn(incInvoices(invoices)),
+    }
+    const projectModel = { updateMany: jest.fn() }
+    const invoiceService = {
+      runTransition: jest.fn((invoice, action, actor) =>
+        applyTransition(invoice, action, actor)
+      ),
+    }
+    const providersService = {
+      findByTaxId: jest.fn(async () => ({
+        email: 'proveedor@empresa.pe',
+        firstName: 'Constructora',
+        lastName: 'Andina',
+      })),
+    }
+    const emailService = { sendPaymentScheduledNotification: jest.fn() }
+    const companyService = {
+      reserveRetentionNumbers: jest.fn(async () => ({
+        serie: 'R001',
+        firstNumber: 12,
+      })),
+    }
+    const service = new PaymentBatchService(
+      batchModel as any,
+      invoiceModel as any,
+      projectModel as any,
+      invoiceService as any,
+      providersService as any,
+      emailService as any,
+      companyService as any
+    )
+    return { service, batch, projectModel, emailService, companyService }
+  }
+
+  it('marks fully paid invoices as PAID and partial ones as PARTIALLY_PAID', async () => {
+    const full = invoiceDoc('1')
+    const partial = invoiceDoc('2', { scheduledAmount: 400 })
+    const { service, batch, projectModel, emailService } = build(
+      [full, partial],
+      [
+        { invoiceId: '1', amount: 1000, status: 'pending' },
+        { invoiceId: '2', amount: 400, status: 'pending' },
+      ]
+    )
+
+    await service.execute(
+      'batch-1',
+      { executedAt: '2025-06-15' },
+      COMPANY_ID,
+      treasury
+    )
+
+    expect(full).toMatchObject({
+      status: 'PAID',
+      paymentStatus: 'PAID',
+      paidAmount: 1000,
+      scheduledAmount: 0,
+    })
+    expect(partial).toMatchObject({
+      status: 'SCHEDULED',
+      paymentStatus: 'PARTIALLY_PAID',
+      paidAmount: 400,
+    })
+    expect(projectModel.updateMany.mock.calls[0][1]).toMatchObject({
+      paymentStatus: 'COMPLETED',
+    })
+    expect(projectModel.updateMany.mock.calls[1][1]).toMatchObject({
+      paymentStatus: 'PROCESSING',
+    })
+    expect(emailService.sendPaymentScheduledNotification).toHaveBeenCalledTimes(
+      2
+    )
+    expect(batch.status).toBe(PaymentBatchStatus.EXECUTED)
+  })
+
+  it('skips invoices annulled after being scheduled', async () => {
+    const annulled = invoiceDoc('1', { state: 'ANULADO' })
+    const { service, batch, emailService } = build(
+      [annulled],
+      [{ invoiceId: '1', amount: 1000, status: 'pending' }]
+    )
+
+    await service.execute('batch-1', {}, COMPANY_ID, treasury)
+
+    expect(batch.items[0].status).toBe(PaymentBatchItemStatus.SKIPPED)
+    expect(annulled).toMatchObject({ paidAmount: 0, scheduledAmount: 0 })
+    expect(emailService.sendPaymentScheduledNotification).not.toHaveBeenCalled()
+  })
+
+  it('does not pay again items already confirmed by a bank debit', async () => {
+    const confirmed = invoiceDoc('1', { status: 'PAID', paidAmount: 1000 })
+    const pending = invoiceDoc('2')
+    const { service, batch, emailService } = build(
+      [confirmed, pending],
+      [
+        { invoiceId: '1', amount: 1000, status: 'paid' },
+        { invoiceId: '2', amount: 1000, status: 'pending' },
+      ]
+    )
+
+    await service.execute('batch-1', {}, COMPANY_ID, treasury)
+
+    expect(confirmed.paidAmount).toBe(1000)
+    expect(pending).toMatchObject({ status: 'PAID', paidAmount: 1000 })
+    expect(emailService.sendPaymentScheduledNotification).toHaveBeenCalledTimes(
+      1
+    )
+    expect(batch.items.map(item => item.status)).toEqual(['paid', 'paid'])
+  })
+
+  it('withholds the IGV retention and issues a voucher per supplier', async () => {
+    const retencion = {
+      aplica: true,
+      porcentaje: 3,
+      monto: 30,
+      montoNeto: 970,
+      retenido: 0,
+    }
+    const full = invoiceDoc('1', {
+      scheduledAmount: 970,
+      retencion: { ...retencion },
+      markModified: jest.fn(),
+    })
+    const partial = invoiceDoc('2', {
+      scheduledAmount: 485,
+      retencion: { ...retencion },
+      markModified: jest.fn(),
+    })
+    const { service, batch, companyService } = build(
+      [full, partial],
+      [
+        { invoiceId: '1', amount: 970, status: 'pending' },
+        { invoiceId: '2', amount: 485, status: 'pending' },
+      ]
+    )
+
+    await service.execute(
+      'batch-1',
+      { executedAt: '2025-06-15' },
+      COMPANY_ID,
+      treasury
+    )
+
+    expect(full).toMatchObject({ status: 'PAID', retencion: { retenido: 30 } })
+    expect(partial).toMatchObject({ retencion: { retenido: 15 } })
+    expect(batch.items.map(item => item.retentionAmount)).toEqual([30, 15])
+    expect(companyService.reserveRetentionNumbers).toHaveBeenCalledWith(
+      COMPANY_ID,
+      1
+    )
+    expect(batch.retentionVouchers).toEqual([
+      expect.objectContaining({
+        serie: 'R001',
+        correlativo: '00000012',
+        rucProveedor: '20100066603',
+        razonSocialProveedor: 'Constructora Andina',
+        totalRetenido: 45,
+        totalPagado: 1500,
+      }),
+    ])
+  })
+
+  it('claims the batch so a concurrent execution does not pay it twice', async () => {
+    const invoice = invoiceDoc('1')
+    const { service, batch } = build(
+      [invoice],
+      [{ invoiceId: '1', amount: 1000, status: 'pending' }]
+    )
+
+    const results = await Promise.allSettled([
+      service.execute('batch-1', {}, COMPANY_ID, treasury),
+      service.execute('batch-1', {}, COMPANY_ID, treasury),
+    ])
+
+    expect(results.map(result => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ])
+    expect(invoice.paidAmount).toBe(1000)
+    expect(batch).toMatchObject({ status: PaymentBatchStatus.EXECUTED })
+    expect((batch as any).executedBy).toBe(treasury.userId)
+  })
+
+  it('records executors whose id is not an ObjectId', async () => {
+    // Los usuarios registrados con Google tienen un UUID como _id
+    const googleUser = {
+      userId: '7f3c2a10-9b4e-4d6a-8c1f-2e5b7a9d0c34',
+      roles: ['TREASURY'],
+    }
+    const invoice = invoiceDoc('1')
+    const { service, batch } = build(
+      [invoice],
+      [{ invoiceId: '1', amount: 1000, status: 'pending' }]
+    )
+
+    await service.execute('batch-1', {}, COMPANY_ID, googleUser)
+
+    expect(invoice.paidAmount).toBe(1000)
+    expect(batch).toMatchObject({
+      status: PaymentBatchStatus.EXECUTED,
+      executedBy: googleUser.userId,
+    })
+  })
+})
+
+describe('PaymentBatchService.create', () => {
+  const dto = {
+    name: 'Lote junio',
+    plannedDate: '2025-06-15',
+    bankAccount: { bank: 'BCP', accountNumber: '191-1234567-0-01' },
+    items: [{ invoiceId: '1' }, { invoiceId: '2' }],
+  }
+
+  const build = (invoices: any[], reservable: string[]) => {
+    const batchModel = { create: jest.fn(async (doc: object) => doc) }
+    const invoiceModel = {
+      find: jest.fn(async () => invoices),
+      // Solo las facturas de `reservable` conservan saldo al momento de reservar
+      updateOne: jest.fn(async (filter: { _id: string }, update: any) => {
+        if (!reservable.includes(filter._id)) return { modifiedCount: 0 }
+        incInvoices(invoices)(filter, update)
+        return { modifiedCount: 1 }
+      }),
+      findOneAndUpdate: jest.fn(incInvoices(invoices)),
+    }
+    const service = new PaymentBatchService(
+      batchModel as any,
+      invoiceModel as any,
+      {} as any,
+      {
+        runTransition: jest.fn((doc, action, actor) =>
+          applyTransition(doc, action, actor)
+        ),
+      } as any,
+      {} as any,
+      {} as any,
+      { findOne: jest.fn(async () => ({ isRetentionAgent: false })) } as any
+    )
+    return { service, batchModel, invoiceModel }
+  }
+
+  it('reserves the amounts with a guarded $inc and creates the batch', async () => {
+    const invoices = [
+      invoiceDoc('1', { status: 'APPROVED', scheduledAmount: 0 }),
+      invoiceDoc('2', { status: 'APPROVED', scheduledAmount: 0 }),
+    ]
+    const { service, batchModel, invoiceModel } = build(invoices, ['1', '2'])
+
+    await service.create(dto as any, COMPANY_ID, treasury)
+
+    expect(invoiceModel.updateOne.mock.calls[0][0]).toHaveProperty('$expr')
+    expect(invoiceModel.updateOne.mock.calls[0][1]).toEqual({
+      $inc: { scheduledAmount: 1000 },
+    })
+    expect(invoices.map(i => [i.status, i.scheduledAmount])).toEqual([
+      ['SCHEDULED', 1000],
+      ['SCHEDULED', 1000],
+    ])
+    expect(batchModel.create).toHaveBeenCalledTimes(1)
+  })
+
+  it('releases the reserved invoices when another one was scheduled meanwhile', async () => {
+    const invoices = [
+      invoiceDoc('1', { status: 'APPROVED', scheduledAmount: 0 }),
+      invoiceDoc('2', { status: 'APPROVED', scheduledAmount: 0 }),
+    ]
+    const { service, batchModel } = build(invoices, ['1'])
+
+    await expect(
+      service.create(dto as any, COMPANY_ID, treasury)
+    ).rejects.toThrow('cambió mientras se programaba')
+
+    expect(invoices.map(i => [i.status, i.scheduledAmount])).toEqual([
+      ['APPROVED', 0],
+      ['APPROVED', 0],
+    ])
+    expect(batchModel.create).not.toHaveBeenCalled()
+  })
+
+  it('releases the reserved invoices when the batch cannot be saved', async () => {
+    const invoices = [
+      invoiceDoc('1', { status: 'APPROVED', scheduledAmount: 0 }),
+      invoiceDoc('2', { status: 'APPROVED', scheduledAmount: 0 }),
+    ]
+    const { service, batchModel } = build(invoices, ['1', '2'])
+    batchModel.create.mockRejectedValueOnce(new Error('write conflict'))
+
+    await expect(
+      service.create(dto as any, COMPANY_ID, treasury)
+    ).rejects.toThrow('write conflict')
+
+    expect(invoices.map(i => [i.status, i.scheduledAmount])).toEqual([
+      ['APPROVED', 0],
+      ['APPROVED', 0],
+    ])
+  })
+})
+
+describe('PaymentBatchService.confirmItemPayment', () => {
+  const BATCH_ID = '64b7f0c2a1b2c3d4e5f60720'
+  const INVOICE_ID = '64b7f0c2a1b2c3d4e5f60721'
+  const movementId = new Types.ObjectId()
+
+  const build = (claims: unknown[], invoice = invoiceDoc(INVOICE_ID)) => {
+    const batchModel = {
+      findOneAndUpdate: jest.fn((_filter: unknown, _update: unknown) => ({
+        exec: async () => claims.shift(),
+      })),
+      updateOne: jest.fn(),
+    }
+    const invoiceModel = {
+      findById: jest.fn(async () => invoice),
+      findOneAndUpdate: jest.fn(incInvoices([invoice])),
+    }
+    const service = new PaymentBatchService(
+      batchModel as any,
+      invoiceModel as any,
+      { updateMany: jest.fn() } as any,
+      {
+        runTransition: jest.fn((doc, action, actor) =>
+          applyTransition(doc, action, actor)
+        ),
+      } as any,
+      { findByTaxId: jest.fn(async () => null) } as any,
+      { sendPaymentScheduledNotification: jest.fn() } as any,
+      {} as any
+    )
+    return { service, batchModel, invoice }
+  }
+
+  it('only confirms items of executed batches, whose payment is already registered', async () => {
+    const { service, batchModel, invoice } = build([{ _id: BATCH_ID }])
+
+    await service.confirmItemPayment(
+      BATCH_ID,
+      INVOICE_ID,
+      movementId,
+      new Date('2025-06-16'),
+      COMPANY_ID,
+      treasury
+    )
+
+    expect(batchModel.findOneAndUpdate).toHaveBeenCalledTimes(1)
+    expect(batchModel.findOneAndUpdate.mock.calls[0][0]).toMatchObject({
+      status: PaymentBatchStatus.EXECUTED,
+    })
+    expect(invoice.paidAmount).toBe(0)
+  })
+
+  it('registers the payment of a scheduled item and marks it paid', async () => {
+    const scheduled = {
+      _id: BATCH_ID,
+      items: [{ invoiceId: INVOICE_ID, amount: 1000 }],
+    }
+    const { service, batchModel, invoice } = build([null, scheduled])
+
+    await service.confirmItemPayment(
+      BATCH_ID,
+      INVOICE_ID,
+      movementId,
+      new Date('2025-06-16'),
+      COMPANY_ID,
+      treasury
+    )
+
+    expect(batchModel.findOneAndUpdate.mock.calls[1][1]).toMatchObject({
+      $set: {
+        'items.$.bankMovementId': movementId,
+        'items.$.status': PaymentBatchItemStatus.PAID,
+      },
+    })
+    expect(invoice).toMatchObject({
+      status: 'PAID',
+      paidAmount: 1000,
+      scheduledAmount: 0,
+    })
+  })
+
+  it('rejects items already confirmed or no longer pending', async () => {
+    const { service } = build([null, null])
+
+    await expect(
+      service.confirmItemPayment(
+        BATCH_ID,
+        INVOICE_ID,
+        movementId,
+        new Date(),
+        COMPANY_ID,
+        treasury
+      )
+    ).rejects.toThrow('ya fue conciliado')
+  })
+})
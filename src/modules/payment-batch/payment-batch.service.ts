@@ -0,0 +1,696 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+import {
+  PaymentBatch,
+  PaymentBatchDocument,
+  PaymentBatchItem,
+  RetentionVoucher,
+} from './entities/payment-batch.entity'
+import {
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+} from './enums/payment-batch-status.enum'
+import { CreatePaymentBatchDto } from './dto/create-payment-batch.dto'
+import { UpdatePaymentBatchDto } from './dto/update-payment-batch.dto'
+import { ExecutePaymentBatchDto } from './dto/execute-payment-batch.dto'
+import {
+  exceedsPending,
+  fitsPendingExpr,
+  isFullyPaid,
+  pendingAmount,
+  roundAmount,
+} from './utils/payment-amount.util'
+import {
+  buildRetentionVouchers,
+  countRetentionVouchers,
+  RetentionPaymentLine,
+} from './utils/retention-voucher.util'
+import { Invoice } from '../invoice/entities/invoice.entity'
+import { InvoiceService } from '../invoice/invoice.service'
+import { InvoiceStatus } from '../invoice/enums/invoice-status.enum'
+import { InvoiceAction } from '../invoice/enums/invoice-action.enum'
+import { InvoicePaymentStatus } from '../invoice/enums/invoice-payment-status.enum'
+import { DetraccionStatus } from '../invoice/enums/detraccion-status.enum'
+import {
+  computeRetencion,
+  retentionForPayment,
+} from '../invoice/utils/retencion.util'
+import { Project } from '../project/entities/project.entity'
+import { PaymentStatus } from '../project/dto/create-project.dto'
+import { ProvidersService } from '../providers/providers.service'
+import { IProvider } from '../../shared/interfaces/provider.interface'
+import { EmailService } from '../email/email.service'
+import { CompanyService } from '../company/company.service'
+import { getApprovalBlockReason } from '../sunat/utils/sunat-response.util'
+
+export interface PaymentActor {
+  userId?: string
+  roles?: string[]
+}
+
+// Facturas que pueden incluirse en un lote (las programadas solo por su saldo)
+const PAYABLE_STATUSES: string[] = [
+  InvoiceStatus.APPROVED,
+  InvoiceStatus.SCHEDULED,
+]
+
+@Injectable()
+export class PaymentBatchService {
+  private readonly logger = new Logger(PaymentBatchService.name)
+
+  constructor(
+    @InjectModel(PaymentBatch.name)
+    private paymentBatchModel: Model<PaymentBatchDocument>,
+    @InjectModel(Invoice.name)
+    private invoiceModel: Model<Invoice>,
+    @InjectModel(Project.name)
+    private projectModel: Model<Project>,
+    private readonly invoiceService: InvoiceService,
+    private readonly providersService: ProvidersService,
+    private readonly emailService: EmailService,
+    private readonly companyService: CompanyService
+  ) {}
+
+  async create(
+    createDto: CreatePaymentBatchDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<PaymentBatchDocument> {
+    const invoiceIds = createDto.items.map(item => item.invoiceId)
+    if (new Set(invoiceIds).size !== invoiceIds.length) {
+      throw new BadRequestException(
+        'Una factura no puede aparecer dos veces en el mismo lote'
+      )
+    }
+
+    const invoices = await this.invoiceModel.find({
+      _id: { $in: invoiceIds },
+      companyId,
+    })
+    const byId = new Map(
+      invoices.map(invoice => [String(invoice._id), invoice])
+    )
+    await this.applyRetencion(invoices, companyId)
+
+    // Se valida todo el lote antes de modificar cualquier factura
+    const items: PaymentBatchItem[] = createDto.items.map(item => {
+      const invoice = byId.get(item.invoiceId)
+      if (!invoice) {
+        throw new NotFoundException(
+          `Factura con ID ${item.invoiceId} no encontrada`
+        )
+      }
+      const invoiceNumber = `${invoice.serie}-${invoice.correlativo}`
+      if (!PAYABLE_STATUSES.includes(invoice.status)) {
+        throw new ConflictException(
+          `La factura ${invoiceNumber} está en estado ${invoice.status} y no puede programarse`
+        )
+      }
+      const blockReason = getApprovalBlockReason(
+        invoice.state,
+        invoice.sunatValidation
+      )
+      if (blockReason) {
+        throw new UnprocessableEntityException(
+          `Factura ${invoiceNumber}: ${blockReason}`
+        )
+      }
+      if (invoice.detraccion?.estado === DetraccionStatus.INCOMPLETE) {
+        throw new UnprocessableEntityException(
+          `Factura ${invoiceNumber}: ${invoice.detraccion.motivo}`
+        )
+      }
+      const amount = roundAmount(item.amount ?? pendingAmount(invoice))
+      if (amount <= 0 || exceedsPending(amount, invoice)) {
+        throw new BadRequestException(
+          `El monto para la factura ${invoiceNumber} supera su saldo pendiente (${pendingAmount(invoice)})`
+        )
+      }
+      return {
+        invoiceId: invoice._id as unknown as Types.ObjectId,
+        invoiceNumber,
+        rucEmisor: invoice.rucEmisor,
+        amount,
+        status: PaymentBatchItemStatus.PENDING,
+      }
+    })
+
+    const currencies = new Set(invoices.map(invoice => invoice.moneda))
+    if (currencies.size > 1) {
+      throw new BadRequestException(
+        'Todas las facturas del lote deben estar en la misma moneda'
+      )
+    }
+
+    // Las reservas se deshacen si otra factura o el lote no pueden guardarse
+    const reserved: PaymentBatchItem[] = []
+    try {
+      for (const item of items) {
+        const invoice = byId.get(String(item.invoiceId))
+        await this.reserveAmount(invoice, item, companyId)
+        reserved.push(item)
+        if (invoice.status === InvoiceStatus.APPROVED) {
+          this.invoiceService.runTransition(
+            invoice,
+            InvoiceAction.SCHEDULE_PAYMENT,
+            actor
+          )
+        }
+        await invoice.save()
+      }
+
+      return await this.paymentBatchModel.create({
+        ...createDto,
+        companyId: new Types.ObjectId(companyId),
+        currency: invoices[0].moneda,
+        items,
+        totalAmount: roundAmount(items.reduce((sum, i) => sum + i.amount, 0)),
+        createdBy: actor.userId,
+      })
+    } catch (error) {
+      for (const item of reserved) {
+        await this.unscheduleItem(byId.get(String(item.invoiceId)), item, actor)
+      }
+      throw error
+    }
+  }
+
+  async findAll(
+    companyId: string,
+    status?: PaymentBatchStatus
+  ): Promise<PaymentBatchDocument[]> {
+    return this.paymentBatchModel
+      .find({
+        companyId: new Types.ObjectId(companyId),
+        ...(status && { status }),
+      })
+      .sort({ plannedDate: 1 })
+      .exec()
+  }
+
+  async findOne(id: string, companyId: string): Promise<PaymentBatchDocument> {
+    const batch = await this.paymentBatchModel
+      .findOne({ _id: id, companyId: new Types.ObjectId(companyId) })
+      .exec()
+    if (!batch) {
+      throw new NotFoundException(`Lote de pago con ID ${id} no encontrado`)
+    }
+    return batch
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdatePaymentBatchDto,
+    companyId: string
+  ): Promise<PaymentBatchDocument> {
+    const batch = await this.findScheduled(id, companyId)
+    this.assertNoActiveBankFile(batch)
+    batch.set(updateDto)
+    return batch.save()
+  }
+
+  // Libera los montos programados; las facturas sin otros pagos vuelven a APPROVED
+  async cancel(
+    id: string,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<PaymentBatchDocument> {
+    const batch = await this.findScheduled(id, companyId)
+    this.assertNoActiveBankFile(batch)
+
+    // El lote se cancela antes de liberar las facturas: una ejecución simultánea ya no lo toma
+    const cancelled = await this.paymentBatchModel
+      .findOneAndUpdate(
+        {
+          _id: batch._id,
+          status: PaymentBatchStatus.SCHEDULED,
+          activeBankFileId: null,
+        },
+        {
+          $set: {
+            status: PaymentBatchStatus.CANCELLED,
+            cancelledAt: new Date(),
+          },
+        },
+        { new: true }
+      )
+      .exec()
+    if (!cancelled) {
+      throw new ConflictException(
+        'El lote de pago cambió de estado mientras se cancelaba'
+      )
+    }
+
+    for (const item of cancelled.items) {
+      // Un pago ya conciliado con el extracto se mantiene aunque se cancele el resto del lote
+      if (item.status === PaymentBatchItemStatus.PAID) continue
+      const invoice = await this.invoiceModel.findById(item.invoiceId)
+      if (invoice) await this.unscheduleItem(invoice, item, actor)
+    }
+    return cancelled
+  }
+
+  // Registra el pago de cada factura, actualiza su proyecto y avisa al proveedor
+  async execute(
+    id: string,
+    executeDto: ExecutePaymentBatchDto,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<PaymentBatchDocument> {
+    const scheduled = await this.findScheduled(id, companyId)
+    // El lote se toma antes de registrar pagos: dos ejecuciones simultáneas no pagan dos veces
+    const batch = await this.paymentBatchModel
+      .findOneAndUpdate(
+        { _id: scheduled._id, status: PaymentBatchStatus.SCHEDULED },
+        { $set: { status: PaymentBatchStatus.EXECUTING } },
+        { new: true }
+      )
+      .exec()
+    if (!batch) {
+      throw new ConflictException(
+        'El lote de pago ya se está ejecutando o cambió de estado'
+      )
+    }
+    const executedAt = executeDto.executedAt
+      ? new Date(executeDto.executedAt)
+      : new Date()
+
+    try {
+      batch.executedBy = actor.userId
+      const retentions: RetentionPaymentLine[] = []
+      for (const item of batch.items) {
+        const invoice = await this.invoiceModel.findById(item.invoiceId)
+        // El cargo se concilió con el extracto antes de ejecutar el lote: el pago ya se registró
+        if (item.status === PaymentBatchItemStatus.PAID) {
+          if (item.retentionAmount > 0 && invoice) {
+            retentions.push(this.toRetentionLine(item, invoice, executedAt))
+          }
+          continue
+        }
+        const skipReason = this.getSkipReason(invoice)
+        if (skipReason) {
+          item.status = PaymentBatchItemStatus.SKIPPED
+          item.note = skipReason
+          if (invoice) await this.releaseScheduledAmount(invoice, item.amount)
+          continue
+        }
+
+        const retained = await this.registerPayment(
+          invoice,
+          item.amount,
+          executedAt,
+          companyId,
+          actor
+        )
+        item.status = PaymentBatchItemStatus.PAID
+        if (retained > 0) {
+          item.retentionAmount = retained
+          retentions.push(this.toRetentionLine(item, invoice, executedAt))
+        }
+      }
+
+      batch.retentionVouchers = await this.issueRetentionVouchers(
+        retentions,
+        batch.currency,
+        executedAt,
+        companyId
+      )
+    } catch (error) {
+      // Los ítems ya pagados quedan marcados y el lote puede ejecutarse otra vez
+      batch.markModified('items')
+      batch.status = PaymentBatchStatus.SCHEDULED
+      batch.executedBy = undefined
+      await batch.save()
+      throw error
+    }
+
+    batch.markModified('items')
+    batch.status = PaymentBatchStatus.EXECUTED
+    batch.executedAt = executedAt
+    return batch.save()
+  }
+
+  // Registra un pago confirmado: saldo, estado de la factura, proyecto y aviso al proveedor.
+  // Devuelve la retención del IGV practicada sobre el pago. Un pago fuera de lote no libera lo programado
+  async registerPayment(
+    invoice: Invoice,
+    amount: number,
+    paidAt: Date,
+    companyId: string,
+    actor: PaymentActor,
+    scheduled = true
+  ): Promise<number> {
+    // Un pago conciliado desde el extracto puede llegar sin haberse programado
+    if (invoice.status === InvoiceStatus.APPROVED) {
+      this.invoiceService.runTransition(
+        invoice,
+        InvoiceAction.SCHEDULE_PAYMENT,
+        actor
+      )
+    }
+    if (scheduled) await this.releaseScheduledAmount(invoice, amount)
+    invoice.paidAmount = roundAmount((invoice.paidAmount ?? 0) + amount)
+    invoice.paymentDate = paidAt
+    const retained = this.withholdRetencion(invoice, amount)
+    if (isFullyPaid(invoice)) {
+      this.invoiceService.runTransition(invoice, InvoiceAction.MARK_PAID, actor)
+    } else {
+      invoice.paymentStatus = InvoicePaymentStatus.PARTIALLY_PAID
+    }
+    await invoice.save()
+
+    await this.updateProjectPayment(invoice, companyId, paidAt)
+    await this.notifyProvider(invoice, companyId, paidAt)
+    return retained
+  }
+
+  // Confirma con un cargo del extracto el pago de un lote. En un lote aún programado el pago
+  // se registra aquí y el ítem queda pagado, para que execute no lo pague otra vez
+  async confirmItemPayment(
+    batchId: string,
+    invoiceId: string,
+    movementId: Types.ObjectId,
+    paidAt: Date,
+    companyId: string,
+    actor: PaymentActor
+  ): Promise<void> {
+    const claim = (
+      status: PaymentBatchStatus,
+      itemStatus: PaymentBatchItemStatus,
+      set: Record<string, unknown> = {}
+    ) =>
+      this.paymentBatchModel
+        .findOneAndUpdate(
+          {
+            _id: batchId,
+            companyId: new Types.ObjectId(companyId),
+            status,
+            items: {
+              $elemMatch: {
+                invoiceId: new Types.ObjectId(invoiceId),
+                status: itemStatus,
+                bankMovementId: { $exists: false },
+              },
+            },
+          },
+          {
+            $set: {
+              'items.$.bankMovementId': movementId,
+              'items.$.confirmedAt': new Date(),
+              ...set,
+            },
+          },
+          { new: true }
+        )
+        .exec()
+
+    if (await claim(PaymentBatchStatus.EXECUTED, PaymentBatchItemStatus.PAID)) {
+      return
+    }
+    const batch = await claim(
+      PaymentBatchStatus.SCHEDULED,
+      PaymentBatchItemStatus.PENDING,
+      { 'items.$.status': PaymentBatchItemStatus.PAID }
+    )
+    if (!batch) {
+      throw new ConflictException(
+        'El pago del lote ya fue conciliado o no está pendiente'
+      )
+    }
+
+    const itemFilter = {
+      _id: batch._id,
+      'items.invoiceId': new Types.ObjectId(invoiceId),
+    }
+    const item = batch.items.find(i => String(i.invoiceId) === invoiceId)
+    try {
+      const invoice = await this.invoiceModel.findById(invoiceId)
+      if (!invoice) {
+        throw new NotFoundException(`Factura con ID ${invoiceId} no encontrada`)
+      }
+      const retained = await this.registerPayment(
+        invoice,
+        item.amount,
+        paidAt,
+        companyId,
+        actor
+      )
+      if (retained > 0) {
+        await this.paymentBatchModel.updateOne(itemFilter, {
+          $set: { 'items.$.retentionAmount': retained },
+        })
+      }
+    } catch (error) {
+      // Sin pago registrado, el ítem vuelve a quedar pendiente en el lote
+      await this.paymentBatchModel.updateOne(itemFilter, {
+        $set: { 'items.$.status': PaymentBatchItemStatus.PENDING },
+        $unset: { 'items.$.bankMovementId': 1, 'items.$.confirmedAt': 1 },
+      })
+      throw error
+    }
+  }
+
+  async findRetentionVouchers(
+    id: string,
+    companyId: string
+  ): Promise<RetentionVoucher[]> {
+    const batch = await this.findOne(id, companyId)
+    return batch.retentionVouchers ?? []
+  }
+
+  private async findScheduled(
+    id: string,
+    companyId: string
+  ): Promise<PaymentBatchDocument> {
+    const batch = await this.findOne(id, companyId)
+    if (batch.status !== PaymentBatchStatus.SCHEDULED) {
+      throw new ConflictException(
+        `El lote de pago está en estado ${batch.status} y ya no puede modificarse`
+      )
+    }
+    return batch
+  }
+
+  // Si el archivo ya pudo subirse al banco, liberar las facturas permitiría pagarlas dos veces
+  private assertNoActiveBankFile(batch: PaymentBatchDocument) {
+    if (batch.activeBankFileId) {
+      throw new ConflictException(
+        'El lote tiene un archivo bancario vigente; anúlelo antes de modificar o cancelar el lote'
+      )
+    }
+  }
+
+  // La retención se fija al programar el primer pago, con los datos vigentes de la empresa y el proveedor
+  private async applyRetencion(invoices: Invoice[], companyId: string) {
+    const company = await this.companyService.findOne(companyId)
+    const suppliers = new Map<string, IProvider>()
+    for (const invoice of invoices) {
+      if (invoice.paidAmount || invoice.scheduledAmount) continue
+      if (company?.isRetentionAgent && !suppliers.has(invoice.rucEmisor)) {
+        suppliers.set(
+          invoice.rucEmisor,
+          await this.providersService.findByTaxId(invoice.rucEmisor, companyId)
+        )
+      }
+      const result = computeRetencion({
+        isRetentionAgent: !!company?.isRetentionAgent,
+        tipoComprobante: invoice.tipoComprobante,
+        montoTotal: invoice.montoTotal,
+        moneda: invoice.moneda,
+        tipoCambio: invoice.tipoCambio,
+        detraccionAplica: invoice.detraccion?.aplica,
+        supplier: suppliers.get(invoice.rucEmisor),
+      })
+      if (!result.aplica && !invoice.retencion) continue
+      invoice.retencion = { ...result, retenido: 0 }
+    }
+  }
+
+  // Acumula en la factura la retención que corresponde al pago neto
+  private withholdRetencion(invoice: Invoice, amount: number): number {
+    if (!invoice.retencion?.aplica) return 0
+    const retained = retentionForPayment(
+      amount,
+      invoice.retencion,
+      isFullyPaid(invoice)
+    )
+    invoice.retencion.retenido = roundAmount(
+      (invoice.retencion.retenido ?? 0) + retained
+    )
+    invoice.markModified('retencion')
+    return retained
+  }
+
+  // Numera un comprobante de retención por proveedor con la serie de la empresa
+  private async issueRetentionVouchers(
+    retentions: RetentionPaymentLine[],
+    currency: string,
+    issuedAt: Date,
+    companyId: string
+  ): Promise<RetentionVoucher[]> {
+    const count = countRetentionVouchers(retentions)
+    if (count === 0) return []
+
+    for (const retention of retentions) {
+      const provider = await this.providersService.findByTaxId(
+        retention.rucProveedor,
+        companyId
+      )
+      retention.razonSocialProveedor =
+        provider && `${provider.firstName} ${provider.lastName}`
+    }
+    const { serie, firstNumber } =
+      await this.companyService.reserveRetentionNumbers(companyId, count)
+    return buildRetentionVouchers(retentions, {
+      serie,
+      firstNumber,
+      fechaEmision: issuedAt,
+      moneda: currency,
+    })
+  }
+
+  private toRetentionLine(
+    item: PaymentBatchItem,
+    invoice: Invoice,
+    paidAt: Date
+  ): RetentionPaymentLine {
+    return {
+      invoiceId: item.invoiceId,
+      rucProveedor: invoice.rucEmisor,
+      tipoComprobante: invoice.tipoComprobante,
+      serie: invoice.serie,
+      correlativo: invoice.correlativo,
+      fechaEmision: invoice.fechaEmision,
+      importeTotal: invoice.montoTotal,
+      fechaPago: paidAt,
+      importeRetenido: item.retentionAmount,
+      importeNetoPagado: item.amount,
+    }
+  }
+
+  // Suma el monto a lo programado solo si todavía cabe en el saldo que quedó guardado
+  private async reserveAmount(
+    invoice: Invoice,
+    item: PaymentBatchItem,
+    companyId: string
+  ) {
+    const result = await this.invoiceModel.updateOne(
+      {
+        _id: invoice._id,
+        companyId,
+        status: { $in: PAYABLE_STATUSES },
+        $expr: fitsPendingExpr(item.amount, invoice),
+      },
+      { $inc: { scheduledAmount: item.amount } }
+    )
+    if (!result.modifiedCount) {
+      throw new ConflictException(
+        `El saldo de la factura ${item.invoiceNumber} cambió mientras se programaba el lote; vuelva a intentarlo`
+      )
+    }
+  }
+
+  // Con $inc: otro lote puede estar programando la misma factura a la vez.
+  // Devuelve lo que sigue programado; el documento en memoria no lo reescribe al guardarse
+  private async releaseScheduledAmount(
+    invoice: Invoice,
+    amount: number
+  ): Promise<number> {
+    const updated = await this.invoiceModel
+      .findOneAndUpdate(
+        { _id: invoice._id },
+        { $inc: { scheduledAmount: -amount } },
+        { new: true, projection: { scheduledAmount: 1 } }
+      )
+      .exec()
+    return Math.max(0, roundAmount(updated?.scheduledAmount ?? 0))
+  }
+
+  // Libera el monto de un ítem; la factura sin otros pagos vuelve a APPROVED
+  private async unscheduleItem(
+    invoice: Invoice,
+    item: PaymentBatchItem,
+    actor: PaymentActor
+  ) {
+    const scheduled = await this.releaseScheduledAmount(invoice, item.amount)
+    if (
+      invoice.status === InvoiceStatus.SCHEDULED &&
+      !scheduled &&
+      !invoice.paidAmount
+    ) {
+      this.invoiceService.runTransition(
+        invoice,
+        InvoiceAction.UNSCHEDULE_PAYMENT,
+        actor
+      )
+      await invoice.save()
+    }
+  }
+
+  // Una factura anulada o rechazada después de programarse no se paga
+  private getSkipReason(invoice?: Invoice): string | undefined {
+    if (!invoice) return 'La factura ya no existe'
+    if (invoice.status !== InvoiceStatus.SCHEDULED) {
+      return `La factura está en estado ${invoice.status}`
+    }
+    return getApprovalBlockReason(invoice.state, invoice.sunatValidation)
+  }
+
+  private async updateProjectPayment(
+    invoice: Invoice,
+    companyId: string,
+    paymentDate: Date
+  ) {
+    const projectFilters: Record<string, unknown>[] = [
+      { invoiceId: invoice._id },
+    ]
+    if (invoice.projectId) projectFilters.push({ _id: invoice.projectId })
+
+    await this.projectModel.updateMany(
+      { companyId: new Types.ObjectId(companyId), $or: projectFilters },
+      {
+        paymentStatus: isFullyPaid(invoice)
+          ? PaymentStatus.COMPLETED
+          : PaymentStatus.PROCESSING,
+        paymentDate,
+      }
+    )
+  }
+
+  private async notifyProvider(
+    invoice: Invoice,
+    companyId: string,
+    paymentDate: Date
+  ) {
+    const invoiceNumber = `${invoice.serie}-${invoice.correlativo}`
+    try {
+      const provider = await this.providersService.findByTaxId(
+        invoice.rucEmisor,
+        companyId
+      )
+      if (!provider?.email) {
+        this.logger.warn(
+          `Proveedor con RUC ${invoice.rucEmisor} sin correo; no se notificó el pago de ${invoiceNumber}`
+        )
+        return
+      }
+      await this.emailService.sendPaymentScheduledNotification(
+        provider.email,
+        invoiceNumber,
+        paymentDate.toLocaleDateString('es-PE')
+      )
+    } catch (error) {
+      this.logger.error(
+        `No se pudo notificar el pago de ${invoiceNumber}: ${error.message}`
+      )
+    }
+  }
+}
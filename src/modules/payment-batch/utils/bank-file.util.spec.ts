@@ -0,0 +1,128 @@
+import {
+  BankFileInput,
+  buildBankFile,
+  normalizeText,
+  selectPayeeAccount,
+} from './bank-file.util'
+import { BankFileFormat } from '../enums/bank-file.enum'
+
+const input = (overrides: Partial<BankFileInput> = {}): BankFileInput => ({
+  originAccount: '193-1234567-0-12',
+  currency: 'PEN',
+  paymentDate: new Date('2025-06-15T00:00:00Z'),
+  reference: 'Pagos proveedores 15/06',
+  payments: [
+    {
+      beneficiaryTaxId: '20100066603',
+      beneficiaryName: 'Constructora Peñaranda',
+      bank: 'BCP',
+      accountType: 'checking',
+      account: '1945556667001',
+      interbank: false,
+      amount: 1000.5,
+      reference: 'F001-123',
+    },
+    {
+      beneficiaryTaxId: '20512345678',
+      beneficiaryName: 'Servicios Andinos',
+      bank: 'BBVA',
+      accountType: 'savings',
+      account: '01111200012345678912',
+      interbank: true,
+      amount: 250.25,
+      reference: 'E001-9',
+    },
+  ],
+  ...overrides,
+})
+
+describe('bank payment files', () => {
+  it('builds the BCP fixed-width layout with totals and control sum', () => {
+    const file = buildBankFile(BankFileFormat.BCP, input())
+    const [header, first, second] = file.content.split('\r\n')
+
+    expect(file).toMatchObject({ itemCount: 2, totalAmount: 1250.75 })
+    expect(header).toHaveLength(112)
+    expect(header.slice(0, 20)).toBe('100000220250615C0001')
+    expect(header).toContain('00000000001250.75')
+    // 1234567012 + 5556667001 + 000123456789 (cuenta dentro del CCI)
+    expect(file.controlSum).toBe('000006914690802')
+    expect(header.endsWith(file.controlSum)).toBe(true)
+
+    expect(first).toHaveLength(192)
+    expect(first.slice(0, 2)).toBe('2C')
+    expect(first).toContain('CONSTRUCTORA PENARANDA')
+    expect(second.slice(0, 2)).toBe('2B')
+    expect(file.sha256).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('builds the Interbank layout with amounts in cents', () => {
+    const file = buildBankFile(BankFileFormat.INTERBANK, input())
+    const [header, , second] = file.content.split('\r\n')
+
+    expect(header).toBe(
+      '01' +
+        '20250615' +
+        '01' +
+        '00000001931234567012' +
+        '000002' +
+        '000000000125075' +
+        file.controlSum
+    )
+    expect(second).toContain(
+      '09901111200012345678912' + '01' + '000000000025025'
+    )
+  })
+
+  it('adds a totals row to the generic CSV', () => {
+    const file = buildBankFile(BankFileFormat.CSV, input())
+    const lines = file.content.trim().split('\r\n')
+
+    expect(lines).toHaveLength(4)
+    expect(lines[3]).toBe(`TOTAL,2,,,,,PEN,1250.75,${file.controlSum}`)
+  })
+
+  it('rejects currencies the bank layout does not support', () => {
+    expect(() =>
+      buildBankFile(BankFileFormat.BCP, input({ currency: 'EUR' }))
+    ).toThrow('Moneda EUR no soportada por el banco')
+  })
+
+  it('normalizes names to the characters banks accept', () => {
+    expect(normalizeText('  José  Núñez & Cía. ')).toBe('JOSE NUNEZ CIA.')
+  })
+})
+
+describe('selectPayeeAccount', () => {
+  const accounts = [
+    { bank: 'Interbank', cci: '00310100300456789012', currency: 'PEN' },
+    {
+      bank: 'BCP',
+      accountType: 'savings',
+      accountNumber: '194-5556667-0-01',
+      currency: 'PEN',
+    },
+    { bank: 'BCP', accountNumber: '1941112223104', currency: 'USD' },
+  ]
+
+  it('prefers an account in the paying bank', () => {
+    expect(selectPayeeAccount(accounts, 'PEN', 'bcp')).toEqual({
+      bank: 'BCP',
+      accountType: 'savings',
+      account: '1945556667001',
+      interbank: false,
+    })
+  })
+
+  it('falls back to the CCI for other banks', () => {
+    expect(selectPayeeAccount(accounts, 'PEN', 'BBVA')).toMatchObject({
+      bank: 'Interbank',
+      account: '00310100300456789012',
+      interbank: true,
+    })
+  })
+
+  it('ignores accounts in another currency', () => {
+    expect(selectPayeeAccount(accounts, 'USD', 'Interbank')).toBeUndefined()
+  })
+})
@@ -0,0 +1,309 @@
+import { createHash } from 'crypto'
+import { toCsv } from '../../audit/utils/csv.util'
+import { BankFileFormat } from '../enums/bank-file.enum'
+import { roundAmount } from './payment-amount.util'
+
+export interface BankFilePayment {
+  beneficiaryTaxId: string
+  beneficiaryName: string
+  bank: string
+  accountType: string
+  // Número de cuenta en el mismo banco o CCI si el abono es interbancario
+  account: string
+  interbank: boolean
+  amount: number
+  reference: string
+}
+
+export interface BankFileInput {
+  originAccount: string
+  currency: string
+  paymentDate: Date
+  reference: string
+  payments: BankFilePayment[]
+}
+
+export interface BankFile {
+  content: string
+  extension: string
+  itemCount: number
+  totalAmount: number
+  // Suma de control que exige el layout del banco
+  controlSum: string
+  sha256: string
+}
+
+interface BankLayout {
+  bank?: string
+  extension: string
+  controlSum: (input: BankFileInput) => bigint
+  render: (input: BankFileInput, total: number, controlSum: string) => string[]
+}
+
+const CONTROL_SUM_DIGITS = 15
+const LINE_BREAK = '\r\n'
+
+// Texto en mayúsculas, sin tildes ni caracteres que rechazan los bancos
+export function normalizeText(value = ''): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export const normalizeBank = (bank = '') =>
+  normalizeText(bank).replace(/ /g, '')
+
+export const digitsOnly = (value = '') => value.replace(/\D/g, '')
+
+const alpha = (value: string, length: number) =>
+  normalizeText(value).slice(0, length).padEnd(length, ' ')
+
+const numeric = (value: string | number | bigint, length: number) =>
+  String(value).slice(-length).padStart(length, '0')
+
+const formatDate = (date: Date) =>
+  date.toISOString().slice(0, 10).replace(/-/g, '')
+
+// 14 enteros, punto y 2 decimales
+const decimalAmount = (amount: number) => {
+  const [integer, decimals] = roundAmount(amount).toFixed(2).split('.')
+  return `${numeric(integer, 14)}.${decimals}`
+}
+
+const amountInCents = (amount: number) => Math.round(amount * 100)
+
+const toBigInt = (digits: string) => BigInt(digits || '0')
+
+// El CCI tiene banco (3), oficina (3), cuenta (12) y dígitos de control (2)
+const accountCore = (payment: BankFilePayment) =>
+  payment.interbank
+    ? digitsOnly(payment.account).slice(6, 18)
+    : digitsOnly(payment.account).slice(3)
+
+const BCP_CURRENCY: Record<string, string> = { PEN: '0001', USD: '1001' }
+const BCP_ACCOUNT_TYPE: Record<string, string> = { checking: 'C', savings: 'A' }
+
+const INTERBANK_CURRENCY: Record<string, string> = { PEN: '01', USD: '10' }
+const INTERBANK_ACCOUNT_TYPE: Record<string, string> = {
+  checking: '001',
+  savings: '002',
+}
+const INTERBANK_CCI_TYPE = '099'
+
+const currencyCode = (codes: Record<string, string>, currency: string) => {
+  const code = codes[currency]
+  if (!code) throw new Error(`Moneda ${currency} no soportada por el banco`)
+  return code
+}
+
+const LAYOUTS: Record<BankFileFormat, BankLayout> = {
+  // Telecrédito BCP: cabecera tipo 1 y un registro tipo 2 por abono
+  [BankFileFormat.BCP]: {
+    bank: 'BCP',
+    extension: 'txt',
+    // Cuenta de cargo y de abono sin el código de oficina
+    controlSum: input =>
+      input.payments.reduce(
+        (sum, payment) => sum + toBigInt(accountCore(payment)),
+        toBigInt(digitsOnly(input.originAccount).slice(3))
+      ),
+    render: (input, total, controlSum) => {
+      const currency = currencyCode(BCP_CURRENCY, input.currency)
+      return [
+        [
+          '1',
+          numeric(input.payments.length, 6),
+          formatDate(input.paymentDate),
+          'C',
+          currency,
+          alpha(digitsOnly(input.originAccount), 20),
+          decimalAmount(total),
+          alpha(input.reference, 40),
+          numeric(controlSum, CONTROL_SUM_DIGITS),
+        ].join(''),
+        ...input.payments.map(payment =>
+          [
+            '2',
+            payment.interbank ? 'B' : BCP_ACCOUNT_TYPE[payment.accountType],
+            alpha(digitsOnly(payment.account), 20),
+            '6',
+            alpha(payment.beneficiaryTaxId, 12),
+            alpha(payment.beneficiaryName, 75),
+            alpha(payment.reference, 40),
+            alpha(input.reference, 20),
+            currency,
+            decimalAmount(payment.amount),
+            'S',
+          ].join('')
+        ),
+      ]
+    },
+  },
+  // Pago a proveedores Interbank: cabecera 01, detalle 02 con montos en céntimos
+  [BankFileFormat.INTERBANK]: {
+    bank: 'INTERBANK',
+    extension: 'txt',
+    controlSum: input =>
+      input.payments.reduce(
+        (sum, payment) =>
+          sum +
+          BigInt(amountInCents(payment.amount)) +
+          toBigInt(digitsOnly(payment.account).slice(-10)),
+        0n
+      ),
+    render: (input, total, controlSum) => {
+      const currency = currencyCode(INTERBANK_CURRENCY, input.currency)
+      return [
+        [
+          '01',
+          formatDate(input.paymentDate),
+          currency,
+          numeric(digitsOnly(input.originAccount), 20),
+          numeric(input.payments.length, 6),
+          numeric(amountInCents(total), 15),
+          numeric(controlSum, CONTROL_SUM_DIGITS),
+        ].join(''),
+        ...input.payments.map(payment =>
+          [
+            '02',
+            '06',
+            alpha(payment.beneficiaryTaxId, 15),
+            alpha(payment.beneficiaryName, 60),
+            payment.interbank
+              ? INTERBANK_CCI_TYPE
+              : INTERBANK_ACCOUNT_TYPE[payment.accountType],
+            numeric(digitsOnly(payment.account), 20),
+            currency,
+            numeric(amountInCents(payment.amount), 15),
+            alpha(payment.reference, 20),
+          ].join('')
+        ),
+      ]
+    },
+  },
+  // Una fila por abono y una fila final con totales
+  [BankFileFormat.CSV]: {
+    extension: 'csv',
+    controlSum: input =>
+      input.payments.reduce(
+        (sum, payment) => sum + BigInt(amountInCents(payment.amount)),
+        0n
+      ),
+    render: (input, total, controlSum) => [
+      toCsv(
+        [
+          'ruc',
+          'beneficiario',
+          'banco',
+          'tipo_cuenta',
+          'cuenta',
+          'interbancaria',
+          'moneda',
+          'monto',
+          'referencia',
+        ],
+        [
+          ...input.payments.map(payment => [
+            payment.beneficiaryTaxId,
+            normalizeText(payment.beneficiaryName),
+            payment.bank,
+            payment.accountType,
+            digitsOnly(payment.account),
+            payment.interbank ? 'S' : 'N',
+            input.currency,
+            payment.amount.toFixed(2),
+            payment.reference,
+          ]),
+          [
+            'TOTAL',
+            input.payments.length,
+            '',
+            '',
+            '',
+            '',
+            input.currency,
+            total.toFixed(2),
+            controlSum,
+          ],
+        ]
+      ),
+    ],
+  },
+}
+
+// Banco al que se sube el archivo; el CSV genérico sirve para cualquiera
+export const getLayoutBank = (format: BankFileFormat): string | undefined =>
+  LAYOUTS[format].bank
+
+export function buildBankFile(
+  format: BankFileFormat,
+  input: BankFileInput
+): BankFile {
+  const layout = LAYOUTS[format]
+  const totalAmount = roundAmount(
+    input.payments.reduce((sum, payment) => sum + payment.amount, 0)
+  )
+  const controlSum = numeric(layout.controlSum(input), CONTROL_SUM_DIGITS)
+  const content =
+    layout.render(input, totalAmount, controlSum).join(LINE_BREAK) + LINE_BREAK
+
+  return {
+    content,
+    extension: layout.extension,
+    itemCount: input.payments.length,
+    totalAmount,
+    controlSum,
+    sha256: createHash('sha256').update(content, 'utf8').digest('hex'),
+  }
+}
+
+export interface PayeeAccount {
+  bank: string
+  accountType?: string
+  accountNumber?: string
+  cci?: string
+  currency?: string
+}
+
+export interface SelectedAccount {
+  bank: string
+  accountType: string
+  account: string
+  interbank: boolean
+}
+
+// Abono directo si el proveedor tiene cuenta en el banco pagador; si no, por CCI
+export function selectPayeeAccount(
+  accounts: PayeeAccount[] = [],
+  currency: string,
+  payingBank: string
+): SelectedAccount | undefined {
+  const candidates = accounts.filter(
+    account => (account.currency ?? 'PEN') === currency
+  )
+  const sameBank = candidates.find(
+    account =>
+      normalizeBank(account.bank) === normalizeBank(payingBank) &&
+      digitsOnly(account.accountNumber)
+  )
+  if (sameBank) {
+    return {
+      bank: sameBank.bank,
+      accountType: sameBank.accountType ?? 'checking',
+      account: digitsOnly(sameBank.accountNumber),
+      interbank: false,
+    }
+  }
+  const interbank = candidates.find(account => digitsOnly(account.cci))
+  if (!interbank) return undefined
+  return {
+    bank: interbank.bank,
+    accountType: interbank.accountType ?? 'checking',
+    account: digitsOnly(interbank.cci),
+    interbank: true,
+  }
+}
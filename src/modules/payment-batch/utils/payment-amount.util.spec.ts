@@ -0,0 +1,41 @@
+import {
+  exceedsPending,
+  isFullyPaid,
+  pendingAmount,
+} from './payment-amount.util'
+
+describe('payment amounts', () => {
+  const invoice = { montoTotal: 1180, paidAmount: 500, scheduledAmount: 180 }
+
+  it('subtracts paid and scheduled amounts from the total', () => {
+    expect(pendingAmount(invoice)).toBe(500)
+    expect(pendingAmount({ montoTotal: 100.1 })).toBe(100.1)
+  })
+
+  it('allows paying up to the pending balance', () => {
+    expect(exceedsPending(500, invoice)).toBe(false)
+    expect(exceedsPending(500.01, invoice)).toBe(true)
+  })
+
+  it('treats rounding differences as fully paid', () => {
+    expect(isFullyPaid({ montoTotal: 0.3, paidAmount: 0.1 + 0.2 })).toBe(true)
+    expect(isFullyPaid({ montoTotal: 1180, paidAmount: 680 })).toBe(false)
+  })
+
+  it('pays the supplier the total net of detracción', () => {
+    const withDetraccion = {
+      montoTotal: 1180,
+      detraccion: { aplica: true, montoNeto: 1038 },
+    }
+    expect(pendingAmount(withDetraccion)).toBe(1038)
+    expect(isFullyPaid({ ...withDetraccion, paidAmount: 1038 })).toBe(true)
+  })
+
+  it('pays the supplier the total net of the IGV retention', () => {
+    const withRetencion = {
+      montoTotal: 1180,
+      retencion: { aplica: true, montoNeto: 1144.6 },
+    }
+    expect(pendingAmount({ ...withRetencion, paidAmount: 500 })).toBe(644.6)
+  })
+})
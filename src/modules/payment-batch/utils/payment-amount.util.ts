@@ -0,0 +1,60 @@
+// Margen para comparar montos en soles/dólares con decimales
+const TOLERANCE = 0.005
+
+export interface PayableInvoice {
+  montoTotal: number
+  paidAmount?: number
+  scheduledAmount?: number
+  detraccion?: { aplica?: boolean; montoNeto?: number }
+  retencion?: { aplica?: boolean; montoNeto?: number }
+}
+
+export const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// Lo que se paga al proveedor: la detracción se deposita aparte en el Banco de la Nación
+// y la retención del IGV la entrega la empresa a SUNAT (ambas no se aplican a la vez)
+export function payableTotal(invoice: PayableInvoice): number {
+  if (invoice.detraccion?.aplica && invoice.detraccion.montoNeto != null) {
+    return invoice.detraccion.montoNeto
+  }
+  if (invoice.retencion?.aplica && invoice.retencion.montoNeto != null) {
+    return invoice.retencion.montoNeto
+  }
+  return invoice.montoTotal
+}
+
+// Saldo que todavía puede incluirse en un lote
+export function pendingAmount(invoice: PayableInvoice): number {
+  return roundAmount(
+    payableTotal(invoice) -
+      (invoice.paidAmount ?? 0) -
+      (invoice.scheduledAmount ?? 0)
+  )
+}
+
+export function isFullyPaid(invoice: PayableInvoice): boolean {
+  return (invoice.paidAmount ?? 0) >= payableTotal(invoice) - TOLERANCE
+}
+
+export function exceedsPending(
+  amount: number,
+  invoice: PayableInvoice
+): boolean {
+  return amount > pendingAmount(invoice) + TOLERANCE
+}
+
+// Condición de Mongo equivalente a !exceedsPending, evaluada sobre los montos guardados
+export function fitsPendingExpr(amount: number, invoice: PayableInvoice) {
+  return {
+    $lte: [
+      {
+        $add: [
+          { $ifNull: ['$paidAmount', 0] },
+          { $ifNull: ['$scheduledAmount', 0] },
+          amount,
+        ],
+      },
+      payableTotal(invoice) + TOLERANCE,
+    ],
+  }
+}
@@ -0,0 +1,72 @@
+import { Types } from 'mongoose'
+import {
+  buildRetentionVouchers,
+  countRetentionVouchers,
+  RetentionPaymentLine,
+} from './retention-voucher.util'
+
+const payment = (
+  rucProveedor: string,
+  correlativo: string,
+  importeRetenido: number,
+  importeNetoPagado: number
+): RetentionPaymentLine => ({
+  invoiceId: new Types.ObjectId(),
+  rucProveedor,
+  razonSocialProveedor: `Proveedor ${rucProveedor}`,
+  tipoComprobante: '01',
+  serie: 'F001',
+  correlativo,
+  fechaEmision: '01-06-2025',
+  importeTotal: 1180,
+  fechaPago: new Date('2025-06-15'),
+  importeRetenido,
+  importeNetoPagado,
+})
+
+describe('buildRetentionVouchers', () => {
+  const payments = [
+    payment('20100066603', '1', 35.4, 1144.6),
+    payment('20512345678', '7', 15.46, 500),
+    payment('20100066603', '2', 35.4, 1144.6),
+    payment('20600000001', '9', 0, 600),
+  ]
+  const numbering = {
+    serie: 'R001',
+    firstNumber: 41,
+    fechaEmision: new Date('2025-06-15'),
+    moneda: 'PEN',
+  }
+
+  it('issues one numbered voucher per supplier with retention', () => {
+    const vouchers = buildRetentionVouchers(payments, numbering)
+
+    expect(countRetentionVouchers(payments)).toBe(2)
+    expect(vouchers.map(v => [v.rucProveedor, v.correlativo])).toEqual([
+      ['20100066603', '00000041'],
+      ['20512345678', '00000042'],
+    ])
+    expect(vouchers[0]).toMatchObject({
+      serie: 'R001',
+      regimen: '01',
+      tasa: 3,
+      razonSocialProveedor: 'Proveedor 20100066603',
+      totalRetenido: 70.8,
+      totalPagado: 2360,
+    })
+  })
+
+  it('records the gross payment, the retention and the net paid per invoice', () => {
+    const [, partial] = buildRetentionVouchers(payments, numbering)
+
+    expect(partial.lines).toEqual([
+      expect.objectContaining({
+        correlativo: '7',
+        importePagado: 515.46,
+        importeRetenido: 15.46,
+        importeNetoPagado: 500,
+      }),
+    ])
+    expect(partial.lines[0]).not.toHaveProperty('rucProveedor')
+  })
+})
@@ -0,0 +1,96 @@
+import { Types } from 'mongoose'
+import {
+  RETENCION_RATE,
+  RETENCION_REGIMEN,
+} from '../../invoice/constants/retencion.constants'
+
+export interface RetentionPaymentLine {
+  invoiceId: Types.ObjectId
+  rucProveedor: string
+  razonSocialProveedor?: string
+  tipoComprobante: string
+  serie: string
+  correlativo: string
+  fechaEmision: string
+  importeTotal: number
+  fechaPago: Date
+  importeRetenido: number
+  // Lo abonado al proveedor en el lote
+  importeNetoPagado: number
+}
+
+export interface RetentionVoucherData {
+  serie: string
+  correlativo: string
+  fechaEmision: Date
+  rucProveedor: string
+  razonSocialProveedor?: string
+  regimen: string
+  tasa: number
+  moneda: string
+  lines: (Omit<
+    RetentionPaymentLine,
+    'rucProveedor' | 'razonSocialProveedor'
+  > & {
+    importePagado: number
+  })[]
+  totalRetenido: number
+  totalPagado: number
+}
+
+export interface RetentionNumbering {
+  serie: string
+  firstNumber: number
+  fechaEmision: Date
+  moneda: string
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Agrupa los pagos con retención en un comprobante por proveedor, en orden de aparición
+export function buildRetentionVouchers(
+  payments: RetentionPaymentLine[],
+  numbering: RetentionNumbering
+): RetentionVoucherData[] {
+  const bySupplier = new Map<string, RetentionPaymentLine[]>()
+  for (const payment of payments.filter(p => p.importeRetenido > 0)) {
+    const group = bySupplier.get(payment.rucProveedor) ?? []
+    group.push(payment)
+    bySupplier.set(payment.rucProveedor, group)
+  }
+
+  return [...bySupplier.values()].map((group, index) => {
+    const lines = group.map(
+      ({ rucProveedor, razonSocialProveedor, ...line }) => ({
+        ...line,
+        importePagado: round2(line.importeNetoPagado + line.importeRetenido),
+      })
+    )
+    return {
+      serie: numbering.serie,
+      correlativo: String(numbering.firstNumber + index).padStart(8, '0'),
+      fechaEmision: numbering.fechaEmision,
+      rucProveedor: group[0].rucProveedor,
+      razonSocialProveedor: group[0].razonSocialProveedor,
+      regimen: RETENCION_REGIMEN,
+      tasa: RETENCION_RATE,
+      moneda: numbering.moneda,
+      lines,
+      totalRetenido: round2(
+        lines.reduce((sum, line) => sum + line.importeRetenido, 0)
+      ),
+      totalPagado: round2(
+        lines.reduce((sum, line) => sum + line.importePagado, 0)
+      ),
+    }
+  })
+}
+
+// Cantidad de correlativos que consumirá el lote
+export function countRetentionVouchers(
+  payments: RetentionPaymentLine[]
+): number {
+  return new Set(
+    payments.filter(p => p.importeRetenido > 0).map(p => p.rucProveedor)
+  ).size
+}
@@ -56,6 +56,10 @@ export class CreateProjectDto {
   @IsOptional()
   providerId?: string
 
+  @IsString()
+  @IsOptional()
+  leadId?: string
+
   @IsEnum(ProjectStatus)
   @IsOptional()
   status?: ProjectStatus
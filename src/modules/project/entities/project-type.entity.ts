@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Document } from 'mongoose'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
 
 export interface ProjectTypeDocument extends Document {
   name: string
@@ -29,3 +30,5 @@ export class ProjectType {
 }
 
 export const ProjectTypeSchema = SchemaFactory.createForClass(ProjectType)
+
+ProjectTypeSchema.plugin(tenantPlugin)
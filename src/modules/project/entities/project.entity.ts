@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Document, Types } from 'mongoose'
 import { ProjectStatus } from '../dto/create-project.dto'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
 
 export interface ProjectDocument extends Document {
   name: string
@@ -8,6 +10,7 @@ export interface ProjectDocument extends Document {
   clientId: Types.ObjectId
   companyId: Types.ObjectId
   providerId?: Types.ObjectId
+  leadId?: string
   status: ProjectStatus
   startDate: Date
   endDate: Date
@@ -29,6 +32,8 @@ export interface ProjectDocument extends Document {
   createdAt: Date
   updatedAt: Date
   completedAt?: Date
+  createdBy?: string
+  updatedBy?: string
 }
 
 export interface GetProjectDocument extends ProjectDocument {
@@ -52,6 +57,10 @@ export class Project {
   @Prop({ ref: 'Provider' })
   providerId: Types.ObjectId
 
+  // Responsable del proyecto; puede ser un paso de la cadena de aprobación de gastos
+  @Prop({ type: String, ref: 'User' })
+  leadId?: string
+
   @Prop({ required: true, enum: ProjectStatus, default: ProjectStatus.PENDING })
   status: ProjectStatus
 
@@ -109,6 +118,13 @@ export class Project {
   @Prop()
   completedAt: Date
 
+  // Quién creó y quién modificó por última vez; el historial completo está en la auditoría
+  @Prop({ type: String, ref: 'User' })
+  createdBy?: string
+
+  @Prop({ type: String, ref: 'User' })
+  updatedBy?: string
+
   @Prop({ type: Date, default: Date.now })
   createdAt: Date
 
@@ -117,3 +133,6 @@ export class Project {
 }
 
 export const ProjectSchema = SchemaFactory.createForClass(Project)
+
+ProjectSchema.plugin(tenantPlugin)
+ProjectSchema.plugin(auditPlugin, { entity: 'Project' })
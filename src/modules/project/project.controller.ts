@@ -9,7 +9,6 @@ import {
   HttpCode,
   HttpStatus,
   UseGuards,
-  Request,
   Query,
 } from '@nestjs/common'
 import { ProjectService } from './project.service'
@@ -26,6 +25,8 @@ import { Roles } from '../auth/decorators/roles.decorator'
 import { UserRole } from '../../shared/enums/role.enum'
 import { Project } from './entities/project.entity'
 import { UpdateProjectDto } from './dto/update-project.dto'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
 
 @Controller('projects')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -34,8 +35,11 @@ export class ProjectController {
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COMPANY)
-  create(@Body() createProjectDto: CreateProjectDto, @Request() req) {
-    return this.projectService.create(createProjectDto, req.user)
+  create(
+    @Body() createProjectDto: CreateProjectDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    return this.projectService.create(createProjectDto, auth)
   }
 
   @Get(':companyId')
@@ -88,9 +92,9 @@ export class ProjectController {
   updateStatus(
     @Param('id') id: string,
     @Body() updateStatusDto: UpdateProjectStatusDto,
-    @Request() req
+    @CurrentAuth() auth: AuthContext
   ) {
-    return this.projectService.updateStatus(id, updateStatusDto, req.user)
+    return this.projectService.updateStatus(id, updateStatusDto, auth)
   }
 
   @Patch(':id/work-status/:companyId')
@@ -98,9 +102,9 @@ export class ProjectController {
   updateWorkStatus(
     @Param('id') id: string,
     @Body() updateWorkDto: UpdateWorkStatusDto,
-    @Request() req
+    @CurrentAuth() auth: AuthContext
   ) {
-    return this.projectService.updateWorkStatus(id, updateWorkDto, req.user)
+    return this.projectService.updateWorkStatus(id, updateWorkDto, auth)
   }
 
   @Patch(':id/approve-work/:companyId')
@@ -108,9 +112,9 @@ export class ProjectController {
   approveWork(
     @Param('id') id: string,
     @Body() approveWorkDto: ApproveWorkDto,
-    @Request() req
+    @CurrentAuth() auth: AuthContext
   ) {
-    return this.projectService.approveWork(id, approveWorkDto, req.user)
+    return this.projectService.approveWork(id, approveWorkDto, auth)
   }
 
   @Patch(':id/assign-provider/:providerId/:companyId')
@@ -120,12 +124,12 @@ export class ProjectController {
     @Param('providerId') providerId: string,
     @Param('companyId') companyId: string
   ): Promise<Project> {
-    return this.projectService.assignProvider(id, providerId)
+    return this.projectService.assignProvider(id, providerId, companyId)
   }
 
   @Delete(':id')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COMPANY)
-  remove(@Param('id') id: string) {
-    return this.projectService.remove(id)
+  remove(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    return this.projectService.remove(id, auth.companyId)
   }
 }
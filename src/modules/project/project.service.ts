@@ -12,7 +12,9 @@ import {
 import { InjectModel } from '@nestjs/mongoose'
 import { Model, Types } from 'mongoose'
 import { Project } from './entities/project.entity'
-import { IUser } from '../auth/interfaces/user.interface'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+import { hasRole } from '../auth/utils/auth-context.util'
+import { UserRole } from '../../shared/enums/role.enum'
 import { UpdateProjectDto } from './dto/update-project.dto'
 
 @Injectable()
@@ -23,14 +25,14 @@ export class ProjectService {
 
   async create(
     createProjectDto: CreateProjectDto,
-    user: IUser
+    auth: AuthContext
   ): Promise<Project> {
     const companyIdObject = new Types.ObjectId(createProjectDto.companyId)
     const project = new this.projectModel({
       ...createProjectDto,
       companyId: companyIdObject,
-      createdBy: user._id,
-      updatedBy: user._id,
+      createdBy: auth.userId,
+      updatedBy: auth.userId,
       status: createProjectDto.status || 'PENDIENTE',
       workStatus: createProjectDto.workStatus || 'PENDIENTE',
     })
@@ -155,15 +157,15 @@ export class ProjectService {
   async updateStatus(
     id: string,
     updateStatusDto: UpdateProjectStatusDto,
-    user: IUser
+    auth: AuthContext
   ): Promise<Project> {
-    const companyIdObject = new Types.ObjectId(user.companyId)
+    const companyIdObject = new Types.ObjectId(auth.companyId)
     const project = await this.projectModel.findById(id).exec()
     if (!project) {
       throw new NotFoundException('Proyecto no encontrado')
     }
     if (
-      user.role !== 'ADMIN' &&
+      !hasRole(auth, UserRole.ADMIN) &&
       project.companyId.toString() !== companyIdObject.toString()
     ) {
       throw new NotFoundException('Proyecto no encontrado')
@@ -172,7 +174,7 @@ export class ProjectService {
     return this.projectModel
       .findByIdAndUpdate(
         id,
-        { status: updateStatusDto.status, updatedBy: user._id },
+        { status: updateStatusDto.status, updatedBy: auth.userId },
         { new: true }
       )
       .exec()
@@ -188,15 +190,15 @@ export class ProjectService {
   async updateWorkStatus(
     id: string,
     updateWorkStatusDto: UpdateWorkStatusDto,
-    user: IUser
+    auth: AuthContext
   ): Promise<Project> {
     const project = await this.projectModel.findById(id).exec()
     if (!project) {
       throw new NotFoundException('Proyecto no encontrado')
     }
     if (
-      user.role !== 'ADMIN' &&
-      project.companyId.toString() !== user.companyId.toString()
+      !hasRole(auth, UserRole.ADMIN) &&
+      project.companyId.toString() !== auth.companyId
     ) {
       throw new NotFoundException('Proyecto no encontrado')
     }
@@ -207,7 +209,7 @@ export class ProjectService {
         {
           workStatus: updateWorkStatusDto.workStatus,
           notes: updateWorkStatusDto.notes,
-          updatedBy: user._id,
+          updatedBy: auth.userId,
         },
         { new: true }
       )
@@ -217,15 +219,15 @@ export class ProjectService {
   async approveWork(
     id: string,
     approveWorkDto: ApproveWorkDto,
-    user: IUser
+    auth: AuthContext
   ): Promise<Project> {
     const project = await this.projectModel.findById(id).exec()
     if (!project) {
       throw new NotFoundException('Proyecto no encontrado')
     }
     if (
-      user.role !== 'ADMIN' &&
-      project.companyId.toString() !== user.companyId.toString()
+      !hasRole(auth, UserRole.ADMIN) &&
+      project.companyId.toString() !== auth.companyId
     ) {
       throw new NotFoundException('Proyecto no encontrado')
     }
@@ -236,16 +238,20 @@ export class ProjectService {
         {
           workStatus: 'COMPLETADO',
           notes: approveWorkDto.notes,
-          updatedBy: user._id,
+          updatedBy: auth.userId,
         },
         { new: true }
       )
       .exec()
   }
 
-  async assignProvider(id: string, providerId: string): Promise<Project> {
-    return this.projectModel.findByIdAndUpdate(
-      id,
+  async assignProvider(
+    id: string,
+    providerId: string,
+    companyId: string
+  ): Promise<Project> {
+    return this.projectModel.findOneAndUpdate(
+      { _id: id, companyId: new Types.ObjectId(companyId) },
       {
         providerId: new Types.ObjectId(providerId),
         status: ProjectStatus.IN_PROGRESS,
@@ -254,9 +260,9 @@ export class ProjectService {
     )
   }
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, companyId: string): Promise<void> {
     const result = await this.projectModel
-      .findOneAndDelete({ _id: id })
+      .findOneAndDelete({ _id: id, companyId: new Types.ObjectId(companyId) })
       .exec()
     if (!result) {
       throw new NotFoundException('Proyecto no encontrado')
@@ -10,10 +10,55 @@ import {
   Matches,
   IsEnum,
   IsBoolean,
+  ValidateNested,
 } from 'class-validator'
-import { Transform } from 'class-transformer'
+import { Transform, Type } from 'class-transformer'
 import { CommonStatus } from '../../../shared/enums/status.enum'
 import { UserRole } from '../../../shared/enums/role.enum'
+import { BankAccountType } from '../enums/bank-account-type.enum'
+
+export class ProviderBankAccountDto {
+  @ApiProperty({ description: 'Banco', example: 'BCP' })
+  @IsString()
+  @IsNotEmpty()
+  bank: string
+
+  @ApiProperty({
+    description: 'Tipo de cuenta',
+    enum: BankAccountType,
+    default: BankAccountType.CHECKING,
+  })
+  @IsEnum(BankAccountType)
+  @IsOptional()
+  accountType?: BankAccountType
+
+  @ApiProperty({
+    description: 'Número de cuenta (solo dígitos)',
+    example: '1931234567012',
+    required: false,
+  })
+  @Matches(/^[0-9]{10,20}$/, {
+    message: 'El número de cuenta debe tener entre 10 y 20 dígitos',
+  })
+  @IsOptional()
+  accountNumber?: string
+
+  @ApiProperty({
+    description: 'Código de cuenta interbancario',
+    example: '00219300123456701215',
+    required: false,
+  })
+  @Matches(/^[0-9]{20}$/, {
+    message: 'El CCI debe contener exactamente 20 dígitos',
+  })
+  @IsOptional()
+  cci?: string
+
+  @ApiProperty({ description: 'Moneda de la cuenta', example: 'PEN' })
+  @IsString()
+  @IsOptional()
+  currency?: string
+}
 
 export class CreateProviderDto {
   @ApiProperty({ description: 'Nombre del proveedor' })
@@ -76,6 +121,35 @@ export class CreateProviderDto {
   @IsOptional()
   products: string[] = []
 
+  @ApiProperty({
+    description: 'Cuentas bancarias para pagos',
+    type: [ProviderBankAccountDto],
+    required: false,
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProviderBankAccountDto)
+  @IsOptional()
+  bankAccounts?: ProviderBankAccountDto[]
+
+  @ApiProperty({
+    description: 'Incluido en el padrón de buenos contribuyentes',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  buenContribuyente?: boolean
+
+  @ApiProperty({
+    description: 'Incluido en el padrón de agentes de retención',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  agenteRetencion?: boolean
+
   @ApiProperty({
     description: 'Estado del proveedor',
     enum: CommonStatus,
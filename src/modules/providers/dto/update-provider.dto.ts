@@ -7,9 +7,13 @@ import {
   MinLength,
   Matches,
   IsEnum,
+  ValidateNested,
+  IsBoolean,
 } from 'class-validator'
+import { Type } from 'class-transformer'
 import { CommonStatus } from '../../../shared/enums/status.enum'
 import { UserRole } from '../../../shared/enums/role.enum'
+import { ProviderBankAccountDto } from './create-provider.dto'
 
 export class UpdateProviderDto {
   @ApiProperty({ description: 'Nombre del proveedor', required: false })
@@ -65,6 +69,35 @@ export class UpdateProviderDto {
   @IsOptional()
   products?: string[]
 
+  @ApiProperty({
+    description: 'Cuentas bancarias para pagos',
+    type: [ProviderBankAccountDto],
+    required: false,
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ProviderBankAccountDto)
+  @IsOptional()
+  bankAccounts?: ProviderBankAccountDto[]
+
+  @ApiProperty({
+    description: 'Incluido en el padrón de buenos contribuyentes',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  buenContribuyente?: boolean
+
+  @ApiProperty({
+    description: 'Incluido en el padrón de agentes de retención',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  agenteRetencion?: boolean
+
   @ApiProperty({
     description: 'Estado del proveedor',
     enum: CommonStatus,
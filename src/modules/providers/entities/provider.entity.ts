@@ -2,6 +2,37 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Document } from 'mongoose'
 import { CommonStatus } from '../../../shared/enums/status.enum'
 import { UserRole } from '../../../shared/enums/role.enum'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { BankAccountType } from '../enums/bank-account-type.enum'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+// Cuenta donde el proveedor recibe los pagos de tesorería
+@Schema({ _id: false })
+export class ProviderBankAccount {
+  @Prop({ required: true })
+  bank: string
+
+  @Prop({
+    type: String,
+    enum: BankAccountType,
+    default: BankAccountType.CHECKING,
+  })
+  accountType: BankAccountType
+
+  // Necesario para abonos en el mismo banco
+  @Prop()
+  accountNumber?: string
+
+  // Necesario para abonos interbancarios
+  @Prop()
+  cci?: string
+
+  @Prop({ default: 'PEN' })
+  currency: string
+}
+
+export const ProviderBankAccountSchema =
+  SchemaFactory.createForClass(ProviderBankAccount)
 
 export type ProviderDocument = Provider & Document
 
@@ -31,6 +62,16 @@ export class Provider extends Document {
   @Prop({ type: [String], default: [] })
   products: string[]
 
+  @Prop({ type: [ProviderBankAccountSchema], default: [] })
+  bankAccounts: ProviderBankAccount[]
+
+  // Exceptuados de la retención del IGV según los padrones de SUNAT
+  @Prop({ default: false })
+  buenContribuyente: boolean
+
+  @Prop({ default: false })
+  agenteRetencion: boolean
+
   @Prop({ type: String, enum: CommonStatus, default: CommonStatus.PENDING })
   status: CommonStatus
 
@@ -45,3 +86,6 @@ export class Provider extends Document {
 }
 
 export const ProviderSchema = SchemaFactory.createForClass(Provider)
+
+ProviderSchema.plugin(tenantPlugin)
+ProviderSchema.plugin(auditPlugin, { entity: 'Provider' })
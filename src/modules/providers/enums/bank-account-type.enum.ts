@@ -0,0 +1,4 @@
+export enum BankAccountType {
+  CHECKING = 'checking',
+  SAVINGS = 'savings',
+}
@@ -7,13 +7,14 @@ import {
   Param,
   Delete,
   UseGuards,
-  Req
 } from '@nestjs/common'
 import { Roles } from '../../decorators/roles.decorator'
 import { UserRole } from '../../shared/enums/role.enum'
 import { JwtAuthGuard } from '../../guards/jwt-auth.guard'
 import { RolesGuard } from '../../guards/roles.guard'
-import { IRequest } from '../../shared/interfaces/request.interface'
+import { CurrentAuth } from '../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../auth/interfaces/auth-context.interface'
+import { hasRole } from '../auth/utils/auth-context.util'
 import { ProvidersService } from './providers.service'
 import { CreateProviderDto } from './dto/create-provider.dto'
 import { UpdateProviderDto } from './dto/update-provider.dto'
@@ -28,9 +29,9 @@ export class ProvidersController {
   @Roles(UserRole.ADMIN, UserRole.COMPANY)
   async create(
     @Body() createProviderDto: CreateProviderDto,
-    @Req() req: IRequest
+    @CurrentAuth() auth: AuthContext
   ) {
-    const companyId = req.user.companyId
+    const companyId = auth.companyId
     return this.providersService.create(createProviderDto, companyId)
   }
 
@@ -42,8 +43,8 @@ export class ProvidersController {
     UserRole.ACCOUNTING,
     UserRole.TREASURY
   )
-  async findAll(@Req() req: IRequest) {
-    const companyId = req.user.companyId
+  async findAll(@CurrentAuth() auth: AuthContext) {
+    const companyId = auth.companyId
     return this.providersService.findAll(companyId)
   }
 
@@ -51,19 +52,23 @@ export class ProvidersController {
   @Roles(UserRole.ADMIN, UserRole.COMPANY)
   async findByCompany(
     @Param('companyId') companyId: string,
-    @Req() req: IRequest
+    @CurrentAuth() auth: AuthContext
   ) {
-    if (req.user.role === UserRole.COMPANY) {
-      companyId = req.user.companyId
+    if (hasRole(auth, UserRole.COMPANY)) {
+      companyId = auth.companyId
     }
     return this.providersService.findByCompanyId(companyId)
   }
 
   @Get(':id/:companyId')
   @Roles(UserRole.ADMIN, UserRole.COMPANY, UserRole.PROVIDER)
-  async findOne(@Param('id') id: string, @Param('companyId') companyId: string, @Req() req: IRequest) {
-    if (req.user.role === UserRole.COMPANY) {
-      companyId = req.user.companyId
+  async findOne(
+    @Param('id') id: string,
+    @Param('companyId') companyId: string,
+    @CurrentAuth() auth: AuthContext
+  ) {
+    if (hasRole(auth, UserRole.COMPANY)) {
+      companyId = auth.companyId
     }
     return this.providersService.findById(id, companyId)
   }
@@ -73,16 +78,16 @@ export class ProvidersController {
   async update(
     @Param('id') id: string,
     @Body() updateProviderDto: UpdateProviderDto,
-    @Req() req: IRequest
+    @CurrentAuth() auth: AuthContext
   ) {
-    const companyId = req.user.companyId
+    const companyId = auth.companyId
     return this.providersService.update(id, updateProviderDto, companyId)
   }
 
   @Delete(':id')
   @Roles(UserRole.ADMIN, UserRole.COMPANY)
-  async remove(@Param('id') id: string, @Req() req: IRequest) {
-    const companyId = req.user.companyId
+  async remove(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
+    const companyId = auth.companyId
     return this.providersService.remove(id)
   }
 }
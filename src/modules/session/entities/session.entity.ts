@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document, Types } from 'mongoose'
+import { SessionRevocationReason } from '../enums/session-revocation-reason.enum'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
+
+export interface SessionDocument extends Document {
+  userId: string
+  companyId?: Types.ObjectId
+  refreshTokenHash: string
+  userAgent?: string
+  ip?: string
+  lastUsedAt: Date
+  expiresAt: Date
+  revokedAt?: Date
+  revokedReason?: SessionRevocationReason
+  createdAt?: Date
+}
+
+// Una sesión por dispositivo; guarda el SHA-256 del refresh token vigente
+@Schema({ timestamps: true })
+export class Session {
+  @Prop({ type: String, ref: 'User', required: true, index: true })
+  userId: string
+
+  @Prop({ type: Types.ObjectId, ref: 'Company' })
+  companyId?: Types.ObjectId
+
+  @Prop({ required: true })
+  refreshTokenHash: string
+
+  @Prop()
+  userAgent?: string
+
+  @Prop()
+  ip?: string
+
+  @Prop({ required: true })
+  lastUsedAt: Date
+
+  // Vencimiento absoluto: rotar el refresh token no lo extiende
+  @Prop({ required: true })
+  expiresAt: Date
+
+  @Prop()
+  revokedAt?: Date
+
+  @Prop({ type: String, enum: SessionRevocationReason })
+  revokedReason?: SessionRevocationReason
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session)
+
+SessionSchema.plugin(tenantPlugin)
+
+// Mongo elimina las sesiones vencidas
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
@@ -0,0 +1,11 @@
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  // El usuario cerró la sesión desde la lista de dispositivos
+  USER_REVOKED = 'user_revoked',
+  ROLE_CHANGED = 'role_changed',
+  DEACTIVATED = 'deactivated',
+  USER_DELETED = 'user_deleted',
+  PASSWORD_CHANGED = 'password_changed',
+  // Se presentó un refresh token ya rotado: posible robo del token
+  TOKEN_REUSE = 'token_reuse',
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common'
+import { MongooseModule } from '@nestjs/mongoose'
+import { ConfigModule } from '@nestjs/config'
+import { Session, SessionSchema } from './entities/session.entity'
+import { SessionService } from './session.service'
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Session.name, schema: SessionSchema }]),
+    ConfigModule,
+  ],
+  providers: [SessionService],
+  exports: [SessionService],
+})
+export class SessionModule {}
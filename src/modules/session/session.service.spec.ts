@@ -0,0 +1,121 @@
+import { UnauthorizedException } from '@nestjs/common'
+import { createHash } from 'crypto'
+import { SessionService } from './session.service'
+import { SessionRevocationReason } from './enums/session-revocation-reason.enum'
+
+const SESSION_ID = '64b7f0c2a1b2c3d4e5f60718'
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex')
+
+describe('SessionService', () => {
+  const build = (session?: Record<string, any>) => {
+    const stored: Record<string, any> = session && {
+      _id: SESSION_ID,
+      userId: 'user-1',
+      refreshTokenHash: sha256('s'.repeat(64)),
+      expiresAt: new Date(Date.now() + 60000),
+      save: jest.fn(),
+      ...session,
+    }
+    const sessionModel = {
+      create: jest.fn(async (data: Record<string, unknown>) => ({
+        _id: SESSION_ID,
+        ...data,
+      })),
+      findById: jest.fn(() => ({ exec: async () => stored })),
+      findOneAndUpdate: jest.fn(
+        (_filter: unknown, update: { $set: Record<string, unknown> }) => ({
+          exec: async () => ({ ...stored, ...update.$set }),
+        })
+      ),
+      updateMany: jest.fn(async () => ({ modifiedCount: 2 })),
+    }
+    const configService = { get: () => '7' }
+    const service = new SessionService(
+      sessionModel as any,
+      configService as any
+    )
+    return { service, stored, sessionModel }
+  }
+
+  it('opens a session per device and stores only the refresh secret hash', async () => {
+    const { service, sessionModel } = build()
+
+    const { refreshToken } = await service.create(
+      { _id: 'user-1', companyId: SESSION_ID },
+      { userAgent: 'Firefox', ip: '10.0.0.1' }
+    )
+
+    const [id, secret] = refreshToken.split('.')
+    const data = sessionModel.create.mock.calls[0][0]
+    expect(id).toBe(SESSION_ID)
+    expect(data).toMatchObject({
+      userId: 'user-1',
+      refreshTokenHash: sha256(secret),
+      userAgent: 'Firefox',
+    })
+    expect(JSON.stringify(data)).not.toContain(secret)
+    expect(
+      (data.expiresAt as Date).getTime() - (data.lastUsedAt as Date).getTime()
+    ).toBe(7 * 24 * 60 * 60 * 1000)
+  })
+
+  it('rotates the refresh token on every use', async () => {
+    const { service, sessionModel } = build({})
+
+    const { refreshToken } = await service.rotate(
+      `${SESSION_ID}.${'s'.repeat(64)}`,
+      {}
+    )
+
+    const [filter, update] = sessionModel.findOneAndUpdate.mock.calls[0]
+    expect(filter).toEqual({
+      _id: SESSION_ID,
+      refreshTokenHash: sha256('s'.repeat(64)),
+    })
+    expect(update.$set.refreshTokenHash).toBe(
+      sha256(refreshToken.split('.')[1])
+    )
+    expect(refreshToken).not.toBe(`${SESSION_ID}.${'s'.repeat(64)}`)
+  })
+
+  it('revokes the session when an old refresh token is reused', async () => {
+    const { service, stored, sessionModel } = build({})
+
+    await expect(
+      service.rotate(`${SESSION_ID}.${'x'.repeat(64)}`, {})
+    ).rejects.toBeInstanceOf(UnauthorizedException)
+    expect(stored.revokedReason).toBe(SessionRevocationReason.TOKEN_REUSE)
+    expect(stored.save).toHaveBeenCalled()
+    expect(sessionModel.findOneAndUpdate).not.toHaveBeenCalled()
+  })
+
+  it('rejects revoked or expired sessions', async () => {
+    const revoked = build({ revokedAt: new Date() })
+    const expired = build({ expiresAt: new Date(Date.now() - 1000) })
+
+    for (const { service } of [revoked, expired]) {
+      await expect(
+        service.rotate(`${SESSION_ID}.${'s'.repeat(64)}`, {})
+      ).rejects.toBeInstanceOf(UnauthorizedException)
+    }
+  })
+
+  it('revokes every active session of a user except the one kept', async () => {
+    const { service, sessionModel } = build()
+
+    await service.revokeAll(
+      'user-1',
+      SessionRevocationReason.ROLE_CHANGED,
+      SESSION_ID
+    )
+
+    const [filter, update] = sessionModel.updateMany.mock.calls[0] as any[]
+    expect(filter).toEqual({
+      userId: 'user-1',
+      revokedAt: null,
+      _id: { $ne: SESSION_ID },
+    })
+    expect(update.$set.revokedReason).toBe('role_changed')
+  })
+})
@@ -0,0 +1,176 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model, Types } from 'mongoose'
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { Session, SessionDocument } from './entities/session.entity'
+import { SessionRevocationReason } from './enums/session-revocation-reason.enum'
+
+const DEFAULT_REFRESH_TTL_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+const INVALID_REFRESH_TOKEN = 'Refresh token inválido o sesión expirada'
+
+export interface SessionDevice {
+  userAgent?: string
+  ip?: string
+}
+
+export interface IssuedSession {
+  session: SessionDocument
+  refreshToken: string
+}
+
+const hashSecret = (secret: string) =>
+  createHash('sha256').update(secret).digest('hex')
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name)
+
+  constructor(
+    @InjectModel(Session.name)
+    private sessionModel: Model<SessionDocument>,
+    private readonly configService: ConfigService
+  ) {}
+
+  // El refresh token es "<id de sesión>.<secreto>"; solo se guarda el hash del secreto
+  async create(
+    user: { _id: unknown; companyId?: unknown },
+    device: SessionDevice
+  ): Promise<IssuedSession> {
+    const secret = randomBytes(32).toString('hex')
+    const now = new Date()
+    const session = await this.sessionModel.create({
+      userId: String(user._id),
+      companyId: user.companyId
+        ? new Types.ObjectId(String(user.companyId))
+        : undefined,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: device.userAgent,
+      ip: device.ip,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + this.refreshTtlDays() * DAY_MS),
+    })
+    return { session, refreshToken: `${session._id}.${secret}` }
+  }
+
+  // Cada uso entrega un refresh token nuevo; reutilizar uno anterior revoca la sesión
+  async rotate(
+    refreshToken: string,
+    device: SessionDevice
+  ): Promise<IssuedSession> {
+    const [sessionId, secret] = (refreshToken ?? '').split('.')
+    if (!secret || !Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException(INVALID_REFRESH_TOKEN)
+    }
+    const session = await this.sessionModel.findById(sessionId).exec()
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException(INVALID_REFRESH_TOKEN)
+    }
+
+    const presented = Buffer.from(hashSecret(secret))
+    const stored = Buffer.from(session.refreshTokenHash)
+    if (
+      presented.length !== stored.length ||
+      !timingSafeEqual(presented, stored)
+    ) {
+      session.revokedAt = new Date()
+      session.revokedReason = SessionRevocationReason.TOKEN_REUSE
+      await session.save()
+      this.logger.warn(
+        `Refresh token reutilizado en la sesión ${session._id}; sesión revocada`
+      )
+      throw new UnauthorizedException(INVALID_REFRESH_TOKEN)
+    }
+
+    const next = randomBytes(32).toString('hex')
+    // La condición sobre el hash evita que dos rotaciones simultáneas ganen ambas
+    const rotated = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: session._id, refreshTokenHash: session.refreshTokenHash },
+        {
+          $set: {
+            refreshTokenHash: hashSecret(next),
+            lastUsedAt: new Date(),
+            userAgent: device.userAgent ?? session.userAgent,
+            ip: device.ip ?? session.ip,
+          },
+        },
+        { new: true }
+      )
+      .exec()
+    if (!rotated) throw new UnauthorizedException(INVALID_REFRESH_TOKEN)
+    return { session: rotated, refreshToken: `${rotated._id}.${next}` }
+  }
+
+  async findActive(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionDocument | null> {
+    if (!Types.ObjectId.isValid(sessionId)) return null
+    return this.sessionModel
+      .findOne({
+        _id: sessionId,
+        userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec()
+  }
+
+  async findAllActive(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select('-refreshTokenHash')
+      .sort({ lastUsedAt: -1 })
+      .exec()
+  }
+
+  async revoke(
+    sessionId: string,
+    userId: string,
+    reason: SessionRevocationReason
+  ): Promise<void> {
+    const session = await this.findActive(sessionId, userId)
+    if (!session) {
+      throw new NotFoundException(`Sesión con ID ${sessionId} no encontrada`)
+    }
+    session.revokedAt = new Date()
+    session.revokedReason = reason
+    await session.save()
+  }
+
+  async revokeAll(
+    userId: string,
+    reason: SessionRevocationReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      {
+        userId: String(userId),
+        revokedAt: null,
+        ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+      },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    )
+    if (result.modifiedCount) {
+      this.logger.log(
+        `Sesiones revocadas para el usuario ${userId} (${reason}): ${result.modifiedCount}`
+      )
+    }
+    return result.modifiedCount
+  }
+
+  private refreshTtlDays(): number {
+    const value = parseInt(
+      this.configService.get<string>('JWT_REFRESH_TTL_DAYS'),
+      10
+    )
+    return isNaN(value) || value <= 0 ? DEFAULT_REFRESH_TTL_DAYS : value
+  }
+}
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { randomBytes } from 'crypto'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import {
+  SignedUrlOptions,
+  StorageDriver,
+} from '../interfaces/storage-driver.interface'
+import {
+  signStorageKey,
+  verifyStorageSignature,
+} from '../utils/signed-url.util'
+
+@Injectable()
+export class LocalStorageDriver extends StorageDriver {
+  readonly name = 'local'
+  private readonly logger = new Logger(LocalStorageDriver.name)
+  private readonly baseDir: string
+  private readonly publicUrl: string
+  private readonly secret: string
+
+  constructor(private readonly configService: ConfigService) {
+    super()
+    this.baseDir = path.resolve(
+      this.configService.get<string>('STORAGE_LOCAL_DIR') || 'storage'
+    )
+    const port = this.configService.get<string>('PORT') || 3015
+    this.publicUrl =
+      this.configService.get<string>('STORAGE_PUBLIC_URL') ||
+      `http://localhost:${port}/api`
+    // Clave propia: quien conozca la de los JWT no debe poder firmar descargas, ni al revés
+    this.secret = this.configService.get<string>('STORAGE_SIGNING_SECRET')
+    if (!this.secret) {
+      if (this.configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error(
+          'Configure STORAGE_SIGNING_SECRET para firmar las URLs de descarga'
+        )
+      }
+      // Fuera de producción se usa una clave efímera: las URLs no sobreviven a un reinicio
+      this.logger.warn(
+        'STORAGE_SIGNING_SECRET no configurado; se usará una clave temporal'
+      )
+      this.secret = randomBytes(32).toString('hex')
+    }
+  }
+
+  async put(key: string, buffer: Buffer): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, buffer)
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key))
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+
+  // Las URLs apuntan a StorageController, que valida la firma antes de servir el archivo
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + options.expiresIn
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: signStorageKey(this.secret, key, expires),
+    })
+    if (options.filename) params.set('filename', options.filename)
+    return `${this.publicUrl}/storage/download?${params.toString()}`
+  }
+
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    return verifyStorageSignature(this.secret, key, expires, signature)
+  }
+
+  // Impide que una clave manipulada salga del directorio base
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.baseDir, key)
+    if (!filePath.startsWith(this.baseDir + path.sep)) {
+      throw new Error(`Clave de almacenamiento inválida: ${key}`)
+    }
+    return filePath
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import {
+  SignedUrlOptions,
+  StorageDriver,
+  StoragePutOptions,
+} from '../interfaces/storage-driver.interface'
+import { inlineDisposition } from '../utils/content-disposition.util'
+
+// Compatible con AWS S3 y con MinIO (S3_ENDPOINT + S3_FORCE_PATH_STYLE=true)
+@Injectable()
+export class S3StorageDriver extends StorageDriver {
+  readonly name = 's3'
+  private readonly client: S3Client
+  private readonly bucket: string
+
+  constructor(private readonly configService: ConfigService) {
+    super()
+    this.bucket = this.configService.get<string>('S3_BUCKET')
+    const endpoint = this.configService.get<string>('S3_ENDPOINT')
+    this.client = new S3Client({
+      region: this.configService.get<string>('S3_REGION') || 'us-east-1',
+      endpoint: endpoint || undefined,
+      forcePathStyle:
+        this.configService.get<string>('S3_FORCE_PATH_STYLE') === 'true' ||
+        !!endpoint,
+      credentials: {
+        accessKeyId: this.configService.get<string>('S3_ACCESS_KEY_ID'),
+        secretAccessKey: this.configService.get<string>('S3_SECRET_ACCESS_KEY'),
+      },
+    })
+  }
+
+  async put(
+    key: string,
+    buffer: Buffer,
+    options: StoragePutOptions
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: buffer,
+        ContentType: options.mimeType,
+      })
+    )
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key })
+    )
+    return Buffer.from(await response.Body.transformToByteArray())
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      )
+      return true
+    } catch (error) {
+      if (error.$metadata?.httpStatusCode === 404) return false
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    )
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentType: options.mimeType,
+        ResponseContentDisposition: options.filename
+          ? inlineDisposition(options.filename)
+          : undefined,
+      }),
+      { expiresIn: options.expiresIn }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+
+// Referencia a un archivo en el almacenamiento; el contenido nunca se guarda en Mongo
+@Schema({ _id: false })
+export class StoredFile {
+  @Prop({ required: true })
+  key: string
+
+  @Prop({ required: true })
+  driver: string
+
+  @Prop({ required: true })
+  mimeType: string
+
+  @Prop({ required: true })
+  size: number
+
+  // SHA-256 del contenido, también usado como nombre del objeto
+  @Prop({ required: true })
+  hash: string
+
+  @Prop()
+  filename?: string
+
+  @Prop({ default: Date.now })
+  uploadedAt: Date
+}
+
+export const StoredFileSchema = SchemaFactory.createForClass(StoredFile)
@@ -0,0 +1,29 @@
+export interface StoragePutOptions {
+  mimeType: string
+  filename?: string
+}
+
+export interface SignedUrlOptions {
+  expiresIn: number
+  filename?: string
+  mimeType?: string
+}
+
+// Se usa como token de inyección: la implementación se elige con STORAGE_DRIVER
+export abstract class StorageDriver {
+  abstract readonly name: string
+
+  abstract put(
+    key: string,
+    buffer: Buffer,
+    options: StoragePutOptions
+  ): Promise<void>
+
+  abstract get(key: string): Promise<Buffer>
+
+  abstract exists(key: string): Promise<boolean>
+
+  abstract delete(key: string): Promise<void>
+
+  abstract getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>
+}
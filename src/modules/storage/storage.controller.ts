@@ -0,0 +1,50 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Query,
+  Res,
+} from '@nestjs/common'
+import { Response } from 'express'
+import { StorageDriver } from './interfaces/storage-driver.interface'
+import { LocalStorageDriver } from './drivers/local-storage.driver'
+import { detectMimeType } from './utils/file-type.util'
+import { inlineDisposition } from './utils/content-disposition.util'
+
+// Sirve las URLs firmadas del driver local; con S3 las descargas van directo al bucket
+@Controller('storage')
+export class StorageController {
+  constructor(private readonly driver: StorageDriver) {}
+
+  @Get('download')
+  async download(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Query('filename') filename: string,
+    @Res() res: Response
+  ) {
+    if (!(this.driver instanceof LocalStorageDriver)) {
+      throw new NotFoundException('Archivo no encontrado')
+    }
+    if (!this.driver.verifySignature(key, Number(expires), signature)) {
+      throw new ForbiddenException(
+        'El enlace de descarga no es válido o expiró'
+      )
+    }
+    if (!(await this.driver.exists(key))) {
+      throw new NotFoundException('Archivo no encontrado')
+    }
+
+    const buffer = await this.driver.get(key)
+    res.setHeader(
+      'Content-Type',
+      detectMimeType(buffer) || 'application/octet-stream'
+    )
+    if (filename) {
+      res.setHeader('Content-Disposition', inlineDisposition(filename))
+    }
+    res.send(buffer)
+  }
+}
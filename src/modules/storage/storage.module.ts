@@ -0,0 +1,30 @@
+import { Logger, Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { StorageDriver } from './interfaces/storage-driver.interface'
+import { LocalStorageDriver } from './drivers/local-storage.driver'
+import { S3StorageDriver } from './drivers/s3-storage.driver'
+import { StorageService } from './storage.service'
+import { StorageController } from './storage.controller'
+
+@Module({
+  controllers: [StorageController],
+  providers: [
+    StorageService,
+    {
+      provide: StorageDriver,
+      // STORAGE_DRIVER=local|s3; sin bucket configurado se usa el disco local
+      useFactory: (configService: ConfigService) => {
+        const driver =
+          configService.get<string>('STORAGE_DRIVER') ||
+          (configService.get<string>('S3_BUCKET') ? 's3' : 'local')
+        new Logger('StorageModule').log(`Using ${driver} storage driver`)
+        return driver === 's3'
+          ? new S3StorageDriver(configService)
+          : new LocalStorageDriver(configService)
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,87 @@
+import { ConfigService } from '@nestjs/config'
+import { HttpStatus } from '@nestjs/common'
+import { StorageService } from './storage.service'
+import { StorageDriver } from './interfaces/storage-driver.interface'
+
+const PDF = Buffer.from('%PDF-1.4\n%fake pdf content')
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+class MemoryDriver extends StorageDriver {
+  readonly name = 'memory'
+  readonly objects = new Map<string, Buffer>()
+  put = jest.fn(async (key: string, buffer: Buffer) => {
+    this.objects.set(key, buffer)
+  })
+  async get(key: string) {
+    return this.objects.get(key)
+  }
+  async exists(key: string) {
+    return this.objects.has(key)
+  }
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+  async getSignedUrl(key: string, options: { expiresIn: number }) {
+    return `memory://${key}?ttl=${options.expiresIn}`
+  }
+}
+
+describe('StorageService', () => {
+  const build = (env: Record<string, string> = {}) => {
+    const driver = new MemoryDriver()
+    const config = { get: (key: string) => env[key] } as ConfigService
+    return { driver, service: new StorageService(driver, config) }
+  }
+
+  it('stores content under its hash and skips identical uploads', async () => {
+    const { driver, service } = build()
+
+    const first = await service.store(PDF, {
+      folder: 'invoices/pdf',
+      mimeType: 'application/pdf',
+    })
+    const second = await service.store(PDF, { folder: 'invoices/pdf' })
+
+    expect(first.key).toBe(`invoices/pdf/${first.hash}.pdf`)
+    expect(first).toMatchObject({
+      driver: 'memory',
+      mimeType: 'application/pdf',
+      size: PDF.length,
+    })
+    expect(second.key).toBe(first.key)
+    expect(driver.put).toHaveBeenCalledTimes(1)
+    await expect(service.read(first)).resolves.toEqual(PDF)
+  })
+
+  it('rejects files over the size limit', async () => {
+    const { service } = build({ STORAGE_MAX_FILE_SIZE_MB: '0.00001' })
+
+    await expect(
+      service.store(PDF, { folder: 'invoices/pdf' })
+    ).rejects.toMatchObject({ status: HttpStatus.PAYLOAD_TOO_LARGE })
+  })
+
+  it('validates the real content type', async () => {
+    const { service } = build()
+
+    await expect(
+      service.store(PNG, {
+        folder: 'invoices/actas',
+        allowedMimeTypes: ['application/pdf'],
+      })
+    ).rejects.toMatchObject({ status: HttpStatus.UNSUPPORTED_MEDIA_TYPE })
+    await expect(
+      service.store(PNG, { folder: 'expenses', mimeType: 'application/pdf' })
+    ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST })
+  })
+
+  it('returns signed download urls with their expiration', async () => {
+    const { service } = build({ STORAGE_URL_EXPIRES_SECONDS: '60' })
+    const file = await service.store(PDF, { folder: 'invoices/pdf' })
+
+    const { url, expiresAt } = await service.getDownloadUrl(file)
+
+    expect(url).toBe(`memory://${file.key}?ttl=60`)
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now())
+  })
+})
@@ -0,0 +1,131 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { createHash } from 'crypto'
+import { StorageDriver } from './interfaces/storage-driver.interface'
+import { StoredFile } from './entities/stored-file.entity'
+import {
+  detectMimeType,
+  EXTENSIONS,
+  isSameMimeType,
+} from './utils/file-type.util'
+
+export interface StoreFileOptions {
+  folder: string
+  // Tipo declarado por el cliente; se contrasta con el contenido real
+  mimeType?: string
+  filename?: string
+  allowedMimeTypes?: string[]
+  maxSize?: number
+}
+
+const DEFAULT_MAX_FILE_SIZE_MB = 10
+const DEFAULT_URL_EXPIRES_SECONDS = 900
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name)
+  private readonly maxFileSize: number
+  private readonly urlExpiresIn: number
+
+  constructor(
+    private readonly driver: StorageDriver,
+    private readonly configService: ConfigService
+  ) {
+    const maxSizeMb = parseFloat(
+      this.configService.get<string>('STORAGE_MAX_FILE_SIZE_MB')
+    )
+    this.maxFileSize =
+      (isNaN(maxSizeMb) ? DEFAULT_MAX_FILE_SIZE_MB : maxSizeMb) * 1024 * 1024
+    const expiresIn = parseInt(
+      this.configService.get<string>('STORAGE_URL_EXPIRES_SECONDS'),
+      10
+    )
+    this.urlExpiresIn = isNaN(expiresIn)
+      ? DEFAULT_URL_EXPIRES_SECONDS
+      : expiresIn
+  }
+
+  // Comprueba tamaño y tipo real del contenido; devuelve el tipo detectado
+  validate(buffer: Buffer, options: StoreFileOptions): string {
+    if (!buffer || buffer.length === 0) {
+      throw new BadRequestException('El archivo está vacío')
+    }
+    const maxSize = options.maxSize ?? this.maxFileSize
+    if (buffer.length > maxSize) {
+      throw new HttpException(
+        `El archivo supera el tamaño máximo de ${Math.round(maxSize / 1024 / 1024)}MB`,
+        HttpStatus.PAYLOAD_TOO_LARGE
+      )
+    }
+
+    const mimeType = detectMimeType(buffer)
+    if (
+      !mimeType ||
+      (options.allowedMimeTypes &&
+        !options.allowedMimeTypes.some(type => isSameMimeType(type, mimeType)))
+    ) {
+      throw new HttpException(
+        'Tipo de archivo no soportado',
+        HttpStatus.UNSUPPORTED_MEDIA_TYPE
+      )
+    }
+    if (
+      options.mimeType &&
+      options.mimeType !== 'application/octet-stream' &&
+      !isSameMimeType(options.mimeType, mimeType)
+    ) {
+      throw new BadRequestException(
+        `El contenido del archivo no corresponde al tipo ${options.mimeType}`
+      )
+    }
+    return mimeType
+  }
+
+  // Valida y guarda el archivo; el nombre del objeto es su hash, así que no se duplica contenido.
+  // Varios registros pueden apuntar al mismo objeto: no se borra al eliminar uno de ellos
+  async store(buffer: Buffer, options: StoreFileOptions): Promise<StoredFile> {
+    const mimeType = this.validate(buffer, options)
+
+    const hash = createHash('sha256').update(buffer).digest('hex')
+    const key = `${options.folder}/${hash}${EXTENSIONS[mimeType] || ''}`
+    if (!(await this.driver.exists(key))) {
+      await this.driver.put(key, buffer, {
+        mimeType,
+        filename: options.filename,
+      })
+      this.logger.debug(`Stored ${key} (${buffer.length} bytes)`)
+    }
+
+    return {
+      key,
+      driver: this.driver.name,
+      mimeType,
+      size: buffer.length,
+      hash,
+      filename: options.filename,
+      uploadedAt: new Date(),
+    }
+  }
+
+  async read(file: StoredFile): Promise<Buffer> {
+    return this.driver.get(file.key)
+  }
+
+  async getDownloadUrl(
+    file: StoredFile,
+    filename = file.filename
+  ): Promise<{ url: string; expiresAt: Date }> {
+    const url = await this.driver.getSignedUrl(file.key, {
+      expiresIn: this.urlExpiresIn,
+      filename,
+      mimeType: file.mimeType,
+    })
+    return { url, expiresAt: new Date(Date.now() + this.urlExpiresIn * 1000) }
+  }
+}
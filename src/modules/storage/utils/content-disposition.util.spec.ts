@@ -0,0 +1,21 @@
+import { inlineDisposition } from './content-disposition.util'
+
+describe('inlineDisposition', () => {
+  it('quotes plain names', () => {
+    expect(inlineDisposition('factura-F001-123.pdf')).toBe(
+      'inline; filename="factura-F001-123.pdf"'
+    )
+  })
+
+  it('cannot be used to inject parameters or headers', () => {
+    const header = inlineDisposition('a.pdf"; x=1\r\nSet-Cookie: y=2')
+    expect(header).not.toMatch(/[\r\n]/)
+    expect(header).toMatch(/^inline; filename="a\.pdf\\"; x=1/)
+  })
+
+  it('adds filename* for characters outside ISO-8859-1', () => {
+    expect(inlineDisposition('acta-año-€.pdf')).toBe(
+      `inline; filename="acta-año-?.pdf"; filename*=UTF-8''acta-a%C3%B1o-%E2%82%AC.pdf`
+    )
+  })
+})
@@ -0,0 +1,6 @@
+import * as contentDisposition from 'content-disposition'
+
+// Cabecera para mostrar el archivo en el navegador: el nombre va entre comillas y
+// escapado, con filename* (RFC 5987) cuando lleva caracteres fuera de ISO-8859-1
+export const inlineDisposition = (filename: string): string =>
+  contentDisposition(filename, { type: 'inline' })
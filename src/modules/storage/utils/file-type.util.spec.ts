@@ -0,0 +1,31 @@
+import { detectMimeType, isSameMimeType } from './file-type.util'
+
+const heic = (brand: string) =>
+  Buffer.concat([
+    Buffer.from([0x00, 0x00, 0x00, 0x18]),
+    Buffer.from(`ftyp${brand}`, 'ascii'),
+  ])
+
+describe('detectMimeType', () => {
+  it('recognizes receipts by their signature', () => {
+    expect(detectMimeType(Buffer.from('%PDF-1.7'))).toBe('application/pdf')
+    expect(detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      'image/jpeg'
+    )
+    expect(detectMimeType(heic('heic'))).toBe('image/heic')
+    expect(detectMimeType(Buffer.from('<?xml version="1.0"?><Invoice/>'))).toBe(
+      'application/xml'
+    )
+  })
+
+  it('ignores other ISO containers and unknown content', () => {
+    expect(detectMimeType(heic('isom'))).toBeUndefined()
+    expect(detectMimeType(Buffer.from('hola mundo'))).toBeUndefined()
+  })
+
+  it('treats aliases as the same type', () => {
+    expect(isSameMimeType('image/heif', 'image/heic')).toBe(true)
+    expect(isSameMimeType('text/xml', 'application/xml')).toBe(true)
+    expect(isSameMimeType('image/png', 'image/jpeg')).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+const SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  // Contenedor ISO BMFF: 'ftyp' en el byte 4, la marca se revisa aparte
+  { mimeType: 'image/heic', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+]
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1']
+
+export const EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/heic': '.heic',
+  'application/xml': '.xml',
+  'text/xml': '.xml',
+}
+
+// Tipo real del archivo según sus primeros bytes; no se confía en el declarado
+export function detectMimeType(buffer: Buffer): string | undefined {
+  if (!buffer || buffer.length < 4) return undefined
+  const match = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, index) => buffer[offset + index] === byte)
+  )
+  if (match?.mimeType === 'image/heic') {
+    const brand = buffer.subarray(8, 12).toString('ascii')
+    return HEIC_BRANDS.includes(brand) ? match.mimeType : undefined
+  }
+  if (match) return match.mimeType
+
+  const head = buffer
+    .subarray(0, 256)
+    .toString('utf8')
+    .replace(/^\uFEFF/, '')
+  if (head.trimStart().startsWith('<?xml') || /^\s*<[A-Za-z]/.test(head)) {
+    return 'application/xml'
+  }
+  return undefined
+}
+
+const ALIASES: Record<string, string> = {
+  'text/xml': 'application/xml',
+  'image/heif': 'image/heic',
+  'image/jpg': 'image/jpeg',
+}
+
+// Algunos tipos tienen alias que se consideran equivalentes (text/xml, image/heif)
+export function isSameMimeType(a: string, b: string): boolean {
+  const normalize = (type: string) => ALIASES[type] || type
+  return normalize(a) === normalize(b)
+}
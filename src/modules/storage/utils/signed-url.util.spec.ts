@@ -0,0 +1,40 @@
+import { signStorageKey, verifyStorageSignature } from './signed-url.util'
+
+describe('signed storage urls', () => {
+  const expires = Math.floor(Date.now() / 1000) + 60
+  const signature = signStorageKey('secret', 'invoices/pdf/abc.pdf', expires)
+
+  it('accepts a valid signature before it expires', () => {
+    expect(
+      verifyStorageSignature(
+        'secret',
+        'invoices/pdf/abc.pdf',
+        expires,
+        signature
+      )
+    ).toBe(true)
+  })
+
+  it('rejects tampered keys, wrong secrets and expired links', () => {
+    expect(
+      verifyStorageSignature('secret', 'invoices/pdf/x.pdf', expires, signature)
+    ).toBe(false)
+    expect(
+      verifyStorageSignature(
+        'other',
+        'invoices/pdf/abc.pdf',
+        expires,
+        signature
+      )
+    ).toBe(false)
+    expect(
+      verifyStorageSignature(
+        'secret',
+        'invoices/pdf/abc.pdf',
+        expires,
+        signature,
+        (expires + 1) * 1000
+      )
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Firma HMAC de la clave y su expiración (segundos epoch) para descargas locales
+export function signStorageKey(
+  secret: string,
+  key: string,
+  expires: number
+): string {
+  return createHmac('sha256', secret).update(`${key}:${expires}`).digest('hex')
+}
+
+export function verifyStorageSignature(
+  secret: string,
+  key: string,
+  expires: number,
+  signature: string,
+  now = Date.now()
+): boolean {
+  if (!key || !signature || !expires || expires * 1000 < now) return false
+  const expected = Buffer.from(signStorageKey(secret, key, expires), 'hex')
+  const received = Buffer.from(signature, 'hex')
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  )
+}
@@ -0,0 +1,108 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { HttpService } from '@nestjs/axios'
+import { firstValueFrom } from 'rxjs'
+import {
+  SunatClient,
+  SunatComprobanteQuery,
+  SunatTimeoutError,
+  SunatValidationResponse,
+} from '../interfaces/sunat-client.interface'
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+interface SunatToken {
+  access_token: string
+  expires_in: number
+}
+
+@Injectable()
+export class SunatApiClient extends SunatClient {
+  private readonly logger = new Logger(SunatApiClient.name)
+  private readonly clientId: string
+  private readonly clientSecret: string
+  private readonly timeout: number
+  private token?: { value: string; expiresAt: number }
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService
+  ) {
+    super()
+    this.clientId = this.configService.get<string>('ID_SUNAT')
+    this.clientSecret = this.configService.get<string>('KEY_SUNAT')
+    this.timeout =
+      parseInt(this.configService.get<string>('SUNAT_TIMEOUT_MS'), 10) ||
+      DEFAULT_TIMEOUT_MS
+  }
+
+  async validateComprobante(
+    rucConsultante: string,
+    query: SunatComprobanteQuery
+  ): Promise<SunatValidationResponse> {
+    const url = `https://api.sunat.gob.pe/v1/contribuyente/contribuyentes/${rucConsultante}/validarcomprobante`
+    const accessToken = await this.getToken()
+    this.logger.debug(
+      `Requesting SUNAT: URL=${url}, Params=${JSON.stringify(query)}`
+    )
+    const response = await this.request(() =>
+      firstValueFrom(
+        this.httpService.post<SunatValidationResponse>(url, query, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: this.timeout,
+        })
+      )
+    )
+    return response.data
+  }
+
+  // El token de SUNAT dura una hora; se reutiliza hasta un minuto antes de vencer
+  private async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value
+    }
+    if (!this.clientId || !this.clientSecret) {
+      throw new Error(
+        'Credenciales de SUNAT (ID_SUNAT, KEY_SUNAT) no configuradas'
+      )
+    }
+
+    const url = `https://api-seguridad.sunat.gob.pe/v1/clientesextranet/${this.clientId}/oauth2/token/`
+    const response = await this.request(() =>
+      firstValueFrom(
+        this.httpService.post<SunatToken>(
+          url,
+          {
+            grant_type: 'client_credentials',
+            scope: 'https://api.sunat.gob.pe/v1/contribuyente/contribuyentes',
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+          },
+          {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            timeout: this.timeout,
+          }
+        )
+      )
+    )
+    this.token = {
+      value: response.data.access_token,
+      expiresAt: Date.now() + (response.data.expires_in - 60) * 1000,
+    }
+    return this.token.value
+  }
+
+  private async request<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call()
+    } catch (error) {
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw new SunatTimeoutError()
+      }
+      throw error
+    }
+  }
+}
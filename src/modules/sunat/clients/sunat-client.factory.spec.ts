@@ -0,0 +1,37 @@
+import { ConfigService } from '@nestjs/config'
+import { HttpService } from '@nestjs/axios'
+import { createSunatClient } from './sunat-client.factory'
+import { SunatApiClient } from './sunat-api.client'
+import { SunatSimulatorClient } from './sunat-simulator.client'
+
+const build = (env: Record<string, string>) =>
+  createSunatClient(
+    { get: (key: string) => env[key] } as ConfigService,
+    {} as HttpService
+  )
+
+describe('createSunatClient', () => {
+  it('uses the simulator only when it is requested explicitly', () => {
+    expect(build({ SUNAT_CLIENT: 'simulator' })).toBeInstanceOf(
+      SunatSimulatorClient
+    )
+    expect(
+      build({ NODE_ENV: 'development', ID_SUNAT: '', KEY_SUNAT: '' })
+    ).toBeInstanceOf(SunatApiClient)
+  })
+
+  it('refuses to start without credentials outside development', () => {
+    expect(() => build({ NODE_ENV: 'production' })).toThrow('ID_SUNAT')
+    expect(() => build({ ID_SUNAT: 'id' })).toThrow('KEY_SUNAT')
+  })
+
+  it('uses the api client when the credentials are configured', () => {
+    expect(
+      build({ NODE_ENV: 'production', ID_SUNAT: 'id', KEY_SUNAT: 'secret' })
+    ).toBeInstanceOf(SunatApiClient)
+  })
+
+  it('rejects unknown client modes', () => {
+    expect(() => build({ SUNAT_CLIENT: 'mock' })).toThrow('SUNAT_CLIENT')
+  })
+})
@@ -0,0 +1,39 @@
+import { Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { HttpService } from '@nestjs/axios'
+import { SunatClient } from '../interfaces/sunat-client.interface'
+import { SunatApiClient } from './sunat-api.client'
+import { SunatSimulatorClient } from './sunat-simulator.client'
+
+const DEVELOPMENT_ENVS = ['development', 'test']
+
+// SUNAT_CLIENT=api|simulator; el simulador solo se usa si se pide explícitamente
+export function createSunatClient(
+  configService: ConfigService,
+  httpService: HttpService
+): SunatClient {
+  const logger = new Logger('SunatModule')
+  const mode = configService.get<string>('SUNAT_CLIENT') || 'api'
+  if (mode === 'simulator') {
+    logger.warn('Using SUNAT simulator client')
+    return new SunatSimulatorClient(configService)
+  }
+  if (mode !== 'api') {
+    throw new Error(`SUNAT_CLIENT inválido: ${mode} (use api o simulator)`)
+  }
+
+  const hasCredentials =
+    configService.get<string>('ID_SUNAT') &&
+    configService.get<string>('KEY_SUNAT')
+  if (!hasCredentials) {
+    // Sin credenciales ninguna factura podría validarse; fuera de desarrollo no se arranca
+    if (!DEVELOPMENT_ENVS.includes(configService.get<string>('NODE_ENV'))) {
+      throw new Error(
+        'Configure ID_SUNAT y KEY_SUNAT, o SUNAT_CLIENT=simulator, para validar comprobantes'
+      )
+    }
+    logger.warn('ID_SUNAT/KEY_SUNAT no configurados; las consultas fallarán')
+  }
+  logger.log('Using SUNAT api client')
+  return new SunatApiClient(httpService, configService)
+}
@@ -0,0 +1,72 @@
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { SunatSimulatorClient } from './sunat-simulator.client'
+import { SunatTimeoutError } from '../interfaces/sunat-client.interface'
+
+const QUERY = {
+  numRuc: '20100066603',
+  codComp: '01',
+  numeroSerie: 'F001',
+  numero: '123',
+  fechaEmision: '14/05/2025',
+  monto: '118.00',
+}
+
+const build = (env: Record<string, string>) =>
+  new SunatSimulatorClient({ get: (key: string) => env[key] } as ConfigService)
+
+describe('SunatSimulatorClient', () => {
+  it('answers with the default scenario', async () => {
+    const response = await build({}).validateComprobante('20601234567', QUERY)
+    expect(response).toMatchObject({ success: true, data: { estadoCp: '1' } })
+  })
+
+  it('replays the configured estadoCp and cod 98', async () => {
+    await expect(
+      build({ SUNAT_SIMULATOR_SCENARIO: '2' }).validateComprobante(
+        '20601234567',
+        QUERY
+      )
+    ).resolves.toMatchObject({ data: { estadoCp: '2' } })
+    await expect(
+      build({ SUNAT_SIMULATOR_SCENARIO: '98' }).validateComprobante(
+        '20601234567',
+        QUERY
+      )
+    ).resolves.toMatchObject({ success: false, cod: '98' })
+  })
+
+  it('simulates timeouts', async () => {
+    await expect(
+      build({ SUNAT_SIMULATOR_SCENARIO: 'timeout' }).validateComprobante(
+        '20601234567',
+        QUERY
+      )
+    ).rejects.toBeInstanceOf(SunatTimeoutError)
+  })
+
+  it('uses per-comprobante fixtures when available', async () => {
+    const file = path.join(os.tmpdir(), `sunat-fixtures-${process.pid}.json`)
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        [SunatSimulatorClient.fixtureKey(QUERY)]: '0',
+        '20100066603-01-F001-999': {
+          success: true,
+          data: { estadoCp: '1', estadoRuc: '00', condDomiRuc: '12' },
+        },
+      })
+    )
+    const client = build({ SUNAT_SIMULATOR_FIXTURES: file })
+
+    await expect(
+      client.validateComprobante('20601234567', QUERY)
+    ).resolves.toMatchObject({ data: { estadoCp: '0' } })
+    await expect(
+      client.validateComprobante('20601234567', { ...QUERY, numero: '999' })
+    ).resolves.toMatchObject({ data: { condDomiRuc: '12' } })
+    fs.unlinkSync(file)
+  })
+})
@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import * as fs from 'fs'
+import {
+  SunatClient,
+  SunatComprobanteQuery,
+  SunatTimeoutError,
+  SunatValidationResponse,
+} from '../interfaces/sunat-client.interface'
+
+// Escenarios: estadoCp '0'-'4', '98' (error de consulta) o 'timeout'
+export type SunatSimulatorScenario = string | SunatValidationResponse
+
+const DEFAULT_SCENARIO = '1'
+
+// Responde localmente, sin credenciales, para desarrollo y CI
+@Injectable()
+export class SunatSimulatorClient extends SunatClient {
+  private readonly logger = new Logger(SunatSimulatorClient.name)
+  private readonly defaultScenario: SunatSimulatorScenario
+  private readonly fixtures: Record<string, SunatSimulatorScenario>
+  private readonly delay: number
+
+  constructor(private readonly configService: ConfigService) {
+    super()
+    this.defaultScenario =
+      this.configService.get<string>('SUNAT_SIMULATOR_SCENARIO') ||
+      DEFAULT_SCENARIO
+    this.delay =
+      parseInt(
+        this.configService.get<string>('SUNAT_SIMULATOR_DELAY_MS'),
+        10
+      ) || 0
+    this.fixtures = this.loadFixtures(
+      this.configService.get<string>('SUNAT_SIMULATOR_FIXTURES')
+    )
+  }
+
+  // Clave de un comprobante en el archivo de fixtures: RUC-TIPO-SERIE-NUMERO
+  static fixtureKey(query: SunatComprobanteQuery): string {
+    return [query.numRuc, query.codComp, query.numeroSerie, query.numero].join(
+      '-'
+    )
+  }
+
+  async validateComprobante(
+    rucConsultante: string,
+    query: SunatComprobanteQuery
+  ): Promise<SunatValidationResponse> {
+    const key = SunatSimulatorClient.fixtureKey(query)
+    const scenario = this.fixtures[key] ?? this.defaultScenario
+    this.logger.debug(
+      `Simulating SUNAT for ${rucConsultante} / ${key}: ${JSON.stringify(scenario)}`
+    )
+
+    if (this.delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delay))
+    }
+    if (typeof scenario !== 'string') {
+      return scenario
+    }
+    if (scenario === 'timeout') {
+      throw new SunatTimeoutError()
+    }
+    if (scenario === '98') {
+      return {
+        success: false,
+        cod: '98',
+        msg: 'El comprobante no se encuentra registrado en SUNAT',
+      }
+    }
+    return {
+      success: true,
+      message: 'Operation Success! ',
+      data: { estadoCp: scenario, estadoRuc: '00', condDomiRuc: '00' },
+    }
+  }
+
+  private loadFixtures(
+    filePath?: string
+  ): Record<string, SunatSimulatorScenario> {
+    if (!filePath) return {}
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (error) {
+      this.logger.error(
+        `No se pudo leer SUNAT_SIMULATOR_FIXTURES (${filePath}): ${error.message}`
+      )
+      return {}
+    }
+  }
+}
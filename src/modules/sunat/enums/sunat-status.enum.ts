@@ -0,0 +1,38 @@
+// Estado del comprobante según el servicio validarcomprobante de SUNAT
+export enum SunatEstadoCp {
+  NO_EXISTE = '0',
+  ACEPTADO = '1',
+  ANULADO = '2',
+  AUTORIZADO = '3', // Comprobantes físicos autorizados por imprenta
+  NO_AUTORIZADO = '4',
+}
+
+// Estado del contribuyente emisor
+export enum SunatEstadoRuc {
+  ACTIVO = '00',
+  BAJA_PROVISIONAL = '01',
+  BAJA_PROVISIONAL_DE_OFICIO = '02',
+  SUSPENSION_TEMPORAL = '03',
+  BAJA_DEFINITIVA = '10',
+  BAJA_DE_OFICIO = '11',
+  INHABILITADO_VENTANILLA_UNICA = '22',
+}
+
+// Condición de domicilio del contribuyente emisor
+export enum SunatCondDomiRuc {
+  HABIDO = '00',
+  PENDIENTE = '09',
+  POR_VERIFICAR = '11',
+  NO_HABIDO = '12',
+  NO_HALLADO = '20',
+}
+
+// Valor que se guarda en el campo state de la factura
+export enum SunatValidationStatus {
+  VALIDO_ACEPTADO = 'VALIDO_ACEPTADO',
+  VALIDO_AUTORIZADO = 'VALIDO_AUTORIZADO',
+  ANULADO = 'ANULADO',
+  NO_AUTORIZADO = 'NO_AUTORIZADO',
+  NO_ENCONTRADO = 'NO_ENCONTRADO',
+  ERROR_SUNAT = 'ERROR_SUNAT',
+}
@@ -0,0 +1,39 @@
+// Parámetros del servicio validarcomprobante de SUNAT
+export interface SunatComprobanteQuery {
+  numRuc: string
+  codComp: string
+  numeroSerie: string
+  numero: string
+  fechaEmision: string // DD/MM/YYYY
+  monto?: string
+}
+
+export interface SunatComprobanteData {
+  estadoCp?: string
+  estadoRuc?: string
+  condDomiRuc?: string
+  observaciones?: string[]
+}
+
+export interface SunatValidationResponse {
+  success: boolean
+  message?: string
+  data?: SunatComprobanteData
+  cod?: string
+  msg?: string
+}
+
+export class SunatTimeoutError extends Error {
+  constructor(message = 'Tiempo de espera agotado al consultar SUNAT') {
+    super(message)
+    this.name = 'SunatTimeoutError'
+  }
+}
+
+// Se usa como token de inyección: la implementación se elige con SUNAT_CLIENT
+export abstract class SunatClient {
+  abstract validateComprobante(
+    rucConsultante: string,
+    query: SunatComprobanteQuery
+  ): Promise<SunatValidationResponse>
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { HttpModule, HttpService } from '@nestjs/axios'
+import { SunatClient } from './interfaces/sunat-client.interface'
+import { createSunatClient } from './clients/sunat-client.factory'
+import { SunatService } from './sunat.service'
+
+@Module({
+  imports: [HttpModule],
+  providers: [
+    SunatService,
+    {
+      provide: SunatClient,
+      useFactory: createSunatClient,
+      inject: [ConfigService, HttpService],
+    },
+  ],
+  exports: [SunatClient, SunatService],
+})
+export class SunatModule {}
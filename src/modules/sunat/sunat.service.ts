@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { SunatClient } from './interfaces/sunat-client.interface'
+import {
+  interpretSunatResponse,
+  SunatValidationResult,
+} from './utils/sunat-response.util'
+
+// Datos del comprobante necesarios para consultarlo en SUNAT
+export interface SunatComprobante {
+  rucEmisor: string
+  tipoComprobante: string
+  serie: string
+  correlativo: string
+  fechaEmision: string
+  montoTotal?: number
+}
+
+@Injectable()
+export class SunatService {
+  private readonly logger = new Logger(SunatService.name)
+
+  constructor(private readonly sunatClient: SunatClient) {}
+
+  // Nunca lanza: si SUNAT no responde el resultado queda como ERROR_SUNAT
+  async validate(
+    rucConsultante: string,
+    comprobante: SunatComprobante
+  ): Promise<SunatValidationResult> {
+    try {
+      const response = await this.sunatClient.validateComprobante(
+        rucConsultante,
+        {
+          numRuc: comprobante.rucEmisor,
+          codComp: comprobante.tipoComprobante,
+          numeroSerie: comprobante.serie,
+          numero: comprobante.correlativo,
+          fechaEmision: comprobante.fechaEmision,
+          monto: comprobante.montoTotal?.toFixed(2),
+        }
+      )
+      return interpretSunatResponse(response)
+    } catch (error) {
+      this.logger.error(`SUNAT API Error: ${error}`, error.stack)
+      return interpretSunatResponse({
+        success: false,
+        msg: `Error en la comunicación con SUNAT: ${error.message}`,
+      })
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { SunatValidationStatus } from '../enums/sunat-status.enum'
+import {
+  getApprovalBlockReason,
+  interpretSunatResponse,
+} from './sunat-response.util'
+
+const ok = (data: Record<string, any>) => ({ success: true, data })
+
+describe('interpretSunatResponse', () => {
+  it.each([
+    ['0', SunatValidationStatus.NO_ENCONTRADO],
+    ['1', SunatValidationStatus.VALIDO_ACEPTADO],
+    ['2', SunatValidationStatus.ANULADO],
+    ['3', SunatValidationStatus.VALIDO_AUTORIZADO],
+    ['4', SunatValidationStatus.NO_AUTORIZADO],
+  ])('maps estadoCp %s to %s', (estadoCp, status) => {
+    expect(interpretSunatResponse(ok({ estadoCp })).status).toBe(status)
+  })
+
+  it('keeps taxpayer status, domicile condition and observaciones', () => {
+    const result = interpretSunatResponse(
+      ok({
+        estadoCp: '1',
+        estadoRuc: '02',
+        condDomiRuc: '12',
+        observaciones: ['- El comprobante fue registrado fuera de plazo'],
+      })
+    )
+
+    expect(result.validation).toMatchObject({
+      estadoCp: '1',
+      estadoRuc: '02',
+      condDomiRuc: '12',
+      observaciones: ['- El comprobante fue registrado fuera de plazo'],
+    })
+    expect(result.details).toMatchObject({
+      estadoCp: 'ACEPTADO',
+      estadoRuc: 'BAJA PROVISIONAL DE OFICIO',
+      condDomiRuc: 'NO HABIDO',
+    })
+    expect(result.message).toContain('NO HABIDO')
+  })
+
+  it('treats cod 98 as not found and anything else as an error', () => {
+    expect(
+      interpretSunatResponse({ success: false, cod: '98', msg: 'No existe' })
+        .status
+    ).toBe(SunatValidationStatus.NO_ENCONTRADO)
+    expect(interpretSunatResponse({ success: false }).status).toBe(
+      SunatValidationStatus.ERROR_SUNAT
+    )
+  })
+})
+
+describe('getApprovalBlockReason', () => {
+  it('blocks annulled comprobantes and non-habido suppliers', () => {
+    expect(getApprovalBlockReason('ANULADO')).toBeDefined()
+    expect(
+      getApprovalBlockReason('VALIDO_ACEPTADO', { condDomiRuc: '12' })
+    ).toBeDefined()
+    expect(
+      getApprovalBlockReason('VALIDO_ACEPTADO', {
+        estadoCp: '1',
+        condDomiRuc: '00',
+      })
+    ).toBeUndefined()
+  })
+
+  it.each([
+    ['02', 'BAJA PROVISIONAL DE OFICIO'],
+    ['10', 'BAJA DEFINITIVA'],
+  ])('blocks suppliers whose RUC is in state %s', (estadoRuc, description) => {
+    expect(
+      getApprovalBlockReason('VALIDO_ACEPTADO', {
+        estadoCp: '1',
+        estadoRuc,
+        condDomiRuc: '00',
+      })
+    ).toContain(description)
+  })
+
+  it.each([
+    ['12', 'NO HABIDO'],
+    ['20', 'NO HALLADO'],
+  ])(
+    'blocks suppliers whose domicile condition is %s',
+    (condDomiRuc, description) => {
+      expect(
+        getApprovalBlockReason('VALIDO_ACEPTADO', {
+          estadoCp: '1',
+          estadoRuc: '00',
+          condDomiRuc,
+        })
+      ).toContain(description)
+    }
+  )
+
+  it('allows active and located suppliers', () => {
+    expect(
+      getApprovalBlockReason('VALIDO_ACEPTADO', {
+        estadoCp: '1',
+        estadoRuc: '00',
+        condDomiRuc: '00',
+      })
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,152 @@
+import {
+  SunatCondDomiRuc,
+  SunatEstadoCp,
+  SunatEstadoRuc,
+  SunatValidationStatus,
+} from '../enums/sunat-status.enum'
+import { SunatValidationResponse } from '../interfaces/sunat-client.interface'
+
+const ESTADO_CP_DESCRIPTIONS: Record<string, string> = {
+  [SunatEstadoCp.NO_EXISTE]: 'NO EXISTE',
+  [SunatEstadoCp.ACEPTADO]: 'ACEPTADO',
+  [SunatEstadoCp.ANULADO]: 'ANULADO',
+  [SunatEstadoCp.AUTORIZADO]: 'AUTORIZADO',
+  [SunatEstadoCp.NO_AUTORIZADO]: 'NO AUTORIZADO',
+}
+
+const ESTADO_RUC_DESCRIPTIONS: Record<string, string> = {
+  [SunatEstadoRuc.ACTIVO]: 'ACTIVO',
+  [SunatEstadoRuc.BAJA_PROVISIONAL]: 'BAJA PROVISIONAL',
+  [SunatEstadoRuc.BAJA_PROVISIONAL_DE_OFICIO]: 'BAJA PROVISIONAL DE OFICIO',
+  [SunatEstadoRuc.SUSPENSION_TEMPORAL]: 'SUSPENSION TEMPORAL',
+  [SunatEstadoRuc.BAJA_DEFINITIVA]: 'BAJA DEFINITIVA',
+  [SunatEstadoRuc.BAJA_DE_OFICIO]: 'BAJA DE OFICIO',
+  [SunatEstadoRuc.INHABILITADO_VENTANILLA_UNICA]: 'INHABILITADO-VENT.UNICA',
+}
+
+const COND_DOMI_RUC_DESCRIPTIONS: Record<string, string> = {
+  [SunatCondDomiRuc.HABIDO]: 'HABIDO',
+  [SunatCondDomiRuc.PENDIENTE]: 'PENDIENTE',
+  [SunatCondDomiRuc.POR_VERIFICAR]: 'POR VERIFICAR',
+  [SunatCondDomiRuc.NO_HABIDO]: 'NO HABIDO',
+  [SunatCondDomiRuc.NO_HALLADO]: 'NO HALLADO',
+}
+
+const STATUS_BY_ESTADO_CP: Record<string, SunatValidationStatus> = {
+  [SunatEstadoCp.NO_EXISTE]: SunatValidationStatus.NO_ENCONTRADO,
+  [SunatEstadoCp.ACEPTADO]: SunatValidationStatus.VALIDO_ACEPTADO,
+  [SunatEstadoCp.ANULADO]: SunatValidationStatus.ANULADO,
+  [SunatEstadoCp.AUTORIZADO]: SunatValidationStatus.VALIDO_AUTORIZADO,
+  [SunatEstadoCp.NO_AUTORIZADO]: SunatValidationStatus.NO_AUTORIZADO,
+}
+
+const MESSAGES: Record<SunatValidationStatus, string> = {
+  [SunatValidationStatus.VALIDO_ACEPTADO]:
+    'El comprobante es válido y fue aceptado por SUNAT.',
+  [SunatValidationStatus.VALIDO_AUTORIZADO]:
+    'El comprobante físico está autorizado por SUNAT.',
+  [SunatValidationStatus.ANULADO]: 'El comprobante fue anulado por el emisor.',
+  [SunatValidationStatus.NO_AUTORIZADO]:
+    'El comprobante no está autorizado por SUNAT.',
+  [SunatValidationStatus.NO_ENCONTRADO]: 'El comprobante no existe en SUNAT.',
+  [SunatValidationStatus.ERROR_SUNAT]: 'Error al validar el comprobante.',
+}
+
+// Datos estructurados que se guardan en la factura
+export interface SunatValidation {
+  estadoCp?: string
+  estadoRuc?: string
+  condDomiRuc?: string
+  observaciones: string[]
+  validatedAt: Date
+}
+
+export interface SunatValidationResult {
+  status: SunatValidationStatus
+  message: string
+  validation: SunatValidation
+  details: {
+    estadoCp?: string
+    estadoRuc?: string
+    condDomiRuc?: string
+    observaciones: string[]
+  }
+}
+
+export function interpretSunatResponse(
+  response: SunatValidationResponse
+): SunatValidationResult {
+  const data = response?.success ? response.data : undefined
+  let status = data?.estadoCp
+    ? (STATUS_BY_ESTADO_CP[data.estadoCp] ?? SunatValidationStatus.ERROR_SUNAT)
+    : SunatValidationStatus.ERROR_SUNAT
+  if (!data && response?.cod === '98') {
+    status = SunatValidationStatus.NO_ENCONTRADO
+  }
+
+  const observaciones = [...(data?.observaciones || [])]
+  if (!data && response?.msg) observaciones.push(response.msg)
+
+  const validation: SunatValidation = {
+    estadoCp: data?.estadoCp,
+    estadoRuc: data?.estadoRuc,
+    condDomiRuc: data?.condDomiRuc,
+    observaciones,
+    validatedAt: new Date(),
+  }
+
+  const warnings = [
+    isInactiveRuc(validation) &&
+      `El RUC del emisor está en estado ${ESTADO_RUC_DESCRIPTIONS[validation.estadoRuc] || validation.estadoRuc}.`,
+    isUnlocatedDomicile(validation) &&
+      `El domicilio fiscal del emisor es ${COND_DOMI_RUC_DESCRIPTIONS[validation.condDomiRuc]}.`,
+  ].filter(Boolean)
+
+  return {
+    status,
+    message: [MESSAGES[status], ...warnings].join(' '),
+    validation,
+    details: {
+      estadoCp: ESTADO_CP_DESCRIPTIONS[validation.estadoCp],
+      estadoRuc: ESTADO_RUC_DESCRIPTIONS[validation.estadoRuc],
+      condDomiRuc: COND_DOMI_RUC_DESCRIPTIONS[validation.condDomiRuc],
+      observaciones,
+    },
+  }
+}
+
+export function isInactiveRuc(validation?: Partial<SunatValidation>): boolean {
+  return (
+    !!validation?.estadoRuc && validation.estadoRuc !== SunatEstadoRuc.ACTIVO
+  )
+}
+
+// SUNAT no ubica al contribuyente en su domicilio fiscal: NO HABIDO o NO HALLADO
+export function isUnlocatedDomicile(
+  validation?: Partial<SunatValidation>
+): boolean {
+  return (
+    validation?.condDomiRuc === SunatCondDomiRuc.NO_HABIDO ||
+    validation?.condDomiRuc === SunatCondDomiRuc.NO_HALLADO
+  )
+}
+
+// Motivo por el que un comprobante no puede aprobarse, o undefined si no hay impedimento
+export function getApprovalBlockReason(
+  state: string,
+  validation?: Partial<SunatValidation>
+): string | undefined {
+  if (
+    state === SunatValidationStatus.ANULADO ||
+    validation?.estadoCp === SunatEstadoCp.ANULADO
+  ) {
+    return 'El comprobante fue anulado en SUNAT y no puede aprobarse.'
+  }
+  if (isInactiveRuc(validation)) {
+    return `El RUC del emisor está en estado ${ESTADO_RUC_DESCRIPTIONS[validation.estadoRuc] || validation.estadoRuc} en SUNAT y el comprobante no puede aprobarse.`
+  }
+  if (isUnlocatedDomicile(validation)) {
+    return `El emisor del comprobante tiene condición ${COND_DOMI_RUC_DESCRIPTIONS[validation.condDomiRuc]} en SUNAT y no puede aprobarse.`
+  }
+  return undefined
+}
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common'
+
+export const TENANT_PARAMS_KEY = 'tenantParams'
+
+// Parámetros de ruta que, además de :companyId, contienen el id de una empresa
+export const TenantParam = (...params: string[]) =>
+  SetMetadata(TENANT_PARAMS_KEY, params)
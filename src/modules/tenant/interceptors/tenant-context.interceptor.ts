@@ -0,0 +1,60 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { Observable } from 'rxjs'
+import { AuthenticatedRequest } from '../../auth/interfaces/auth-context.interface'
+import { TENANT_PARAMS_KEY } from '../decorators/tenant-param.decorator'
+import { runWithTenantContext } from '../utils/tenant-context.util'
+
+// Se ejecuta después de los guards: rechaza un companyId ajeno y acota las consultas a la empresa del usuario
+@Injectable()
+export class TenantContextInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(TenantContextInterceptor.name)
+
+  constructor(private readonly reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle()
+    }
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>()
+    if (!req.user) {
+      return next.handle()
+    }
+
+    const companyId = req.user.companyId ?? null
+    const tenantParams =
+      this.reflector.getAllAndOverride<string[]>(TENANT_PARAMS_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? []
+    const requested = [
+      ...['companyId', ...tenantParams].map(param => req.params?.[param]),
+      req.query?.companyId,
+      req.body?.companyId,
+    ].filter(value => value !== undefined && value !== null && value !== '')
+
+    const foreign = requested.find(value => String(value) !== companyId)
+    if (foreign !== undefined) {
+      this.logger.warn(
+        `Acceso entre empresas rechazado: el usuario ${req.user.userId} (empresa ${companyId}) pidió ${req.method} ${req.originalUrl ?? req.url} de la empresa ${foreign}`
+      )
+      throw new ForbiddenException(
+        'No tiene acceso a los datos de otra empresa'
+      )
+    }
+
+    // El handler se invoca al suscribirse, dentro del contexto de la petición
+    return new Observable(subscriber =>
+      runWithTenantContext({ companyId }, () =>
+        next.handle().subscribe(subscriber)
+      )
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { ForbiddenException } from '@nestjs/common'
+import { model, Schema, Types } from 'mongoose'
+import {
+  assignTenant,
+  scopePipeline,
+  scopeQuery,
+  tenantPlugin,
+} from './tenant.plugin'
+import { runWithTenantContext } from '../utils/tenant-context.util'
+
+const COMPANY_A = '64b7f0c2a1b2c3d4e5f60718'
+const COMPANY_B = '64b7f0c2a1b2c3d4e5f60719'
+
+// Las consultas se construyen sin ejecutarse: no hace falta una base de datos
+const schema = new Schema({
+  companyId: { type: Schema.Types.ObjectId },
+  name: String,
+})
+schema.plugin(tenantPlugin)
+const Record = model('TenantPluginRecord', schema)
+
+const asTenant = <T>(companyId: string | null, fn: () => T) =>
+  runWithTenantContext({ companyId }, fn)
+
+describe('tenantPlugin', () => {
+  describe('scopeQuery', () => {
+    it('adds the company of the request next to the original filter', () => {
+      const query = Record.find({ companyId: COMPANY_B, name: 'x' })
+
+      asTenant(COMPANY_A, () => scopeQuery(query as any, 'companyId'))
+
+      expect(query.getFilter()).toEqual({
+        companyId: COMPANY_B,
+        name: 'x',
+        $and: [{ companyId: COMPANY_A }],
+      })
+    })
+
+    it('restricts users without company to records without company', () => {
+      const query = Record.findOne({ _id: new Types.ObjectId() })
+
+      asTenant(null, () => scopeQuery(query as any, 'companyId'))
+
+      expect(query.getFilter().$and).toEqual([{ companyId: null }])
+    })
+
+    it('rejects updates that move a record to another company', () => {
+      const query = Record.updateOne({}, { $set: { companyId: COMPANY_B } })
+
+      expect(() =>
+        asTenant(COMPANY_A, () => scopeQuery(query as any, 'companyId'))
+      ).toThrow(ForbiddenException)
+    })
+
+    it('leaves queries outside a request untouched', () => {
+      const query = Record.find({ name: 'x' })
+
+      scopeQuery(query as any, 'companyId')
+
+      expect(query.getFilter()).toEqual({ name: 'x' })
+    })
+  })
+
+  describe('scopePipeline', () => {
+    it('matches the company first, casting it to ObjectId', () => {
+      const aggregate = Record.aggregate([{ $group: { _id: '$name' } }])
+
+      asTenant(COMPANY_A, () =>
+        scopePipeline(aggregate as any, 'companyId', true)
+      )
+
+      const [first, second] = aggregate.pipeline() as any[]
+      expect(first.$match.companyId).toBeInstanceOf(Types.ObjectId)
+      expect(String(first.$match.companyId)).toBe(COMPANY_A)
+      expect(second).toEqual({ $group: { _id: '$name' } })
+    })
+  })
+
+  describe('assignTenant', () => {
+    it('assigns the company of the request to new records', () => {
+      const doc = new Record({ name: 'x' })
+
+      asTenant(COMPANY_A, () => assignTenant(doc, 'companyId', true))
+
+      expect(String(doc.companyId)).toBe(COMPANY_A)
+    })
+
+    it('rejects saving records of another company', () => {
+      const doc = new Record({ companyId: COMPANY_B })
+
+      expect(() =>
+        asTenant(COMPANY_A, () => assignTenant(doc, 'companyId', false))
+      ).toThrow(ForbiddenException)
+    })
+
+    it('rejects inserting plain documents of another company', () => {
+      expect(() =>
+        asTenant(COMPANY_A, () =>
+          assignTenant({ companyId: COMPANY_B }, 'companyId', true)
+        )
+      ).toThrow(ForbiddenException)
+    })
+  })
+})
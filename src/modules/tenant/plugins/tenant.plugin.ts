@@ -0,0 +1,126 @@
+import { ForbiddenException } from '@nestjs/common'
+import {
+  Aggregate,
+  Document,
+  MongooseQueryMiddleware,
+  Query,
+  Schema,
+  Types,
+} from 'mongoose'
+import { getTenantContext } from '../utils/tenant-context.util'
+
+export interface TenantPluginOptions {
+  // Campo que identifica a la empresa; en Company es el propio _id
+  companyField?: string
+}
+
+type AnyQuery = Query<unknown, unknown>
+type PlainDocument = Record<string, any>
+
+const SCOPED_QUERIES: MongooseQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+]
+
+const foreignRecordError = () =>
+  new ForbiddenException('El registro pertenece a otra empresa')
+
+const sameCompany = (value: unknown, companyId: string | null) =>
+  value === undefined || value === null
+    ? companyId === null
+    : String(value) === companyId
+
+// Se agrega como condición aparte para que un filtro con otra empresa no la reemplace
+export function scopeQuery(query: AnyQuery, field: string): void {
+  const context = getTenantContext()
+  if (!context) return
+  query.and([{ [field]: context.companyId }])
+
+  const update = query.getUpdate() as PlainDocument | null
+  const assigned = update?.[field] ?? update?.$set?.[field]
+  if (assigned !== undefined && !sameCompany(assigned, context.companyId)) {
+    throw foreignRecordError()
+  }
+}
+
+// Las agregaciones no pasan por el casteo del esquema: el id se convierte aquí
+export function scopePipeline(
+  aggregate: Aggregate<unknown>,
+  field: string,
+  objectId: boolean
+): void {
+  const context = getTenantContext()
+  if (!context) return
+  const companyId =
+    objectId && context.companyId
+      ? new Types.ObjectId(context.companyId)
+      : context.companyId
+  aggregate.pipeline().unshift({ $match: { [field]: companyId } })
+}
+
+// Los documentos nuevos sin empresa toman la del usuario; otra empresa se rechaza
+export function assignTenant(
+  doc: PlainDocument,
+  field: string,
+  isNew: boolean
+): void {
+  const context = getTenantContext()
+  if (!context) return
+  const current = doc instanceof Document ? doc.get(field) : doc[field]
+  if (isNew && (current === undefined || current === null)) {
+    if (!context.companyId) return
+    if (doc instanceof Document) doc.set(field, context.companyId)
+    else doc[field] = context.companyId
+    return
+  }
+  if (!sameCompany(current, context.companyId)) {
+    throw foreignRecordError()
+  }
+}
+
+// Acota lecturas, escrituras y agregaciones a la empresa de la petición en curso
+export function tenantPlugin(
+  schema: Schema,
+  options: TenantPluginOptions = {}
+) {
+  const field = options.companyField ?? 'companyId'
+  const objectId = schema.path(field)?.instance === 'ObjectId'
+
+  schema.pre(
+    SCOPED_QUERIES,
+    { document: false, query: true },
+    function (this: AnyQuery) {
+      scopeQuery(this, field)
+    }
+  )
+
+  schema.pre('aggregate', function (this: Aggregate<unknown>) {
+    scopePipeline(this, field, objectId)
+  })
+
+  schema.pre('save', function (this: Document) {
+    assignTenant(this, field, this.isNew)
+  })
+
+  schema.pre(
+    'insertMany',
+    function (next: (error?: Error) => void, docs: PlainDocument[]) {
+      try {
+        docs.forEach(doc => assignTenant(doc, field, true))
+        next()
+      } catch (error) {
+        next(error)
+      }
+    }
+  )
+}
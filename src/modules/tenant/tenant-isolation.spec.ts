@@ -0,0 +1,285 @@
+import { ExecutionContext, ForbiddenException, Type } from '@nestjs/common'
+import {
+  GUARDS_METADATA,
+  METHOD_METADATA,
+  PATH_METADATA,
+} from '@nestjs/common/constants'
+import { APP_INTERCEPTOR, Reflector } from '@nestjs/core'
+import { lastValueFrom, of } from 'rxjs'
+import { TenantContextInterceptor } from './interceptors/tenant-context.interceptor'
+import { TENANT_PARAMS_KEY } from './decorators/tenant-param.decorator'
+import { TenantModule } from './tenant.module'
+import { getTenantContext } from './utils/tenant-context.util'
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'
+import { JwtAuthGuard as SharedJwtAuthGuard } from '../../guards/jwt-auth.guard'
+import { AppController } from '../../app.controller'
+import { ApprovalWorkflowController } from '../approval-workflow/approval-workflow.controller'
+import { AuditController } from '../audit/audit.controller'
+import { AuthController } from '../auth/auth.controller'
+import { BankReconciliationController } from '../bank-reconciliation/bank-reconciliation.controller'
+import { BudgetController } from '../budget/budget.controller'
+import { CategoryController } from '../category/category.controller'
+import { CompanyController } from '../company/company.controller'
+import { ComprobanteController } from '../comprobante/comprobante.controller'
+import { EmailController } from '../email/email.controller'
+import { ExchangeRateController } from '../exchange-rate/exchange-rate.controller'
+import { ExpenseController } from '../expense/expense.controller'
+import { InvoiceController } from '../invoice/invoice.controller'
+import { PaymentBatchController } from '../payment-batch/payment-batch.controller'
+import { ProjectTypeController } from '../project/project-type.controller'
+import { ProjectController } from '../project/project.controller'
+import { ProvidersController } from '../providers/providers.controller'
+import { StorageController } from '../storage/storage.controller'
+import { UsersController } from '../users/controllers/users.controller'
+
+// Solo interesan los metadatos de los controladores: servicios y esquemas se reemplazan por dobles
+jest.mock('../../app.service', () => ({ AppService: class {} }))
+jest.mock('../approval-workflow/approval-workflow.service', () => ({
+  ApprovalWorkflowService: class {},
+}))
+jest.mock('../audit/audit.service', () => ({ AuditService: class {} }))
+jest.mock('../auth/auth.service', () => ({ AuthService: class {} }))
+jest.mock('../auth/email-verification.service', () => ({
+  EmailVerificationService: class {},
+}))
+jest.mock('../bank-reconciliation/bank-reconciliation.service', () => ({
+  BankReconciliationService: class {},
+}))
+jest.mock('../budget/budget.service', () => ({ BudgetService: class {} }))
+jest.mock('../category/category.service', () => ({ CategoryService: class {} }))
+jest.mock('../company/company.service', () => ({ CompanyService: class {} }))
+jest.mock('../comprobante/comprobante.service', () => ({
+  ComprobanteService: class {},
+}))
+jest.mock('../email/email.service', () => ({ EmailService: class {} }))
+jest.mock('../exchange-rate/exchange-rate.service', () => ({
+  ExchangeRateService: class {},
+}))
+jest.mock('../expense/expense.service', () => ({ ExpenseService: class {} }))
+jest.mock('../invoice/invoice.service', () => ({ InvoiceService: class {} }))
+jest.mock('../payment-batch/payment-batch.service', () => ({
+  PaymentBatchService: class {},
+}))
+jest.mock('../payment-batch/bank-file.service', () => ({
+  BankFileService: class {},
+}))
+jest.mock('../project/project-type.service', () => ({
+  ProjectTypeService: class {},
+}))
+jest.mock('../project/project.service', () => ({ ProjectService: class {} }))
+jest.mock('../project/entities/project.entity', () => ({
+  Project: { name: 'Project' },
+}))
+jest.mock('../providers/providers.service', () => ({
+  ProvidersService: class {},
+}))
+jest.mock('../session/session.service', () => ({ SessionService: class {} }))
+jest.mock('../users/services/users.service', () => ({
+  UsersService: class {},
+}))
+jest.mock('../users/services/password.service', () => ({
+  PasswordService: class {},
+}))
+
+const COMPANY_A = '64b7f0c2a1b2c3d4e5f60718'
+const COMPANY_B = '64b7f0c2a1b2c3d4e5f60719'
+
+const CONTROLLERS: Type[] = [
+  AppController,
+  ApprovalWorkflowController,
+  AuditController,
+  AuthController,
+  BankReconciliationController,
+  BudgetController,
+  CategoryController,
+  CompanyController,
+  ComprobanteController,
+  EmailController,
+  ExchangeRateController,
+  ExpenseController,
+  InvoiceController,
+  PaymentBatchController,
+  ProjectTypeController,
+  ProjectController,
+  ProvidersController,
+  StorageController,
+  UsersController,
+]
+
+// Rutas que se usan sin sesión; cualquier otra debe exigir el JWT
+const PUBLIC_ROUTES = [
+  'AppController.getHello',
+  'AuthController.register',
+  'AuthController.login',
+  'AuthController.refresh',
+  'AuthController.sendVerificationCode',
+  'AuthController.verifyEmail',
+  'AuthController.forgotPassword',
+  'AuthController.resetPassword',
+  'AuthController.acceptInvitation',
+  'AuthController.googleAuthCallback',
+  'StorageController.download',
+]
+
+const JWT_GUARDS: unknown[] = [JwtAuthGuard, SharedJwtAuthGuard]
+
+interface Route {
+  name: string
+  controller: Type
+  handler: (...args: unknown[]) => unknown
+  path: string
+  guards: unknown[]
+}
+
+const joinPath = (...parts: unknown[]) =>
+  parts
+    .map(part => String(part ?? '').replace(/^\/|\/$/g, ''))
+    .filter(Boolean)
+    .join('/')
+
+function collectRoutes(): Route[] {
+  return CONTROLLERS.flatMap(controller => {
+    const prototype = controller.prototype
+    const classGuards = Reflect.getMetadata(GUARDS_METADATA, controller) ?? []
+    return Object.getOwnPropertyNames(prototype)
+      .filter(
+        key =>
+          key !== 'constructor' &&
+          Reflect.getMetadata(METHOD_METADATA, prototype[key]) !== undefined
+      )
+      .map(key => ({
+        name: `${controller.name}.${key}`,
+        controller,
+        handler: prototype[key],
+        path: joinPath(
+          Reflect.getMetadata(PATH_METADATA, controller),
+          Reflect.getMetadata(PATH_METADATA, prototype[key])
+        ),
+        guards: [
+          ...classGuards,
+          ...(Reflect.getMetadata(GUARDS_METADATA, prototype[key]) ?? []),
+        ],
+      }))
+  })
+}
+
+const routes = collectRoutes()
+const protectedRoutes = routes.filter(
+  route => !PUBLIC_ROUTES.includes(route.name)
+)
+
+const routeParams = (route: Route) =>
+  (route.path.match(/:\w+/g) ?? []).map(param => param.slice(1))
+
+const tenantParams = (route: Route) => [
+  'companyId',
+  ...(Reflect.getMetadata(TENANT_PARAMS_KEY, route.handler) ??
+    Reflect.getMetadata(TENANT_PARAMS_KEY, route.controller) ??
+    []),
+]
+
+// Petición de un usuario de la empresa A; los parámetros de empresa apuntan a `companyId`
+function buildRequest(route: Route, companyId: string) {
+  const scoped = tenantParams(route)
+  const params = Object.fromEntries(
+    routeParams(route).map(param => [
+      param,
+      scoped.includes(param) ? companyId : 'record-1',
+    ])
+  )
+  return {
+    method: 'GET',
+    url: `/${route.path}`,
+    params,
+    query: {},
+    body: {},
+    user: {
+      userId: 'user-a',
+      email: 'a@empresa.pe',
+      roles: ['ADMIN'],
+      companyId: COMPANY_A,
+    },
+  }
+}
+
+async function runInterceptor(route: Route, req: Record<string, any>) {
+  const interceptor = new TenantContextInterceptor(new Reflector())
+  const context = {
+    getType: () => 'http',
+    getHandler: () => route.handler,
+    getClass: () => route.controller,
+    switchToHttp: () => ({ getRequest: () => req }),
+  } as unknown as ExecutionContext
+  const next = { handle: () => of(getTenantContext()) }
+  return lastValueFrom(interceptor.intercept(context, next))
+}
+
+describe('tenant isolation', () => {
+  it('registers the tenant interceptor for the whole application', () => {
+    expect(Reflect.getMetadata('providers', TenantModule)).toContainEqual({
+      provide: APP_INTERCEPTOR,
+      useClass: TenantContextInterceptor,
+    })
+  })
+
+  it('discovers the routes of every controller', () => {
+    const names = routes.map(route => route.name)
+    expect(PUBLIC_ROUTES.filter(name => !names.includes(name))).toEqual([])
+    CONTROLLERS.forEach(controller =>
+      expect(routes.some(route => route.controller === controller)).toBe(true)
+    )
+  })
+
+  it.each(protectedRoutes.map(route => [route.name, route]))(
+    '%s requires an authenticated user',
+    (_name, route: Route) => {
+      expect(route.guards.some(guard => JWT_GUARDS.includes(guard))).toBe(true)
+    }
+  )
+
+  describe.each(protectedRoutes.map(route => [route.name, route]))(
+    '%s',
+    (_name, route: Route) => {
+      const hasTenantParam = routeParams(route).some(param =>
+        tenantParams(route).includes(param)
+      )
+
+      it('runs the handler scoped to the company of the user', async () => {
+        await expect(
+          runInterceptor(route, buildRequest(route, COMPANY_A))
+        ).resolves.toEqual({ companyId: COMPANY_A })
+      })
+
+      if (hasTenantParam) {
+        it('rejects a company id of another tenant in the URL', async () => {
+          await expect(
+            runInterceptor(route, buildRequest(route, COMPANY_B))
+          ).rejects.toThrow(ForbiddenException)
+        })
+      }
+
+      it('rejects a company id of another tenant in the query or body', async () => {
+        const inQuery = buildRequest(route, COMPANY_A)
+        inQuery.query = { companyId: COMPANY_B }
+        const inBody = buildRequest(route, COMPANY_A)
+        inBody.body = { companyId: COMPANY_B }
+
+        await expect(runInterceptor(route, inQuery)).rejects.toThrow(
+          ForbiddenException
+        )
+        await expect(runInterceptor(route, inBody)).rejects.toThrow(
+          ForbiddenException
+        )
+      })
+    }
+  )
+
+  it('checks the company id of the company routes', () => {
+    const companyRoutes = protectedRoutes.filter(
+      route =>
+        route.controller === CompanyController && route.path.includes(':id')
+    )
+    expect(companyRoutes.length).toBeGreaterThan(0)
+    companyRoutes.forEach(route => expect(tenantParams(route)).toContain('id'))
+  })
+})
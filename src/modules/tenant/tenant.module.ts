@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common'
+import { APP_INTERCEPTOR } from '@nestjs/core'
+import { TenantContextInterceptor } from './interceptors/tenant-context.interceptor'
+
+// El filtrado por empresa lo aplica tenantPlugin en cada esquema; aquí se fija la empresa de la petición
+@Module({
+  providers: [{ provide: APP_INTERCEPTOR, useClass: TenantContextInterceptor }],
+})
+export class TenantModule {}
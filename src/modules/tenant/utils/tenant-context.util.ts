@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+// Empresa del usuario autenticado; lo fija el interceptor en cada petición
+export interface TenantContext {
+  // null: usuario sin empresa asignada, solo alcanza registros sin empresa
+  companyId: string | null
+}
+
+const storage = new AsyncLocalStorage<TenantContext>()
+
+export function runWithTenantContext<T>(
+  context: TenantContext,
+  fn: () => T
+): T {
+  return storage.run(context, fn)
+}
+
+// Fuera de una petición autenticada (login, jobs, migraciones) no se filtra
+export function getTenantContext(): TenantContext | undefined {
+  return storage.getStore()
+}
@@ -0,0 +1,9 @@
+import { PasswordTokenPurpose } from '../enums/password-token-purpose.enum'
+
+// Vigencia de cada tipo de enlace, en minutos
+export const PASSWORD_TOKEN_TTL_MINUTES: Record<PasswordTokenPurpose, number> =
+  {
+    [PasswordTokenPurpose.RESET]: 60,
+    [PasswordTokenPurpose.INVITATION]: 72 * 60,
+    [PasswordTokenPurpose.PASSWORD_CHANGE]: 15,
+  }
@@ -10,17 +10,20 @@ import {
   HttpException,
   HttpStatus,
   Logger,
-  Req,
 } from '@nestjs/common'
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard'
 import { RolesGuard } from '../../auth/guards/roles.guard'
 import { Roles } from '../../auth/decorators/roles.decorator'
 import { UserRole } from '../../../shared/enums/role.enum'
+import { CurrentAuth } from '../../auth/decorators/auth-context.decorator'
+import { AuthContext } from '../../auth/interfaces/auth-context.interface'
+import { hasRole } from '../../auth/utils/auth-context.util'
 import { UpdateUserDto } from '../dto/update-user.dto'
 import { UsersService } from '../services/users.service'
 import { CreateUserDto } from '../dto/create-user.dto'
 
 @Controller('users')
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class UsersController {
   private readonly logger = new Logger(UsersController.name)
 
@@ -28,16 +31,19 @@ export class UsersController {
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.COMPANY, UserRole.ADMIN2)
-  async create(@Body() createUserDto: CreateUserDto, @Req() req: any) {
+  async create(
+    @Body() createUserDto: CreateUserDto,
+    @CurrentAuth() auth: AuthContext
+  ) {
     try {
       this.logger.log(
         `Recibida solicitud para crear usuario: ${JSON.stringify(createUserDto)}`
       )
       this.logger.log(
         `Usuario autenticado: ${JSON.stringify({
-          id: req.user._id,
-          email: req.user.email,
-          role: req.user.role,
+          id: auth.userId,
+          email: auth.email,
+          roles: auth.roles,
         })}`
       )
 
@@ -48,8 +54,10 @@ export class UsersController {
         )
       }
 
-      const companyId = req.user.companyId
-      const user = await this.usersService.create(createUserDto, companyId)
+      const companyId = auth.companyId
+      const user = await this.usersService.create(createUserDto, companyId, {
+        mustChangePassword: true,
+      })
       this.logger.log(`Usuario creado exitosamente: ${user._id}`)
       return user
     } catch (error) {
@@ -75,14 +83,14 @@ export class UsersController {
     UserRole.ADMIN2,
     UserRole.COLABORADOR
   )
-  async findAll(@Req() req: any) {
+  async findAll(@CurrentAuth() auth: AuthContext) {
     try {
       this.logger.log('Recibida solicitud para obtener todos los usuarios')
       this.logger.log(
         `Usuario autenticado: ${JSON.stringify({
-          id: req.user._id,
-          email: req.user.email,
-          role: req.user.role,
+          id: auth.userId,
+          email: auth.email,
+          roles: auth.roles,
         })}`
       )
       this.logger.log(
@@ -90,24 +98,23 @@ export class UsersController {
       )
 
       if (
-        ![
+        !hasRole(
+          auth,
           UserRole.ADMIN,
           UserRole.COMPANY,
           UserRole.PROVIDER,
           UserRole.ADMIN2,
-          UserRole.COLABORADOR,
-        ].includes(req.user.role)
+          UserRole.COLABORADOR
+        )
       ) {
-        this.logger.error(`Rol no permitido: ${req.user.role}`)
+        this.logger.error(`Rol no permitido: ${auth.roles}`)
         throw new HttpException(
           'No tienes permiso para realizar esta acción',
           HttpStatus.FORBIDDEN
         )
       }
 
-      this.logger.log(`Headers de la solicitud: ${JSON.stringify(req.headers)}`)
-
-      const companyId = req.user.companyId
+      const companyId = auth.companyId
       const users = await this.usersService.findAll(companyId)
       this.logger.log(`Se encontraron ${users.length} usuarios`)
       return users
@@ -125,14 +132,14 @@ export class UsersController {
 
   @Get(':id')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COMPANY, UserRole.PROVIDER)
-  async findOne(@Param('id') id: string, @Req() req: any) {
+  async findOne(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
     try {
       this.logger.log(`Recibida solicitud para obtener usuario: ${id}`)
       this.logger.log(
         `Usuario autenticado: ${JSON.stringify({
-          id: req.user._id,
-          email: req.user.email,
-          role: req.user.role,
+          id: auth.userId,
+          email: auth.email,
+          roles: auth.roles,
         })}`
       )
       const user = await this.usersService.findOne(id)
@@ -155,19 +162,19 @@ export class UsersController {
   async update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
-    @Req() req: any
+    @CurrentAuth() auth: AuthContext
   ) {
     try {
       this.logger.log(`Recibida solicitud para actualizar usuario: ${id}`)
       this.logger.log(
         `Usuario autenticado: ${JSON.stringify({
-          id: req.user._id,
-          email: req.user.email,
-          role: req.user.role,
+          id: auth.userId,
+          email: auth.email,
+          roles: auth.roles,
         })}`
       )
 
-      const companyId = req.user.companyId
+      const companyId = auth.companyId
       const user = await this.usersService.update(id, updateUserDto, companyId)
       this.logger.log(`Usuario actualizado exitosamente: ${id}`)
       return user
@@ -185,18 +192,18 @@ export class UsersController {
 
   @Delete(':id')
   @Roles(UserRole.ADMIN, UserRole.ADMIN2, UserRole.COMPANY)
-  async remove(@Param('id') id: string, @Req() req: any) {
+  async remove(@Param('id') id: string, @CurrentAuth() auth: AuthContext) {
     try {
       this.logger.log(`Recibida solicitud para eliminar usuario: ${id}`)
       this.logger.log(
         `Usuario autenticado: ${JSON.stringify({
-          id: req.user._id,
-          email: req.user.email,
-          role: req.user.role,
+          id: auth.userId,
+          email: auth.email,
+          roles: auth.roles,
         })}`
       )
 
-      const companyId = req.user.companyId
+      const companyId = auth.companyId
       await this.usersService.remove(id, companyId)
       this.logger.log(`Usuario eliminado exitosamente: ${id}`)
     } catch (error) {
@@ -32,10 +32,11 @@ export class CreateUserDto {
   @IsNotEmpty()
   email: string
 
+  // Sin contraseña se envía una invitación para que el usuario la defina
   @IsString()
   @MinLength(6)
-  @IsNotEmpty()
-  password: string
+  @IsOptional()
+  password?: string
 
   @IsString()
   @IsOptional()
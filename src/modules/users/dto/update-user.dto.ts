@@ -4,6 +4,7 @@ import {
   IsEnum,
   IsOptional,
   IsMongoId,
+  IsBoolean,
 } from 'class-validator'
 import { UserRole } from '../../../shared/enums/role.enum'
 
@@ -27,4 +28,9 @@ export class UpdateUserDto {
   @IsMongoId()
   @IsOptional()
   companyId?: string
+
+  // Desactivar al usuario revoca sus sesiones abiertas
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean
 }
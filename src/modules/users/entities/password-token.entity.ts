@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
+import { Document } from 'mongoose'
+import { PasswordTokenPurpose } from '../enums/password-token-purpose.enum'
+
+export interface PasswordTokenDocument extends Document {
+  userId: string
+  purpose: PasswordTokenPurpose
+  tokenHash: string
+  expiresAt: Date
+  usedAt?: Date
+}
+
+// Enlaces de un solo uso; solo se guarda el SHA-256 del token enviado
+@Schema({ timestamps: true })
+export class PasswordToken {
+  @Prop({ type: String, ref: 'User', required: true, index: true })
+  userId: string
+
+  @Prop({ type: String, enum: PasswordTokenPurpose, required: true })
+  purpose: PasswordTokenPurpose
+
+  @Prop({ required: true, unique: true })
+  tokenHash: string
+
+  @Prop({ required: true })
+  expiresAt: Date
+
+  @Prop()
+  usedAt?: Date
+}
+
+export const PasswordTokenSchema = SchemaFactory.createForClass(PasswordToken)
+
+// Mongo elimina los enlaces vencidos
+PasswordTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
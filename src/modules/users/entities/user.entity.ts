@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose'
 import { Document, Types } from 'mongoose'
 import { UserRole } from '../../../shared/enums/role.enum'
+import { auditPlugin } from '../../audit/plugins/audit.plugin'
+import { tenantPlugin } from '../../tenant/plugins/tenant.plugin'
 
 export type UserDocument = User &
   Document & {
@@ -44,11 +46,32 @@ export class User {
   @Prop({ default: true })
   isActive: boolean
 
+  // El inicio de sesión exige haber confirmado el correo con el código enviado
+  @Prop({ default: false })
+  emailVerified: boolean
+
+  @Prop()
+  emailVerifiedAt?: Date
+
+  // Contraseña asignada por un administrador: debe cambiarse al iniciar sesión
+  @Prop({ default: false })
+  mustChangePassword: boolean
+
+  @Prop()
+  passwordChangedAt?: Date
+
+  // Hashes de las contraseñas anteriores, para la política de no reutilización
+  @Prop({ type: [String], default: [], select: false })
+  passwordHistory: string[]
+
   @Prop({ type: Number, default: 0 })
   __v: number
 }
 
 export const UserSchema = SchemaFactory.createForClass(User)
 
+UserSchema.plugin(tenantPlugin)
+UserSchema.plugin(auditPlugin, { entity: 'User' })
+
 // Tipo para la respuesta de la API
 export type UserResponse = Omit<User, 'password'>
@@ -0,0 +1,8 @@
+export enum PasswordTokenPurpose {
+  // Enlace de "olvidé mi contraseña"
+  RESET = 'reset',
+  // Enlace de bienvenida con el que el usuario define su primera contraseña
+  INVITATION = 'invitation',
+  // Emitido en el login cuando la contraseña debe cambiarse
+  PASSWORD_CHANGE = 'password_change',
+}
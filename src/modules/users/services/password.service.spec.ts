@@ -0,0 +1,172 @@
+import { BadRequestException } from '@nestjs/common'
+import { createHash } from 'crypto'
+import { PasswordService } from './password.service'
+import { PasswordTokenPurpose } from '../enums/password-token-purpose.enum'
+
+// bcrypt y el servicio de correo dependen de binarios y SMTP; se reemplazan por dobles
+jest.mock('bcrypt', () => ({
+  hash: jest.fn(async (value: string) => `hash:${value}`),
+  compare: jest.fn(
+    async (value: string, hash: string) => hash === `hash:${value}`
+  ),
+}))
+jest.mock('../../email/email.service', () => ({ EmailService: class {} }))
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex')
+
+describe('PasswordService', () => {
+  const build = (
+    overrides: {
+      user?: Record<string, unknown>
+      token?: Record<string, unknown> | null
+      policy?: Record<string, unknown>
+    } = {}
+  ) => {
+    const user = {
+      _id: 'user-1',
+      email: 'mperez@empresa.pe',
+      firstName: 'Mariela',
+      lastName: 'Perez',
+      companyId: 'company-1',
+      isActive: true,
+      password: 'hash:Anterior2024',
+      passwordHistory: ['hash:Antigua2023'],
+      ...overrides.user,
+    }
+    const token =
+      overrides.token === undefined
+        ? { userId: 'user-1', purpose: PasswordTokenPurpose.RESET }
+        : overrides.token
+    const exec = <T>(value: T) => ({ exec: async () => value })
+    const userModel = {
+      findOne: jest.fn(() => ({ collation: () => exec(user) })),
+      findById: jest.fn(() => ({ select: () => exec(user) })),
+      updateOne: jest.fn(),
+    }
+    const tokenModel = {
+      findOne: jest.fn(() => exec(token)),
+      findOneAndUpdate: jest.fn((_filter: unknown, _update: unknown) =>
+        exec(token)
+      ),
+      deleteMany: jest.fn(),
+      create: jest.fn(),
+    }
+    const companyModel = {
+      findById: jest.fn(() => exec({ passwordPolicy: overrides.policy })),
+    }
+    const emailService = {
+      sendPasswordResetEmail: jest.fn(),
+      sendUserInvitationEmail: jest.fn(),
+    }
+    const configService = { get: () => 'https://app.test' }
+    const sessionService = { revokeAll: jest.fn() }
+    const service = new PasswordService(
+      userModel as any,
+      tokenModel as any,
+      companyModel as any,
+      emailService as any,
+      configService as any,
+      sessionService as any
+    )
+    return { service, userModel, tokenModel, emailService, sessionService }
+  }
+
+  it('emails a reset link and stores only the token hash', async () => {
+    const { service, tokenModel, emailService } = build()
+
+    await service.requestReset('MPerez@empresa.pe')
+
+    const { resetUrl, expiresInMinutes } =
+      emailService.sendPasswordResetEmail.mock.calls[0][1]
+    const token = resetUrl.split('token=')[1]
+    expect(resetUrl).toBe(`https://app.test/auth/reset-password?token=${token}`)
+    expect(expiresInMinutes).toBe(60)
+    expect(tokenModel.deleteMany).toHaveBeenCalledWith({
+      userId: 'user-1',
+      purpose: PasswordTokenPurpose.RESET,
+      usedAt: null,
+    })
+    expect(tokenModel.create.mock.calls[0][0]).toMatchObject({
+      purpose: PasswordTokenPurpose.RESET,
+      tokenHash: sha256(token),
+    })
+  })
+
+  it('resets the password once, clears mustChangePassword and signs out every session', async () => {
+    const { service, userModel, tokenModel, sessionService } = build()
+
+    await service.resetPassword('a'.repeat(64), 'Nueva2025x')
+
+    expect(tokenModel.findOneAndUpdate.mock.calls[0][0]).toMatchObject({
+      tokenHash: sha256('a'.repeat(64)),
+      usedAt: null,
+    })
+    expect(userModel.updateOne.mock.calls[0][1].$set).toMatchObject({
+      password: 'hash:Nueva2025x',
+      passwordHistory: ['hash:Anterior2024', 'hash:Antigua2023'],
+      mustChangePassword: false,
+    })
+    expect(sessionService.revokeAll).toHaveBeenCalledWith(
+      'user-1',
+      'password_changed'
+    )
+  })
+
+  it('rejects used or expired links', async () => {
+    const { service, userModel } = build({ token: null })
+
+    await expect(
+      service.resetPassword('a'.repeat(64), 'Nueva2025x')
+    ).rejects.toBeInstanceOf(BadRequestException)
+    expect(userModel.updateOne).not.toHaveBeenCalled()
+  })
+
+  it('keeps the link usable when the new password breaks the policy', async () => {
+    const { service, tokenModel } = build({ policy: { minLength: 12 } })
+
+    await expect(
+      service.resetPassword('a'.repeat(64), 'Nueva2025x')
+    ).rejects.toThrow('al menos 12 caracteres')
+    expect(tokenModel.findOneAndUpdate).not.toHaveBeenCalled()
+  })
+
+  it('refuses passwords from the history', async () => {
+    const { service, userModel } = build()
+
+    await expect(
+      service.changePassword('user-1', 'Anterior2024', 'Antigua2023')
+    ).rejects.toThrow('no puede ser igual a las últimas 3')
+    expect(userModel.updateOne).not.toHaveBeenCalled()
+  })
+
+  it('keeps the current session when the user changes the password', async () => {
+    const { service, sessionService } = build()
+
+    await service.changePassword(
+      'user-1',
+      'Anterior2024',
+      'Nueva2025x',
+      'session-1'
+    )
+
+    expect(sessionService.revokeAll).toHaveBeenCalledWith(
+      'user-1',
+      'password_changed',
+      'session-1'
+    )
+  })
+
+  it('marks the email as verified when an invitation is accepted', async () => {
+    const { service, userModel } = build({
+      token: { userId: 'user-1', purpose: PasswordTokenPurpose.INVITATION },
+    })
+
+    await service.acceptInvitation('b'.repeat(64), 'Proveedor2025')
+
+    expect(userModel.updateOne.mock.calls[0][1].$set).toMatchObject({
+      emailVerified: true,
+      mustChangePassword: false,
+    })
+  })
+})
@@ -0,0 +1,279 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { ConfigService } from '@nestjs/config'
+import { Model } from 'mongoose'
+import { createHash, randomBytes } from 'crypto'
+import * as bcrypt from 'bcrypt'
+import { User, UserDocument } from '../entities/user.entity'
+import {
+  PasswordToken,
+  PasswordTokenDocument,
+} from '../entities/password-token.entity'
+import { PasswordTokenPurpose } from '../enums/password-token-purpose.enum'
+import { PASSWORD_TOKEN_TTL_MINUTES } from '../constants/password-token.constants'
+import {
+  passwordPolicyViolations,
+  PasswordPolicyRules,
+  resolvePasswordPolicy,
+} from '../utils/password-policy.util'
+import { Company, CompanyDocument } from '../../company/entities/company.entity'
+import { EmailService } from '../../email/email.service'
+import { SessionService } from '../../session/session.service'
+import { SessionRevocationReason } from '../../session/enums/session-revocation-reason.enum'
+
+const INVALID_TOKEN = 'El enlace es inválido, ya fue usado o expiró'
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex')
+
+@Injectable()
+export class PasswordService {
+  private readonly logger = new Logger(PasswordService.name)
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(PasswordToken.name)
+    private tokenModel: Model<PasswordTokenDocument>,
+    @InjectModel(Company.name)
+    private companyModel: Model<CompanyDocument>,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly sessionService: SessionService
+  ) {}
+
+  async getPolicy(companyId?: unknown): Promise<PasswordPolicyRules> {
+    const company = companyId
+      ? await this.companyModel.findById(companyId).exec()
+      : null
+    return resolvePasswordPolicy(company?.passwordPolicy)
+  }
+
+  // Valida la fortaleza según la política de la empresa del usuario
+  async assertStrength(
+    password: string,
+    companyId: unknown,
+    personalData: string[] = []
+  ): Promise<PasswordPolicyRules> {
+    const policy = await this.getPolicy(companyId)
+    const violations = passwordPolicyViolations(password, policy, personalData)
+    if (violations.length > 0) {
+      throw new BadRequestException(
+        `La contraseña no cumple la política: ${violations.join('; ')}`
+      )
+    }
+    return policy
+  }
+
+  // Envía el enlace de restablecimiento; la respuesta no revela si el correo existe
+  async requestReset(email: string): Promise<{ message: string }> {
+    const response = {
+      message:
+        'Si el correo está registrado, se envió un enlace para restablecer la contraseña',
+    }
+    const user = await this.userModel
+      .findOne({ email: email.trim() })
+      .collation({ locale: 'en', strength: 1 })
+      .exec()
+    if (!user || !user.isActive) return response
+
+    const token = await this.issueToken(
+      String(user._id),
+      PasswordTokenPurpose.RESET
+    )
+    await this.emailService.sendPasswordResetEmail(user.email, {
+      firstName: user.firstName,
+      resetUrl: this.buildUrl('reset-password', token),
+      expiresInMinutes: PASSWORD_TOKEN_TTL_MINUTES[PasswordTokenPurpose.RESET],
+    })
+    return response
+  }
+
+  // Reemplaza la contraseña aleatoria del usuario invitado por un enlace de un solo uso
+  async sendInvitation(user: UserDocument): Promise<void> {
+    const token = await this.issueToken(
+      String(user._id),
+      PasswordTokenPurpose.INVITATION
+    )
+    await this.emailService.sendUserInvitationEmail(user.email, {
+      firstName: user.firstName,
+      lastName: user.lastName,
+      invitationUrl: this.buildUrl('accept-invitation', token),
+      expiresInHours:
+        PASSWORD_TOKEN_TTL_MINUTES[PasswordTokenPurpose.INVITATION] / 60,
+    })
+  }
+
+  issuePasswordChangeToken(userId: string): Promise<string> {
+    return this.issueToken(userId, PasswordTokenPurpose.PASSWORD_CHANGE)
+  }
+
+  async resetPassword(
+    token: string,
+    newPassword: string
+  ): Promise<{ message: string }> {
+    await this.redeemToken(
+      token,
+      [PasswordTokenPurpose.RESET, PasswordTokenPurpose.PASSWORD_CHANGE],
+      newPassword
+    )
+    return { message: 'Contraseña actualizada' }
+  }
+
+  // Aceptar la invitación prueba también que el usuario controla el correo
+  async acceptInvitation(
+    token: string,
+    newPassword: string
+  ): Promise<{ message: string }> {
+    await this.redeemToken(
+      token,
+      [PasswordTokenPurpose.INVITATION],
+      newPassword,
+      {
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      }
+    )
+    return { message: 'Contraseña creada; ya puede iniciar sesión' }
+  }
+
+  // Cierra las demás sesiones del usuario y conserva la actual
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string
+  ): Promise<{ message: string }> {
+    const user = await this.findUser(userId)
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      throw new BadRequestException('La contraseña actual es incorrecta')
+    }
+    await this.setPassword(user, newPassword)
+    await this.sessionService.revokeAll(
+      userId,
+      SessionRevocationReason.PASSWORD_CHANGED,
+      currentSessionId
+    )
+    return { message: 'Contraseña actualizada' }
+  }
+
+  // Aplica la política (fortaleza e historial) y guarda la nueva contraseña
+  async setPassword(
+    user: UserDocument,
+    newPassword: string,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    const history = await this.checkNewPassword(user, newPassword)
+    await this.savePassword(user, newPassword, history, extra)
+  }
+
+  // Devuelve el historial actualizado si la contraseña cumple la política
+  private async checkNewPassword(
+    user: UserDocument,
+    newPassword: string
+  ): Promise<string[]> {
+    const policy = await this.assertStrength(newPassword, user.companyId, [
+      user.firstName,
+      user.lastName,
+      user.email?.split('@')[0],
+    ])
+    const history = [user.password, ...(user.passwordHistory ?? [])]
+      .filter(Boolean)
+      .slice(0, policy.historySize)
+    for (const hash of history) {
+      if (await bcrypt.compare(newPassword, hash)) {
+        throw new BadRequestException(
+          `La contraseña no puede ser igual a las últimas ${policy.historySize}`
+        )
+      }
+    }
+    return history
+  }
+
+  private async savePassword(
+    user: UserDocument,
+    newPassword: string,
+    history: string[],
+    extra: Record<string, unknown>
+  ): Promise<void> {
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          password: await bcrypt.hash(newPassword, 10),
+          passwordHistory: history,
+          passwordChangedAt: new Date(),
+          mustChangePassword: false,
+          ...extra,
+        },
+      }
+    )
+    this.logger.log(`Contraseña actualizada para el usuario ${user._id}`)
+  }
+
+  // Solo puede haber un enlace vigente por usuario y propósito
+  private async issueToken(
+    userId: string,
+    purpose: PasswordTokenPurpose
+  ): Promise<string> {
+    const token = randomBytes(32).toString('hex')
+    await this.tokenModel.deleteMany({ userId, purpose, usedAt: null })
+    await this.tokenModel.create({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(
+        Date.now() + PASSWORD_TOKEN_TTL_MINUTES[purpose] * 60000
+      ),
+    })
+    return token
+  }
+
+  private async redeemToken(
+    token: string,
+    purposes: PasswordTokenPurpose[],
+    newPassword: string,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    const filter = {
+      tokenHash: hashToken(token),
+      purpose: { $in: purposes },
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    }
+    const pending = await this.tokenModel.findOne(filter).exec()
+    if (!pending) throw new BadRequestException(INVALID_TOKEN)
+
+    const user = await this.findUser(pending.userId)
+    // La política se valida antes de consumir el enlace para permitir reintentos
+    const history = await this.checkNewPassword(user, newPassword)
+    const claimed = await this.tokenModel
+      .findOneAndUpdate(filter, { $set: { usedAt: new Date() } })
+      .exec()
+    if (!claimed) throw new BadRequestException(INVALID_TOKEN)
+
+    await this.savePassword(user, newPassword, history, extra)
+    await this.sessionService.revokeAll(
+      String(user._id),
+      SessionRevocationReason.PASSWORD_CHANGED
+    )
+  }
+
+  private async findUser(userId: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+passwordHistory')
+      .exec()
+    if (!user) throw new NotFoundException('Usuario no encontrado')
+    return user
+  }
+
+  private buildUrl(path: string, token: string): string {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL')
+    return `${frontendUrl}/auth/${path}?token=${token}`
+  }
+}
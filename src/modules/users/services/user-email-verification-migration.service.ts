@@ -0,0 +1,32 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common'
+import { InjectModel } from '@nestjs/mongoose'
+import { Model } from 'mongoose'
+import { User, UserDocument } from '../entities/user.entity'
+
+// Los usuarios creados antes de la verificación por código conservan el acceso
+@Injectable()
+export class UserEmailVerificationMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(
+    UserEmailVerificationMigrationService.name
+  )
+
+  constructor(
+    @InjectModel(User.name)
+    private userModel: Model<UserDocument>
+  ) {}
+
+  async onApplicationBootstrap() {
+    const migrated = await this.markLegacyUsersVerified()
+    if (migrated) {
+      this.logger.log(`Legacy users marked as email verified: ${migrated}`)
+    }
+  }
+
+  async markLegacyUsersVerified(): Promise<number> {
+    const result = await this.userModel.collection.updateMany(
+      { emailVerified: { $exists: false } },
+      { $set: { emailVerified: true } }
+    )
+    return result.modifiedCount
+  }
+}
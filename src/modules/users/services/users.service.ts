@@ -11,9 +11,18 @@ import { User, UserDocument, UserResponse } from '../entities/user.entity'
 import { CreateUserDto } from '../dto/create-user.dto'
 import { UpdateUserDto } from '../dto/update-user.dto'
 import * as bcrypt from 'bcrypt'
+import { randomBytes } from 'crypto'
 import { UserRole } from '../../../shared/enums/role.enum'
-import { EmailService } from '../../email/email.service'
-import { ConfigService } from '@nestjs/config'
+import { PasswordService } from './password.service'
+import { SessionService } from '../../session/session.service'
+import { SessionRevocationReason } from '../../session/enums/session-revocation-reason.enum'
+
+export interface CreateUserOptions {
+  // Contraseña temporal definida por un administrador
+  mustChangePassword?: boolean
+  // Contraseñas generadas por el sistema, que el usuario nunca escribe
+  skipPasswordPolicy?: boolean
+}
 
 @Injectable()
 export class UsersService {
@@ -21,17 +30,18 @@ export class UsersService {
 
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    private readonly emailService: EmailService,
-    private readonly configService: ConfigService
+    private readonly passwordService: PasswordService,
+    private readonly sessionService: SessionService
   ) { }
 
   async create(
     createUserDto: CreateUserDto,
-    companyId: string
+    companyId: string,
+    options: CreateUserOptions = {}
   ): Promise<UserDocument> {
     try {
       this.logger.log(
-        `Intentando crear usuario: ${JSON.stringify(createUserDto)}`
+        `Intentando crear usuario: ${JSON.stringify({ ...createUserDto, password: undefined })}`
       )
 
       const existingUser = await this.userModel.findOne({
@@ -50,36 +60,41 @@ export class UsersService {
         )
       }
 
-      const hashedPassword = await bcrypt.hash(createUserDto.password, 10)
+      // Proveedores y usuarios sin contraseña reciben un enlace de invitación; nunca se envía la contraseña
+      const invite =
+        !createUserDto.password || createUserDto.role === UserRole.PROVIDER
+      if (!invite && !options.skipPasswordPolicy) {
+        await this.passwordService.assertStrength(
+          createUserDto.password,
+          companyId,
+          [
+            createUserDto.firstName,
+            createUserDto.lastName,
+            createUserDto.email.split('@')[0],
+          ]
+        )
+      }
+
+      const hashedPassword = await bcrypt.hash(
+        invite ? randomBytes(32).toString('hex') : createUserDto.password,
+        10
+      )
       const userData = {
         ...createUserDto,
         password: hashedPassword,
         companyId,
+        mustChangePassword: !invite && !!options.mustChangePassword,
       }
 
-      this.logger.debug(
-        `Datos del usuario a crear: ${JSON.stringify(userData)}`
-      )
-
       const createdUser = new this.userModel(userData)
       const result = await createdUser.save()
 
-      // Si el usuario es un proveedor, enviar correo de bienvenida
-      if (createUserDto.role === UserRole.PROVIDER) {
+      if (invite) {
         try {
-          const frontendUrl = this.configService.get<string>('FRONTEND_URL')
-          await this.emailService.sendProviderWelcomeEmail(
-            createUserDto.email,
-            {
-              firstName: createUserDto.firstName,
-              lastName: createUserDto.lastName,
-              password: createUserDto.password, // Enviamos la contraseña sin encriptar para el correo
-              loginUrl: `${frontendUrl}/auth/login`,
-            }
-          )
+          await this.passwordService.sendInvitation(result)
         } catch (error) {
           this.logger.error(
-            `Error al enviar correo de bienvenida al proveedor: ${error.message}`,
+            `Error al enviar la invitación al usuario: ${error.message}`,
             error.stack
           )
           // No lanzamos el error para no interrumpir la creación del usuario
@@ -181,14 +196,43 @@ export class UsersService {
         )
       }
 
+      // La contraseña asignada por un administrador es temporal
+      const update: UpdateUserDto &
+        Partial<
+          Pick<
+            User,
+            'emailVerified' | 'mustChangePassword' | 'passwordChangedAt'
+          >
+        > = { ...updateUserDto }
       if (updateUserDto.password) {
-        updateUserDto.password = await bcrypt.hash(updateUserDto.password, 10)
+        await this.passwordService.assertStrength(
+          updateUserDto.password,
+          companyId
+        )
+        update.password = await bcrypt.hash(updateUserDto.password, 10)
+        update.mustChangePassword = true
+        update.passwordChangedAt = new Date()
+      }
+
+      const current = await this.userModel
+        .findOne({ _id: id, companyId })
+        .exec()
+      if (!current) {
+        throw new NotFoundException('Usuario no encontrado')
+      }
+
+      // Un correo nuevo debe volver a verificarse
+      if (
+        updateUserDto.email &&
+        current.email.toLowerCase() !== updateUserDto.email.toLowerCase()
+      ) {
+        update.emailVerified = false
       }
 
       const updatedUser = await this.userModel
         .findOneAndUpdate(
           { _id: id, companyId },
-          { $set: updateUserDto },
+          { $set: update },
           { new: true }
         )
         .populate('companyId')
@@ -198,6 +242,19 @@ export class UsersService {
         throw new NotFoundException('Usuario no encontrado')
       }
 
+      // Los tokens emitidos con el rol o el estado anterior dejan de valer
+      const revocationReason =
+        updateUserDto.isActive === false && current.isActive
+          ? SessionRevocationReason.DEACTIVATED
+          : updateUserDto.role && updateUserDto.role !== current.role
+            ? SessionRevocationReason.ROLE_CHANGED
+            : updateUserDto.password
+              ? SessionRevocationReason.PASSWORD_CHANGED
+              : undefined
+      if (revocationReason) {
+        await this.sessionService.revokeAll(id, revocationReason)
+      }
+
       this.logger.log(`Usuario actualizado exitosamente: ${id}`)
       this.logger.debug(
         `Datos del usuario actualizado: ${JSON.stringify({
@@ -229,6 +286,10 @@ export class UsersService {
         this.logger.warn(`Usuario con ID ${id} no encontrado`)
         throw new NotFoundException(`Usuario con ID ${id} no encontrado`)
       }
+      await this.sessionService.revokeAll(
+        id,
+        SessionRevocationReason.USER_DELETED
+      )
       this.logger.log(`Usuario eliminado exitosamente: ${id}`)
     } catch (error) {
       this.logger.error(
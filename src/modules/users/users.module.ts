@@ -1,19 +1,36 @@
 import { Module } from '@nestjs/common'
 import { MongooseModule } from '@nestjs/mongoose'
 import { UsersService } from './services/users.service'
+import { UserEmailVerificationMigrationService } from './services/user-email-verification-migration.service'
 import { UsersController } from './controllers/users.controller'
 import { User, UserSchema } from './entities/user.entity'
+import {
+  PasswordToken,
+  PasswordTokenSchema,
+} from './entities/password-token.entity'
+import { PasswordService } from './services/password.service'
+import { Company, CompanySchema } from '../company/entities/company.entity'
+import { SessionModule } from '../session/session.module'
 import { EmailModule } from '../email/email.module'
 import { ConfigModule } from '@nestjs/config'
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: PasswordToken.name, schema: PasswordTokenSchema },
+      { name: Company.name, schema: CompanySchema },
+    ]),
     EmailModule,
     ConfigModule,
+    SessionModule,
   ],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  providers: [
+    UsersService,
+    PasswordService,
+    UserEmailVerificationMigrationService,
+  ],
+  exports: [UsersService, PasswordService],
 })
 export class UsersModule {}
@@ -0,0 +1,46 @@
+import {
+  DEFAULT_PASSWORD_POLICY,
+  passwordPolicyViolations,
+  resolvePasswordPolicy,
+} from './password-policy.util'
+
+describe('passwordPolicyViolations', () => {
+  it('accepts a password that meets the default policy', () => {
+    expect(
+      passwordPolicyViolations('Factura2025', DEFAULT_PASSWORD_POLICY)
+    ).toEqual([])
+  })
+
+  it('lists every unmet requirement', () => {
+    expect(
+      passwordPolicyViolations('abc', {
+        ...DEFAULT_PASSWORD_POLICY,
+        requireSymbol: true,
+      })
+    ).toEqual([
+      'Debe tener al menos 8 caracteres',
+      'Debe incluir una letra mayúscula',
+      'Debe incluir un número',
+      'Debe incluir un símbolo',
+    ])
+  })
+
+  it('rejects passwords containing the name or email of the user', () => {
+    expect(
+      passwordPolicyViolations('Mariela2025', DEFAULT_PASSWORD_POLICY, [
+        'mariela',
+        'mperez',
+      ])
+    ).toEqual(['No debe contener su nombre ni su correo'])
+  })
+})
+
+describe('resolvePasswordPolicy', () => {
+  it('fills the company policy with the defaults', () => {
+    expect(resolvePasswordPolicy({ minLength: 12 })).toEqual({
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+    })
+    expect(resolvePasswordPolicy(undefined)).toEqual(DEFAULT_PASSWORD_POLICY)
+  })
+})
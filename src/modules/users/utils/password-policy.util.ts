@@ -0,0 +1,58 @@
+export interface PasswordPolicyRules {
+  minLength: number
+  requireUppercase: boolean
+  requireLowercase: boolean
+  requireNumber: boolean
+  requireSymbol: boolean
+  // Contraseñas anteriores que no pueden reutilizarse (0 lo desactiva)
+  historySize: number
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicyRules = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historySize: 3,
+}
+
+// Las empresas sin política propia usan la predeterminada
+export function resolvePasswordPolicy(
+  policy?: Partial<PasswordPolicyRules>
+): PasswordPolicyRules {
+  return { ...DEFAULT_PASSWORD_POLICY, ...(policy ?? {}) }
+}
+
+// Devuelve los requisitos que la contraseña no cumple; vacío si es válida
+export function passwordPolicyViolations(
+  password: string,
+  policy: PasswordPolicyRules,
+  personalData: string[] = []
+): string[] {
+  const violations: string[] = []
+  if (password.length < policy.minLength) {
+    violations.push(`Debe tener al menos ${policy.minLength} caracteres`)
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Debe incluir una letra mayúscula')
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Debe incluir una letra minúscula')
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    violations.push('Debe incluir un número')
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('Debe incluir un símbolo')
+  }
+  const lower = password.toLowerCase()
+  if (
+    personalData.some(
+      value => value && value.length >= 3 && lower.includes(value.toLowerCase())
+    )
+  ) {
+    violations.push('No debe contener su nombre ni su correo')
+  }
+  return violations
+}
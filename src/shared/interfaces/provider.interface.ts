@@ -2,6 +2,14 @@ import { Document } from 'mongoose'
 import { CommonStatus } from '../enums/status.enum'
 import { UserRole } from '../enums/role.enum'
 
+export interface IProviderBankAccount {
+  bank: string
+  accountType?: string
+  accountNumber?: string
+  cci?: string
+  currency?: string
+}
+
 export interface IProviderBase {
   firstName: string
   lastName: string
@@ -11,6 +19,9 @@ export interface IProviderBase {
   address: string
   taxId: string
   products: string[]
+  bankAccounts?: IProviderBankAccount[]
+  buenContribuyente?: boolean
+  agenteRetencion?: boolean
   status: CommonStatus
   role: UserRole
   companyId: string
@@ -0,0 +1,384 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  INestApplication,
+  NotFoundException,
+  RequestMethod,
+  Type,
+} from '@nestjs/common'
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants'
+import { Test } from '@nestjs/testing'
+import { model, Schema, Types } from 'mongoose'
+import * as request from 'supertest'
+import { TenantModule } from '../src/modules/tenant/tenant.module'
+import { TENANT_PARAMS_KEY } from '../src/modules/tenant/decorators/tenant-param.decorator'
+import { scopeQuery } from '../src/modules/tenant/plugins/tenant.plugin'
+import { JwtAuthGuard } from '../src/modules/auth/guards/jwt-auth.guard'
+import { RolesGuard } from '../src/modules/auth/guards/roles.guard'
+import { JwtAuthGuard as SharedJwtAuthGuard } from '../src/guards/jwt-auth.guard'
+import { RolesGuard as SharedRolesGuard } from '../src/guards/roles.guard'
+import { ApprovalWorkflowController } from '../src/modules/approval-workflow/approval-workflow.controller'
+import { ApprovalWorkflowService } from '../src/modules/approval-workflow/approval-workflow.service'
+import { AuditController } from '../src/modules/audit/audit.controller'
+import { AuditService } from '../src/modules/audit/audit.service'
+import { AuthController } from '../src/modules/auth/auth.controller'
+import { AuthService } from '../src/modules/auth/auth.service'
+import { EmailVerificationService } from '../src/modules/auth/email-verification.service'
+import { BankReconciliationController } from '../src/modules/bank-reconciliation/bank-reconciliation.controller'
+import { BankReconciliationService } from '../src/modules/bank-reconciliation/bank-reconciliation.service'
+import { BudgetController } from '../src/modules/budget/budget.controller'
+import { BudgetService } from '../src/modules/budget/budget.service'
+import { CategoryController } from '../src/modules/category/category.controller'
+import { CategoryService } from '../src/modules/category/category.service'
+import { CompanyController } from '../src/modules/company/company.controller'
+import { CompanyService } from '../src/modules/company/company.service'
+import { ComprobanteController } from '../src/modules/comprobante/comprobante.controller'
+import { ComprobanteService } from '../src/modules/comprobante/comprobante.service'
+import { EmailService } from '../src/modules/email/email.service'
+import { ExpenseController } from '../src/modules/expense/expense.controller'
+import { ExpenseService } from '../src/modules/expense/expense.service'
+import { InvoiceController } from '../src/modules/invoice/invoice.controller'
+import { InvoiceService } from '../src/modules/invoice/invoice.service'
+import { PaymentBatchController } from '../src/modules/payment-batch/payment-batch.controller'
+import { PaymentBatchService } from '../src/modules/payment-batch/payment-batch.service'
+import { BankFileService } from '../src/modules/payment-batch/bank-file.service'
+import { ProjectTypeController } from '../src/modules/project/project-type.controller'
+import { ProjectTypeService } from '../src/modules/project/project-type.service'
+import { ProjectController } from '../src/modules/project/project.controller'
+import { ProjectService } from '../src/modules/project/project.service'
+import { ProvidersController } from '../src/modules/providers/providers.controller'
+import { ProvidersService } from '../src/modules/providers/providers.service'
+import { SessionService } from '../src/modules/session/session.service'
+import { UsersController } from '../src/modules/users/controllers/users.controller'
+import { UsersService } from '../src/modules/users/services/users.service'
+import { PasswordService } from '../src/modules/users/services/password.service'
+
+// Los servicios se reemplazan por dobles que consultan un almacén en memoria con el filtro de tenantPlugin
+jest.mock('../src/modules/approval-workflow/approval-workflow.service', () => ({
+  ApprovalWorkflowService: class {},
+}))
+jest.mock('../src/modules/audit/audit.service', () => ({
+  AuditService: class {},
+}))
+jest.mock('../src/modules/auth/auth.service', () => ({ AuthService: class {} }))
+jest.mock('../src/modules/auth/email-verification.service', () => ({
+  EmailVerificationService: class {},
+}))
+jest.mock(
+  '../src/modules/bank-reconciliation/bank-reconciliation.service',
+  () => ({ BankReconciliationService: class {} })
+)
+jest.mock('../src/modules/budget/budget.service', () => ({
+  BudgetService: class {},
+}))
+jest.mock('../src/modules/category/category.service', () => ({
+  CategoryService: class {},
+}))
+jest.mock('../src/modules/company/company.service', () => ({
+  CompanyService: class {},
+}))
+jest.mock('../src/modules/comprobante/comprobante.service', () => ({
+  ComprobanteService: class {},
+}))
+jest.mock('../src/modules/email/email.service', () => ({
+  EmailService: class {},
+}))
+jest.mock('../src/modules/expense/expense.service', () => ({
+  ExpenseService: class {},
+}))
+jest.mock('../src/modules/invoice/invoice.service', () => ({
+  InvoiceService: class {},
+}))
+jest.mock('../src/modules/payment-batch/payment-batch.service', () => ({
+  PaymentBatchService: class {},
+}))
+jest.mock('../src/modules/payment-batch/bank-file.service', () => ({
+  BankFileService: class {},
+}))
+jest.mock('../src/modules/project/project-type.service', () => ({
+  ProjectTypeService: class {},
+}))
+jest.mock('../src/modules/project/project.service', () => ({
+  ProjectService: class {},
+}))
+jest.mock('../src/modules/project/entities/project.entity', () => ({
+  Project: { name: 'Project' },
+}))
+jest.mock('../src/modules/providers/providers.service', () => ({
+  ProvidersService: class {},
+}))
+jest.mock('../src/modules/session/session.service', () => ({
+  SessionService: class {},
+}))
+jest.mock('../src/modules/users/services/users.service', () => ({
+  UsersService: class {},
+}))
+jest.mock('../src/modules/users/services/password.service', () => ({
+  PasswordService: class {},
+}))
+
+const COMPANY_A = '64b7f0c2a1b2c3d4e5f60718'
+const COMPANY_B = '64b7f0c2a1b2c3d4e5f60719'
+// Registro de la empresa B; las rutas lo piden por cualquiera de sus parámetros de id
+const RECORD_B = String(new Types.ObjectId())
+
+const CONTROLLERS: Type[] = [
+  ApprovalWorkflowController,
+  AuditController,
+  AuthController,
+  BankReconciliationController,
+  BudgetController,
+  CategoryController,
+  CompanyController,
+  ComprobanteController,
+  ExpenseController,
+  InvoiceController,
+  PaymentBatchController,
+  ProjectTypeController,
+  ProjectController,
+  ProvidersController,
+  UsersController,
+]
+
+const SERVICES: Type[] = [
+  ApprovalWorkflowService,
+  AuditService,
+  AuthService,
+  EmailVerificationService,
+  BankReconciliationService,
+  BudgetService,
+  CategoryService,
+  CompanyService,
+  ComprobanteService,
+  EmailService,
+  ExpenseService,
+  InvoiceService,
+  PaymentBatchService,
+  BankFileService,
+  ProjectTypeService,
+  ProjectService,
+  ProvidersService,
+  SessionService,
+  UsersService,
+  PasswordService,
+]
+
+const records = [
+  { _id: RECORD_B, companyId: COMPANY_B },
+  { _id: COMPANY_B, companyId: COMPANY_B },
+]
+
+// Solo se construye la consulta: el filtro de empresa es el mismo que agrega el plugin
+const TenantRecord = model(
+  'TenantIsolationRecord',
+  new Schema({ companyId: Schema.Types.ObjectId })
+)
+
+const matches = (record: Record<string, unknown>, filter: object): boolean =>
+  Object.entries(filter).every(([key, value]) =>
+    key === '$and'
+      ? (value as object[]).every(part => matches(record, part))
+      : String(record[key]) === String(value)
+  )
+
+function isVisible(id: string) {
+  const query = TenantRecord.findOne({ _id: id })
+  scopeQuery(query as any, 'companyId')
+  return records.some(record => matches(record, query.getFilter()))
+}
+
+// Nest consulta los hooks del ciclo de vida y `then` en cada provider; no son métodos del servicio
+const NOT_A_METHOD = /^(then|constructor|on[A-Z]\w*|before[A-Z]\w*)$/
+
+function tenantScopedService() {
+  return new Proxy(
+    {},
+    {
+      get: (_target, method) =>
+        typeof method !== 'string' || NOT_A_METHOD.test(method)
+          ? undefined
+          : async (...args: unknown[]) => {
+              const hidden = args.find(
+                arg =>
+                  typeof arg === 'string' &&
+                  records.some(record => record._id === arg) &&
+                  !isVisible(arg)
+              )
+              if (hidden) {
+                throw new NotFoundException('Registro no encontrado')
+              }
+              return {}
+            },
+    }
+  )
+}
+
+// El usuario se toma de la cabecera: reemplaza la validación del JWT y de los roles
+const authenticateFromHeader: CanActivate = {
+  canActivate: (context: ExecutionContext) => {
+    const req = context.switchToHttp().getRequest()
+    req.user = {
+      userId: String(new Types.ObjectId()),
+      email: 'admin@empresa.pe',
+      roles: ['ADMIN'],
+      companyId: req.headers['x-company-id'],
+    }
+    return true
+  },
+}
+const allowAll: CanActivate = { canActivate: () => true }
+
+interface Route {
+  name: string
+  method: string
+  path: string
+  params: string[]
+  tenantParams: string[]
+}
+
+const joinPath = (...parts: unknown[]) =>
+  parts
+    .map(part => String(part ?? '').replace(/^\/|\/$/g, ''))
+    .filter(Boolean)
+    .join('/')
+
+const isIdParam = (param: string) => /^(id|\w+Id)$/.test(param)
+
+function collectIdRoutes(): Route[] {
+  return CONTROLLERS.flatMap(controller => {
+    const prototype = controller.prototype
+    return Object.getOwnPropertyNames(prototype)
+      .filter(
+        key =>
+          key !== 'constructor' &&
+          Reflect.getMetadata(METHOD_METADATA, prototype[key]) !== undefined
+      )
+      .map(key => {
+        const path = joinPath(
+          Reflect.getMetadata(PATH_METADATA, controller),
+          Reflect.getMetadata(PATH_METADATA, prototype[key])
+        )
+        return {
+          name: `${controller.name}.${key}`,
+          method:
+            RequestMethod[
+              Reflect.getMetadata(METHOD_METADATA, prototype[key])
+            ].toLowerCase(),
+          path,
+          params: (path.match(/:\w+/g) ?? []).map(param => param.slice(1)),
+          tenantParams: [
+            'companyId',
+            ...(Reflect.getMetadata(TENANT_PARAMS_KEY, prototype[key]) ??
+              Reflect.getMetadata(TENANT_PARAMS_KEY, controller) ??
+              []),
+          ],
+        }
+      })
+      .filter(route => route.params.some(isIdParam))
+  })
+}
+
+// La empresa de la URL y los ids de registro apuntan a la empresa B
+const urlFor = (route: Route) =>
+  '/' +
+  route.params.reduce(
+    (path, param) =>
+      path.replace(
+        `:${param}`,
+        route.tenantParams.includes(param)
+          ? COMPANY_B
+          : isIdParam(param)
+            ? RECORD_B
+            : 'approve'
+      ),
+    route.path
+  )
+
+// Las rutas que reciben archivos validan el adjunto antes de llamar al servicio
+const UPLOADS: Record<string, string> = {
+  'InvoiceController.uploadActaAceptacion': 'actaAceptacion',
+}
+
+function send(app: INestApplication, route: Route, companyId: string) {
+  const pending = request(app.getHttpServer())
+    [route.method](urlFor(route))
+    .set('x-company-id', companyId)
+  const field = UPLOADS[route.name]
+  return field
+    ? pending.attach(field, Buffer.from('%PDF-1.4'), {
+        filename: 'acta.pdf',
+        contentType: 'application/pdf',
+      })
+    : pending.send({})
+}
+
+const idRoutes = collectIdRoutes()
+
+describe('tenant isolation (e2e)', () => {
+  let app: INestApplication
+
+  beforeAll(async () => {
+    const moduleFixture = await Test.createTestingModule({
+      imports: [TenantModule],
+      controllers: CONTROLLERS,
+      providers: SERVICES.map(service => ({
+        provide: service,
+        useValue: tenantScopedService(),
+      })),
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(authenticateFromHeader)
+      .overrideGuard(SharedJwtAuthGuard)
+      .useValue(authenticateFromHeader)
+      .overrideGuard(RolesGuard)
+      .useValue(allowAll)
+      .overrideGuard(SharedRolesGuard)
+      .useValue(allowAll)
+      .compile()
+
+    app = moduleFixture.createNestApplication()
+    await app.init()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('finds id routes in every controller that exposes them', () => {
+    const controllers = new Set(idRoutes.map(route => route.name.split('.')[0]))
+    expect(controllers).toEqual(
+      new Set([
+        'ApprovalWorkflowController',
+        'AuthController',
+        'BankReconciliationController',
+        'BudgetController',
+        'CategoryController',
+        'CompanyController',
+        'ExpenseController',
+        'InvoiceController',
+        'PaymentBatchController',
+        'ProjectTypeController',
+        'ProjectController',
+        'ProvidersController',
+        'UsersController',
+      ])
+    )
+  })
+
+  describe.each(idRoutes.map(route => [route.name, route]))(
+    '%s',
+    (_name, route: Route) => {
+      it('denies a user of company A the records of company B', async () => {
+        const response = await send(app, route, COMPANY_A)
+
+        expect([403, 404]).toContain(response.status)
+      })
+
+      it('lets a user of company B reach the same records', async () => {
+        const response = await send(app, route, COMPANY_B)
+
+        expect([403, 404]).not.toContain(response.status)
+      })
+    }
+  )
+})